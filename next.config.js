@@ -1,4 +1,7 @@
 /** @type {import('next').NextConfig} */
-const nextConfig = {}
+const nextConfig = {
+  // pdf.js and its native canvas backend are loaded from node_modules at runtime
+  serverExternalPackages: ['pdfjs-dist', '@napi-rs/canvas'],
+}
 
 module.exports = nextConfig
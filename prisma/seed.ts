@@ -1,8 +1,34 @@
 import { PrismaClient } from '@prisma/client';
 import bcrypt from 'bcrypt';
+import { getBiomarkerRangeFields, PatientDemographics } from '../src/lib/referenceRanges';
+import { normalizeBiomarkerValue } from '../src/lib/unitConversion';
 
 const prisma = new PrismaClient();
 
+// Normalize seeded measurements to canonical units and flag them against the
+// patient's reference ranges, like ingested ones
+function withReferenceRanges<T extends { biomarkerType: string; value: number; unit: string }>(
+  patient: PatientDemographics,
+  rows: T[]
+) {
+  return rows.map((row) => {
+    const { value, unit, originalValue, originalUnit } = normalizeBiomarkerValue(
+      row.biomarkerType,
+      row.value,
+      row.unit
+    );
+
+    return {
+      ...row,
+      value,
+      unit,
+      originalValue,
+      originalUnit,
+      ...getBiomarkerRangeFields(row.biomarkerType, value, unit, patient),
+    };
+  });
+}
+
 async function main() {
   console.log('🌱 Starting database seed...');
 
@@ -42,8 +68,8 @@ async function main() {
       diabetesStatus: false,
       healthScore: 68.0,
       riskScores: {
-        framingham: 10,
-        framinghamRisk: 22.5,
+        framingham: 10.2,
+        framinghamRisk: 10.2,
         lastUpdated: new Date().toISOString(),
       },
     },
@@ -62,12 +88,15 @@ async function main() {
       fileSize: 156234,
       mimeType: 'application/pdf',
       status: 'ANALYZED',
+      collectedAt: new Date('2025-10-20'),
+      collectionDateSource: 'PATIENT',
     },
   });
 
   await prisma.aIAnalysis.create({
     data: {
       reportId: p1Report1.id,
+      currentFor: { connect: { id: p1Report1.id } },
       analysisType: 'BLOOD_TEST_ANALYSIS',
       findings: JSON.stringify({
         cholesterol: { total: 195, hdl: 48, ldl: 115, triglycerides: 160 },
@@ -94,14 +123,14 @@ async function main() {
 
   // Patient 1 - Biomarker Trends
   await prisma.biomarkerTrend.createMany({
-    data: [
+    data: withReferenceRanges(patient1Profile, [
       { userId: patient1.id, biomarkerType: 'cholesterol_total', value: 240, unit: 'mg/dL', recordedDate: new Date('2025-04-15'), reportId: p1Report1.id },
       { userId: patient1.id, biomarkerType: 'cholesterol_total', value: 195, unit: 'mg/dL', recordedDate: new Date('2025-10-20'), reportId: p1Report1.id },
       { userId: patient1.id, biomarkerType: 'cholesterol_ldl', value: 165, unit: 'mg/dL', recordedDate: new Date('2025-04-15') },
       { userId: patient1.id, biomarkerType: 'cholesterol_ldl', value: 115, unit: 'mg/dL', recordedDate: new Date('2025-10-20'), reportId: p1Report1.id },
       { userId: patient1.id, biomarkerType: 'cholesterol_hdl', value: 42, unit: 'mg/dL', recordedDate: new Date('2025-04-15') },
       { userId: patient1.id, biomarkerType: 'cholesterol_hdl', value: 48, unit: 'mg/dL', recordedDate: new Date('2025-10-20'), reportId: p1Report1.id },
-    ],
+    ]),
   });
   console.log('✓ Created biomarker trends for patient 1');
 
@@ -134,9 +163,9 @@ async function main() {
     data: {
       userId: patient1.id,
       assessmentType: 'FRAMINGHAM_CVD',
-      score: 10,
+      score: 10.2,
       riskCategory: 'MODERATE',
-      riskPercentage: 22.5,
+      riskPercentage: 10.2,
       factors: { age: 52, sex: 'Male', totalCholesterol: 195, hdlCholesterol: 48, systolicBP: 135, smoking: 'FORMER' },
       recommendations: '🏃 Aim for 150 minutes of moderate exercise per week\n🥦 Continue Mediterranean diet\n💊 Maintain statin therapy\n🩺 Monitor blood pressure regularly',
       validUntil: new Date('2026-10-25'),
@@ -199,12 +228,15 @@ async function main() {
       fileSize: 124567,
       mimeType: 'application/pdf',
       status: 'ANALYZED',
+      collectedAt: new Date('2025-10-22'),
+      collectionDateSource: 'PATIENT',
     },
   });
 
   await prisma.aIAnalysis.create({
     data: {
       reportId: p2Report1.id,
+      currentFor: { connect: { id: p2Report1.id } },
       analysisType: 'BLOOD_TEST_ANALYSIS',
       findings: JSON.stringify({
         glucose: 104,
@@ -229,7 +261,7 @@ async function main() {
 
   // Patient 2 - Biomarker Trends
   await prisma.biomarkerTrend.createMany({
-    data: [
+    data: withReferenceRanges(patient2Profile, [
       { userId: patient2.id, biomarkerType: 'hba1c', value: 6.1, unit: '%', recordedDate: new Date('2025-01-10') },
       { userId: patient2.id, biomarkerType: 'hba1c', value: 5.9, unit: '%', recordedDate: new Date('2025-04-15') },
       { userId: patient2.id, biomarkerType: 'hba1c', value: 5.8, unit: '%', recordedDate: new Date('2025-07-20') },
@@ -237,7 +269,7 @@ async function main() {
       { userId: patient2.id, biomarkerType: 'glucose_fasting', value: 112, unit: 'mg/dL', recordedDate: new Date('2025-01-10') },
       { userId: patient2.id, biomarkerType: 'glucose_fasting', value: 108, unit: 'mg/dL', recordedDate: new Date('2025-04-15') },
       { userId: patient2.id, biomarkerType: 'glucose_fasting', value: 104, unit: 'mg/dL', recordedDate: new Date('2025-10-22'), reportId: p2Report1.id },
-    ],
+    ]),
   });
 
   // Patient 2 - Multiple Health Goals
@@ -353,12 +385,15 @@ async function main() {
       fileSize: 189234,
       mimeType: 'application/pdf',
       status: 'ANALYZED',
+      collectedAt: new Date('2025-10-20'),
+      collectionDateSource: 'PATIENT',
     },
   });
 
   await prisma.aIAnalysis.create({
     data: {
       reportId: p3Report1.id,
+      currentFor: { connect: { id: p3Report1.id } },
       analysisType: 'BLOOD_TEST_ANALYSIS',
       findings: JSON.stringify({
         cholesterol: { total: 175, hdl: 58, ldl: 98, triglycerides: 95 },
@@ -387,12 +422,12 @@ async function main() {
 
   // Patient 3 - Single Biomarker Entry (First time)
   await prisma.biomarkerTrend.createMany({
-    data: [
+    data: withReferenceRanges(patient3Profile, [
       { userId: patient3.id, biomarkerType: 'cholesterol_total', value: 175, unit: 'mg/dL', recordedDate: new Date('2025-10-20'), reportId: p3Report1.id },
       { userId: patient3.id, biomarkerType: 'cholesterol_hdl', value: 58, unit: 'mg/dL', recordedDate: new Date('2025-10-20'), reportId: p3Report1.id },
       { userId: patient3.id, biomarkerType: 'cholesterol_ldl', value: 98, unit: 'mg/dL', recordedDate: new Date('2025-10-20'), reportId: p3Report1.id },
       { userId: patient3.id, biomarkerType: 'glucose_fasting', value: 88, unit: 'mg/dL', recordedDate: new Date('2025-10-20'), reportId: p3Report1.id },
-    ],
+    ]),
   });
 
   // Patient 3 - Preventive Health Goal
@@ -5,6 +5,8 @@ import { useSession } from "next-auth/react";
 import toast from "react-hot-toast";
 import Breadcrumb from "@/components/Common/Breadcrumb";
 import PatientHealthTracking from "@/components/Dashboard/Doctor/PatientHealthTracking";
+import AnalysisHistory from "@/components/Dashboard/AnalysisHistory";
+import ReviewAnalysis from "@/components/Dashboard/Doctor/ReviewAnalysis";
 
 interface PatientProfile {
   age?: number;
@@ -27,6 +29,18 @@ interface Patient {
   patientProfile?: PatientProfile;
 }
 
+interface AnalysisReview {
+  decision: "ACCEPTED" | "AMENDED" | "REJECTED";
+  riskLevelOverride: string | null;
+  recommendationsOverride: string | null;
+  comment: string | null;
+  reviewedAt: string;
+  reviewer: {
+    name: string;
+    email: string;
+  };
+}
+
 interface MedicalReport {
   id: string;
   title: string;
@@ -34,13 +48,20 @@ interface MedicalReport {
   reportType: string;
   status: string;
   createdAt: string;
+  collectedAt: string | null;
   fileName: string;
   aiAnalysis?: {
+    id: string;
+    version: number;
+    modelUsed: string;
+    promptVersion: string;
+    parseStatus: "PARSED" | "UNPARSED";
     patientSummary: string;
     technicalSummary: string;
-    riskLevel: string;
-    recommendations: string;
-    confidence: number;
+    riskLevel: string | null;
+    recommendations: string | null;
+    confidence: number | null;
+    reviews: AnalysisReview[];
   };
   doctorNotes: Array<{
     id: string;
@@ -54,6 +75,12 @@ interface MedicalReport {
   }>;
 }
 
+const reviewDecisionLabels: Record<AnalysisReview["decision"], string> = {
+  ACCEPTED: "✓ Accepted",
+  AMENDED: "✎ Amended",
+  REJECTED: "✕ Rejected",
+};
+
 const PatientDetailPage = () => {
   const params = useParams();
   const router = useRouter();
@@ -72,6 +99,8 @@ const PatientDetailPage = () => {
   });
   const [savingNote, setSavingNote] = useState(false);
   const [activeTab, setActiveTab] = useState("overview");
+  const [historyReport, setHistoryReport] = useState<MedicalReport | null>(null);
+  const [reviewReport, setReviewReport] = useState<MedicalReport | null>(null);
 
   useEffect(() => {
     if (patientId) {
@@ -402,6 +431,8 @@ const PatientDetailPage = () => {
                         <p className="mt-1 text-sm text-body-color dark:text-dark-6">
                           {report.reportType} • Uploaded{" "}
                           {new Date(report.createdAt).toLocaleDateString()}
+                          {report.collectedAt &&
+                            ` • Collected ${new Date(report.collectedAt).toLocaleDateString(undefined, { timeZone: "UTC" })}`}
                         </p>
                         {report.description && (
                           <p className="mt-2 text-sm text-body-color dark:text-dark-6">
@@ -441,15 +472,69 @@ const PatientDetailPage = () => {
                             Add/Edit Note
                           </button>
                         </div>
+                        {report.aiAnalysis && (
+                          <button
+                            onClick={() => setReviewReport(report)}
+                            className="rounded-md bg-green-600 px-3 py-1 text-xs font-medium text-white transition hover:bg-green-700"
+                          >
+                            {report.aiAnalysis.reviews.length > 0 ? "Review Again" : "Review & Sign Off"}
+                          </button>
+                        )}
+                        {report.aiAnalysis && (
+                          <button
+                            onClick={() => setHistoryReport(report)}
+                            className="rounded-md border border-stroke px-3 py-1 text-xs font-medium text-dark transition hover:bg-gray-50 dark:border-dark-3 dark:text-white dark:hover:bg-dark-3"
+                          >
+                            Versions & Re-analysis
+                          </button>
+                        )}
                       </div>
                     </div>
 
                     {report.aiAnalysis && (
                       <div className="mt-4 space-y-4 border-t border-gray-200 pt-4 dark:border-dark-3">
+                        {report.aiAnalysis.reviews[0] ? (
+                          <div className="rounded-md border border-green-200 bg-green-50 p-3 dark:border-green-900 dark:bg-green-900/20">
+                            <p className="text-sm font-medium text-green-800 dark:text-green-300">
+                              {reviewDecisionLabels[report.aiAnalysis.reviews[0].decision]} by Dr.{" "}
+                              {report.aiAnalysis.reviews[0].reviewer.name}
+                              {report.aiAnalysis.reviews[0].reviewer.email === session?.user?.email && " (You)"} on{" "}
+                              {new Date(report.aiAnalysis.reviews[0].reviewedAt).toLocaleString()}
+                            </p>
+                            {report.aiAnalysis.reviews[0].riskLevelOverride && (
+                              <p className="mt-1 text-sm text-green-800 dark:text-green-300">
+                                Risk level overridden: {report.aiAnalysis.riskLevel || "none"} →{" "}
+                                {report.aiAnalysis.reviews[0].riskLevelOverride}
+                              </p>
+                            )}
+                            {report.aiAnalysis.reviews[0].recommendationsOverride && (
+                              <p className="mt-1 text-sm text-green-800 dark:text-green-300">
+                                <strong>Amended recommendations:</strong>{" "}
+                                {report.aiAnalysis.reviews[0].recommendationsOverride}
+                              </p>
+                            )}
+                            {report.aiAnalysis.reviews[0].comment && (
+                              <p className="mt-1 text-sm text-green-800 dark:text-green-300">
+                                <strong>Comment:</strong> {report.aiAnalysis.reviews[0].comment}
+                              </p>
+                            )}
+                          </div>
+                        ) : (
+                          <div className="rounded-md bg-gray-50 p-3 dark:bg-dark-2">
+                            <p className="text-sm text-body-color dark:text-dark-6">
+                              This analysis version has not been reviewed by a doctor yet.
+                            </p>
+                          </div>
+                        )}
+
                         <div>
                           <h4 className="mb-2 font-semibold text-dark dark:text-white">
                             AI Analysis - Technical Summary
                           </h4>
+                          <p className="mb-2 text-xs text-body-color dark:text-dark-6">
+                            Version {report.aiAnalysis.version} • {report.aiAnalysis.modelUsed} • Prompt v
+                            {report.aiAnalysis.promptVersion}
+                          </p>
                           <p className="text-sm text-body-color dark:text-dark-6">
                             {report.aiAnalysis.technicalSummary}
                           </p>
@@ -464,28 +549,37 @@ const PatientDetailPage = () => {
                           </p>
                         </div>
 
-                        <div className="flex items-center gap-4">
-                          <div>
-                            <h4 className="mb-1 font-semibold text-dark dark:text-white">
-                              Risk Level
-                            </h4>
-                            <span
-                              className={`inline-block rounded-full px-3 py-1 text-xs font-medium ${getRiskBadgeColor(
-                                report.aiAnalysis.riskLevel
-                              )}`}
-                            >
-                              {report.aiAnalysis.riskLevel} RISK
-                            </span>
+                        {report.aiAnalysis.parseStatus === "UNPARSED" ? (
+                          <div className="rounded-md bg-yellow-50 p-3 dark:bg-yellow-900/20">
+                            <p className="text-sm text-yellow-800 dark:text-yellow-300">
+                              ⚠️ The AI output could not be validated against the report schema. No risk level was
+                              assigned; the raw model output is shown in the technical summary above.
+                            </p>
                           </div>
-                          <div>
-                            <h4 className="mb-1 font-semibold text-dark dark:text-white">
-                              Confidence
-                            </h4>
-                            <span className="text-sm text-body-color dark:text-dark-6">
-                              {(report.aiAnalysis.confidence * 100).toFixed(0)}%
-                            </span>
+                        ) : (
+                          <div className="flex items-center gap-4">
+                            <div>
+                              <h4 className="mb-1 font-semibold text-dark dark:text-white">
+                                Risk Level
+                              </h4>
+                              <span
+                                className={`inline-block rounded-full px-3 py-1 text-xs font-medium ${getRiskBadgeColor(
+                                  report.aiAnalysis.riskLevel || ""
+                                )}`}
+                              >
+                                {report.aiAnalysis.riskLevel} RISK
+                              </span>
+                            </div>
+                            <div>
+                              <h4 className="mb-1 font-semibold text-dark dark:text-white">
+                                Confidence
+                              </h4>
+                              <span className="text-sm text-body-color dark:text-dark-6">
+                                {((report.aiAnalysis.confidence ?? 0) * 100).toFixed(0)}%
+                              </span>
+                            </div>
                           </div>
-                        </div>
+                        )}
 
                         <div>
                           <h4 className="mb-2 font-semibold text-dark dark:text-white">
@@ -542,12 +636,36 @@ const PatientDetailPage = () => {
           {/* Health Tracking Tab */}
           {activeTab === "health" && (
             <div className="rounded-lg bg-white p-6 shadow-md dark:bg-dark">
-              <PatientHealthTracking patientId={patientId} />
+              <PatientHealthTracking patientId={patientId} patientName={patient.name} />
             </div>
           )}
         </div>
       </section>
 
+      {/* Review Analysis Modal */}
+      {reviewReport?.aiAnalysis && (
+        <ReviewAnalysis
+          reportId={reviewReport.id}
+          reportTitle={reviewReport.title}
+          analysis={reviewReport.aiAnalysis}
+          onClose={() => setReviewReport(null)}
+          onSuccess={() => {
+            setReviewReport(null);
+            fetchPatientData();
+          }}
+        />
+      )}
+
+      {/* Analysis Versions Modal */}
+      {historyReport && (
+        <AnalysisHistory
+          reportId={historyReport.id}
+          reportTitle={historyReport.title}
+          onClose={() => setHistoryReport(null)}
+          onChange={fetchPatientData}
+        />
+      )}
+
       {/* Add/Edit Note Modal */}
       {showNoteModal && selectedReport && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
@@ -2,70 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/utils/auth';
 import { prisma } from '@/utils/prismaDB';
-import { analyzeMedicalReport } from '@/lib/llmAnalysis';
-import { readEncryptedFile } from '@/lib/fileStorage';
-import { convertPDFToImages } from '@/lib/pdfToImage';
-import { extractBiomarkers } from '@/lib/trendAnalysis';
-import { getEducationalRecommendations } from '@/lib/educationalContent';
-
-/**
- * Extract text and images from medical report file
- */
-async function extractReportContent(
-  fileUrl: string,
-  mimeType: string,
-  fileName: string
-): Promise<{ text: string; images: string[] }> {
-  try {
-    // Read and decrypt the file
-    const fileBuffer = await readEncryptedFile(fileUrl);
-    
-    // Extract text and images based on file type
-    if (mimeType === 'application/pdf') {
-      // Convert PDF pages to images for vision analysis (primary method)
-      const images: string[] = [];
-      let textContent = '';
-      
-      try {
-        console.log('📄 Converting PDF to images using PDFRest API...');
-        const pdfImages = await convertPDFToImages(fileBuffer, {
-          maxPages: 10, // Limit to avoid token overflow
-        });
-        images.push(...pdfImages);
-        if (images.length > 0) {
-          console.log(`✅ Successfully extracted ${images.length} page(s) from PDF as images`);
-        }
-        
-        // For PDFs with images, we rely on vision analysis
-        // Just add a basic text description
-        textContent = `[PDF Document: ${fileName}]\nThis document has been converted to images for visual analysis.`;
-      } catch (imgError) {
-        console.error('❌ PDF to image conversion failed:', imgError);
-        
-        // Fallback: try text extraction if image conversion fails
-        textContent = `[PDF file: ${fileName}]\nNote: Unable to convert PDF to images. Please ensure the file is a valid PDF and try again.`;
-      }
-
-      return { text: textContent, images };
-    } else if (mimeType.startsWith('image/')) {
-      // For images, convert to base64
-      const base64Image = fileBuffer.toString('base64');
-      return {
-        text: `[Image file: ${fileName}]`,
-        images: [base64Image],
-      };
-    } else {
-      // For other types, try to convert buffer to text
-      return {
-        text: fileBuffer.toString('utf-8'),
-        images: [],
-      };
-    }
-  } catch (error) {
-    console.error('Error extracting report content:', error);
-    throw new Error('Failed to extract content from report file');
-  }
-}
+import { drainAnalysisQueue, enqueueAnalysisJob, JOB_PROGRESS } from '@/lib/analysisQueue';
 
 export async function POST(request: NextRequest) {
   try {
@@ -75,7 +12,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const { reportId } = await request.json();
+    const { reportId, reanalyze } = await request.json();
 
     if (!reportId) {
       return NextResponse.json(
@@ -126,12 +63,12 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Access denied' }, { status: 403 });
     }
 
-    // Check if analysis already exists
-    const existingAnalysis = await prisma.aIAnalysis.findUnique({
-      where: { reportId },
-    });
+    // Check if analysis already exists (re-analysis adds a new version instead)
+    const existingAnalysis = report.currentAnalysisId
+      ? await prisma.aIAnalysis.findUnique({ where: { id: report.currentAnalysisId } })
+      : null;
 
-    if (existingAnalysis) {
+    if (existingAnalysis && !reanalyze) {
       return NextResponse.json(
         {
           success: true,
@@ -142,105 +79,28 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get patient profile for context
-    const patientProfile = await prisma.patientProfile.findUnique({
-      where: { userId: report.userId },
-    });
-
-    // Extract report content from file
-    let reportData: { text: string; images: string[] } = { text: '', images: [] };
-    try {
-      reportData = await extractReportContent(
-        report.fileUrl,
-        report.mimeType,
-        report.fileName
-      );
-    } catch (error) {
-      console.error('Failed to extract report content:', error);
-      // Use report title and description as fallback
-      reportData.text = `${report.title}\n${report.description || ''}`;
-    }
-
-    // If report content is too short, add description
-    if (reportData.text.length < 50 && report.description) {
-      reportData.text = `${report.title}\n\n${report.description}\n\n${reportData.text}`;
-    }
-
-    console.log(`📄 Analyzing ${report.reportType} report (${reportData.text.length} characters, ${reportData.images.length} images)`);
-
-    // Perform actual LLM analysis
-    const analysisData = await analyzeMedicalReport(
-      report.reportType,
-      reportData.text,
-      patientProfile,
-      reportData.images
-    );
-
-    // Extract biomarkers for longitudinal tracking
-    const biomarkers = extractBiomarkers(analysisData.findings, report.reportType);
-    const biomarkerData: any = {};
-    
-    // Save biomarkers to database for trend analysis
-    if (biomarkers.length > 0) {
-      console.log(`📊 Extracted ${biomarkers.length} biomarker(s) for tracking`);
-      
-      for (const biomarker of biomarkers) {
-        biomarkerData[biomarker.type] = biomarker.value;
-        
-        await prisma.biomarkerTrend.create({
-          data: {
-            userId: report.userId,
-            biomarkerType: biomarker.type,
-            value: biomarker.value,
-            unit: biomarker.unit,
-            reportId: report.id,
-            recordedDate: new Date(),
-          },
-        });
-      }
-    }
-
-    // Get educational content recommendations
-    const educationalLinks = getEducationalRecommendations(
-      analysisData.findings,
-      report.reportType,
-      analysisData.riskLevel
-    );
-
-    console.log(`📚 Generated ${educationalLinks.length} educational recommendation(s)`);
-
-    // Create AI analysis record with enhanced data
-    const aiAnalysis = await prisma.aIAnalysis.create({
-      data: {
-        reportId,
-        analysisType: `${report.reportType}_ANALYSIS`,
-        ...analysisData,
-        biomarkers: biomarkerData, // Store extracted biomarkers
-        educationalLinks: JSON.stringify(educationalLinks), // Store educational resources
-      },
-    });
-
-    // Update report status
-    await prisma.medicalReport.update({
-      where: { id: reportId },
-      data: { status: 'ANALYZED' },
-    });
-
-    console.log(`✅ Analysis completed for report ${reportId} using ${analysisData.modelUsed}`);
+    // Queue the analysis; the worker picks it up asynchronously
+    const job = await enqueueAnalysisJob(reportId, user.id, !!existingAnalysis);
+    void drainAnalysisQueue();
 
     return NextResponse.json(
       {
         success: true,
-        analysis: aiAnalysis,
-        biomarkers,
-        educationalResources: educationalLinks,
+        job: {
+          id: job.id,
+          reportId: job.reportId,
+          status: job.status,
+          progress: JOB_PROGRESS[job.status],
+          createdAt: job.createdAt,
+        },
+        message: existingAnalysis ? 'Re-analysis queued' : 'Analysis queued',
       },
-      { status: 201 }
+      { status: 202 }
     );
   } catch (error) {
     console.error('AI analysis error:', error);
     return NextResponse.json(
-      { error: 'Failed to generate AI analysis' },
+      { error: 'Failed to queue AI analysis' },
       { status: 500 }
     );
   }
@@ -264,8 +124,9 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const analysis = await prisma.aIAnalysis.findUnique({
-      where: { reportId },
+    // Return the current version of the report's analysis
+    const analysis = await prisma.aIAnalysis.findFirst({
+      where: { reportId, currentFor: { isNot: null } },
       include: {
         report: {
           select: {
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/utils/auth';
+import { prisma } from '@/utils/prismaDB';
+import { JOB_PROGRESS } from '@/lib/analysisQueue';
+
+/**
+ * GET /api/ai/jobs/[jobId]
+ * Poll the status of an analysis job
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const { jobId } = await params;
+
+    const job = await prisma.analysisJob.findUnique({
+      where: { id: jobId },
+      include: {
+        report: {
+          select: { id: true, userId: true, title: true, status: true },
+        },
+      },
+    });
+
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    // Verify user owns the report or is a doctor with access
+    if (job.report.userId !== user.id) {
+      if (user.role !== 'DOCTOR') {
+        return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+      }
+
+      const access = await prisma.doctorPatientAccess.findFirst({
+        where: {
+          doctorId: user.id,
+          patientId: job.report.userId,
+          status: 'APPROVED',
+        },
+      });
+
+      if (!access) {
+        return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+      }
+    }
+
+    const analysis = job.status === 'DONE'
+      ? await prisma.aIAnalysis.findFirst({
+          where: { reportId: job.reportId, currentFor: { isNot: null } },
+        })
+      : null;
+
+    return NextResponse.json(
+      {
+        job: {
+          id: job.id,
+          reportId: job.reportId,
+          status: job.status,
+          progress: JOB_PROGRESS[job.status],
+          attempts: job.attempts,
+          maxAttempts: job.maxAttempts,
+          error: job.error,
+          runAfter: job.runAfter,
+          startedAt: job.startedAt,
+          finishedAt: job.finishedAt,
+          createdAt: job.createdAt,
+          updatedAt: job.updatedAt,
+        },
+        analysis,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Fetch analysis job error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch analysis job' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/utils/auth';
 import { prisma } from '@/utils/prismaDB';
+import { latestReviewInclude } from '@/lib/analysisReview';
 
 export async function GET(
   request: NextRequest,
@@ -62,7 +63,9 @@ export async function GET(
     const reports = await prisma.medicalReport.findMany({
       where: { userId: patientId },
       include: {
-        aiAnalysis: true,
+        aiAnalysis: {
+          include: latestReviewInclude,
+        },
         doctorNotes: {
           include: {
             doctor: {
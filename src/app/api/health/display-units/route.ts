@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/utils/auth';
+import { prisma } from '@/utils/prismaDB';
+import { getAvailableUnits, getCanonicalUnit, UNIT_REGISTRY } from '@/lib/unitConversion';
+
+/**
+ * GET /api/health/display-units
+ * Get the current user's display unit per biomarker and the units each biomarker supports
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+      select: { displayUnits: true },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const availableUnits = Object.fromEntries(
+      Object.entries(UNIT_REGISTRY).map(([analyte, { canonicalUnit, units }]) => [
+        analyte,
+        { canonicalUnit, units: units.map((definition) => definition.unit) },
+      ])
+    );
+
+    return NextResponse.json({
+      displayUnits: user.displayUnits ?? {},
+      availableUnits,
+    });
+  } catch (error: any) {
+    console.error('Error fetching display units:', error);
+    return NextResponse.json({ error: 'Failed to fetch display units' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/health/display-units
+ * Set the display unit of one or more biomarkers: { displayUnits: { glucose_fasting: "mmol/L" } }.
+ * Choosing the canonical unit removes the preference.
+ */
+export async function PUT(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const body = await req.json();
+    const updates: Record<string, string> = body.displayUnits || {};
+    const displayUnits: Record<string, string> = {
+      ...((user.displayUnits as Record<string, string> | null) ?? {}),
+    };
+
+    for (const [biomarkerType, unit] of Object.entries(updates)) {
+      if (!getAvailableUnits(biomarkerType).includes(unit)) {
+        return NextResponse.json(
+          { error: `Unsupported unit "${unit}" for ${biomarkerType}` },
+          { status: 400 }
+        );
+      }
+
+      if (unit === getCanonicalUnit(biomarkerType)) {
+        delete displayUnits[biomarkerType];
+      } else {
+        displayUnits[biomarkerType] = unit;
+      }
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { displayUnits },
+    });
+
+    return NextResponse.json({
+      success: true,
+      displayUnits,
+      message: 'Display units updated successfully',
+    });
+  } catch (error: any) {
+    console.error('Error updating display units:', error);
+    return NextResponse.json({ error: 'Failed to update display units' }, { status: 500 });
+  }
+}
@@ -1,8 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { GoalStatus } from '@prisma/client';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/utils/auth';
 import { prisma } from '@/utils/prismaDB';
 import { getGoalEducationalResources } from '@/lib/educationalContent';
+import { getGoalForecast } from '@/lib/goalForecast';
+import { isGoalTargetMet, transitionGoalStatus } from '@/lib/goalProgress';
 
 /**
  * GET /api/health/goals
@@ -77,12 +80,16 @@ export async function GET(req: NextRequest) {
           orderBy: { recordedAt: 'desc' },
           take: 10,
         },
+        statusChanges: {
+          orderBy: { changedAt: 'desc' },
+          take: 5,
+        },
       },
       orderBy: { createdAt: 'desc' },
     });
 
-    // Calculate progress percentage for each goal
-    const goalsWithProgress = goals.map(goal => {
+    // Calculate progress percentage and the forecast for the target date of each goal
+    const goalsWithProgress = await Promise.all(goals.map(async (goal) => {
       const latestProgress = goal.progress[0];
       const progressPercentage = latestProgress
         ? Math.round(((latestProgress.value - (goal.currentValue || 0)) / 
@@ -96,8 +103,9 @@ export async function GET(req: NextRequest) {
         daysRemaining: Math.ceil(
           (new Date(goal.targetDate).getTime() - Date.now()) / (1000 * 60 * 60 * 24)
         ),
+        forecast: goal.status === 'IN_PROGRESS' ? await getGoalForecast(targetProfile.userId, goal) : null,
       };
-    });
+    }));
 
     return NextResponse.json({ goals: goalsWithProgress });
   } catch (error: any) {
@@ -199,7 +207,7 @@ export async function PATCH(req: NextRequest) {
     }
 
     const body = await req.json();
-    const { goalId, action, value, notes, status } = body;
+    const { goalId, action, value, notes, status, reason } = body;
 
     if (!goalId) {
       return NextResponse.json({ error: 'Goal ID required' }, { status: 400 });
@@ -237,17 +245,16 @@ export async function PATCH(req: NextRequest) {
         },
       });
 
-      // Check if goal is achieved
-      const isAchieved =
-        goal.targetMetric.includes('decrease') || goal.targetMetric.includes('lower')
-          ? parseFloat(value) <= goal.targetValue
-          : parseFloat(value) >= goal.targetValue;
+      // Check if goal is achieved, in the direction the goal moves towards its target
+      const isAchieved = isGoalTargetMet(goal, progress.value);
 
       if (isAchieved && goal.status !== 'ACHIEVED') {
-        await prisma.healthGoal.update({
-          where: { id: goalId },
-          data: { status: 'ACHIEVED' },
-        });
+        await transitionGoalStatus(
+          goal,
+          'ACHIEVED',
+          `Recorded value ${progress.value} ${goal.unit} meets the target of ${goal.targetValue} ${goal.unit}`,
+          user.id
+        );
       }
 
       return NextResponse.json({
@@ -260,10 +267,12 @@ export async function PATCH(req: NextRequest) {
       });
     } else if (action === 'update_status') {
       // Update goal status
-      const updatedGoal = await prisma.healthGoal.update({
-        where: { id: goalId },
-        data: { status },
-      });
+      if (!Object.values(GoalStatus).includes(status)) {
+        return NextResponse.json({ error: 'Invalid status' }, { status: 400 });
+      }
+
+      await transitionGoalStatus(goal, status, reason || 'Updated by the patient', user.id);
+      const updatedGoal = await prisma.healthGoal.findUnique({ where: { id: goalId } });
 
       return NextResponse.json({
         success: true,
@@ -2,14 +2,19 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/utils/auth';
 import { prisma } from '@/utils/prismaDB';
-import {
-  calculateComprehensiveRiskProfile,
-  RiskFactors,
-} from '@/lib/riskAssessment';
+import { normalizeRiskFactorInputs } from '@/lib/unitConversion';
+import { reassessPatientRisk } from '@/lib/riskReassessment';
+import { parseRiskFactorOverrides } from '@/lib/patientRiskFactors';
+import { RiskFactors } from '@/lib/riskAssessment';
+
+const HISTORY_LIMIT = 50;
 
 /**
  * POST /api/health/risk-assessment
- * Calculate comprehensive risk assessment for a patient
+ * Calculate comprehensive risk assessment for a patient.
+ * Doctors pass userId to run and sign an assessment for a patient they have
+ * access to; values in biomarkerData (e.g. an in-office BP) are recorded as
+ * verified by them, with an optional note.
  */
 export async function POST(req: NextRequest) {
   try {
@@ -21,86 +26,64 @@ export async function POST(req: NextRequest) {
 
     const user = await prisma.user.findUnique({
       where: { email: session.user.email },
-      include: { patientProfile: true },
     });
 
-    if (!user || user.role !== 'PATIENT') {
+    if (!user || (user.role !== 'PATIENT' && user.role !== 'DOCTOR')) {
       return NextResponse.json(
-        { error: 'Only patients can calculate risk assessments' },
+        { error: 'Only patients and their doctors can calculate risk assessments' },
         { status: 403 }
       );
     }
 
     const body = await req.json();
-    const { biomarkerData } = body;
+    const requestedUserId: string | undefined = body.userId;
 
-    // Combine patient profile data with biomarker data
-    const profile = user.patientProfile;
-    
-    const riskFactors: RiskFactors = {
-      age: profile?.age || 0,
-      biologicalSex: (profile?.biologicalSex?.toUpperCase() as 'MALE' | 'FEMALE') || 'MALE',
-      weight: profile?.weight || undefined,
-      height: profile?.height || undefined,
-      smokingStatus: (profile?.smokingStatus as any) || 'NEVER',
-      diabetesStatus: profile?.diabetesStatus || false,
-      ...biomarkerData, // Include latest biomarker values from request
-    };
-
-    // Calculate comprehensive risk profile
-    const riskProfile = await calculateComprehensiveRiskProfile(riskFactors);
-
-    // Save risk assessments to database
-    const assessments = [];
-
-    if (riskProfile.framingham) {
-      const framinghamAssessment = await prisma.riskAssessment.create({
-        data: {
-          userId: user.id,
-          assessmentType: 'FRAMINGHAM_CVD',
-          score: riskProfile.framingham.score,
-          riskCategory: riskProfile.framingham.riskCategory,
-          factors: riskProfile.framingham.factors,
-          recommendations: riskProfile.framingham.recommendations.join('\n'),
-          validUntil: new Date(
-            Date.now() + riskProfile.framingham.validityPeriod * 24 * 60 * 60 * 1000
-          ),
+    // Determine target user ID
+    let targetUserId = user.id;
+
+    // If assessing another user, verify doctor access
+    if (requestedUserId && requestedUserId !== user.id) {
+      if (user.role !== 'DOCTOR') {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 403 });
+      }
+
+      const access = await prisma.doctorPatientAccess.findFirst({
+        where: {
+          doctorId: user.id,
+          patientId: requestedUserId,
+          status: 'APPROVED',
         },
       });
-      assessments.push(framinghamAssessment);
+
+      if (!access) {
+        return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+      }
+
+      targetUserId = requestedUserId;
+    } else if (user.role === 'DOCTOR') {
+      return NextResponse.json({ error: 'Select a patient to assess' }, { status: 400 });
     }
 
-    if (riskProfile.diabetes) {
-      const diabetesAssessment = await prisma.riskAssessment.create({
-        data: {
-          userId: user.id,
-          assessmentType: 'DIABETES_RISK',
-          score: riskProfile.diabetes.score,
-          riskCategory: riskProfile.diabetes.riskCategory,
-          factors: riskProfile.diabetes.factors,
-          recommendations: riskProfile.diabetes.recommendations.join('\n'),
-          validUntil: new Date(
-            Date.now() + riskProfile.diabetes.validityPeriod * 24 * 60 * 60 * 1000
-          ),
-        },
-      });
-      assessments.push(diabetesAssessment);
+    // Lab values may be sent as { value, unit }; the calculators expect canonical units
+    let biomarkerData: Partial<RiskFactors>;
+    try {
+      biomarkerData = parseRiskFactorOverrides(normalizeRiskFactorInputs(body.biomarkerData || {}));
+    } catch (error: any) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
     }
 
-    // Update health score in patient profile
-    await prisma.patientProfile.update({
-      where: { userId: user.id },
-      data: {
-        healthScore: riskProfile.overallHealthScore,
-        riskScores: {
-          framingham: riskProfile.framingham?.score,
-          framinghamRisk: riskProfile.framingham?.percentageRisk,
-          diabetes: riskProfile.diabetes?.score,
-          diabetesRisk: riskProfile.diabetes?.percentageRisk,
-          lastUpdated: new Date().toISOString(),
-        },
-      },
-    });
+    // Profile data and the latest stored biomarkers, overridden by values sent in the request
+    const { riskProfile, assessments } =
+      user.role === 'DOCTOR'
+        ? await reassessPatientRisk(targetUserId, 'CLINICIAN', biomarkerData, {
+            doctorId: user.id,
+            note: typeof body.note === 'string' ? body.note.trim() : null,
+          })
+        : await reassessPatientRisk(targetUserId, 'MANUAL', biomarkerData);
+
+    if (user.role === 'DOCTOR') {
+      console.log(`🩺 Doctor ${user.id} signed ${assessments.length} risk assessment(s) for patient ${targetUserId}`);
+    }
 
     return NextResponse.json({
       success: true,
@@ -119,7 +102,8 @@ export async function POST(req: NextRequest) {
 
 /**
  * GET /api/health/risk-assessment
- * Get latest risk assessments for the current user or specified patient (for doctors)
+ * Get latest risk assessments for the current user or specified patient (for doctors).
+ * Pass history=true to also get past assessments.
  */
 export async function GET(req: NextRequest) {
   try {
@@ -166,16 +150,38 @@ export async function GET(req: NextRequest) {
       targetUserId = requestedUserId;
     }
 
-    // Get latest valid risk assessments
+    // Get the latest valid assessment of each type; automatic reassessments keep older ones as history
     const assessments = await prisma.riskAssessment.findMany({
       where: {
         userId: targetUserId,
         validUntil: { gte: new Date() },
       },
+      include: { assessedBy: { select: { name: true } } },
       orderBy: { calculatedAt: 'desc' },
-      take: 10,
+      distinct: ['assessmentType'],
     });
 
+    // All assessments, including expired ones, with who or what ran them
+    const history =
+      searchParams.get('history') === 'true'
+        ? await prisma.riskAssessment.findMany({
+            where: { userId: targetUserId },
+            select: {
+              id: true,
+              assessmentType: true,
+              riskCategory: true,
+              riskPercentage: true,
+              score: true,
+              trigger: true,
+              clinicianNote: true,
+              calculatedAt: true,
+              assessedBy: { select: { name: true } },
+            },
+            orderBy: { calculatedAt: 'desc' },
+            take: HISTORY_LIMIT,
+          })
+        : undefined;
+
     // Get health score from patient profile
     const patientProfile = await prisma.patientProfile.findUnique({
       where: { userId: targetUserId },
@@ -184,6 +190,7 @@ export async function GET(req: NextRequest) {
 
     return NextResponse.json({
       riskAssessments: assessments,
+      history,
       healthScore: patientProfile?.healthScore || 0,
       riskScores: patientProfile?.riskScores || {},
     });
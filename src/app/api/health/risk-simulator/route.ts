@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/utils/auth';
+import { prisma } from '@/utils/prismaDB';
+import { RiskFactors, simulateRiskScenario } from '@/lib/riskAssessment';
+import { getPatientRiskFactors, parseRiskFactorOverrides } from '@/lib/patientRiskFactors';
+import { normalizeRiskFactorInputs } from '@/lib/unitConversion';
+
+/**
+ * POST /api/health/risk-simulator
+ * Recalculate the risk scores with what-if changes, e.g.
+ * { changes: { smokingStatus: "NEVER", systolicBP: 120 } }, without saving anything.
+ * Doctors pass userId to simulate for a patient they have access to.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const body = await req.json();
+    const requestedUserId: string | undefined = body.userId;
+
+    // Determine target user ID
+    let targetUserId = user.id;
+
+    // If simulating for another user, verify doctor access
+    if (requestedUserId && requestedUserId !== user.id) {
+      if (user.role !== 'DOCTOR') {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 403 });
+      }
+
+      const access = await prisma.doctorPatientAccess.findFirst({
+        where: {
+          doctorId: user.id,
+          patientId: requestedUserId,
+          status: 'APPROVED',
+        },
+      });
+
+      if (!access) {
+        return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+      }
+
+      targetUserId = requestedUserId;
+    } else if (user.role !== 'PATIENT') {
+      return NextResponse.json({ error: 'Select a patient to simulate' }, { status: 400 });
+    }
+
+    // Lab values may be sent as { value, unit }; the calculators expect canonical units
+    let scenario: Partial<RiskFactors>;
+    try {
+      scenario = parseRiskFactorOverrides(normalizeRiskFactorInputs(body.changes || {}));
+    } catch (error: any) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    const baseline = await getPatientRiskFactors(targetUserId);
+    const comparison = await simulateRiskScenario(baseline, scenario);
+
+    return NextResponse.json(comparison);
+  } catch (error: any) {
+    console.error('Risk simulation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to simulate risk scenario' },
+      { status: 500 }
+    );
+  }
+}
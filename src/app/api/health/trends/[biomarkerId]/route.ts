@@ -0,0 +1,198 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BiomarkerTrend } from '@prisma/client';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/utils/auth';
+import { prisma } from '@/utils/prismaDB';
+import { CALCULATED_SOURCE } from '@/lib/derivedBiomarkers';
+import { getDerivedBiomarkerTypes } from '@/lib/biomarkerValidation';
+import { reassessRiskAfterBiomarkersRemoved, reassessRiskAfterNewBiomarkers } from '@/lib/riskReassessment';
+import { reevaluateGoalsAfterRemovedBiomarkers, updateGoalsAfterNewBiomarkers } from '@/lib/goalProgress';
+
+/**
+ * Load the biomarker if it belongs to the signed-in user or they are a doctor with approved access
+ */
+async function getAccessibleBiomarker(biomarkerId: string, email: string) {
+  const user = await prisma.user.findUnique({
+    where: { email },
+  });
+
+  if (!user) {
+    return { error: NextResponse.json({ error: 'User not found' }, { status: 404 }) };
+  }
+
+  const biomarker = await prisma.biomarkerTrend.findUnique({
+    where: { id: biomarkerId },
+  });
+
+  if (!biomarker) {
+    return { error: NextResponse.json({ error: 'Biomarker not found' }, { status: 404 }) };
+  }
+
+  if (biomarker.userId !== user.id) {
+    const access = user.role === 'DOCTOR'
+      ? await prisma.doctorPatientAccess.findFirst({
+          where: {
+            doctorId: user.id,
+            patientId: biomarker.userId,
+            status: 'APPROVED',
+          },
+        })
+      : null;
+
+    if (!access) {
+      return { error: NextResponse.json({ error: 'Access denied' }, { status: 403 }) };
+    }
+  }
+
+  return { user, biomarker };
+}
+
+/**
+ * Values calculated from a biomarker on the same date (e.g. eGFR from creatinine)
+ */
+function getDerivedRowsWhere(biomarker: BiomarkerTrend) {
+  return {
+    userId: biomarker.userId,
+    biomarkerType: { in: getDerivedBiomarkerTypes(biomarker.biomarkerType) },
+    reportId: biomarker.reportId,
+    recordedDate: biomarker.recordedDate,
+    extractionSource: CALCULATED_SOURCE,
+  };
+}
+
+/**
+ * PATCH /api/health/trends/[biomarkerId]
+ * Resolve a quarantined biomarker value: { action: "CONFIRM" | "REJECT" }.
+ * Confirmed values join trends and risk scores; rejected values are deleted.
+ * Values calculated from it on the same date (e.g. eGFR from creatinine) follow.
+ * Allowed for the patient and doctors with approved access.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ biomarkerId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { biomarkerId } = await params;
+    const { user, biomarker, error } = await getAccessibleBiomarker(biomarkerId, session.user.email);
+
+    if (error) {
+      return error;
+    }
+
+    if (biomarker.status !== 'QUARANTINED') {
+      return NextResponse.json(
+        { error: 'Only values awaiting confirmation can be confirmed or rejected' },
+        { status: 400 }
+      );
+    }
+
+    const { action } = await request.json();
+
+    if (action !== 'CONFIRM' && action !== 'REJECT') {
+      return NextResponse.json(
+        { error: 'action must be CONFIRM or REJECT' },
+        { status: 400 }
+      );
+    }
+
+    const derivedWhere = { ...getDerivedRowsWhere(biomarker), status: 'QUARANTINED' };
+
+    if (action === 'REJECT') {
+      await prisma.$transaction([
+        prisma.biomarkerTrend.deleteMany({ where: derivedWhere }),
+        prisma.biomarkerTrend.delete({ where: { id: biomarkerId } }),
+      ]);
+      console.log(`🗑️ Rejected quarantined ${biomarker.biomarkerType} ${biomarkerId} (by ${user.id})`);
+
+      return NextResponse.json({ success: true, message: 'Value rejected and removed' });
+    }
+
+    const confirmation = { status: 'CONFIRMED', confirmedById: user.id, confirmedAt: new Date() };
+    const derived = await prisma.biomarkerTrend.findMany({ where: derivedWhere, select: { biomarkerType: true } });
+
+    const [updated] = await prisma.$transaction([
+      prisma.biomarkerTrend.update({ where: { id: biomarkerId }, data: confirmation }),
+      prisma.biomarkerTrend.updateMany({ where: derivedWhere, data: confirmation }),
+    ]);
+    console.log(`✅ Confirmed quarantined ${biomarker.biomarkerType} ${biomarkerId} (by ${user.id})`);
+
+    // The confirmed value now counts as a new result
+    const confirmedTypes = [biomarker.biomarkerType, ...derived.map((row) => row.biomarkerType)];
+    await reassessRiskAfterNewBiomarkers(biomarker.userId, confirmedTypes);
+    await updateGoalsAfterNewBiomarkers(biomarker.userId, confirmedTypes);
+
+    return NextResponse.json({ success: true, biomarker: updated, message: 'Value confirmed' });
+  } catch (error) {
+    console.error('Error resolving quarantined biomarker:', error);
+    return NextResponse.json(
+      { error: 'Failed to update biomarker' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/health/trends/[biomarkerId]
+ * Remove a tracked value, e.g. one imported after the import's undo window.
+ * Values calculated from it on the same date and the goal progress recorded from
+ * them are removed with it, and risk and goals are re-evaluated without them.
+ * Allowed for the patient and doctors with approved access.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ biomarkerId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { biomarkerId } = await params;
+    const { user, biomarker, error } = await getAccessibleBiomarker(biomarkerId, session.user.email);
+
+    if (error) {
+      return error;
+    }
+
+    const derivedWhere = getDerivedRowsWhere(biomarker);
+    const derived = await prisma.biomarkerTrend.findMany({
+      where: derivedWhere,
+      select: { biomarkerType: true, status: true },
+    });
+
+    await prisma.$transaction([
+      prisma.biomarkerTrend.deleteMany({ where: derivedWhere }),
+      prisma.biomarkerTrend.delete({ where: { id: biomarkerId } }),
+    ]);
+    console.log(`🗑️ Removed ${biomarker.biomarkerType} ${biomarkerId} of ${biomarker.recordedDate.toISOString().split('T')[0]} (by ${user.id})`);
+
+    // Quarantined values were never used for risk or goals
+    const removedTypes = [biomarker, ...derived]
+      .filter((row) => row.status !== 'QUARANTINED')
+      .map((row) => row.biomarkerType);
+    if (removedTypes.length > 0) {
+      await reassessRiskAfterBiomarkersRemoved(biomarker.userId, removedTypes);
+      await reevaluateGoalsAfterRemovedBiomarkers(
+        biomarker.userId,
+        removedTypes,
+        `The ${biomarker.biomarkerType.replace(/_/g, ' ')} result of ${biomarker.recordedDate.toISOString().split('T')[0]} was removed`
+      );
+    }
+
+    return NextResponse.json({ success: true, message: 'Value removed' });
+  } catch (error) {
+    console.error('Error removing biomarker:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove biomarker' },
+      { status: 500 }
+    );
+  }
+}
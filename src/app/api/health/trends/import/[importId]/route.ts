@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/utils/auth';
+import { prisma } from '@/utils/prismaDB';
+import { undoBiomarkerImport } from '@/lib/biomarkerImport';
+
+/**
+ * DELETE /api/health/trends/import/[importId]
+ * Undo a spreadsheet import within its undo window, removing the values it added
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ importId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const { importId } = await params;
+
+    const biomarkerImport = await prisma.biomarkerImport.findFirst({
+      where: { id: importId, userId: user.id },
+    });
+
+    if (!biomarkerImport) {
+      return NextResponse.json({ error: 'Import not found' }, { status: 404 });
+    }
+
+    if (biomarkerImport.status === 'UNDONE') {
+      return NextResponse.json({ error: 'This import was already undone' }, { status: 409 });
+    }
+
+    if (biomarkerImport.undoDeadline < new Date()) {
+      return NextResponse.json(
+        { error: 'The undo window for this import has passed; remove individual values instead' },
+        { status: 409 }
+      );
+    }
+
+    const undone = await undoBiomarkerImport(biomarkerImport);
+
+    return NextResponse.json({
+      success: true,
+      import: undone,
+      message: `Removed the values imported from ${biomarkerImport.fileName}`,
+    });
+  } catch (error) {
+    console.error('Error undoing biomarker import:', error);
+    return NextResponse.json(
+      { error: 'Failed to undo import' },
+      { status: 500 }
+    );
+  }
+}
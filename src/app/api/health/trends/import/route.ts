@@ -0,0 +1,172 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/utils/auth';
+import { prisma } from '@/utils/prismaDB';
+import {
+  buildImportPreview,
+  countImportValues,
+  ImportMapping,
+  importBiomarkers,
+  MAX_IMPORT_VALUES,
+  suggestImportMapping,
+  validateImportMapping,
+} from '@/lib/biomarkerImport';
+import { parseSpreadsheet, SpreadsheetData } from '@/lib/spreadsheet';
+
+const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
+
+/**
+ * GET /api/health/trends/import
+ * Recent spreadsheet imports of the patient, with whether each can still be undone
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const imports = await prisma.biomarkerImport.findMany({
+      where: { userId: user.id },
+      orderBy: { createdAt: 'desc' },
+      take: 10,
+    });
+
+    return NextResponse.json({
+      imports: imports.map((biomarkerImport) => ({
+        ...biomarkerImport,
+        canUndo: biomarkerImport.status === 'IMPORTED' && biomarkerImport.undoDeadline > new Date(),
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching biomarker imports:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch imports' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/health/trends/import
+ * Preview a CSV/XLSX file of lab and vitals results with a suggested (or the given)
+ * column mapping; with confirm=true, import its valid rows
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user || user.role !== 'PATIENT') {
+      return NextResponse.json(
+        { error: 'Only patients can import their results' },
+        { status: 403 }
+      );
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+    const mappingField = formData.get('mapping') as string | null;
+    const confirm = formData.get('confirm') === 'true';
+
+    if (!file) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+    }
+
+    if (file.size > MAX_FILE_SIZE) {
+      return NextResponse.json(
+        { error: 'File size exceeds 5MB limit' },
+        { status: 400 }
+      );
+    }
+
+    let data: SpreadsheetData;
+    try {
+      data = parseSpreadsheet(Buffer.from(await file.arrayBuffer()), file.name);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Could not read the file' },
+        { status: 400 }
+      );
+    }
+
+    if (data.headers.length === 0 || data.rows.length === 0) {
+      return NextResponse.json(
+        { error: 'The file needs a header row and at least one row of results' },
+        { status: 400 }
+      );
+    }
+
+    let mapping: ImportMapping;
+    try {
+      mapping = mappingField ? JSON.parse(mappingField) : suggestImportMapping(data.headers);
+    } catch {
+      return NextResponse.json({ error: 'mapping must be valid JSON' }, { status: 400 });
+    }
+
+    const mappingError = validateImportMapping(mapping, data.headers);
+    if (mappingError && (confirm || mappingField)) {
+      return NextResponse.json({ error: mappingError }, { status: 400 });
+    }
+
+    const valueCount = mappingError ? 0 : countImportValues(data, mapping);
+    if (valueCount > MAX_IMPORT_VALUES) {
+      return NextResponse.json(
+        { error: `The file has ${valueCount} values; import at most ${MAX_IMPORT_VALUES} at a time` },
+        { status: 400 }
+      );
+    }
+
+    // A suggested mapping that doesn't work yet is returned for the patient to complete
+    const preview = mappingError
+      ? { mapping, rows: [], summary: { VALID: 0, QUARANTINE: 0, DUPLICATE: 0, ERROR: 0 } }
+      : await buildImportPreview(user.id, data, mapping);
+
+    if (!confirm) {
+      return NextResponse.json({
+        headers: data.headers,
+        rowCount: data.rows.length,
+        mappingError,
+        ...preview,
+      });
+    }
+
+    if (preview.summary.VALID + preview.summary.QUARANTINE === 0) {
+      return NextResponse.json(
+        { error: 'The file has no new values to import' },
+        { status: 400 }
+      );
+    }
+
+    const biomarkerImport = await importBiomarkers(user.id, file.name, preview);
+
+    return NextResponse.json({
+      success: true,
+      import: biomarkerImport,
+      summary: preview.summary,
+      message: `Imported ${biomarkerImport.importedCount} value(s)`,
+    });
+  } catch (error) {
+    console.error('Error importing biomarkers:', error);
+    return NextResponse.json(
+      { error: 'Failed to import biomarkers' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/utils/auth';
+import { prisma } from '@/utils/prismaDB';
+import { importBiomarkers, MAX_IMPORT_VALUES } from '@/lib/biomarkerImport';
+import { buildWearablePreview, readWearableExport, WearableData } from '@/lib/wearableImport';
+
+const MAX_FILE_SIZE = 200 * 1024 * 1024; // 200MB, Apple Health exports of a few years are large
+
+/**
+ * POST /api/health/trends/import/wearable
+ * Preview the daily vitals of an Apple Health export or Google Fit Takeout archive;
+ * with confirm=true, import the new values
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user || user.role !== 'PATIENT') {
+      return NextResponse.json(
+        { error: 'Only patients can import their results' },
+        { status: 403 }
+      );
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+    const confirm = formData.get('confirm') === 'true';
+
+    if (!file) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+    }
+
+    if (file.size > MAX_FILE_SIZE) {
+      return NextResponse.json(
+        { error: 'File size exceeds 200MB limit' },
+        { status: 400 }
+      );
+    }
+
+    let data: WearableData;
+    try {
+      data = await readWearableExport(Buffer.from(await file.arrayBuffer()), file.name);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Could not read the export' },
+        { status: 400 }
+      );
+    }
+
+    if (data.aggregates.length === 0) {
+      return NextResponse.json(
+        { error: 'The export has no blood pressure, heart rate, weight or fasting glucose readings' },
+        { status: 400 }
+      );
+    }
+
+    if (data.aggregates.length > MAX_IMPORT_VALUES) {
+      return NextResponse.json(
+        { error: `The export has ${data.aggregates.length} daily values; import at most ${MAX_IMPORT_VALUES} at a time` },
+        { status: 400 }
+      );
+    }
+
+    const preview = await buildWearablePreview(user.id, data);
+
+    if (!confirm) {
+      return NextResponse.json(preview);
+    }
+
+    if (preview.summary.VALID + preview.summary.QUARANTINE === 0) {
+      return NextResponse.json(
+        { error: 'The export has no new values to import' },
+        { status: 400 }
+      );
+    }
+
+    const biomarkerImport = await importBiomarkers(user.id, file.name, preview, preview.source);
+
+    return NextResponse.json({
+      success: true,
+      import: biomarkerImport,
+      summary: preview.summary,
+      message: `Imported ${biomarkerImport.importedCount} daily value(s)`,
+    });
+  } catch (error) {
+    console.error('Error importing wearable data:', error);
+    return NextResponse.json(
+      { error: 'Failed to import wearable data' },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,16 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/utils/auth';
 import { prisma } from '@/utils/prismaDB';
 import { getComprehensiveTrendAnalysis } from '@/lib/trendAnalysis';
+import { formatReferenceRange, getBiomarkerRangeFields } from '@/lib/referenceRanges';
+import {
+  convertTrendRowForDisplay,
+  normalizeBiomarkerValue,
+  toDisplayUnit,
+} from '@/lib/unitConversion';
+import { CALCULATED_SOURCE, getDerivedBiomarkersForNewResult, getSameDrawWhere } from '@/lib/derivedBiomarkers';
+import { reassessRiskAfterNewBiomarkers } from '@/lib/riskReassessment';
+import { updateGoalsAfterNewBiomarkers } from '@/lib/goalProgress';
+import { checkDerivedBiomarker, validateBiomarkerValue } from '@/lib/biomarkerValidation';
 
 /**
  * GET /api/health/trends
@@ -54,18 +64,25 @@ export async function GET(req: NextRequest) {
       targetUserId = requestedUserId;
     }
 
+    // Values are stored in canonical units and shown in the viewer's chosen units
+    const displayUnits = (user.displayUnits as Record<string, string> | null) ?? null;
+
     if (biomarkerType) {
       // Get trend for specific biomarker
       const trendData = await prisma.biomarkerTrend.findMany({
         where: {
           userId: targetUserId,
           biomarkerType,
+          status: { not: 'QUARANTINED' },
         },
         orderBy: { recordedDate: 'desc' },
         take: 20,
       });
 
-      return NextResponse.json({ biomarkerType, data: trendData });
+      return NextResponse.json({
+        biomarkerType,
+        data: trendData.map((row) => convertTrendRowForDisplay(row, displayUnits)),
+      });
     } else {
       // Get comprehensive trend analysis
       const trendAnalysis = await getComprehensiveTrendAnalysis(targetUserId);
@@ -73,38 +90,67 @@ export async function GET(req: NextRequest) {
       // Get all biomarker data organized by type
       const biomarkersByType = await prisma.biomarkerTrend.groupBy({
         by: ['biomarkerType'],
-        where: { userId: targetUserId },
+        where: { userId: targetUserId, status: { not: 'QUARANTINED' } },
       });
 
       const trendData: { [key: string]: any[] } = {};
+      const storedUnits: { [key: string]: string } = {};
       
       for (const { biomarkerType } of biomarkersByType) {
         const data = await prisma.biomarkerTrend.findMany({
           where: {
             userId: targetUserId,
             biomarkerType,
+            status: { not: 'QUARANTINED' },
           },
           orderBy: { recordedDate: 'asc' },
           take: 20,
         });
-        trendData[biomarkerType] = data;
+        storedUnits[biomarkerType] = data.at(-1)?.unit || '';
+        trendData[biomarkerType] = data.map((row) => convertTrendRowForDisplay(row, displayUnits));
       }
 
       // Map the trends to the expected frontend format
-      const formattedTrends = trendAnalysis.trends.map(trend => ({
-        biomarkerType: trend.biomarkerType,
-        trend: trend.trend === 'INSUFFICIENT_DATA' ? 'STABLE' : trend.trend,
-        percentageChange: trend.changePercent || 0,
-        dataPoints: trend.dataPoints.length,
-        latestValue: trend.currentValue,
-        earliestValue: trend.previousValue || trend.currentValue,
-        unit: trendData[trend.biomarkerType]?.[0]?.unit || '',
-        alert: trend.alert,
-      }));
+      const formattedTrends = trendAnalysis.trends.map(trend => {
+        const rows = trendData[trend.biomarkerType] ?? [];
+        const latestRow = rows.at(-1);
+        const storedUnit = storedUnits[trend.biomarkerType] || '';
+        const toDisplay = (value: number) =>
+          toDisplayUnit(trend.biomarkerType, value, storedUnit, displayUnits).value;
+        // Rates are differences, so convert them relative to the latest value
+        const toDisplayRate = (rate: number) =>
+          Number((toDisplay(trend.currentValue + rate) - toDisplay(trend.currentValue)).toPrecision(3));
+        const regression = trend.regression;
+
+        return {
+          biomarkerType: trend.biomarkerType,
+          trend: trend.trend === 'INSUFFICIENT_DATA' ? 'STABLE' : trend.trend,
+          percentageChange: trend.changePercent || 0,
+          dataPoints: trend.dataPoints.length,
+          latestValue: toDisplay(trend.currentValue),
+          earliestValue: toDisplay(trend.previousValue || trend.currentValue),
+          unit: latestRow?.unit || '',
+          ratePerYear: regression ? toDisplayRate(regression.ratePerYear) : null,
+          rateConfidenceInterval: regression?.confidenceInterval?.map(toDisplayRate) ?? null,
+          significant: regression?.significant ?? false,
+          alert: trend.alert,
+          flag: trend.flag,
+          referenceRange: latestRow
+            ? formatReferenceRange(latestRow.referenceLow, latestRow.referenceHigh, latestRow.unit)
+            : trend.referenceRange,
+        };
+      });
+
+      // Values awaiting confirmation are listed with the reason they were held back
+      const quarantined = await prisma.biomarkerTrend.findMany({
+        where: { userId: targetUserId, status: 'QUARANTINED' },
+        orderBy: { recordedDate: 'desc' },
+      });
 
       return NextResponse.json({
         trends: formattedTrends,
         trendData,
+        quarantined: quarantined.map((row) => convertTrendRowForDisplay(row, displayUnits)),
         summary: trendAnalysis.summary,
         alerts: trendAnalysis.alerts,
       });
@@ -148,21 +194,96 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Create biomarker entry
+    const patientProfile = await prisma.patientProfile.findUnique({
+      where: { userId: user.id },
+    });
+
+    const measurement = normalizeBiomarkerValue(biomarkerType, parseFloat(value), unit);
+
+    const date = recordedDate ? new Date(recordedDate) : new Date();
+
+    // Implausible values and sudden jumps are held back until confirmed
+    const check = await validateBiomarkerValue(
+      prisma,
+      user.id,
+      biomarkerType,
+      measurement.value,
+      measurement.unit,
+      date
+    );
+
+    // Create biomarker entry in the canonical unit, flagged against the patient's reference range
     const biomarker = await prisma.biomarkerTrend.create({
       data: {
         userId: user.id,
         biomarkerType,
-        value: parseFloat(value),
-        unit,
-        recordedDate: recordedDate ? new Date(recordedDate) : new Date(),
+        value: measurement.value,
+        unit: measurement.unit,
+        originalValue: measurement.originalValue,
+        originalUnit: measurement.originalUnit,
+        ...getBiomarkerRangeFields(biomarkerType, measurement.value, measurement.unit, patientProfile ?? {}),
+        recordedDate: date,
         reportId: reportId || undefined,
+        status: check.status,
+        quarantineReason: check.reason,
       },
     });
 
+    const addedTypes = [biomarkerType];
+    const quarantinedTypes = check.status === 'QUARANTINED' ? [biomarkerType] : [];
+
+    // A measured value takes the place of one calculated for the same draw
+    await prisma.biomarkerTrend.deleteMany({
+      where: { ...getSameDrawWhere(user.id, date, reportId), biomarkerType, extractionSource: CALCULATED_SOURCE },
+    });
+
+    // Values calculated from this result and the others of the same draw (eGFR, lipid ratios, MAP, BMI)
+    const derivedBiomarkers = await getDerivedBiomarkersForNewResult(biomarker, patientProfile ?? {});
+    for (const derived of derivedBiomarkers) {
+      const derivedCheck = checkDerivedBiomarker(derived.type, quarantinedTypes);
+      await prisma.$transaction([
+        prisma.biomarkerTrend.deleteMany({
+          where: { ...getSameDrawWhere(user.id, date, reportId), biomarkerType: derived.type, extractionSource: CALCULATED_SOURCE },
+        }),
+        prisma.biomarkerTrend.create({
+          data: {
+            userId: user.id,
+            biomarkerType: derived.type,
+            value: derived.value,
+            unit: derived.unit,
+            extractionSource: derived.source,
+            formula: derived.formula,
+            ...getBiomarkerRangeFields(derived.type, derived.value, derived.unit, patientProfile ?? {}),
+            recordedDate: date,
+            reportId: reportId || undefined,
+            status: derivedCheck.status,
+            quarantineReason: derivedCheck.reason,
+          },
+        }),
+      ]);
+      addedTypes.push(derived.type);
+    }
+
+    if (check.status === 'QUARANTINED') {
+      console.warn(`🚧 Quarantined manual ${biomarkerType} for user ${user.id}: ${check.reason}`);
+      return NextResponse.json({
+        success: true,
+        biomarker,
+        quarantined: true,
+        reason: check.reason,
+        message: 'Biomarker saved but held for confirmation before it is used in trends and risk scores',
+      });
+    }
+
+    // Recalculate risk when the new value is a risk calculator input
+    await reassessRiskAfterNewBiomarkers(user.id, addedTypes);
+    // Record the value on goals that track this biomarker
+    await updateGoalsAfterNewBiomarkers(user.id, addedTypes);
+
     return NextResponse.json({
       success: true,
       biomarker,
+      quarantined: false,
       message: 'Biomarker data added successfully',
     });
   } catch (error: any) {
@@ -77,12 +77,6 @@ export async function POST(request: NextRequest) {
         },
       });
 
-      // Update report status to REVIEWED
-      await prisma.medicalReport.update({
-        where: { id: reportId },
-        data: { status: 'REVIEWED' },
-      });
-
       return NextResponse.json(
         {
           success: true,
@@ -104,12 +98,6 @@ export async function POST(request: NextRequest) {
       },
     });
 
-    // Update report status to REVIEWED
-    await prisma.medicalReport.update({
-      where: { id: reportId },
-      data: { status: 'REVIEWED' },
-    });
-
     return NextResponse.json(
       {
         success: true,
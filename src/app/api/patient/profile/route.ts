@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/utils/auth';
 import { prisma } from '@/utils/prismaDB';
+import { parsePatientConditions } from '@/lib/atrialFibrillation';
 
 export async function GET(request: NextRequest) {
   try {
@@ -63,6 +64,8 @@ export async function PUT(request: NextRequest) {
     const {
       age,
       biologicalSex,
+      race,
+      ethnicity,
       weight,
       height,
       bloodType,
@@ -71,12 +74,15 @@ export async function PUT(request: NextRequest) {
       medicalHistory,
       chronicIllness,
       familyHistory,
+      conditions,
     } = body;
 
     // Parse values correctly
     const parsedAge = age ? parseInt(age.toString()) : undefined;
     const parsedWeight = weight ? parseFloat(weight.toString()) : undefined;
     const parsedHeight = height ? parseFloat(height.toString()) : undefined;
+    // Unanswered conditions are left out so risk scores flag them as missing
+    const parsedConditions = conditions !== undefined ? parsePatientConditions(conditions) : undefined;
 
     // Update or create patient profile
     const profile = await prisma.patientProfile.upsert({
@@ -84,6 +90,8 @@ export async function PUT(request: NextRequest) {
       update: {
         age: parsedAge,
         biologicalSex: biologicalSex || undefined,
+        race: race || undefined,
+        ethnicity: ethnicity || undefined,
         weight: parsedWeight,
         height: parsedHeight,
         bloodType: bloodType || undefined,
@@ -92,11 +100,14 @@ export async function PUT(request: NextRequest) {
         medicalHistory: medicalHistory || undefined,
         chronicIllness: chronicIllness || undefined,
         familyHistory: familyHistory || undefined,
+        conditions: parsedConditions,
       },
       create: {
         userId: user.id,
         age: parsedAge,
         biologicalSex,
+        race,
+        ethnicity,
         weight: parsedWeight,
         height: parsedHeight,
         bloodType,
@@ -105,6 +116,7 @@ export async function PUT(request: NextRequest) {
         medicalHistory,
         chronicIllness,
         familyHistory,
+        conditions: parsedConditions,
       },
     });
 
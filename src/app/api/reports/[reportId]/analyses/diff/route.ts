@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/utils/auth';
+import { prisma } from '@/utils/prismaDB';
+import { diffAnalysisVersions } from '@/lib/analysisVersions';
+
+/**
+ * GET /api/reports/[reportId]/analyses/diff?from=<analysisId>&to=<analysisId>
+ * Compare the findings and risk levels of two analysis versions
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ reportId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const { reportId } = await params;
+    const { searchParams } = new URL(request.url);
+    const fromId = searchParams.get('from');
+    const toId = searchParams.get('to');
+
+    if (!fromId || !toId) {
+      return NextResponse.json(
+        { error: 'Both from and to analysis IDs are required' },
+        { status: 400 }
+      );
+    }
+
+    const report = await prisma.medicalReport.findUnique({
+      where: { id: reportId },
+    });
+
+    if (!report) {
+      return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+    }
+
+    // Verify user owns the report or is a doctor with access
+    if (report.userId !== user.id) {
+      if (user.role !== 'DOCTOR') {
+        return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+      }
+
+      const access = await prisma.doctorPatientAccess.findFirst({
+        where: {
+          doctorId: user.id,
+          patientId: report.userId,
+          status: 'APPROVED',
+        },
+      });
+
+      if (!access) {
+        return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+      }
+    }
+
+    const [from, to] = await Promise.all([
+      prisma.aIAnalysis.findFirst({ where: { id: fromId, reportId } }),
+      prisma.aIAnalysis.findFirst({ where: { id: toId, reportId } }),
+    ]);
+
+    if (!from || !to) {
+      return NextResponse.json(
+        { error: 'Analysis version not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { diff: diffAnalysisVersions(from, to) },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Diff analysis versions error:', error);
+    return NextResponse.json(
+      { error: 'Failed to compare analysis versions' },
+      { status: 500 }
+    );
+  }
+}
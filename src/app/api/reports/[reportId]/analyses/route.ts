@@ -0,0 +1,179 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/utils/auth';
+import { prisma } from '@/utils/prismaDB';
+import { setCurrentAnalysisVersion, summarizeAnalysisVersion } from '@/lib/analysisVersions';
+import { reassessRiskAfterECG, reassessRiskAfterNewBiomarkers } from '@/lib/riskReassessment';
+import { reevaluateGoalsAfterRemovedBiomarkers, updateGoalsAfterNewBiomarkers } from '@/lib/goalProgress';
+import { hasAtrialFibrillationFinding } from '@/lib/atrialFibrillation';
+
+/**
+ * Load the report if the signed-in user owns it or is a doctor with approved access
+ */
+async function getAccessibleReport(reportId: string, email: string) {
+  const user = await prisma.user.findUnique({
+    where: { email },
+  });
+
+  if (!user) {
+    return { error: NextResponse.json({ error: 'User not found' }, { status: 404 }) };
+  }
+
+  const report = await prisma.medicalReport.findUnique({
+    where: { id: reportId },
+  });
+
+  if (!report) {
+    return { error: NextResponse.json({ error: 'Report not found' }, { status: 404 }) };
+  }
+
+  if (report.userId !== user.id) {
+    if (user.role !== 'DOCTOR') {
+      return { error: NextResponse.json({ error: 'Access denied' }, { status: 403 }) };
+    }
+
+    const access = await prisma.doctorPatientAccess.findFirst({
+      where: {
+        doctorId: user.id,
+        patientId: report.userId,
+        status: 'APPROVED',
+      },
+    });
+
+    if (!access) {
+      return { error: NextResponse.json({ error: 'Access denied' }, { status: 403 }) };
+    }
+  }
+
+  return { user, report };
+}
+
+/**
+ * GET /api/reports/[reportId]/analyses
+ * List every analysis version of a report, newest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ reportId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { reportId } = await params;
+    const { report, error } = await getAccessibleReport(reportId, session.user.email);
+
+    if (error) {
+      return error;
+    }
+
+    const analyses = await prisma.aIAnalysis.findMany({
+      where: { reportId },
+      orderBy: { version: 'desc' },
+    });
+
+    return NextResponse.json(
+      {
+        currentAnalysisId: report.currentAnalysisId,
+        versions: analyses.map((analysis) => ({
+          ...summarizeAnalysisVersion(analysis),
+          requestedBy: analysis.requestedBy,
+          isCurrent: analysis.id === report.currentAnalysisId,
+        })),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Fetch analysis versions error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch analysis versions' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/reports/[reportId]/analyses
+ * Mark an analysis version as the current one
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ reportId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { reportId } = await params;
+    const { user, report, error } = await getAccessibleReport(reportId, session.user.email);
+
+    if (error) {
+      return error;
+    }
+
+    const { analysisId } = await request.json();
+
+    if (!analysisId) {
+      return NextResponse.json(
+        { error: 'Analysis ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const exists = await prisma.aIAnalysis.findFirst({
+      where: { id: analysisId, reportId },
+      select: { id: true },
+    });
+
+    if (!exists) {
+      return NextResponse.json(
+        { error: 'Analysis version not found' },
+        { status: 404 }
+      );
+    }
+
+    const { analysis, replacedTypes } = await setCurrentAnalysisVersion(reportId, analysisId);
+    console.log(`🔁 Report ${reportId} now uses analysis v${analysis.version} (set by ${user.id})`);
+
+    // The report's biomarker rows were rebuilt from this version
+    if (report.reportType === 'ECG' && hasAtrialFibrillationFinding(analysis.findings)) {
+      await reassessRiskAfterECG(report.userId, reportId);
+    } else {
+      await reassessRiskAfterNewBiomarkers(
+        report.userId,
+        Object.keys((analysis.biomarkers as Record<string, number>) ?? {})
+      );
+    }
+    await updateGoalsAfterNewBiomarkers(
+      report.userId,
+      Object.keys((analysis.biomarkers as Record<string, number>) ?? {})
+    );
+    // Progress recorded from the replaced rows was deleted with them
+    await reevaluateGoalsAfterRemovedBiomarkers(
+      report.userId,
+      replacedTypes,
+      `Report ${reportId} now uses analysis v${analysis.version}`
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        analysis,
+        message: `Version ${analysis.version} is now the current analysis`,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Set current analysis version error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update current analysis version' },
+      { status: 500 }
+    );
+  }
+}
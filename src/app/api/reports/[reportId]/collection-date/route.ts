@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/utils/auth';
+import { prisma } from '@/utils/prismaDB';
+import { isPlausibleCollectionDate, parseReportDate } from '@/lib/collectionDate';
+import { checkDerivedBiomarker, validateBiomarkerValue } from '@/lib/biomarkerValidation';
+import { CALCULATED_SOURCE } from '@/lib/derivedBiomarkers';
+import { reevaluateGoalsAfterRemovedBiomarkers, updateGoalsAfterNewBiomarkers } from '@/lib/goalProgress';
+import { reassessRiskAfterNewBiomarkers } from '@/lib/riskReassessment';
+
+/**
+ * PUT /api/reports/[reportId]/collection-date
+ * Confirm or correct the specimen collection date of a report: { collectedAt: "YYYY-MM-DD" }.
+ * Biomarkers already extracted from the report move to the confirmed date, with the
+ * goal progress recorded from them, and are delta-checked again against the results
+ * before the new date. Values that were confirmed stay confirmed.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ reportId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const { reportId } = await params;
+
+    const report = await prisma.medicalReport.findUnique({
+      where: { id: reportId },
+    });
+
+    if (!report) {
+      return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+    }
+
+    if (report.userId !== user.id) {
+      return NextResponse.json(
+        { error: 'Only the patient who uploaded the report can confirm its collection date' },
+        { status: 403 }
+      );
+    }
+
+    const { collectedAt } = await request.json();
+    const date = typeof collectedAt === 'string' ? parseReportDate(collectedAt) : null;
+
+    if (!date || !isPlausibleCollectionDate(date)) {
+      return NextResponse.json(
+        { error: 'collectedAt must be a valid date (YYYY-MM-DD) that is not in the future' },
+        { status: 400 }
+      );
+    }
+
+    const { updatedReport, rows, newlyQuarantinedTypes } = await prisma.$transaction(async (tx) => {
+      const updatedReport = await tx.medicalReport.update({
+        where: { id: reportId },
+        data: { collectedAt: date, collectionDateSource: 'PATIENT' },
+      });
+
+      const rows = await tx.biomarkerTrend.findMany({
+        where: { reportId },
+        orderBy: { createdAt: 'asc' },
+      });
+      // Measured values first, so values calculated from them see their new status
+      const isCalculated = (row: { extractionSource: string | null }) => Number(row.extractionSource === CALCULATED_SOURCE);
+      rows.sort((a, b) => isCalculated(a) - isCalculated(b));
+
+      await tx.biomarkerTrend.updateMany({
+        where: { reportId },
+        data: { recordedDate: date },
+      });
+      await tx.goalProgress.updateMany({
+        where: { biomarker: { reportId } },
+        data: { recordedAt: date },
+      });
+
+      const quarantinedTypes: string[] = [];
+      const newlyQuarantinedTypes: string[] = [];
+      for (const row of rows) {
+        if (row.status === 'CONFIRMED') continue;
+
+        const check = row.extractionSource === CALCULATED_SOURCE
+          ? checkDerivedBiomarker(row.biomarkerType, quarantinedTypes)
+          : await validateBiomarkerValue(tx, report.userId, row.biomarkerType, row.value, row.unit, date, reportId);
+        if (check.status === 'QUARANTINED') quarantinedTypes.push(row.biomarkerType);
+        if (check.status === row.status && check.reason === row.quarantineReason) continue;
+
+        await tx.biomarkerTrend.update({
+          where: { id: row.id },
+          data: { status: check.status, quarantineReason: check.reason },
+        });
+        if (check.status === 'QUARANTINED') {
+          // Quarantined values are kept out of goal progress until confirmed
+          await tx.goalProgress.deleteMany({ where: { biomarkerId: row.id } });
+          newlyQuarantinedTypes.push(row.biomarkerType);
+          console.warn(`🚧 Quarantined ${row.biomarkerType} of report ${reportId} on its new date: ${check.reason}`);
+        }
+      }
+
+      return { updatedReport, rows, newlyQuarantinedTypes };
+    });
+
+    if (rows.length > 0) {
+      console.log(`📅 Moved ${rows.length} biomarker(s) of report ${reportId} to ${collectedAt}`);
+
+      // The moved values count as new results on their new date
+      const movedTypes = Array.from(new Set(rows.map((row) => row.biomarkerType)));
+      await reassessRiskAfterNewBiomarkers(report.userId, movedTypes);
+      await updateGoalsAfterNewBiomarkers(report.userId, movedTypes);
+      if (newlyQuarantinedTypes.length > 0) {
+        await reevaluateGoalsAfterRemovedBiomarkers(
+          report.userId,
+          newlyQuarantinedTypes,
+          `Results of report ${reportId} are awaiting confirmation after its collection date changed`
+        );
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      collectedAt: updatedReport.collectedAt,
+      collectionDateSource: updatedReport.collectionDateSource,
+    });
+  } catch (error) {
+    console.error('Error updating collection date:', error);
+    return NextResponse.json(
+      { error: 'Failed to update collection date' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,177 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/utils/auth';
+import { prisma } from '@/utils/prismaDB';
+import { submitAnalysisReview, validateReviewInput } from '@/lib/analysisReview';
+
+/**
+ * POST /api/reports/[reportId]/review
+ * Sign off the current analysis version: accept, amend (override risk level
+ * and/or recommendations) or reject it
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ reportId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const doctor = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!doctor || doctor.role !== 'DOCTOR') {
+      return NextResponse.json(
+        { error: 'Only doctors can review analyses' },
+        { status: 403 }
+      );
+    }
+
+    const { reportId } = await params;
+
+    const report = await prisma.medicalReport.findUnique({
+      where: { id: reportId },
+      include: { aiAnalysis: true },
+    });
+
+    if (!report) {
+      return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+    }
+
+    // Verify doctor has access to this patient
+    const access = await prisma.doctorPatientAccess.findFirst({
+      where: {
+        doctorId: doctor.id,
+        patientId: report.userId,
+        status: 'APPROVED',
+      },
+    });
+
+    if (!access) {
+      return NextResponse.json(
+        { error: 'You do not have access to this patient' },
+        { status: 403 }
+      );
+    }
+
+    if (!report.aiAnalysis) {
+      return NextResponse.json(
+        { error: 'This report has not been analyzed yet' },
+        { status: 400 }
+      );
+    }
+
+    const { analysisId, decision, riskLevel, recommendations, comment } = await request.json();
+
+    // Guard against signing off a version that was replaced while the doctor was reading it
+    if (analysisId && analysisId !== report.aiAnalysis.id) {
+      return NextResponse.json(
+        { error: 'The current analysis version has changed. Please reload and review again.' },
+        { status: 409 }
+      );
+    }
+
+    const input = { decision, riskLevel, recommendations, comment };
+    const errors = validateReviewInput(input);
+
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: errors.join('. '), errors },
+        { status: 400 }
+      );
+    }
+
+    const review = await submitAnalysisReview(report.aiAnalysis, doctor.id, input);
+    console.log(`🩺 Report ${reportId} analysis v${report.aiAnalysis.version} ${review.decision} by ${doctor.id}`);
+
+    return NextResponse.json(
+      {
+        success: true,
+        review,
+        message: 'Review saved successfully',
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Review analysis error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save review' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/reports/[reportId]/review
+ * Review history of a report across all analysis versions
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ reportId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const { reportId } = await params;
+
+    const report = await prisma.medicalReport.findUnique({
+      where: { id: reportId },
+    });
+
+    if (!report) {
+      return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+    }
+
+    // Verify user owns the report or is a doctor with access
+    if (report.userId !== user.id) {
+      if (user.role !== 'DOCTOR') {
+        return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+      }
+
+      const access = await prisma.doctorPatientAccess.findFirst({
+        where: {
+          doctorId: user.id,
+          patientId: report.userId,
+          status: 'APPROVED',
+        },
+      });
+
+      if (!access) {
+        return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+      }
+    }
+
+    const reviews = await prisma.analysisReview.findMany({
+      where: { reportId },
+      include: {
+        analysis: { select: { version: true } },
+        reviewer: { select: { name: true, email: true } },
+      },
+      orderBy: { reviewedAt: 'desc' },
+    });
+
+    return NextResponse.json({ reviews }, { status: 200 });
+  } catch (error) {
+    console.error('Fetch reviews error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch reviews' },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,9 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/utils/auth';
 import { saveEncryptedFile } from '@/lib/fileStorage';
 import { prisma } from '@/utils/prismaDB';
+import { latestReviewInclude } from '@/lib/analysisReview';
+import { extractPDFText } from '@/lib/pdfToImage';
+import { DetectedCollectionDate, detectCollectionDate, toDateInputValue } from '@/lib/collectionDate';
 
 const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
 
@@ -78,6 +81,16 @@ export async function POST(request: NextRequest) {
     // Save encrypted file
     const fileId = await saveEncryptedFile(buffer, file.name);
 
+    // Read the collection date from the text layer so the patient can confirm it
+    let detectedCollectionDate: DetectedCollectionDate | null = null;
+    if (file.type === 'application/pdf') {
+      try {
+        detectedCollectionDate = detectCollectionDate(await extractPDFText(buffer, { maxPages: 2 }));
+      } catch (error) {
+        console.warn('⚠️ Could not read the collection date from the PDF:', error);
+      }
+    }
+
     // Create medical report record
     const medicalReport = await prisma.medicalReport.create({
       data: {
@@ -90,6 +103,8 @@ export async function POST(request: NextRequest) {
         fileSize: file.size,
         mimeType: file.type,
         status: 'PENDING',
+        collectedAt: detectedCollectionDate?.date ?? null,
+        collectionDateSource: detectedCollectionDate ? 'REPORT_TEXT' : null,
       },
     });
 
@@ -102,6 +117,12 @@ export async function POST(request: NextRequest) {
           reportType: medicalReport.reportType,
           status: medicalReport.status,
           uploadedAt: medicalReport.uploadedAt,
+          collectedAt: medicalReport.collectedAt,
+        },
+        detectedCollectionDate: detectedCollectionDate && {
+          date: toDateInputValue(detectedCollectionDate.date),
+          label: detectedCollectionDate.label,
+          kind: detectedCollectionDate.kind,
         },
       },
       { status: 201 }
@@ -135,7 +156,9 @@ export async function GET(request: NextRequest) {
     const reports = await prisma.medicalReport.findMany({
       where: { userId: user.id },
       include: {
-        aiAnalysis: true,
+        aiAnalysis: {
+          include: latestReviewInclude,
+        },
         doctorNotes: {
           include: {
             doctor: {
@@ -0,0 +1,343 @@
+"use client";
+import { useCallback, useEffect, useRef, useState } from "react";
+import toast from "react-hot-toast";
+
+interface AnalysisHistoryProps {
+  reportId: string;
+  reportTitle: string;
+  onClose: () => void;
+  onChange: () => void;
+}
+
+interface AnalysisVersion {
+  id: string;
+  version: number;
+  modelUsed: string;
+  promptVersion: string;
+  parseStatus: "PARSED" | "UNPARSED";
+  riskLevel: string | null;
+  confidence: number | null;
+  analyzedAt: string;
+  isCurrent: boolean;
+}
+
+interface FindingChange {
+  path: string;
+  change: "added" | "removed" | "changed";
+  from?: any;
+  to?: any;
+}
+
+interface VersionDiff {
+  from: AnalysisVersion;
+  to: AnalysisVersion;
+  riskLevelChanged: boolean;
+  confidenceChange: number | null;
+  summaryChanged: boolean;
+  recommendationsChanged: boolean;
+  findings: FindingChange[];
+}
+
+const formatValue = (value: any) =>
+  value === undefined ? "—" : typeof value === "object" ? JSON.stringify(value) : String(value);
+
+const AnalysisHistory = ({ reportId, reportTitle, onClose, onChange }: AnalysisHistoryProps) => {
+  const [versions, setVersions] = useState<AnalysisVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reanalyzing, setReanalyzing] = useState(false);
+  const [fromId, setFromId] = useState("");
+  const [toId, setToId] = useState("");
+  const [diff, setDiff] = useState<VersionDiff | null>(null);
+  const pollingStopped = useRef(false);
+
+  const fetchVersions = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/reports/${reportId}/analyses`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load analysis versions");
+      }
+
+      setVersions(data.versions);
+      // Default comparison: previous version against the newest one
+      if (data.versions.length >= 2) {
+        setFromId(data.versions[1].id);
+        setToId(data.versions[0].id);
+      }
+    } catch (error: any) {
+      toast.error(error.message || "Failed to load analysis versions");
+    } finally {
+      setLoading(false);
+    }
+  }, [reportId]);
+
+  useEffect(() => {
+    pollingStopped.current = false;
+    fetchVersions();
+    return () => {
+      pollingStopped.current = true;
+    };
+  }, [fetchVersions]);
+
+  const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  const handleReanalyze = async () => {
+    setReanalyzing(true);
+    try {
+      const response = await fetch("/api/ai/analyze", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reportId, reanalyze: true }),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.job) {
+        throw new Error(data.error || "Failed to queue re-analysis");
+      }
+
+      toast.success("Re-analysis queued");
+
+      // Wait for the job so the new version shows up in the list
+      while (!pollingStopped.current) {
+        await sleep(3000);
+        const jobResponse = await fetch(`/api/ai/jobs/${data.job.id}`);
+        const jobData = await jobResponse.json();
+
+        if (!jobResponse.ok) {
+          throw new Error(jobData.error || "Failed to check analysis status");
+        }
+        if (jobData.job.status === "FAILED") {
+          throw new Error(jobData.job.error || "Re-analysis failed");
+        }
+        if (jobData.job.status === "DONE") {
+          toast.success("Re-analysis complete");
+          await fetchVersions();
+          onChange();
+          break;
+        }
+      }
+    } catch (error: any) {
+      toast.error(error.message || "Re-analysis failed");
+    } finally {
+      setReanalyzing(false);
+    }
+  };
+
+  const handleMakeCurrent = async (analysisId: string) => {
+    try {
+      const response = await fetch(`/api/reports/${reportId}/analyses`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ analysisId }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update current version");
+      }
+
+      toast.success(data.message);
+      await fetchVersions();
+      onChange();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to update current version");
+    }
+  };
+
+  const handleCompare = async () => {
+    if (!fromId || !toId || fromId === toId) {
+      toast.error("Select two different versions to compare");
+      return;
+    }
+
+    try {
+      const response = await fetch(
+        `/api/reports/${reportId}/analyses/diff?from=${fromId}&to=${toId}`
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to compare versions");
+      }
+
+      setDiff(data.diff);
+    } catch (error: any) {
+      toast.error(error.message || "Failed to compare versions");
+    }
+  };
+
+  const changeColors: Record<FindingChange["change"], string> = {
+    added: "text-green-600 dark:text-green-400",
+    removed: "text-red-600 dark:text-red-400",
+    changed: "text-yellow-600 dark:text-yellow-400",
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="max-h-[90vh] w-full max-w-3xl overflow-y-auto rounded-lg bg-white p-6 dark:bg-dark">
+        <div className="mb-4 flex items-start justify-between">
+          <h3 className="text-xl font-bold text-dark dark:text-white">
+            Analysis History - {reportTitle}
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-body-color hover:text-dark dark:text-dark-6 dark:hover:text-white"
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className="mb-4 flex items-center justify-between">
+          <p className="text-sm text-body-color dark:text-dark-6">
+            Every analysis run is kept. Re-analysis uses the currently configured model and prompts.
+          </p>
+          <button
+            onClick={handleReanalyze}
+            disabled={reanalyzing}
+            className="rounded-md bg-primary px-3 py-1 text-xs font-medium text-white transition hover:bg-primary/90 disabled:opacity-50"
+          >
+            {reanalyzing ? "Re-analyzing..." : "Re-analyze"}
+          </button>
+        </div>
+
+        {loading ? (
+          <p className="text-sm text-body-color dark:text-dark-6">Loading versions...</p>
+        ) : (
+          <div className="space-y-2">
+            {versions.map((version) => (
+              <div
+                key={version.id}
+                className={`flex items-center justify-between rounded-md border p-3 ${
+                  version.isCurrent
+                    ? "border-primary bg-primary/5"
+                    : "border-gray-200 dark:border-dark-3"
+                }`}
+              >
+                <div>
+                  <p className="text-sm font-medium text-dark dark:text-white">
+                    Version {version.version}
+                    {version.isCurrent && (
+                      <span className="ml-2 rounded-full bg-primary px-2 py-0.5 text-xs text-white">
+                        Current
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs text-body-color dark:text-dark-6">
+                    {version.modelUsed} • Prompt v{version.promptVersion} •{" "}
+                    {new Date(version.analyzedAt).toLocaleString()}
+                  </p>
+                  <p className="text-xs text-body-color dark:text-dark-6">
+                    {version.parseStatus === "UNPARSED"
+                      ? "Unparsed output"
+                      : `${version.riskLevel} risk • ${((version.confidence ?? 0) * 100).toFixed(0)}% confidence`}
+                  </p>
+                </div>
+                {!version.isCurrent && (
+                  <button
+                    onClick={() => handleMakeCurrent(version.id)}
+                    className="rounded-md border border-stroke px-3 py-1 text-xs font-medium text-dark transition hover:bg-gray-50 dark:border-dark-3 dark:text-white dark:hover:bg-dark-3"
+                  >
+                    Make Current
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {versions.length >= 2 && (
+          <div className="mt-6 border-t border-gray-200 pt-4 dark:border-dark-3">
+            <h4 className="mb-3 font-semibold text-dark dark:text-white">Compare Versions</h4>
+            <div className="flex flex-wrap items-center gap-3">
+              <select
+                value={fromId}
+                onChange={(e) => setFromId(e.target.value)}
+                className="rounded-md border border-stroke bg-transparent px-3 py-2 text-sm text-dark dark:border-dark-3 dark:text-white"
+              >
+                {versions.map((version) => (
+                  <option key={version.id} value={version.id}>
+                    Version {version.version}
+                  </option>
+                ))}
+              </select>
+              <span className="text-sm text-body-color dark:text-dark-6">→</span>
+              <select
+                value={toId}
+                onChange={(e) => setToId(e.target.value)}
+                className="rounded-md border border-stroke bg-transparent px-3 py-2 text-sm text-dark dark:border-dark-3 dark:text-white"
+              >
+                {versions.map((version) => (
+                  <option key={version.id} value={version.id}>
+                    Version {version.version}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={handleCompare}
+                className="rounded-md bg-primary px-3 py-2 text-xs font-medium text-white transition hover:bg-primary/90"
+              >
+                Compare
+              </button>
+            </div>
+
+            {diff && (
+              <div className="mt-4 space-y-3">
+                <div className="grid grid-cols-2 gap-3 text-sm">
+                  <div className="rounded-md bg-gray-50 p-3 dark:bg-dark-2">
+                    <p className="text-xs text-body-color dark:text-dark-6">Risk Level</p>
+                    <p className={diff.riskLevelChanged ? "font-semibold text-yellow-600 dark:text-yellow-400" : "text-dark dark:text-white"}>
+                      {diff.from.riskLevel || "None"} → {diff.to.riskLevel || "None"}
+                    </p>
+                  </div>
+                  <div className="rounded-md bg-gray-50 p-3 dark:bg-dark-2">
+                    <p className="text-xs text-body-color dark:text-dark-6">Confidence Change</p>
+                    <p className="text-dark dark:text-white">
+                      {diff.confidenceChange === null
+                        ? "—"
+                        : `${diff.confidenceChange > 0 ? "+" : ""}${(diff.confidenceChange * 100).toFixed(0)}%`}
+                    </p>
+                  </div>
+                </div>
+                <p className="text-xs text-body-color dark:text-dark-6">
+                  Patient summary {diff.summaryChanged ? "changed" : "unchanged"} • Recommendations{" "}
+                  {diff.recommendationsChanged ? "changed" : "unchanged"}
+                </p>
+                {diff.findings.length === 0 ? (
+                  <p className="text-sm text-body-color dark:text-dark-6">Findings are identical.</p>
+                ) : (
+                  <table className="w-full text-left text-xs">
+                    <thead>
+                      <tr className="border-b border-gray-200 text-body-color dark:border-dark-3 dark:text-dark-6">
+                        <th className="py-2 pr-2">Finding</th>
+                        <th className="py-2 pr-2">Version {diff.from.version}</th>
+                        <th className="py-2">Version {diff.to.version}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {diff.findings.map((change) => (
+                        <tr key={change.path} className="border-b border-gray-100 dark:border-dark-3">
+                          <td className={`py-2 pr-2 font-medium ${changeColors[change.change]}`}>
+                            {change.path}
+                          </td>
+                          <td className="break-all py-2 pr-2 text-body-color dark:text-dark-6">
+                            {formatValue(change.from)}
+                          </td>
+                          <td className="break-all py-2 text-dark dark:text-white">
+                            {formatValue(change.to)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AnalysisHistory;
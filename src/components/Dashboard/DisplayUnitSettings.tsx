@@ -0,0 +1,97 @@
+"use client";
+import { useEffect, useState } from "react";
+import toast from "react-hot-toast";
+
+interface DisplayUnitSettingsProps {
+  biomarkerTypes: string[];
+  onChange: () => void;
+}
+
+interface AvailableUnits {
+  [biomarkerType: string]: { canonicalUnit: string; units: string[] };
+}
+
+const formatBiomarkerName = (type: string) =>
+  type
+    .split("_")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+
+const DisplayUnitSettings = ({ biomarkerTypes, onChange }: DisplayUnitSettingsProps) => {
+  const [displayUnits, setDisplayUnits] = useState<Record<string, string>>({});
+  const [availableUnits, setAvailableUnits] = useState<AvailableUnits>({});
+  const [saving, setSaving] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchDisplayUnits = async () => {
+      try {
+        const response = await fetch("/api/health/display-units");
+        const data = await response.json();
+
+        if (response.ok) {
+          setDisplayUnits(data.displayUnits || {});
+          setAvailableUnits(data.availableUnits || {});
+        }
+      } catch (error) {
+        console.error("Failed to fetch display units:", error);
+      }
+    };
+
+    fetchDisplayUnits();
+  }, []);
+
+  const handleUnitChange = async (biomarkerType: string, unit: string) => {
+    setSaving(biomarkerType);
+    try {
+      const response = await fetch("/api/health/display-units", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ displayUnits: { [biomarkerType]: unit } }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update display unit");
+      }
+
+      setDisplayUnits(data.displayUnits);
+      onChange();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to update display unit");
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  // Only biomarkers that can be shown in more than one unit need a selector
+  const convertible = biomarkerTypes.filter((type) => (availableUnits[type]?.units.length ?? 0) > 1);
+
+  if (convertible.length === 0) return null;
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-4 dark:border-dark-3 dark:bg-dark">
+      <p className="mb-3 text-sm font-medium text-dark dark:text-white">Display Units</p>
+      <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+        {convertible.map((type) => (
+          <label key={type} className="flex items-center justify-between gap-2 text-sm">
+            <span className="text-body-color dark:text-dark-6">{formatBiomarkerName(type)}</span>
+            <select
+              value={displayUnits[type] || availableUnits[type].canonicalUnit}
+              onChange={(e) => handleUnitChange(type, e.target.value)}
+              disabled={saving === type}
+              className="rounded-md border border-stroke bg-transparent px-2 py-1 text-sm text-dark outline-none focus:border-primary disabled:opacity-50 dark:border-dark-3 dark:text-white"
+            >
+              {availableUnits[type].units.map((unit) => (
+                <option key={unit} value={unit}>
+                  {unit}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default DisplayUnitSettings;
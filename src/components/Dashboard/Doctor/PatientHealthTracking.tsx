@@ -9,7 +9,13 @@ import {
   Tooltip,
   Legend,
   ResponsiveContainer,
+  ReferenceLine,
 } from "recharts";
+import DisplayUnitSettings from "../DisplayUnitSettings";
+import RiskSimulator from "../RiskSimulator";
+import QuarantinedBiomarkers, { QuarantinedBiomarker } from "../QuarantinedBiomarkers";
+import GoalForecastChart, { GoalForecast } from "../GoalForecastChart";
+import RunRiskAssessment from "./RunRiskAssessment";
 
 interface BiomarkerTrend {
   id: string;
@@ -17,6 +23,17 @@ interface BiomarkerTrend {
   value: number;
   unit: string;
   recordedDate: string;
+  flag: "LL" | "L" | "H" | "HH" | null;
+  referenceLow: number | null;
+  referenceHigh: number | null;
+  criticalLow: number | null;
+  criticalHigh: number | null;
+  originalValue: number | null;
+  originalUnit: string | null;
+  extractionConfidence: number | null;
+  extractionSource: "FINDINGS" | "REPORT_TEXT" | "CALCULATED" | null;
+  formula: string | null; // How a calculated value was derived
+  deviceSource: string | null; // App and device of a daily value imported from a wearable
 }
 
 interface TrendAnalysis {
@@ -27,7 +44,12 @@ interface TrendAnalysis {
   latestValue: number;
   earliestValue: number;
   unit: string;
+  ratePerYear: number | null; // Change per year from a regression on collection dates
+  rateConfidenceInterval: [number, number] | null;
+  significant: boolean; // Change exceeds measurement noise
   alert?: string;
+  flag: "LL" | "L" | "H" | "HH" | null;
+  referenceRange: string | null;
 }
 
 interface RiskAssessment {
@@ -36,11 +58,43 @@ interface RiskAssessment {
   score: number;
   riskCategory: "LOW" | "MODERATE" | "HIGH" | "VERY_HIGH";
   riskPercentage?: number;
+  factors: Record<string, any>;
   recommendations: string;
-  createdAt: string;
+  calculatedAt: string;
   validUntil: string;
+  trigger: "MANUAL" | "CLINICIAN" | "NEW_BIOMARKERS" | "IMPORT_UNDONE" | "EXPIRED";
+  previousCategory: RiskAssessment["riskCategory"] | null;
+  inputSources: Record<
+    string,
+    { source: string; biomarkerType?: string; reportId?: string | null; recordedDate?: string }
+  > | null;
+  clinicianNote: string | null;
+  assessedBy: { name: string | null } | null;
 }
 
+type RiskAssessmentHistoryEntry = Pick<
+  RiskAssessment,
+  "id" | "assessmentType" | "riskCategory" | "riskPercentage" | "score" | "trigger" | "clinicianNote" | "calculatedAt" | "assessedBy"
+>;
+
+const RISK_TRIGGER_LABELS: Record<string, string> = {
+  NEW_BIOMARKERS: "updated automatically after new results",
+  IMPORT_UNDONE: "recalculated automatically after imported results were removed",
+  BIOMARKERS_REMOVED: "recalculated automatically after results were removed",
+  ECG_FINDING: "calculated automatically after an ECG showed atrial fibrillation",
+  EXPIRED: "recalculated automatically after the previous assessment expired",
+};
+
+const RISK_ASSESSMENT_TITLES: Record<string, string> = {
+  FRAMINGHAM_CVD: "Cardiovascular Disease Risk (Framingham)",
+  ASCVD: "Atherosclerotic CVD Risk (Pooled Cohort Equations)",
+  DIABETES_RISK: "Type 2 Diabetes Risk",
+  KDIGO_CKD: "Kidney Function (KDIGO CKD Stage)",
+  METABOLIC_SYNDROME: "Metabolic Syndrome (Harmonized Criteria)",
+  CHA2DS2_VASC: "Atrial Fibrillation Stroke Risk (CHA2DS2-VASc)",
+  HAS_BLED: "Anticoagulation Bleeding Risk (HAS-BLED)",
+};
+
 interface HealthGoal {
   id: string;
   title: string;
@@ -53,17 +107,29 @@ interface HealthGoal {
   status: "IN_PROGRESS" | "ACHIEVED" | "ABANDONED" | "OVERDUE";
   progress: number;
   daysRemaining: number;
+  forecast: GoalForecast | null; // Only for goals in progress
+  statusChanges: Array<{
+    id: string;
+    toStatus: HealthGoal["status"];
+    reason: string;
+    changedBy: string | null; // null when changed automatically
+    changedAt: string;
+  }>;
 }
 
 interface PatientHealthTrackingProps {
   patientId: string;
+  patientName?: string | null;
 }
 
-const PatientHealthTracking: React.FC<PatientHealthTrackingProps> = ({ patientId }) => {
+const PatientHealthTracking: React.FC<PatientHealthTrackingProps> = ({ patientId, patientName }) => {
   const [loading, setLoading] = useState(true);
   const [trends, setTrends] = useState<TrendAnalysis[]>([]);
   const [trendData, setTrendData] = useState<{ [key: string]: BiomarkerTrend[] }>({});
+  const [quarantined, setQuarantined] = useState<QuarantinedBiomarker[]>([]);
   const [riskAssessments, setRiskAssessments] = useState<RiskAssessment[]>([]);
+  const [riskHistory, setRiskHistory] = useState<RiskAssessmentHistoryEntry[]>([]);
+  const [showRunAssessment, setShowRunAssessment] = useState(false);
   const [healthScore, setHealthScore] = useState<number | null>(null);
   const [goals, setGoals] = useState<HealthGoal[]>([]);
   const [expandedTrend, setExpandedTrend] = useState<string | null>(null);
@@ -95,6 +161,7 @@ const PatientHealthTracking: React.FC<PatientHealthTrackingProps> = ({ patientId
       if (response.ok) {
         setTrends(data.trends || []);
         setTrendData(data.trendData || {});
+        setQuarantined(data.quarantined || []);
       }
     } catch (error) {
       console.error("Failed to fetch trends:", error);
@@ -103,11 +170,12 @@ const PatientHealthTracking: React.FC<PatientHealthTrackingProps> = ({ patientId
 
   const fetchRiskAssessments = async () => {
     try {
-      const response = await fetch(`/api/health/risk-assessment?userId=${patientId}`);
+      const response = await fetch(`/api/health/risk-assessment?userId=${patientId}&history=true`);
       const data = await response.json();
       
       if (response.ok) {
         setRiskAssessments(data.riskAssessments || []);
+        setRiskHistory(data.history || []);
         setHealthScore(data.healthScore);
       }
     } catch (error) {
@@ -150,6 +218,26 @@ const PatientHealthTracking: React.FC<PatientHealthTrackingProps> = ({ patientId
     }
   };
 
+  const getFlagColor = (flag: string | null) => {
+    switch (flag) {
+      case "LL":
+      case "HH":
+        return "bg-red-600 text-white";
+      case "L":
+      case "H":
+        return "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-300";
+      default:
+        return "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300";
+    }
+  };
+
+  const formatRange = (low: number | null, high: number | null, unit: string) => {
+    if (low != null && high != null) return `${low}–${high} ${unit}`;
+    if (high != null) return `≤ ${high} ${unit}`;
+    if (low != null) return `≥ ${low} ${unit}`;
+    return "—";
+  };
+
   const getRiskColor = (category: string) => {
     switch (category) {
       case "LOW":
@@ -216,11 +304,19 @@ const PatientHealthTracking: React.FC<PatientHealthTrackingProps> = ({ patientId
       )}
 
       {/* Risk Assessments */}
-      {riskAssessments.length > 0 && (
-        <div>
-          <h3 className="mb-4 text-xl font-bold text-dark dark:text-white">
+      <div>
+        <div className="mb-4 flex items-center justify-between">
+          <h3 className="text-xl font-bold text-dark dark:text-white">
             Risk Assessments
           </h3>
+          <button
+            onClick={() => setShowRunAssessment(true)}
+            className="rounded-md bg-primary px-4 py-2 text-sm font-medium text-white transition hover:bg-primary/90"
+          >
+            Run Assessment
+          </button>
+        </div>
+        {riskAssessments.length > 0 && (
           <div className="space-y-4">
             {riskAssessments.map((risk) => (
               <div
@@ -230,19 +326,100 @@ const PatientHealthTracking: React.FC<PatientHealthTrackingProps> = ({ patientId
                 <div className="mb-4 flex items-start justify-between">
                   <div>
                     <h4 className="text-lg font-bold text-dark dark:text-white">
-                      {risk.assessmentType === "FRAMINGHAM_CVD"
-                        ? "Cardiovascular Disease Risk"
-                        : "Type 2 Diabetes Risk"}
+                      {RISK_ASSESSMENT_TITLES[risk.assessmentType] || risk.assessmentType}
                     </h4>
                     <p className="text-sm text-body-color dark:text-dark-6">
-                      Assessed on {new Date(risk.createdAt).toLocaleDateString()}
+                      Assessed on {new Date(risk.calculatedAt).toLocaleDateString()}
+                      {RISK_TRIGGER_LABELS[risk.trigger] && ` · ${RISK_TRIGGER_LABELS[risk.trigger]}`}
                     </p>
+                    {risk.previousCategory && (
+                      <p className="mt-1 text-sm font-medium text-dark dark:text-white">
+                        Changed from {risk.previousCategory.replace("_", " ")} risk
+                      </p>
+                    )}
+                    {risk.trigger === "CLINICIAN" && (
+                      <p className="mt-1 text-sm text-primary">
+                        Signed by Dr. {risk.assessedBy?.name || "Unknown"}
+                        {risk.clinicianNote && ` · ${risk.clinicianNote}`}
+                      </p>
+                    )}
                   </div>
                   <span className={`rounded-full px-4 py-2 text-sm font-medium ${getRiskColor(risk.riskCategory)}`}>
                     {risk.riskCategory} RISK
                   </span>
                 </div>
 
+                {risk.assessmentType === "KDIGO_CKD" && (
+                  <div className="mb-4 rounded-md bg-gray-50 p-4 dark:bg-dark-2">
+                    <p className="mb-1 text-sm text-body-color dark:text-dark-6">
+                      Stage (eGFR {risk.factors.egfr}
+                      {risk.factors.uacr != null ? `, albumin/creatinine ${risk.factors.uacr} mg/g` : ""})
+                    </p>
+                    <p className="text-3xl font-bold text-dark dark:text-white">
+                      {risk.factors.stage}
+                    </p>
+                  </div>
+                )}
+
+                {risk.assessmentType === "METABOLIC_SYNDROME" && (
+                  <div className="mb-4 rounded-md bg-gray-50 p-4 dark:bg-dark-2">
+                    <p className="mb-2 text-sm text-body-color dark:text-dark-6">
+                      {risk.factors.criteriaMet} of 5 criteria met
+                      {risk.factors.hasMetabolicSyndrome === true && " · metabolic syndrome present"}
+                      {risk.factors.hasMetabolicSyndrome === null && " · more measurements needed"}
+                    </p>
+                    <ul className="space-y-1 text-sm">
+                      {risk.factors.criteria.map((criterion: any) => (
+                        <li key={criterion.criterion} className="flex justify-between gap-4">
+                          <span className="text-dark dark:text-white">
+                            {criterion.met ? "✅" : criterion.met === false ? "⬜" : "❔"} {criterion.label} ({criterion.threshold})
+                          </span>
+                          <span className="text-body-color dark:text-dark-6">
+                            {criterion.value ?? "Not measured"}
+                            {criterion.recordedDate && ` · ${new Date(criterion.recordedDate).toLocaleDateString()}`}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {(risk.assessmentType === "CHA2DS2_VASC" || risk.assessmentType === "HAS_BLED") && (
+                  <div className="mb-4 rounded-md bg-gray-50 p-4 dark:bg-dark-2">
+                    <p className="mb-1 text-sm text-body-color dark:text-dark-6">Score</p>
+                    <p className="text-3xl font-bold text-dark dark:text-white">
+                      {risk.score}
+                      {risk.factors.maxScore > risk.score && (
+                        <span className="ml-2 text-base font-normal text-body-color dark:text-dark-6">
+                          up to {risk.factors.maxScore}
+                        </span>
+                      )}
+                    </p>
+                    {risk.factors.annualStrokeRate != null && (
+                      <p className="mt-1 text-xs text-body-color dark:text-dark-6">
+                        About {risk.factors.annualStrokeRate}% stroke risk per year without anticoagulation
+                      </p>
+                    )}
+                    <ul className="mt-3 space-y-1 text-sm">
+                      {risk.factors.items.map((item: any) => (
+                        <li key={item.key} className="flex justify-between gap-4">
+                          <span className="text-dark dark:text-white">
+                            {item.present ? "✅" : item.present === false ? "⬜" : "❔"} {item.label} (+{item.points})
+                          </span>
+                          <span className={item.present === null ? "text-yellow-800 dark:text-yellow-300" : "text-body-color dark:text-dark-6"}>
+                            {item.present === null ? "Missing" : item.source}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                    {risk.factors.missing.length > 0 && (
+                      <p className="mt-2 text-xs text-yellow-800 dark:text-yellow-300">
+                        {risk.factors.missing.length} item(s) missing. Missing items are not counted; confirm them with the patient
+                      </p>
+                    )}
+                  </div>
+                )}
+
                 {risk.riskPercentage != null && (
                   <div className="mb-4 rounded-md bg-gray-50 p-4 dark:bg-dark-2">
                     <p className="mb-1 text-sm text-body-color dark:text-dark-6">
@@ -251,6 +428,12 @@ const PatientHealthTracking: React.FC<PatientHealthTrackingProps> = ({ patientId
                     <p className="text-3xl font-bold text-dark dark:text-white">
                       {risk.riskPercentage.toFixed(1)}%
                     </p>
+                    {risk.assessmentType === "ASCVD" && risk.factors?.guidelineCategory && (
+                      <p className="mt-1 text-xs text-body-color dark:text-dark-6">
+                        {risk.factors.guidelineCategory.charAt(0) + risk.factors.guidelineCategory.slice(1).toLowerCase()} risk
+                        under the 2018 AHA/ACC cholesterol guideline
+                      </p>
+                    )}
                   </div>
                 )}
 
@@ -263,15 +446,100 @@ const PatientHealthTracking: React.FC<PatientHealthTrackingProps> = ({ patientId
                   </div>
                 </div>
 
+                {risk.inputSources && (
+                  <details className="mt-4 text-sm">
+                    <summary className="cursor-pointer text-body-color dark:text-dark-6">Inputs used</summary>
+                    <ul className="mt-2 space-y-1 text-body-color dark:text-dark-6">
+                      {Object.entries(risk.inputSources)
+                        .filter(([, input]) => input.source === "BIOMARKER")
+                        .map(([factor, input]) => (
+                          <li key={factor}>
+                            {formatBiomarkerName(input.biomarkerType!)}: {input.reportId ? "report" : "manual entry"} from{" "}
+                            {new Date(input.recordedDate!).toLocaleDateString()}
+                          </li>
+                        ))}
+                    </ul>
+                  </details>
+                )}
+
                 <p className="mt-4 text-xs text-body-color dark:text-dark-6">
                   Valid until {new Date(risk.validUntil).toLocaleDateString()}
                 </p>
               </div>
             ))}
           </div>
-        </div>
+        )}
+
+        {riskHistory.length > 0 && (
+          <details className="mt-4 rounded-lg border border-gray-200 bg-white p-4 dark:border-dark-3 dark:bg-dark">
+            <summary className="cursor-pointer font-semibold text-dark dark:text-white">
+              Assessment History ({riskHistory.length})
+            </summary>
+            <table className="mt-3 w-full text-left text-sm">
+              <thead>
+                <tr className="border-b border-stroke text-body-color dark:border-dark-3 dark:text-dark-6">
+                  <th className="py-2">Date</th>
+                  <th className="py-2">Assessment</th>
+                  <th className="py-2">Result</th>
+                  <th className="py-2">Run by</th>
+                </tr>
+              </thead>
+              <tbody>
+                {riskHistory.map((entry) => (
+                  <tr key={entry.id} className="border-b border-stroke last:border-0 dark:border-dark-3">
+                    <td className="py-2 text-dark dark:text-white">
+                      {new Date(entry.calculatedAt).toLocaleDateString()}
+                    </td>
+                    <td className="py-2 text-dark dark:text-white">
+                      {RISK_ASSESSMENT_TITLES[entry.assessmentType] || entry.assessmentType}
+                    </td>
+                    <td className="py-2">
+                      <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${getRiskColor(entry.riskCategory)}`}>
+                        {entry.riskCategory}
+                      </span>
+                      {entry.riskPercentage != null && (
+                        <span className="ml-2 text-dark dark:text-white">{entry.riskPercentage.toFixed(1)}%</span>
+                      )}
+                    </td>
+                    <td className="py-2 text-body-color dark:text-dark-6" title={entry.clinicianNote || undefined}>
+                      {entry.trigger === "CLINICIAN"
+                        ? `Dr. ${entry.assessedBy?.name || "Unknown"}`
+                        : entry.trigger === "MANUAL"
+                        ? "Patient"
+                        : "Automatic"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </details>
+        )}
+      </div>
+
+      {showRunAssessment && (
+        <RunRiskAssessment
+          patientId={patientId}
+          patientName={patientName || "Patient"}
+          onClose={() => setShowRunAssessment(false)}
+          onSuccess={() => {
+            setShowRunAssessment(false);
+            fetchRiskAssessments();
+          }}
+        />
       )}
 
+      {/* What-If Simulator */}
+      <RiskSimulator patientId={patientId} />
+
+      {/* Values held back by the plausibility and delta checks */}
+      <QuarantinedBiomarkers
+        biomarkers={quarantined}
+        onChange={() => {
+          fetchTrends();
+          fetchRiskAssessments();
+        }}
+      />
+
       {/* Biomarker Trends */}
       {trends.length > 0 && (
         <div>
@@ -279,6 +547,10 @@ const PatientHealthTracking: React.FC<PatientHealthTrackingProps> = ({ patientId
             Biomarker Trends
           </h3>
           <div className="space-y-4">
+            <DisplayUnitSettings
+              biomarkerTypes={trends.map((trend) => trend.biomarkerType)}
+              onChange={fetchTrends}
+            />
             {trends.map((trend, idx) => (
               <div
                 key={idx}
@@ -295,6 +567,19 @@ const PatientHealthTracking: React.FC<PatientHealthTrackingProps> = ({ patientId
                     <p className="text-sm text-body-color dark:text-dark-6">
                       {typeof trend.dataPoints === 'number' ? trend.dataPoints : 0} measurements • Click to expand
                     </p>
+                    <p className="mt-1 text-sm text-dark dark:text-white">
+                      Latest: {trend.latestValue} {trend.unit}
+                      {trend.referenceRange && (
+                        <>
+                          <span className={`ml-2 rounded px-1.5 py-0.5 text-xs font-semibold ${getFlagColor(trend.flag)}`}>
+                            {trend.flag || "Normal"}
+                          </span>
+                          <span className="ml-2 text-xs text-body-color dark:text-dark-6">
+                            Ref: {trend.referenceRange}
+                          </span>
+                        </>
+                      )}
+                    </p>
                   </div>
                   <div className="text-right">
                     <span className={`text-3xl ${getTrendColor(trend.trend)}`}>
@@ -326,6 +611,23 @@ const PatientHealthTracking: React.FC<PatientHealthTrackingProps> = ({ patientId
                             <YAxis />
                             <Tooltip />
                             <Legend />
+                            {/* Reference range of the latest measurement */}
+                            {trendData[trend.biomarkerType].at(-1)?.referenceHigh != null && (
+                              <ReferenceLine
+                                y={trendData[trend.biomarkerType].at(-1)?.referenceHigh ?? undefined}
+                                stroke="#f97316"
+                                strokeDasharray="4 4"
+                                label="High"
+                              />
+                            )}
+                            {trendData[trend.biomarkerType].at(-1)?.referenceLow != null && (
+                              <ReferenceLine
+                                y={trendData[trend.biomarkerType].at(-1)?.referenceLow ?? undefined}
+                                stroke="#f97316"
+                                strokeDasharray="4 4"
+                                label="Low"
+                              />
+                            )}
                             <Line
                               type="monotone"
                               dataKey="value"
@@ -357,6 +659,15 @@ const PatientHealthTracking: React.FC<PatientHealthTrackingProps> = ({ patientId
                           {trend.percentageChange != null && trend.percentageChange > 0 ? "+" : ""}
                           {trend.percentageChange != null ? trend.percentageChange.toFixed(1) : "0.0"}%
                         </p>
+                        {trend.ratePerYear != null && (
+                          <p className="text-xs text-body-color dark:text-dark-6">
+                            {trend.ratePerYear > 0 ? "+" : ""}
+                            {trend.ratePerYear} {trend.unit}/year
+                            {trend.rateConfidenceInterval &&
+                              ` (95% CI ${trend.rateConfidenceInterval[0]} to ${trend.rateConfidenceInterval[1]})`}
+                            {!trend.significant && " · within measurement noise"}
+                          </p>
+                        )}
                       </div>
                     </div>
 
@@ -367,6 +678,67 @@ const PatientHealthTracking: React.FC<PatientHealthTrackingProps> = ({ patientId
                         </p>
                       </div>
                     )}
+
+                    {/* Measurements with the reference range each was flagged against */}
+                    {trendData[trend.biomarkerType] && trendData[trend.biomarkerType].length > 0 && (
+                      <table className="mt-4 w-full text-left text-sm">
+                        <thead>
+                          <tr className="border-b border-gray-200 text-body-color dark:border-dark-3 dark:text-dark-6">
+                            <th className="py-2">Date</th>
+                            <th className="py-2">Value</th>
+                            <th className="py-2">Flag</th>
+                            <th className="py-2">Reference Range</th>
+                            <th className="py-2">Critical Limits</th>
+                            <th className="py-2">Source</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {[...trendData[trend.biomarkerType]].reverse().map((d) => (
+                            <tr key={d.id} className="border-b border-gray-100 dark:border-dark-3">
+                              <td className="py-2 text-body-color dark:text-dark-6">
+                                {new Date(d.recordedDate).toLocaleDateString()}
+                              </td>
+                              <td className="py-2 text-dark dark:text-white">
+                                {d.value} {d.unit}
+                                {d.originalUnit && d.originalUnit !== d.unit && (
+                                  <span className="ml-2 text-xs text-body-color dark:text-dark-6">
+                                    (reported {d.originalValue} {d.originalUnit})
+                                  </span>
+                                )}
+                              </td>
+                              <td className="py-2">
+                                {d.referenceLow != null || d.referenceHigh != null ? (
+                                  <span className={`rounded px-1.5 py-0.5 text-xs font-semibold ${getFlagColor(d.flag)}`}>
+                                    {d.flag || "Normal"}
+                                  </span>
+                                ) : (
+                                  <span className="text-xs text-body-color dark:text-dark-6">—</span>
+                                )}
+                              </td>
+                              <td className="py-2 text-body-color dark:text-dark-6">
+                                {formatRange(d.referenceLow, d.referenceHigh, d.unit)}
+                              </td>
+                              <td className="py-2 text-body-color dark:text-dark-6">
+                                {formatRange(d.criticalLow, d.criticalHigh, d.unit)}
+                              </td>
+                              <td className="py-2 text-body-color dark:text-dark-6">
+                                {d.extractionSource === "CALCULATED"
+                                  ? `Calculated${d.formula ? `: ${d.formula}` : ""}`
+                                  : d.extractionSource
+                                  ? `${d.extractionSource === "FINDINGS" ? "AI findings" : "Report text"}${
+                                      d.extractionConfidence != null
+                                        ? ` (${Math.round(d.extractionConfidence * 100)}% confidence)`
+                                        : ""
+                                    }`
+                                  : d.deviceSource
+                                  ? `Daily value from ${d.deviceSource}`
+                                  : "Manual entry"}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
                   </>
                 )}
               </div>
@@ -415,6 +787,10 @@ const PatientHealthTracking: React.FC<PatientHealthTrackingProps> = ({ patientId
                   </div>
                 </div>
 
+                {goal.forecast && (
+                  <GoalForecastChart forecast={goal.forecast} targetValue={goal.targetValue} unit={goal.unit} />
+                )}
+
                 <div className="grid grid-cols-2 gap-4 text-sm">
                   <div>
                     <p className="text-body-color dark:text-dark-6">Current</p>
@@ -438,6 +814,13 @@ const PatientHealthTracking: React.FC<PatientHealthTrackingProps> = ({ patientId
                       ? `${Math.abs(goal.daysRemaining)} days overdue`
                       : `Target date: ${new Date(goal.targetDate).toLocaleDateString()}`}
                   </p>
+                  {goal.statusChanges.length > 0 && (
+                    <p className="mb-2 text-xs text-body-color dark:text-dark-6">
+                      {goal.statusChanges[0].changedBy ? "Marked" : "Automatically marked"}{" "}
+                      {goal.statusChanges[0].toStatus.replace("_", " ").toLowerCase()} on{" "}
+                      {new Date(goal.statusChanges[0].changedAt).toLocaleDateString()}: {goal.statusChanges[0].reason}
+                    </p>
+                  )}
                   {goal.status === "ACHIEVED" && (
                     <div className="mt-2 rounded-md bg-green-50 p-3 text-center dark:bg-green-900/20">
                       <p className="text-sm font-semibold text-green-600 dark:text-green-400">
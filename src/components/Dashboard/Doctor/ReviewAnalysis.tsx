@@ -0,0 +1,176 @@
+"use client";
+import { useState } from "react";
+import toast from "react-hot-toast";
+
+interface ReviewAnalysisProps {
+  reportId: string;
+  reportTitle: string;
+  analysis: {
+    id: string;
+    version: number;
+    riskLevel: string | null;
+    recommendations: string | null;
+  };
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+type Decision = "ACCEPTED" | "AMENDED" | "REJECTED";
+
+const decisionOptions: Array<{ value: Decision; label: string; description: string }> = [
+  { value: "ACCEPTED", label: "Accept", description: "The AI analysis is correct as written" },
+  { value: "AMENDED", label: "Amend", description: "Override the risk level and/or recommendations" },
+  { value: "REJECTED", label: "Reject", description: "The AI analysis should not be relied on" },
+];
+
+const ReviewAnalysis = ({ reportId, reportTitle, analysis, onClose, onSuccess }: ReviewAnalysisProps) => {
+  const [decision, setDecision] = useState<Decision>("ACCEPTED");
+  const [riskLevel, setRiskLevel] = useState(analysis.riskLevel || "");
+  const [recommendations, setRecommendations] = useState(analysis.recommendations || "");
+  const [comment, setComment] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Only send overrides that differ from the AI output
+    const riskOverride = riskLevel && riskLevel !== analysis.riskLevel ? riskLevel : null;
+    const recommendationsOverride =
+      recommendations.trim() && recommendations.trim() !== (analysis.recommendations || "").trim()
+        ? recommendations
+        : null;
+
+    if (decision === "AMENDED" && !riskOverride && !recommendationsOverride) {
+      toast.error("Change the risk level or recommendations to amend the analysis");
+      return;
+    }
+
+    if (decision === "REJECTED" && !comment.trim()) {
+      toast.error("Please give a reason for rejecting the analysis");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/reports/${reportId}/review`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          analysisId: analysis.id,
+          decision,
+          riskLevel: riskOverride,
+          recommendations: recommendationsOverride,
+          comment,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save review");
+      }
+
+      toast.success("Review signed off");
+      onSuccess();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to save review");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="w-full max-w-2xl rounded-lg bg-white p-6 dark:bg-dark">
+        <h3 className="mb-1 text-xl font-bold text-dark dark:text-white">
+          Review AI Analysis - {reportTitle}
+        </h3>
+        <p className="mb-4 text-xs text-body-color dark:text-dark-6">
+          Signing off analysis version {analysis.version}
+        </p>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-3 gap-3">
+            {decisionOptions.map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => setDecision(option.value)}
+                className={`rounded-md border p-3 text-left transition ${
+                  decision === option.value
+                    ? "border-primary bg-primary/5"
+                    : "border-stroke hover:bg-gray-50 dark:border-dark-3 dark:hover:bg-dark-3"
+                }`}
+              >
+                <p className="text-sm font-medium text-dark dark:text-white">{option.label}</p>
+                <p className="text-xs text-body-color dark:text-dark-6">{option.description}</p>
+              </button>
+            ))}
+          </div>
+
+          {decision === "AMENDED" && (
+            <>
+              <div>
+                <label className="mb-2 block text-sm font-medium text-dark dark:text-white">
+                  Risk Level (AI: {analysis.riskLevel || "none"})
+                </label>
+                <select
+                  value={riskLevel}
+                  onChange={(e) => setRiskLevel(e.target.value)}
+                  className="w-full rounded-md border border-stroke bg-transparent px-4 py-3 text-base text-dark outline-none transition focus:border-primary dark:border-dark-3 dark:text-white"
+                >
+                  <option value="">Keep AI risk level</option>
+                  <option value="LOW">LOW</option>
+                  <option value="MEDIUM">MEDIUM</option>
+                  <option value="HIGH">HIGH</option>
+                </select>
+              </div>
+              <div>
+                <label className="mb-2 block text-sm font-medium text-dark dark:text-white">
+                  Recommendations
+                </label>
+                <textarea
+                  rows={4}
+                  value={recommendations}
+                  onChange={(e) => setRecommendations(e.target.value)}
+                  className="w-full rounded-md border border-stroke bg-transparent px-4 py-3 text-base text-dark outline-none transition placeholder:text-dark-6 focus:border-primary dark:border-dark-3 dark:text-white"
+                ></textarea>
+              </div>
+            </>
+          )}
+
+          <div>
+            <label className="mb-2 block text-sm font-medium text-dark dark:text-white">
+              {decision === "REJECTED" ? "Reason for rejection" : "Comment (optional)"}
+            </label>
+            <textarea
+              rows={3}
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder={decision === "REJECTED" ? "Explain why the AI analysis is wrong" : "Shown to the patient with your review"}
+              className="w-full rounded-md border border-stroke bg-transparent px-4 py-3 text-base text-dark outline-none transition placeholder:text-dark-6 focus:border-primary dark:border-dark-3 dark:text-white"
+            ></textarea>
+          </div>
+
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={saving}
+              className="flex-1 rounded-md border border-stroke px-4 py-2 text-sm font-medium text-dark transition hover:bg-gray-50 disabled:opacity-50 dark:border-dark-3 dark:text-white dark:hover:bg-dark-3"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex-1 rounded-md bg-primary px-4 py-2 text-sm font-medium text-white transition hover:bg-primary/90 disabled:opacity-50"
+            >
+              {saving ? "Saving..." : "Sign Off Review"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ReviewAnalysis;
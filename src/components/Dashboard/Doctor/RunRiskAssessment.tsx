@@ -0,0 +1,161 @@
+"use client";
+import { useState } from "react";
+import toast from "react-hot-toast";
+
+interface RunRiskAssessmentProps {
+  patientId: string;
+  patientName: string;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+// Values a doctor can verify in the office; empty fields use the patient's latest results
+const VERIFIED_FIELDS: Array<{ key: string; label: string; unit: string }> = [
+  { key: "systolicBP", label: "Systolic BP", unit: "mmHg" },
+  { key: "diastolicBP", label: "Diastolic BP", unit: "mmHg" },
+  { key: "totalCholesterol", label: "Total Cholesterol", unit: "mg/dL" },
+  { key: "hdlCholesterol", label: "HDL Cholesterol", unit: "mg/dL" },
+  { key: "fastingGlucose", label: "Fasting Glucose", unit: "mg/dL" },
+  { key: "hba1c", label: "HbA1c", unit: "%" },
+  { key: "weight", label: "Weight", unit: "kg" },
+];
+
+const RunRiskAssessment = ({ patientId, patientName, onClose, onSuccess }: RunRiskAssessmentProps) => {
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [smokingStatus, setSmokingStatus] = useState("");
+  const [hypertensionTreated, setHypertensionTreated] = useState("");
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const biomarkerData: Record<string, any> = {};
+    for (const [key, value] of Object.entries(values)) {
+      if (value.trim() === "") continue;
+      const number = parseFloat(value);
+      if (!Number.isFinite(number) || number <= 0) {
+        toast.error(`${VERIFIED_FIELDS.find((field) => field.key === key)?.label} must be a positive number`);
+        return;
+      }
+      biomarkerData[key] = number;
+    }
+    if (smokingStatus) biomarkerData.smokingStatus = smokingStatus;
+    if (hypertensionTreated) biomarkerData.hypertensionTreated = hypertensionTreated === "YES";
+
+    setSaving(true);
+    try {
+      const response = await fetch("/api/health/risk-assessment", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ userId: patientId, biomarkerData, note }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to run risk assessment");
+      }
+
+      if (data.assessments.length === 0) {
+        toast.error("Not enough data to calculate any risk score");
+      } else {
+        toast.success("Risk assessment signed");
+      }
+      onSuccess();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to run risk assessment");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="w-full max-w-2xl rounded-lg bg-white p-6 dark:bg-dark">
+        <h3 className="mb-1 text-xl font-bold text-dark dark:text-white">
+          Run Risk Assessment - {patientName}
+        </h3>
+        <p className="mb-4 text-xs text-body-color dark:text-dark-6">
+          Enter values you verified clinically. Empty fields use the patient&apos;s latest results. The assessment is signed with your name.
+        </p>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid gap-3 sm:grid-cols-2">
+            {VERIFIED_FIELDS.map((field) => (
+              <div key={field.key}>
+                <label className="mb-1 block text-sm font-medium text-dark dark:text-white">
+                  {field.label} ({field.unit})
+                </label>
+                <input
+                  type="number"
+                  step="any"
+                  value={values[field.key] ?? ""}
+                  onChange={(e) => setValues({ ...values, [field.key]: e.target.value })}
+                  placeholder="Latest result"
+                  className="w-full rounded-md border border-stroke bg-transparent px-4 py-2 text-base text-dark outline-none transition placeholder:text-dark-6 focus:border-primary dark:border-dark-3 dark:text-white"
+                />
+              </div>
+            ))}
+            <div>
+              <label className="mb-1 block text-sm font-medium text-dark dark:text-white">Smoking</label>
+              <select
+                value={smokingStatus}
+                onChange={(e) => setSmokingStatus(e.target.value)}
+                className="w-full rounded-md border border-stroke bg-transparent px-4 py-2 text-base text-dark outline-none transition focus:border-primary dark:border-dark-3 dark:text-white"
+              >
+                <option value="">From profile</option>
+                <option value="NEVER">Never</option>
+                <option value="FORMER">Former</option>
+                <option value="CURRENT">Current</option>
+              </select>
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium text-dark dark:text-white">
+                On blood pressure medication
+              </label>
+              <select
+                value={hypertensionTreated}
+                onChange={(e) => setHypertensionTreated(e.target.value)}
+                className="w-full rounded-md border border-stroke bg-transparent px-4 py-2 text-base text-dark outline-none transition focus:border-primary dark:border-dark-3 dark:text-white"
+              >
+                <option value="">Not specified</option>
+                <option value="YES">Yes</option>
+                <option value="NO">No</option>
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="mb-2 block text-sm font-medium text-dark dark:text-white">Note (optional)</label>
+            <textarea
+              rows={3}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="e.g. Seated BP, average of two readings"
+              className="w-full rounded-md border border-stroke bg-transparent px-4 py-3 text-base text-dark outline-none transition placeholder:text-dark-6 focus:border-primary dark:border-dark-3 dark:text-white"
+            ></textarea>
+          </div>
+
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={saving}
+              className="flex-1 rounded-md border border-stroke px-4 py-2 text-sm font-medium text-dark transition hover:bg-gray-50 disabled:opacity-50 dark:border-dark-3 dark:text-white dark:hover:bg-dark-3"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex-1 rounded-md bg-primary px-4 py-2 text-sm font-medium text-white transition hover:bg-primary/90 disabled:opacity-50"
+            >
+              {saving ? "Calculating..." : "Run and Sign Assessment"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default RunRiskAssessment;
@@ -0,0 +1,111 @@
+"use client";
+import {
+  ComposedChart,
+  Line,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+} from "recharts";
+
+export interface GoalForecast {
+  status: "ON_TRACK" | "AT_RISK" | "OFF_TRACK" | "INSUFFICIENT_DATA";
+  direction: "DECREASE" | "INCREASE";
+  projectedValue: number | null;
+  lower: number | null;
+  upper: number | null;
+  ratePerMonth: number | null;
+  observations: Array<{ date: string; value: number }>;
+  projection: Array<{ date: string; value: number; lower: number | null; upper: number | null }>;
+  explanation: string;
+}
+
+interface GoalForecastChartProps {
+  forecast: GoalForecast;
+  targetValue: number;
+  unit: string;
+}
+
+const FORECAST_STATUS: Record<GoalForecast["status"], { label: string; className: string }> = {
+  ON_TRACK: { label: "On track", className: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300" },
+  AT_RISK: { label: "At risk", className: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300" },
+  OFF_TRACK: { label: "Off track", className: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300" },
+  INSUFFICIENT_DATA: { label: "Not enough data", className: "bg-gray-100 text-gray-800 dark:bg-dark-3 dark:text-dark-6" },
+};
+
+const formatDate = (time: number) => new Date(time).toLocaleDateString();
+
+const GoalForecastChart = ({ forecast, targetValue, unit }: GoalForecastChartProps) => {
+  const status = FORECAST_STATUS[forecast.status];
+
+  // Observed values and the projection share a time axis; the band is a [lower, upper] range
+  const data = [
+    ...forecast.observations.map((point) => ({ time: new Date(point.date).getTime(), observed: point.value })),
+    ...forecast.projection.map((point) => ({
+      time: new Date(point.date).getTime(),
+      projected: point.value,
+      band: point.lower != null && point.upper != null ? [point.lower, point.upper] : undefined,
+    })),
+  ].sort((a, b) => a.time - b.time);
+
+  return (
+    <div className="mb-4">
+      <div className="mb-2 flex items-center justify-between gap-2">
+        <span className="text-sm text-body-color dark:text-dark-6">Forecast</span>
+        <span className={`rounded-full px-3 py-1 text-xs font-medium ${status.className}`}>
+          {status.label}
+        </span>
+      </div>
+      {forecast.projection.length > 0 && (
+        <ResponsiveContainer width="100%" height={160}>
+          <ComposedChart data={data}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis
+              dataKey="time"
+              type="number"
+              scale="time"
+              domain={["dataMin", "dataMax"]}
+              tickFormatter={formatDate}
+            />
+            <YAxis domain={["auto", "auto"]} />
+            <Tooltip labelFormatter={(time) => formatDate(Number(time))} />
+            <ReferenceLine y={targetValue} stroke="#22c55e" strokeDasharray="4 4" label="Target" />
+            <Area
+              dataKey="band"
+              stroke="none"
+              fill="#8b5cf6"
+              fillOpacity={0.15}
+              name={`95% range (${unit})`}
+              connectNulls
+            />
+            <Line
+              dataKey="observed"
+              stroke="#8b5cf6"
+              strokeWidth={2}
+              name={`Measured (${unit})`}
+              connectNulls
+            />
+            <Line
+              dataKey="projected"
+              stroke="#8b5cf6"
+              strokeDasharray="5 5"
+              dot={false}
+              name={`Projected (${unit})`}
+              connectNulls
+            />
+          </ComposedChart>
+        </ResponsiveContainer>
+      )}
+      <p className="mt-2 text-xs text-body-color dark:text-dark-6">
+        {forecast.explanation}
+        {forecast.lower != null && forecast.upper != null &&
+          ` Range on the target date: ${forecast.lower}–${forecast.upper} ${unit}.`}
+      </p>
+    </div>
+  );
+};
+
+export default GoalForecastChart;
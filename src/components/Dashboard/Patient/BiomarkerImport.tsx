@@ -0,0 +1,431 @@
+"use client";
+import { useState, useEffect } from "react";
+import toast from "react-hot-toast";
+
+type ImportRowStatus = "VALID" | "QUARANTINE" | "DUPLICATE" | "ERROR";
+
+interface ImportColumn {
+  column: string;
+  biomarkerType: string;
+  unit: string;
+}
+
+interface ImportMapping {
+  layout: "WIDE" | "LONG";
+  dateColumn: string;
+  dayFirst?: boolean;
+  columns?: ImportColumn[];
+  nameColumn?: string;
+  valueColumn?: string;
+  unitColumn?: string;
+}
+
+interface ImportPreviewRow {
+  rowNumber: number;
+  label: string;
+  biomarkerType: string | null;
+  recordedDate: string | null;
+  value: number | null;
+  unit: string | null;
+  status: ImportRowStatus;
+  message: string | null;
+}
+
+interface ImportPreview {
+  headers: string[];
+  rowCount: number;
+  mappingError: string | null;
+  mapping: ImportMapping;
+  rows: ImportPreviewRow[];
+  summary: Record<ImportRowStatus, number>;
+}
+
+interface PastImport {
+  id: string;
+  fileName: string;
+  source: "SPREADSHEET" | "APPLE_HEALTH" | "GOOGLE_FIT";
+  status: "IMPORTED" | "UNDONE";
+  importedCount: number;
+  duplicateCount: number;
+  errorCount: number;
+  undoDeadline: string;
+  createdAt: string;
+  canUndo: boolean;
+}
+
+interface BiomarkerImportProps {
+  onImported: () => void;
+  refreshKey?: number; // Changes when values were imported elsewhere, e.g. from a wearable export
+}
+
+const SOURCE_LABELS: Record<PastImport["source"], string> = {
+  SPREADSHEET: "Spreadsheet",
+  APPLE_HEALTH: "Apple Health",
+  GOOGLE_FIT: "Google Fit",
+};
+
+// Biomarkers that can be imported, with their units (canonical first)
+const IMPORT_BIOMARKERS: Array<{ type: string; label: string; units: string[] }> = [
+  { type: "cholesterol_total", label: "Total Cholesterol", units: ["mg/dL", "mmol/L"] },
+  { type: "cholesterol_ldl", label: "LDL Cholesterol", units: ["mg/dL", "mmol/L"] },
+  { type: "cholesterol_hdl", label: "HDL Cholesterol", units: ["mg/dL", "mmol/L"] },
+  { type: "triglycerides", label: "Triglycerides", units: ["mg/dL", "mmol/L"] },
+  { type: "glucose_fasting", label: "Fasting Glucose", units: ["mg/dL", "mmol/L"] },
+  { type: "glucose_random", label: "Random Glucose", units: ["mg/dL", "mmol/L"] },
+  { type: "hba1c", label: "HbA1c", units: ["%", "mmol/mol"] },
+  { type: "creatinine", label: "Creatinine", units: ["mg/dL", "µmol/L"] },
+  { type: "egfr", label: "eGFR", units: ["mL/min/1.73m²"] },
+  { type: "uacr", label: "Albumin/Creatinine Ratio", units: ["mg/g", "mg/mmol"] },
+  { type: "potassium", label: "Potassium", units: ["mmol/L", "mEq/L"] },
+  { type: "sodium", label: "Sodium", units: ["mmol/L", "mEq/L"] },
+  { type: "hemoglobin", label: "Hemoglobin", units: ["g/dL", "g/L", "mmol/L"] },
+  { type: "tsh", label: "TSH", units: ["mIU/L"] },
+  { type: "vitamin_d", label: "Vitamin D", units: ["ng/mL", "nmol/L"] },
+  { type: "bp_systolic", label: "Systolic BP", units: ["mmHg", "kPa"] },
+  { type: "bp_diastolic", label: "Diastolic BP", units: ["mmHg", "kPa"] },
+  { type: "heart_rate", label: "Heart Rate", units: ["bpm"] },
+  { type: "weight", label: "Weight", units: ["kg", "lb"] },
+  { type: "waist_circumference", label: "Waist Circumference", units: ["cm", "in"] },
+];
+
+const STATUS_STYLES: Record<ImportRowStatus, { label: string; className: string }> = {
+  VALID: { label: "New", className: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300" },
+  QUARANTINE: { label: "Needs confirmation", className: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300" },
+  DUPLICATE: { label: "Duplicate", className: "bg-gray-100 text-gray-800 dark:bg-dark-3 dark:text-dark-6" },
+  ERROR: { label: "Error", className: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300" },
+};
+
+const PREVIEW_ROWS = 50;
+
+const selectClassName =
+  "w-full rounded-md border border-stroke bg-transparent px-3 py-2 text-sm text-dark outline-none transition focus:border-primary dark:border-dark-3 dark:text-white";
+
+const BiomarkerImport = ({ onImported, refreshKey }: BiomarkerImportProps) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [mapping, setMapping] = useState<ImportMapping | null>(null);
+  const [pastImports, setPastImports] = useState<PastImport[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    fetchImports();
+  }, [refreshKey]);
+
+  const fetchImports = async () => {
+    try {
+      const response = await fetch("/api/health/trends/import");
+      if (response.ok) {
+        const data = await response.json();
+        setPastImports(data.imports || []);
+      }
+    } catch (error) {
+      console.error("Error fetching imports:", error);
+    }
+  };
+
+  const submit = async (selectedFile: File, nextMapping: ImportMapping | null, confirm: boolean) => {
+    setLoading(true);
+    try {
+      const formData = new FormData();
+      formData.append("file", selectedFile);
+      if (nextMapping) formData.append("mapping", JSON.stringify(nextMapping));
+      if (confirm) formData.append("confirm", "true");
+
+      const response = await fetch("/api/health/trends/import", { method: "POST", body: formData });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to read the file");
+      }
+
+      if (confirm) {
+        toast.success(data.message);
+        setFile(null);
+        setPreview(null);
+        setMapping(null);
+        fetchImports();
+        onImported();
+      } else {
+        setPreview(data);
+        setMapping(data.mapping);
+      }
+    } catch (error: any) {
+      toast.error(error.message || "Failed to read the file");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUndo = async (pastImport: PastImport) => {
+    if (!confirm(`Remove the values imported from ${pastImport.fileName}?`)) return;
+
+    try {
+      const response = await fetch(`/api/health/trends/import/${pastImport.id}`, { method: "DELETE" });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to undo import");
+      }
+
+      toast.success(data.message);
+      fetchImports();
+      onImported();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to undo import");
+    }
+  };
+
+  const updateColumn = (column: string, biomarkerType: string) => {
+    if (!mapping) return;
+    const others = (mapping.columns ?? []).filter((entry) => entry.column !== column);
+    const biomarker = IMPORT_BIOMARKERS.find((entry) => entry.type === biomarkerType);
+    setMapping({
+      ...mapping,
+      columns: biomarker ? [...others, { column, biomarkerType, unit: biomarker.units[0] }] : others,
+    });
+  };
+
+  const updateColumnUnit = (column: string, unit: string) => {
+    if (!mapping) return;
+    setMapping({
+      ...mapping,
+      columns: (mapping.columns ?? []).map((entry) => (entry.column === column ? { ...entry, unit } : entry)),
+    });
+  };
+
+  const headerOptions = (preview?.headers ?? []).map((header) => (
+    <option key={header} value={header}>
+      {header}
+    </option>
+  ));
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-6 dark:border-dark-3 dark:bg-dark">
+      <h3 className="mb-1 text-lg font-bold text-dark dark:text-white">Import Results from a Spreadsheet</h3>
+      <p className="mb-4 text-sm text-body-color dark:text-dark-6">
+        Upload a CSV or Excel (.xlsx) export from another portal. Check the column mapping and preview before importing;
+        an import can be undone for 24 hours.
+      </p>
+
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
+        <input
+          type="file"
+          accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+          onChange={(e) => {
+            const selected = e.target.files?.[0] ?? null;
+            setFile(selected);
+            setPreview(null);
+            setMapping(null);
+            if (selected) submit(selected, null, false);
+          }}
+          className="text-sm text-body-color dark:text-dark-6"
+        />
+        {loading && <span className="text-sm text-body-color dark:text-dark-6">Reading file...</span>}
+      </div>
+
+      {preview && mapping && file && (
+        <div className="mt-6 space-y-4">
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div>
+              <label className="mb-1 block text-sm font-medium text-dark dark:text-white">Layout</label>
+              <select
+                value={mapping.layout}
+                onChange={(e) => setMapping({ ...mapping, layout: e.target.value as ImportMapping["layout"] })}
+                className={selectClassName}
+              >
+                <option value="WIDE">One column per biomarker</option>
+                <option value="LONG">One result per row</option>
+              </select>
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium text-dark dark:text-white">Date column</label>
+              <select
+                value={mapping.dateColumn}
+                onChange={(e) => setMapping({ ...mapping, dateColumn: e.target.value })}
+                className={selectClassName}
+              >
+                {headerOptions}
+              </select>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-dark dark:text-white sm:mt-6">
+              <input
+                type="checkbox"
+                checked={!!mapping.dayFirst}
+                onChange={(e) => setMapping({ ...mapping, dayFirst: e.target.checked })}
+              />
+              Dates are day first (31/12/2024)
+            </label>
+          </div>
+
+          {mapping.layout === "LONG" ? (
+            <div className="grid gap-4 sm:grid-cols-3">
+              {(
+                [
+                  ["nameColumn", "Test name column"],
+                  ["valueColumn", "Value column"],
+                  ["unitColumn", "Unit column (optional)"],
+                ] as const
+              ).map(([field, label]) => (
+                <div key={field}>
+                  <label className="mb-1 block text-sm font-medium text-dark dark:text-white">{label}</label>
+                  <select
+                    value={mapping[field] ?? ""}
+                    onChange={(e) => setMapping({ ...mapping, [field]: e.target.value || undefined })}
+                    className={selectClassName}
+                  >
+                    <option value="">—</option>
+                    {headerOptions}
+                  </select>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {preview.headers
+                .filter((header) => header !== mapping.dateColumn)
+                .map((header) => {
+                  const mapped = mapping.columns?.find((entry) => entry.column === header);
+                  const units = IMPORT_BIOMARKERS.find((entry) => entry.type === mapped?.biomarkerType)?.units ?? [];
+                  return (
+                    <div key={header} className="grid items-center gap-2 sm:grid-cols-3">
+                      <span className="truncate text-sm font-medium text-dark dark:text-white">{header}</span>
+                      <select
+                        value={mapped?.biomarkerType ?? ""}
+                        onChange={(e) => updateColumn(header, e.target.value)}
+                        className={selectClassName}
+                      >
+                        <option value="">Don&apos;t import</option>
+                        {mapped && !units.length && (
+                          <option value={mapped.biomarkerType}>{mapped.biomarkerType}</option>
+                        )}
+                        {IMPORT_BIOMARKERS.map((entry) => (
+                          <option key={entry.type} value={entry.type}>
+                            {entry.label}
+                          </option>
+                        ))}
+                      </select>
+                      {mapped && (
+                        <select
+                          value={mapped.unit}
+                          onChange={(e) => updateColumnUnit(header, e.target.value)}
+                          className={selectClassName}
+                        >
+                          {(units.length ? units : [mapped.unit]).map((unit) => (
+                            <option key={unit} value={unit}>
+                              {unit}
+                            </option>
+                          ))}
+                        </select>
+                      )}
+                    </div>
+                  );
+                })}
+            </div>
+          )}
+
+          <button
+            onClick={() => submit(file, mapping, false)}
+            disabled={loading}
+            className="rounded-md border border-primary px-4 py-2 text-sm font-medium text-primary transition hover:bg-primary hover:text-white disabled:opacity-50"
+          >
+            Update Preview
+          </button>
+
+          {preview.mappingError ? (
+            <p className="text-sm text-red-600 dark:text-red-400">{preview.mappingError}</p>
+          ) : (
+            <>
+              <div className="flex flex-wrap gap-2">
+                {(Object.keys(STATUS_STYLES) as ImportRowStatus[]).map((status) => (
+                  <span
+                    key={status}
+                    className={`rounded-full px-3 py-1 text-xs font-medium ${STATUS_STYLES[status].className}`}
+                  >
+                    {STATUS_STYLES[status].label}: {preview.summary[status]}
+                  </span>
+                ))}
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-left text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-200 text-body-color dark:border-dark-3 dark:text-dark-6">
+                      <th className="py-2 pr-2">Row</th>
+                      <th className="py-2 pr-2">Source</th>
+                      <th className="py-2 pr-2">Date</th>
+                      <th className="py-2 pr-2">Value</th>
+                      <th className="py-2">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.rows.slice(0, PREVIEW_ROWS).map((row, idx) => (
+                      <tr key={idx} className="border-b border-gray-100 dark:border-dark-3">
+                        <td className="py-2 pr-2 text-body-color dark:text-dark-6">{row.rowNumber}</td>
+                        <td className="py-2 pr-2 text-dark dark:text-white">{row.label}</td>
+                        <td className="py-2 pr-2 text-body-color dark:text-dark-6">
+                          {row.recordedDate ? new Date(row.recordedDate).toLocaleDateString() : "—"}
+                        </td>
+                        <td className="py-2 pr-2 text-dark dark:text-white">
+                          {row.value != null ? `${row.value} ${row.unit}` : "—"}
+                        </td>
+                        <td className="py-2">
+                          <span className={`rounded px-1.5 py-0.5 text-xs font-semibold ${STATUS_STYLES[row.status].className}`}>
+                            {STATUS_STYLES[row.status].label}
+                          </span>
+                          {row.message && (
+                            <span className="ml-2 text-xs text-body-color dark:text-dark-6">{row.message}</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {preview.rows.length > PREVIEW_ROWS && (
+                  <p className="mt-2 text-xs text-body-color dark:text-dark-6">
+                    Showing the first {PREVIEW_ROWS} of {preview.rows.length} values.
+                  </p>
+                )}
+              </div>
+
+              <button
+                onClick={() => submit(file, mapping, true)}
+                disabled={loading || preview.summary.VALID + preview.summary.QUARANTINE === 0}
+                className="rounded-md bg-primary px-4 py-2 text-sm font-medium text-white transition hover:bg-primary/90 disabled:opacity-50"
+              >
+                Import {preview.summary.VALID + preview.summary.QUARANTINE} Value(s)
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
+      {pastImports.length > 0 && (
+        <div className="mt-6 border-t border-gray-200 pt-4 dark:border-dark-3">
+          <h4 className="mb-2 text-sm font-semibold text-dark dark:text-white">Recent Imports</h4>
+          <ul className="space-y-2">
+            {pastImports.map((pastImport) => (
+              <li key={pastImport.id} className="flex items-center justify-between gap-2 text-sm">
+                <span className="text-body-color dark:text-dark-6">
+                  {SOURCE_LABELS[pastImport.source]}: {pastImport.fileName} · {new Date(pastImport.createdAt).toLocaleString()} ·{" "}
+                  {pastImport.status === "UNDONE"
+                    ? "undone"
+                    : `${pastImport.importedCount} imported, ${pastImport.duplicateCount} duplicate(s), ${pastImport.errorCount} error(s)`}
+                </span>
+                {pastImport.canUndo && (
+                  <button
+                    onClick={() => handleUndo(pastImport)}
+                    className="shrink-0 rounded-md border border-stroke px-3 py-1 text-xs font-medium text-dark transition hover:bg-gray-50 dark:border-dark-3 dark:text-white dark:hover:bg-dark-3"
+                  >
+                    Undo
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BiomarkerImport;
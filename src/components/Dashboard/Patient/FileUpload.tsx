@@ -1,5 +1,5 @@
 "use client";
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import toast from "react-hot-toast";
 
 interface FileUploadProps {
@@ -14,6 +14,26 @@ const FileUpload = ({ onClose, onSuccess }: FileUploadProps) => {
   const [reportType, setReportType] = useState("");
   const [uploading, setUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState("");
+  const [analysisJobId, setAnalysisJobId] = useState<string | null>(null);
+  const [analysisPercent, setAnalysisPercent] = useState(0);
+  const [uploadedReportId, setUploadedReportId] = useState<string | null>(null);
+  const [collectionDate, setCollectionDate] = useState("");
+  const [detectedDateLabel, setDetectedDateLabel] = useState<string | null>(null);
+  const pollingStopped = useRef(false);
+
+  // Stop polling if the modal unmounts mid-analysis
+  useEffect(() => {
+    return () => {
+      pollingStopped.current = true;
+    };
+  }, []);
+
+  const jobStatusLabels: Record<string, string> = {
+    QUEUED: "Waiting in analysis queue...",
+    EXTRACTING: "Extracting report content...",
+    ANALYZING: "Analyzing with AI...",
+    SAVING: "Saving analysis results...",
+  };
 
   const reportTypes = [
     { value: "ECG", label: "ECG/EKG" },
@@ -77,9 +97,81 @@ const FileUpload = ({ onClose, onSuccess }: FileUploadProps) => {
     return true;
   };
 
+  const resetForm = () => {
+    setFile(null);
+    setTitle("");
+    setDescription("");
+    setReportType("");
+    setUploadedReportId(null);
+    setCollectionDate("");
+    setDetectedDateLabel(null);
+  };
+
+  const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  /**
+   * Poll the analysis job until it finishes, fails, or the user closes the modal.
+   * Returns the final job status, or null if polling was stopped early.
+   */
+  const pollAnalysisJob = async (jobId: string): Promise<any | null> => {
+    const deadline = Date.now() + 10 * 60 * 1000;
+
+    while (!pollingStopped.current && Date.now() < deadline) {
+      const response = await fetch(`/api/ai/jobs/${jobId}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to check analysis status");
+      }
+
+      const job = data.job;
+      setAnalysisPercent(job.progress);
+
+      if (job.status === "DONE" || job.status === "FAILED") {
+        return job;
+      }
+
+      setUploadProgress(
+        job.status === "QUEUED" && job.attempts > 0
+          ? `Retrying analysis (attempt ${job.attempts + 1} of ${job.maxAttempts})...`
+          : jobStatusLabels[job.status] || "Analyzing with AI..."
+      );
+
+      await sleep(2000);
+    }
+
+    return null;
+  };
+
+  const handleContinueInBackground = () => {
+    pollingStopped.current = true;
+    toast.success("Report uploaded! AI analysis will continue in the background.");
+    resetForm();
+    onSuccess();
+  };
+
+  const handleClose = () => {
+    if (analysisJobId) {
+      handleContinueInBackground();
+    } else if (uploadedReportId) {
+      // The report is already saved; it can be analyzed later from the report list
+      toast.success("Report uploaded! You can run the AI analysis later.");
+      resetForm();
+      onSuccess();
+    } else {
+      onClose();
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
+    // Enter in the collection date field confirms instead of uploading again
+    if (uploadedReportId) {
+      if (collectionDate) await handleConfirmCollectionDate(false);
+      return;
+    }
+
     if (!validateFile()) {
       return;
     }
@@ -106,10 +198,55 @@ const FileUpload = ({ onClose, onSuccess }: FileUploadProps) => {
         throw new Error(uploadData.error || "Failed to upload file");
       }
 
-      const reportId = uploadData.report.id;
-      setUploadProgress("Analyzing with AI...");
+      // Step 2: Ask the patient to confirm when the sample was collected
+      const detected = uploadData.detectedCollectionDate;
+      setUploadedReportId(uploadData.report.id);
+      setCollectionDate(detected?.date || "");
+      setDetectedDateLabel(detected?.label || null);
+    } catch (error: any) {
+      console.error("Upload error:", error);
+      toast.error(error.message || "Failed to upload report");
+    } finally {
+      setUploading(false);
+      setUploadProgress("");
+    }
+  };
+
+  const handleConfirmCollectionDate = async (skip: boolean) => {
+    if (!uploadedReportId) return;
+
+    if (!skip && collectionDate) {
+      setUploading(true);
+      setUploadProgress("Saving collection date...");
+
+      try {
+        const response = await fetch(`/api/reports/${uploadedReportId}/collection-date`, {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ collectedAt: collectionDate }),
+        });
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to save collection date");
+        }
+      } catch (error: any) {
+        toast.error(error.message || "Failed to save collection date");
+        setUploading(false);
+        setUploadProgress("");
+        return;
+      }
+    }
+
+    await analyzeReport(uploadedReportId);
+  };
 
-      // Step 2: Automatically trigger AI analysis
+  const analyzeReport = async (reportId: string) => {
+    setUploading(true);
+    setUploadProgress("Queuing AI analysis...");
+
+    try {
+      // Step 3: Automatically queue AI analysis
       const analysisResponse = await fetch("/api/ai/analyze", {
         method: "POST",
         headers: {
@@ -121,25 +258,46 @@ const FileUpload = ({ onClose, onSuccess }: FileUploadProps) => {
       const analysisData = await analysisResponse.json();
 
       if (!analysisResponse.ok) {
-        // Upload succeeded but analysis failed - still consider it a success
+        // Upload succeeded but analysis could not be queued - still consider it a success
         console.error("AI analysis failed:", analysisData.error);
         toast.success("Report uploaded successfully! AI analysis will be retried.");
+      } else if (analysisData.job) {
+        // Step 4: Follow the analysis job until it completes
+        pollingStopped.current = false;
+        setAnalysisJobId(analysisData.job.id);
+        setAnalysisPercent(analysisData.job.progress);
+
+        const job = await pollAnalysisJob(analysisData.job.id);
+
+        if (!job) {
+          // Closed by the user (already handled) or still running after the deadline
+          if (!pollingStopped.current) {
+            handleContinueInBackground();
+          }
+          return;
+        }
+
+        if (job.status === "FAILED") {
+          console.error("AI analysis failed:", job.error);
+          toast.error("Report uploaded, but AI analysis failed. You can retry it later.");
+        } else {
+          toast.success("Report uploaded and analyzed successfully!");
+        }
       } else {
         toast.success("Report uploaded and analyzed successfully!");
       }
 
       // Reset form and close modal
-      setFile(null);
-      setTitle("");
-      setDescription("");
-      setReportType("");
+      resetForm();
       onSuccess();
     } catch (error: any) {
-      console.error("Upload error:", error);
-      toast.error(error.message || "Failed to upload report");
+      console.error("Analysis error:", error);
+      toast.error(error.message || "Failed to analyze report");
     } finally {
       setUploading(false);
       setUploadProgress("");
+      setAnalysisJobId(null);
+      setAnalysisPercent(0);
     }
   };
 
@@ -151,8 +309,8 @@ const FileUpload = ({ onClose, onSuccess }: FileUploadProps) => {
             Upload Medical Report
           </h3>
           <button
-            onClick={onClose}
-            disabled={uploading}
+            onClick={handleClose}
+            disabled={uploading && !analysisJobId}
             className="text-body-color hover:text-primary disabled:opacity-50 dark:text-dark-6"
           >
             <svg
@@ -182,7 +340,7 @@ const FileUpload = ({ onClose, onSuccess }: FileUploadProps) => {
               onChange={(e) => setTitle(e.target.value)}
               placeholder="e.g., Annual Checkup ECG - Jan 2024"
               className="w-full rounded-md border border-stroke bg-transparent px-5 py-3 text-base text-dark outline-none transition placeholder:text-dark-6 focus:border-primary dark:border-dark-3 dark:text-white"
-              disabled={uploading}
+              disabled={uploading || !!uploadedReportId}
               required
             />
           </div>
@@ -195,7 +353,7 @@ const FileUpload = ({ onClose, onSuccess }: FileUploadProps) => {
               value={reportType}
               onChange={(e) => setReportType(e.target.value)}
               className="w-full rounded-md border border-stroke bg-transparent px-5 py-3 text-base text-dark outline-none transition focus:border-primary dark:border-dark-3 dark:text-white dark:bg-dark-2"
-              disabled={uploading}
+              disabled={uploading || !!uploadedReportId}
               
               required
             >
@@ -217,7 +375,7 @@ const FileUpload = ({ onClose, onSuccess }: FileUploadProps) => {
               onChange={(e) => setDescription(e.target.value)}
               placeholder="Add any additional notes or context (optional)"
               className="w-full rounded-md border border-stroke bg-transparent px-5 py-3 text-base text-dark outline-none transition placeholder:text-dark-6 focus:border-primary dark:border-dark-3 dark:text-white"
-              disabled={uploading}
+              disabled={uploading || !!uploadedReportId}
             ></textarea>
           </div>
 
@@ -262,7 +420,7 @@ const FileUpload = ({ onClose, onSuccess }: FileUploadProps) => {
                   className="hidden"
                   onChange={handleFileChange}
                   accept=".pdf,.png,.jpg,.jpeg"
-                  disabled={uploading}
+                  disabled={uploading || !!uploadedReportId}
                 />
               </label>
             </div>
@@ -273,6 +431,26 @@ const FileUpload = ({ onClose, onSuccess }: FileUploadProps) => {
             )}
           </div>
 
+          {uploadedReportId && !uploading && (
+            <div className="rounded-md border border-stroke p-4 dark:border-dark-3">
+              <label className="mb-2 block text-sm font-medium text-dark dark:text-white">
+                When was the sample collected?
+              </label>
+              <input
+                type="date"
+                value={collectionDate}
+                max={new Date().toISOString().slice(0, 10)}
+                onChange={(e) => setCollectionDate(e.target.value)}
+                className="w-full rounded-md border border-stroke bg-transparent px-5 py-3 text-base text-dark outline-none transition focus:border-primary dark:border-dark-3 dark:text-white"
+              />
+              <p className="mt-2 text-xs text-body-color dark:text-dark-6">
+                {detectedDateLabel
+                  ? `Found in the report: "${detectedDateLabel}". Correct it if it is not the collection date.`
+                  : "No collection date was found in the report. Enter it so your results are charted on the right day."}
+              </p>
+            </div>
+          )}
+
           {uploading && (
             <div className="rounded-md bg-primary/10 p-4 dark:bg-primary/20">
               <div className="flex items-center gap-3">
@@ -281,26 +459,60 @@ const FileUpload = ({ onClose, onSuccess }: FileUploadProps) => {
                   {uploadProgress}
                 </p>
               </div>
+              {analysisJobId && (
+                <>
+                  <div className="mt-3 h-2 w-full rounded-full bg-gray-200 dark:bg-dark-3">
+                    <div
+                      className="h-2 rounded-full bg-primary transition-all"
+                      style={{ width: `${analysisPercent}%` }}
+                    ></div>
+                  </div>
+                  <p className="mt-2 text-xs text-body-color dark:text-dark-6">
+                    You can close this window; the analysis will keep running in the background.
+                  </p>
+                </>
+              )}
             </div>
           )}
 
-          <div className="flex gap-3">
-            <button
-              type="button"
-              onClick={onClose}
-              disabled={uploading}
-              className="flex-1 rounded-md border border-stroke px-6 py-3 text-base font-medium text-dark transition hover:bg-gray-50 disabled:opacity-50 dark:border-dark-3 dark:text-white dark:hover:bg-dark-3"
-            >
-              Cancel
-            </button>
-            <button
-              type="submit"
-              disabled={uploading}
-              className="flex-1 rounded-md bg-primary px-6 py-3 text-base font-medium text-white transition hover:bg-primary/90 disabled:opacity-50"
-            >
-              {uploading ? "Uploading..." : "Upload & Analyze"}
-            </button>
-          </div>
+          {uploadedReportId && !analysisJobId ? (
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={() => handleConfirmCollectionDate(true)}
+                disabled={uploading}
+                className="flex-1 rounded-md border border-stroke px-6 py-3 text-base font-medium text-dark transition hover:bg-gray-50 disabled:opacity-50 dark:border-dark-3 dark:text-white dark:hover:bg-dark-3"
+              >
+                Skip
+              </button>
+              <button
+                type="button"
+                onClick={() => handleConfirmCollectionDate(false)}
+                disabled={uploading || !collectionDate}
+                className="flex-1 rounded-md bg-primary px-6 py-3 text-base font-medium text-white transition hover:bg-primary/90 disabled:opacity-50"
+              >
+                Confirm & Analyze
+              </button>
+            </div>
+          ) : (
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={handleClose}
+                disabled={uploading && !analysisJobId}
+                className="flex-1 rounded-md border border-stroke px-6 py-3 text-base font-medium text-dark transition hover:bg-gray-50 disabled:opacity-50 dark:border-dark-3 dark:text-white dark:hover:bg-dark-3"
+              >
+                {analysisJobId ? "Close" : "Cancel"}
+              </button>
+              <button
+                type="submit"
+                disabled={uploading}
+                className="flex-1 rounded-md bg-primary px-6 py-3 text-base font-medium text-white transition hover:bg-primary/90 disabled:opacity-50"
+              >
+                {uploading ? "Uploading..." : "Upload & Analyze"}
+              </button>
+            </div>
+          )}
         </form>
       </div>
     </div>
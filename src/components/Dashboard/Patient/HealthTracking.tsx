@@ -10,7 +10,14 @@ import {
   Tooltip,
   Legend,
   ResponsiveContainer,
+  ReferenceLine,
 } from "recharts";
+import DisplayUnitSettings from "../DisplayUnitSettings";
+import RiskSimulator from "../RiskSimulator";
+import QuarantinedBiomarkers, { QuarantinedBiomarker } from "../QuarantinedBiomarkers";
+import GoalForecastChart, { GoalForecast } from "../GoalForecastChart";
+import BiomarkerImport from "./BiomarkerImport";
+import WearableImport from "./WearableImport";
 
 interface BiomarkerTrend {
   id: string;
@@ -18,6 +25,9 @@ interface BiomarkerTrend {
   value: number;
   unit: string;
   recordedDate: string;
+  flag: "LL" | "L" | "H" | "HH" | null;
+  referenceLow: number | null;
+  referenceHigh: number | null;
 }
 
 interface TrendAnalysis {
@@ -28,7 +38,12 @@ interface TrendAnalysis {
   latestValue: number;
   earliestValue: number;
   unit: string;
+  ratePerYear: number | null; // Change per year from a regression on collection dates
+  rateConfidenceInterval: [number, number] | null;
+  significant: boolean; // Change exceeds measurement noise
   alert?: string;
+  flag: "LL" | "L" | "H" | "HH" | null;
+  referenceRange: string | null;
 }
 
 interface RiskAssessment {
@@ -37,11 +52,36 @@ interface RiskAssessment {
   score: number;
   riskCategory: "LOW" | "MODERATE" | "HIGH" | "VERY_HIGH";
   riskPercentage?: number;
+  factors: Record<string, any>;
   recommendations: string;
-  createdAt: string;
+  calculatedAt: string;
   validUntil: string;
+  trigger: "MANUAL" | "CLINICIAN" | "NEW_BIOMARKERS" | "IMPORT_UNDONE" | "EXPIRED";
+  previousCategory: RiskAssessment["riskCategory"] | null;
+  inputSources: Record<string, { source: string; reportId?: string | null; recordedDate?: string }> | null;
+  clinicianNote: string | null;
+  assessedBy: { name: string | null } | null;
+  educationalLinks: string | null; // JSON array of educational resources
 }
 
+const RISK_TRIGGER_LABELS: Record<string, string> = {
+  NEW_BIOMARKERS: "updated automatically after new results",
+  IMPORT_UNDONE: "recalculated automatically after imported results were removed",
+  BIOMARKERS_REMOVED: "recalculated automatically after results were removed",
+  ECG_FINDING: "calculated automatically after an ECG showed atrial fibrillation",
+  EXPIRED: "recalculated automatically after the previous assessment expired",
+};
+
+const RISK_ASSESSMENT_TITLES: Record<string, string> = {
+  FRAMINGHAM_CVD: "Cardiovascular Disease Risk (Framingham)",
+  ASCVD: "Atherosclerotic CVD Risk (Pooled Cohort Equations)",
+  DIABETES_RISK: "Type 2 Diabetes Risk",
+  KDIGO_CKD: "Kidney Function (KDIGO CKD Stage)",
+  METABOLIC_SYNDROME: "Metabolic Syndrome (Harmonized Criteria)",
+  CHA2DS2_VASC: "Atrial Fibrillation Stroke Risk (CHA2DS2-VASc)",
+  HAS_BLED: "Anticoagulation Bleeding Risk (HAS-BLED)",
+};
+
 interface HealthGoal {
   id: string;
   title: string;
@@ -54,6 +94,14 @@ interface HealthGoal {
   status: "IN_PROGRESS" | "ACHIEVED" | "ABANDONED" | "OVERDUE";
   progress: number;
   daysRemaining: number;
+  forecast: GoalForecast | null; // Only for goals in progress
+  statusChanges: Array<{
+    id: string;
+    toStatus: HealthGoal["status"];
+    reason: string;
+    changedBy: string | null; // null when changed automatically
+    changedAt: string;
+  }>;
 }
 
 interface EducationalResource {
@@ -69,6 +117,8 @@ const HealthTracking = () => {
   const [activeSubTab, setActiveSubTab] = useState("overview");
   const [trends, setTrends] = useState<TrendAnalysis[]>([]);
   const [trendData, setTrendData] = useState<{ [key: string]: BiomarkerTrend[] }>({});
+  const [quarantined, setQuarantined] = useState<QuarantinedBiomarker[]>([]);
+  const [wearableImports, setWearableImports] = useState(0);
   const [riskAssessments, setRiskAssessments] = useState<RiskAssessment[]>([]);
   const [healthScore, setHealthScore] = useState<number | null>(null);
   const [goals, setGoals] = useState<HealthGoal[]>([]);
@@ -113,6 +163,7 @@ const HealthTracking = () => {
       if (response.ok) {
         setTrends(data.trends || []);
         setTrendData(data.trendData || {});
+        setQuarantined(data.quarantined || []);
       } else {
         console.error("Failed to fetch trends:", data.error);
       }
@@ -150,6 +201,9 @@ const HealthTracking = () => {
               trustScore: 10,
             });
           }
+          if (risk.educationalLinks) {
+            resources.push(...JSON.parse(risk.educationalLinks));
+          }
         });
         setEducationalResources(resources);
       } else {
@@ -271,6 +325,23 @@ const HealthTracking = () => {
     }
   };
 
+  const getFlagColor = (flag: string | null) => {
+    switch (flag) {
+      case "LL":
+      case "HH":
+        return "bg-red-600 text-white";
+      case "L":
+      case "H":
+        return "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-300";
+      default:
+        return "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300";
+    }
+  };
+
+  // Assessments are returned newest first
+  const latestFramingham = riskAssessments.find((risk) => risk.assessmentType === "FRAMINGHAM_CVD");
+  const latestASCVD = riskAssessments.find((risk) => risk.assessmentType === "ASCVD");
+
   const getRiskColor = (category: string) => {
     switch (category) {
       case "LOW":
@@ -439,6 +510,11 @@ const HealthTracking = () => {
                       </p>
                       <p className="text-sm text-body-color dark:text-dark-6">
                         Latest: {trend.latestValue} {trend.unit}
+                        {trend.referenceRange && (
+                          <span className={`ml-2 rounded px-1.5 py-0.5 text-xs font-semibold ${getFlagColor(trend.flag)}`}>
+                            {trend.flag || "Normal"}
+                          </span>
+                        )}
                       </p>
                     </div>
                     <div className="text-right">
@@ -449,6 +525,15 @@ const HealthTracking = () => {
                         {trend.percentageChange != null && trend.percentageChange > 0 ? "+" : ""}
                         {trend.percentageChange != null ? trend.percentageChange.toFixed(1) : "0.0"}%
                       </p>
+                      {trend.ratePerYear != null && (
+                        <p className="text-xs text-body-color dark:text-dark-6">
+                          {trend.ratePerYear > 0 ? "+" : ""}
+                          {trend.ratePerYear} {trend.unit}/year
+                          {trend.rateConfidenceInterval &&
+                            ` (95% CI ${trend.rateConfidenceInterval[0]} to ${trend.rateConfidenceInterval[1]})`}
+                          {!trend.significant && " · within measurement noise"}
+                        </p>
+                      )}
                     </div>
                   </div>
                 ))}
@@ -499,6 +584,35 @@ const HealthTracking = () => {
       {/* Biomarker Trends Tab */}
       {activeSubTab === "trends" && (
         <div className="space-y-6">
+          <QuarantinedBiomarkers
+            biomarkers={quarantined}
+            onChange={() => {
+              fetchTrends();
+              fetchRiskAssessments();
+            }}
+          />
+          <BiomarkerImport
+            refreshKey={wearableImports}
+            onImported={() => {
+              fetchTrends();
+              fetchRiskAssessments();
+              fetchGoals();
+            }}
+          />
+          <WearableImport
+            onImported={() => {
+              setWearableImports((count) => count + 1);
+              fetchTrends();
+              fetchRiskAssessments();
+              fetchGoals();
+            }}
+          />
+          {trends.length > 0 && (
+            <DisplayUnitSettings
+              biomarkerTypes={trends.map((trend) => trend.biomarkerType)}
+              onChange={fetchTrends}
+            />
+          )}
           {trends.length === 0 ? (
             <div className="rounded-lg border border-gray-200 bg-white p-8 text-center dark:border-dark-3 dark:bg-dark">
               <p className="text-body-color dark:text-dark-6">
@@ -548,6 +662,23 @@ const HealthTracking = () => {
                         <YAxis />
                         <Tooltip />
                         <Legend />
+                        {/* Reference range of the latest measurement */}
+                        {trendData[trend.biomarkerType].at(-1)?.referenceHigh != null && (
+                          <ReferenceLine
+                            y={trendData[trend.biomarkerType].at(-1)?.referenceHigh ?? undefined}
+                            stroke="#f97316"
+                            strokeDasharray="4 4"
+                            label="High"
+                          />
+                        )}
+                        {trendData[trend.biomarkerType].at(-1)?.referenceLow != null && (
+                          <ReferenceLine
+                            y={trendData[trend.biomarkerType].at(-1)?.referenceLow ?? undefined}
+                            stroke="#f97316"
+                            strokeDasharray="4 4"
+                            label="Low"
+                          />
+                        )}
                         <Line
                           type="monotone"
                           dataKey="value"
@@ -565,6 +696,14 @@ const HealthTracking = () => {
                     <p className="text-sm text-body-color dark:text-dark-6">Latest Value</p>
                     <p className="text-lg font-semibold text-dark dark:text-white">
                       {trend.latestValue} {trend.unit}
+                      {trend.referenceRange && (
+                        <span className={`ml-2 rounded px-1.5 py-0.5 text-xs font-semibold ${getFlagColor(trend.flag)}`}>
+                          {trend.flag || "Normal"}
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-xs text-body-color dark:text-dark-6">
+                      Reference range: {trend.referenceRange || "not available"}
                     </p>
                   </div>
                   <div>
@@ -598,6 +737,34 @@ const HealthTracking = () => {
       {/* Risk Assessment Tab */}
       {activeSubTab === "risk" && (
         <div className="space-y-6">
+          {(latestFramingham || latestASCVD) && (
+            <div className="rounded-lg border border-gray-200 bg-white p-6 dark:border-dark-3 dark:bg-dark">
+              <h3 className="mb-4 text-lg font-bold text-dark dark:text-white">
+                10-Year Cardiovascular Risk
+              </h3>
+              <div className="grid gap-4 sm:grid-cols-2">
+                {[
+                  { label: "Pooled Cohort Equations (ASCVD)", risk: latestASCVD },
+                  { label: "Framingham", risk: latestFramingham },
+                ].map(({ label, risk }) => (
+                  <div key={label} className="rounded-md bg-gray-50 p-4 dark:bg-dark-2">
+                    <p className="mb-1 text-sm text-body-color dark:text-dark-6">{label}</p>
+                    {risk?.riskPercentage != null ? (
+                      <p className="text-3xl font-bold text-dark dark:text-white">
+                        {risk.riskPercentage.toFixed(1)}%
+                      </p>
+                    ) : (
+                      <p className="text-sm text-body-color dark:text-dark-6">Not calculated</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+              <p className="mt-3 text-xs text-body-color dark:text-dark-6">
+                Your doctor uses the ASCVD estimate for cholesterol treatment decisions. It applies to ages 40-79.
+              </p>
+            </div>
+          )}
+          <RiskSimulator />
           {riskAssessments.length === 0 ? (
             <div className="rounded-lg border border-gray-200 bg-white p-8 text-center dark:border-dark-3 dark:bg-dark">
               <p className="text-body-color dark:text-dark-6">
@@ -613,19 +780,100 @@ const HealthTracking = () => {
                 <div className="mb-4 flex items-start justify-between">
                   <div>
                     <h3 className="text-xl font-bold text-dark dark:text-white">
-                      {risk.assessmentType === "FRAMINGHAM_CVD"
-                        ? "Cardiovascular Disease Risk"
-                        : "Type 2 Diabetes Risk"}
+                      {RISK_ASSESSMENT_TITLES[risk.assessmentType] || risk.assessmentType}
                     </h3>
                     <p className="text-sm text-body-color dark:text-dark-6">
-                      Assessed on {new Date(risk.createdAt).toLocaleDateString()}
+                      Assessed on {new Date(risk.calculatedAt).toLocaleDateString()}
+                      {RISK_TRIGGER_LABELS[risk.trigger] && ` · ${RISK_TRIGGER_LABELS[risk.trigger]}`}
                     </p>
+                    {risk.previousCategory && (
+                      <p className="mt-1 text-sm font-medium text-dark dark:text-white">
+                        Changed from {risk.previousCategory.replace("_", " ")} risk
+                      </p>
+                    )}
+                    {risk.trigger === "CLINICIAN" && (
+                      <p className="mt-1 text-sm text-primary">
+                        Assessed by Dr. {risk.assessedBy?.name || "Unknown"}
+                        {risk.clinicianNote && ` · ${risk.clinicianNote}`}
+                      </p>
+                    )}
                   </div>
                   <span className={`rounded-full px-4 py-2 text-sm font-medium ${getRiskColor(risk.riskCategory)}`}>
                     {risk.riskCategory} RISK
                   </span>
                 </div>
 
+                {risk.assessmentType === "KDIGO_CKD" && (
+                  <div className="mb-4 rounded-md bg-gray-50 p-4 dark:bg-dark-2">
+                    <p className="mb-1 text-sm text-body-color dark:text-dark-6">
+                      Stage (eGFR {risk.factors.egfr}
+                      {risk.factors.uacr != null ? `, albumin/creatinine ${risk.factors.uacr} mg/g` : ""})
+                    </p>
+                    <p className="text-3xl font-bold text-dark dark:text-white">
+                      {risk.factors.stage}
+                    </p>
+                  </div>
+                )}
+
+                {risk.assessmentType === "METABOLIC_SYNDROME" && (
+                  <div className="mb-4 rounded-md bg-gray-50 p-4 dark:bg-dark-2">
+                    <p className="mb-2 text-sm text-body-color dark:text-dark-6">
+                      {risk.factors.criteriaMet} of 5 criteria met
+                      {risk.factors.hasMetabolicSyndrome === true && " · metabolic syndrome present"}
+                      {risk.factors.hasMetabolicSyndrome === null && " · more measurements needed"}
+                    </p>
+                    <ul className="space-y-1 text-sm">
+                      {risk.factors.criteria.map((criterion: any) => (
+                        <li key={criterion.criterion} className="flex justify-between gap-4">
+                          <span className="text-dark dark:text-white">
+                            {criterion.met ? "✅" : criterion.met === false ? "⬜" : "❔"} {criterion.label} ({criterion.threshold})
+                          </span>
+                          <span className="text-body-color dark:text-dark-6">
+                            {criterion.value ?? "Not measured"}
+                            {criterion.recordedDate && ` · ${new Date(criterion.recordedDate).toLocaleDateString()}`}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {(risk.assessmentType === "CHA2DS2_VASC" || risk.assessmentType === "HAS_BLED") && (
+                  <div className="mb-4 rounded-md bg-gray-50 p-4 dark:bg-dark-2">
+                    <p className="mb-1 text-sm text-body-color dark:text-dark-6">Score</p>
+                    <p className="text-3xl font-bold text-dark dark:text-white">
+                      {risk.score}
+                      {risk.factors.maxScore > risk.score && (
+                        <span className="ml-2 text-base font-normal text-body-color dark:text-dark-6">
+                          up to {risk.factors.maxScore}
+                        </span>
+                      )}
+                    </p>
+                    {risk.factors.annualStrokeRate != null && (
+                      <p className="mt-1 text-xs text-body-color dark:text-dark-6">
+                        About {risk.factors.annualStrokeRate}% stroke risk per year without anticoagulation
+                      </p>
+                    )}
+                    <ul className="mt-3 space-y-1 text-sm">
+                      {risk.factors.items.map((item: any) => (
+                        <li key={item.key} className="flex justify-between gap-4">
+                          <span className="text-dark dark:text-white">
+                            {item.present ? "✅" : item.present === false ? "⬜" : "❔"} {item.label} (+{item.points})
+                          </span>
+                          <span className={item.present === null ? "text-yellow-800 dark:text-yellow-300" : "text-body-color dark:text-dark-6"}>
+                            {item.present === null ? "Missing" : item.source}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                    {risk.factors.missing.length > 0 && (
+                      <p className="mt-2 text-xs text-yellow-800 dark:text-yellow-300">
+                        {risk.factors.missing.length} item(s) missing. Add the missing conditions to your profile to complete this score
+                      </p>
+                    )}
+                  </div>
+                )}
+
                 {risk.riskPercentage != null && (
                   <div className="mb-4 rounded-md bg-gray-50 p-4 dark:bg-dark-2">
                     <p className="mb-1 text-sm text-body-color dark:text-dark-6">
@@ -634,6 +882,12 @@ const HealthTracking = () => {
                     <p className="text-3xl font-bold text-dark dark:text-white">
                       {risk.riskPercentage.toFixed(1)}%
                     </p>
+                    {risk.assessmentType === "ASCVD" && risk.factors?.guidelineCategory && (
+                      <p className="mt-1 text-xs text-body-color dark:text-dark-6">
+                        {risk.factors.guidelineCategory.charAt(0) + risk.factors.guidelineCategory.slice(1).toLowerCase()} risk
+                        under the 2018 AHA/ACC cholesterol guideline
+                      </p>
+                    )}
                   </div>
                 )}
 
@@ -708,6 +962,10 @@ const HealthTracking = () => {
                     </div>
                   </div>
 
+                  {goal.forecast && (
+                    <GoalForecastChart forecast={goal.forecast} targetValue={goal.targetValue} unit={goal.unit} />
+                  )}
+
                   <div className="grid grid-cols-2 gap-4 text-sm">
                     <div>
                       <p className="text-body-color dark:text-dark-6">Current</p>
@@ -731,6 +989,13 @@ const HealthTracking = () => {
                         ? `${Math.abs(goal.daysRemaining)} days overdue`
                         : `Target date: ${new Date(goal.targetDate).toLocaleDateString()}`}
                     </p>
+                    {goal.statusChanges.length > 0 && (
+                      <p className="mb-2 text-xs text-body-color dark:text-dark-6">
+                        {goal.statusChanges[0].changedBy ? "Marked" : "Automatically marked"}{" "}
+                        {goal.statusChanges[0].toStatus.replace("_", " ").toLowerCase()} on{" "}
+                        {new Date(goal.statusChanges[0].changedAt).toLocaleDateString()}: {goal.statusChanges[0].reason}
+                      </p>
+                    )}
                     {goal.status === "IN_PROGRESS" && (
                       <button
                         onClick={() => handleRecordProgress(goal.id)}
@@ -862,19 +1127,25 @@ const HealthTracking = () => {
                       const metric = e.target.value;
                       let unit = "mg/dL";
                       if (metric === "weight") unit = "kg";
+                      if (metric === "waist_circumference") unit = "cm";
                       if (metric === "hba1c") unit = "%";
+                      if (metric === "bmi") unit = "kg/m²";
                       if (metric.includes("bp")) unit = "mmHg";
                       setGoalForm({ ...goalForm, targetMetric: metric, unit });
                     }}
                     className="w-full rounded-md border border-stroke bg-transparent px-4 py-3 text-base text-dark outline-none transition focus:border-primary dark:border-dark-3 dark:text-white"
                   >
                     <option value="cholesterol_ldl">LDL Cholesterol</option>
+                    <option value="cholesterol_ldl_martin">LDL Cholesterol (calculated)</option>
                     <option value="cholesterol_total">Total Cholesterol</option>
                     <option value="cholesterol_hdl">HDL Cholesterol</option>
+                    <option value="cholesterol_non_hdl">Non-HDL Cholesterol</option>
                     <option value="triglycerides">Triglycerides</option>
                     <option value="glucose_fasting">Fasting Glucose</option>
                     <option value="hba1c">HbA1c</option>
                     <option value="weight">Weight</option>
+                    <option value="bmi">BMI</option>
+                    <option value="waist_circumference">Waist Circumference</option>
                     <option value="bp_systolic">Systolic BP</option>
                     <option value="bp_diastolic">Diastolic BP</option>
                   </select>
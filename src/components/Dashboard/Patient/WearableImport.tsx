@@ -0,0 +1,185 @@
+"use client";
+import { useState } from "react";
+import toast from "react-hot-toast";
+
+type ImportRowStatus = "VALID" | "QUARANTINE" | "DUPLICATE" | "ERROR";
+
+interface WearablePreviewRow {
+  label: string;
+  biomarkerType: string | null;
+  recordedDate: string | null;
+  value: number | null;
+  unit: string | null;
+  status: ImportRowStatus;
+  message: string | null;
+  deviceSource?: string | null;
+}
+
+interface WearablePreview {
+  source: "APPLE_HEALTH" | "GOOGLE_FIT";
+  skippedCount: number;
+  rows: WearablePreviewRow[];
+  summary: Record<ImportRowStatus, number>;
+}
+
+interface WearableImportProps {
+  onImported: () => void;
+}
+
+const SOURCE_LABELS: Record<WearablePreview["source"], string> = {
+  APPLE_HEALTH: "Apple Health",
+  GOOGLE_FIT: "Google Fit",
+};
+
+const BIOMARKER_LABELS: Record<string, string> = {
+  bp_systolic: "Systolic BP",
+  bp_diastolic: "Diastolic BP",
+  heart_rate: "Heart Rate",
+  weight: "Weight",
+  waist_circumference: "Waist Circumference",
+  glucose_fasting: "Fasting Glucose",
+};
+
+const STATUS_STYLES: Record<ImportRowStatus, { label: string; className: string }> = {
+  VALID: { label: "New", className: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300" },
+  QUARANTINE: { label: "Needs confirmation", className: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300" },
+  DUPLICATE: { label: "Duplicate", className: "bg-gray-100 text-gray-800 dark:bg-dark-3 dark:text-dark-6" },
+  ERROR: { label: "Error", className: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300" },
+};
+
+const WearableImport = ({ onImported }: WearableImportProps) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<WearablePreview | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const submit = async (selectedFile: File, confirm: boolean) => {
+    setLoading(true);
+    try {
+      const formData = new FormData();
+      formData.append("file", selectedFile);
+      if (confirm) formData.append("confirm", "true");
+
+      const response = await fetch("/api/health/trends/import/wearable", { method: "POST", body: formData });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to read the export");
+      }
+
+      if (confirm) {
+        toast.success(data.message);
+        setFile(null);
+        setPreview(null);
+        onImported();
+      } else {
+        setPreview(data);
+      }
+    } catch (error: any) {
+      toast.error(error.message || "Failed to read the export");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // New values per biomarker with the period they cover
+  const biomarkerSummary = preview
+    ? Object.entries(
+        preview.rows
+          .filter((row) => row.status === "VALID" || row.status === "QUARANTINE")
+          .reduce<Record<string, { count: number; from: string; to: string; sources: Set<string> }>>((acc, row) => {
+            const type = row.biomarkerType!;
+            const date = row.recordedDate!;
+            const entry = acc[type] ?? { count: 0, from: date, to: date, sources: new Set<string>() };
+            entry.count++;
+            if (date < entry.from) entry.from = date;
+            if (date > entry.to) entry.to = date;
+            if (row.deviceSource) entry.sources.add(row.deviceSource);
+            acc[type] = entry;
+            return acc;
+          }, {})
+      )
+    : [];
+
+  const flagged = preview?.rows.filter((row) => row.status === "QUARANTINE") ?? [];
+  const importable = preview ? preview.summary.VALID + preview.summary.QUARANTINE : 0;
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-6 dark:border-dark-3 dark:bg-dark">
+      <h3 className="mb-1 text-lg font-bold text-dark dark:text-white">Import from Apple Health or Google Fit</h3>
+      <p className="mb-4 text-sm text-body-color dark:text-dark-6">
+        Upload the export.zip from the Health app (Profile → Export All Health Data) or a Google Takeout archive with
+        Fit data. Blood pressure, heart rate, weight and fasting glucose are imported as one value per day.
+      </p>
+
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
+        <input
+          type="file"
+          accept=".zip,.xml,.json"
+          onChange={(e) => {
+            const selected = e.target.files?.[0] ?? null;
+            setFile(selected);
+            setPreview(null);
+            if (selected) submit(selected, false);
+          }}
+          className="text-sm text-body-color dark:text-dark-6"
+        />
+        {loading && <span className="text-sm text-body-color dark:text-dark-6">Reading export, this can take a minute...</span>}
+      </div>
+
+      {preview && file && (
+        <div className="mt-6 space-y-4">
+          <p className="text-sm text-dark dark:text-white">
+            {SOURCE_LABELS[preview.source]} export: {preview.rows.length} daily value(s)
+            {preview.skippedCount > 0 && ` (${preview.skippedCount} reading(s) skipped: unsupported unit, invalid date or not fasting)`}
+          </p>
+
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(STATUS_STYLES) as ImportRowStatus[]).map((status) => (
+              <span
+                key={status}
+                className={`rounded-full px-3 py-1 text-xs font-medium ${STATUS_STYLES[status].className}`}
+              >
+                {STATUS_STYLES[status].label}: {preview.summary[status]}
+              </span>
+            ))}
+          </div>
+
+          {biomarkerSummary.length > 0 && (
+            <ul className="space-y-1 text-sm">
+              {biomarkerSummary.map(([type, entry]) => (
+                <li key={type} className="text-body-color dark:text-dark-6">
+                  <span className="font-medium text-dark dark:text-white">{BIOMARKER_LABELS[type] ?? type}</span>:{" "}
+                  {entry.count} day(s), {new Date(entry.from).toLocaleDateString()} –{" "}
+                  {new Date(entry.to).toLocaleDateString()} · {Array.from(entry.sources).join(", ")}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {flagged.length > 0 && (
+            <div>
+              <h4 className="mb-1 text-sm font-semibold text-dark dark:text-white">Held for confirmation</h4>
+              <ul className="space-y-1 text-xs text-body-color dark:text-dark-6">
+                {flagged.slice(0, 10).map((row, idx) => (
+                  <li key={idx}>
+                    {new Date(row.recordedDate!).toLocaleDateString()} · {row.label}: {row.value} {row.unit} — {row.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <button
+            onClick={() => submit(file, true)}
+            disabled={loading || importable === 0}
+            className="rounded-md bg-primary px-4 py-2 text-sm font-medium text-white transition hover:bg-primary/90 disabled:opacity-50"
+          >
+            Import {importable} Daily Value(s)
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WearableImport;
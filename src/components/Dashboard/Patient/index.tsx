@@ -4,11 +4,14 @@ import { useSession } from "next-auth/react";
 import toast from "react-hot-toast";
 import FileUpload from "./FileUpload";
 import HealthTracking from "./HealthTracking";
+import AnalysisHistory from "../AnalysisHistory";
 
 interface PatientProfile {
   id: string;
   age?: number;
   biologicalSex?: string;
+  race?: string;
+  ethnicity?: string;
   weight?: number;
   height?: number;
   bloodType?: string;
@@ -17,6 +20,35 @@ interface PatientProfile {
   medicalHistory?: string;
   chronicIllness?: string;
   familyHistory?: string;
+  conditions?: Record<string, boolean> | null;
+}
+
+// Conditions used by the atrial fibrillation stroke and bleeding risk scores
+const CONDITION_FIELDS: Array<{ key: string; label: string }> = [
+  { key: "atrialFibrillation", label: "Atrial fibrillation or flutter" },
+  { key: "heartFailure", label: "Heart failure" },
+  { key: "hypertension", label: "High blood pressure" },
+  { key: "diabetes", label: "Diabetes" },
+  { key: "strokeOrTIA", label: "Stroke, mini-stroke (TIA) or blood clot" },
+  { key: "vascularDisease", label: "Heart attack or artery disease in the legs" },
+  { key: "bleedingHistory", label: "Major bleeding or bleeding tendency" },
+  { key: "liverDisease", label: "Chronic liver disease" },
+  { key: "dialysisOrKidneyTransplant", label: "Dialysis or kidney transplant" },
+  { key: "labileINR", label: "Unstable INR on warfarin" },
+  { key: "antiplateletOrNSAID", label: "Taking aspirin, clopidogrel or painkillers like ibuprofen" },
+  { key: "alcoholExcess", label: "8 or more alcoholic drinks a week" },
+];
+
+interface AnalysisReview {
+  decision: "ACCEPTED" | "AMENDED" | "REJECTED";
+  riskLevelOverride: string | null;
+  recommendationsOverride: string | null;
+  comment: string | null;
+  reviewedAt: string;
+  reviewer: {
+    name: string;
+    email: string;
+  };
 }
 
 interface MedicalReport {
@@ -26,14 +58,18 @@ interface MedicalReport {
   reportType: string;
   status: string;
   createdAt: string;
+  collectedAt: string | null;
   fileName: string;
   fileSize: number;
   aiAnalysis?: {
+    version: number;
+    parseStatus: "PARSED" | "UNPARSED";
     patientSummary: string;
     technicalSummary: string;
-    riskLevel: string;
-    recommendations: string;
-    confidence: number;
+    riskLevel: string | null;
+    recommendations: string | null;
+    confidence: number | null;
+    reviews: AnalysisReview[];
   };
   doctorNotes: Array<{
     id: string;
@@ -70,6 +106,7 @@ const PatientDashboard = () => {
   const [reports, setReports] = useState<MedicalReport[]>([]);
   const [doctors, setDoctors] = useState<DoctorAccess[]>([]);
   const [showUploadModal, setShowUploadModal] = useState(false);
+  const [historyReport, setHistoryReport] = useState<MedicalReport | null>(null);
   const [showAddDoctorModal, setShowAddDoctorModal] = useState(false);
   const [doctorEmail, setDoctorEmail] = useState("");
   const [addingDoctor, setAddingDoctor] = useState(false);
@@ -78,6 +115,8 @@ const PatientDashboard = () => {
   const [profileForm, setProfileForm] = useState({
     age: "",
     biologicalSex: "",
+    race: "",
+    ethnicity: "",
     weight: "",
     height: "",
     bloodType: "",
@@ -86,6 +125,7 @@ const PatientDashboard = () => {
     medicalHistory: "",
     chronicIllness: "",
     familyHistory: "",
+    conditions: {} as Record<string, string>, // YES, NO or "" when not sure
   });
 
   // Fetch data on mount
@@ -114,6 +154,8 @@ const PatientDashboard = () => {
         setProfileForm({
           age: data.profile.age?.toString() || "",
           biologicalSex: data.profile.biologicalSex || "",
+          race: data.profile.race || "",
+          ethnicity: data.profile.ethnicity || "",
           weight: data.profile.weight?.toString() || "",
           height: data.profile.height?.toString() || "",
           bloodType: data.profile.bloodType || "",
@@ -122,6 +164,9 @@ const PatientDashboard = () => {
           medicalHistory: data.profile.medicalHistory || "",
           chronicIllness: data.profile.chronicIllness || "",
           familyHistory: data.profile.familyHistory || "",
+          conditions: Object.fromEntries(
+            Object.entries(data.profile.conditions || {}).map(([key, value]) => [key, value ? "YES" : "NO"])
+          ),
         });
       }
     } catch (error) {
@@ -164,7 +209,14 @@ const PatientDashboard = () => {
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify(profileForm),
+        body: JSON.stringify({
+          ...profileForm,
+          conditions: Object.fromEntries(
+            Object.entries(profileForm.conditions)
+              .filter(([, answer]) => answer)
+              .map(([key, answer]) => [key, answer === "YES"])
+          ),
+        }),
       });
 
       const data = await response.json();
@@ -269,6 +321,13 @@ const PatientDashboard = () => {
     }
   };
 
+  // A doctor's amendment replaces the AI risk level; a rejection means no risk level stands
+  const getEffectiveRiskLevel = (report: MedicalReport) => {
+    const review = report.aiAnalysis?.reviews[0];
+    if (review?.decision === "REJECTED") return "";
+    return review?.riskLevelOverride || report.aiAnalysis?.riskLevel || "";
+  };
+
   if (loading) {
     return (
       <section className="bg-gray-1 py-8 dark:bg-dark-2 lg:py-[70px]">
@@ -488,10 +547,12 @@ const PatientDashboard = () => {
                                 {report.title}
                               </h4>
                               <p className="text-sm text-body-color dark:text-dark-6">
-                                {report.reportType} • {new Date(report.createdAt).toLocaleDateString()}
+                                {report.reportType} • {report.collectedAt
+                                  ? `Collected ${new Date(report.collectedAt).toLocaleDateString(undefined, { timeZone: "UTC" })}`
+                                  : new Date(report.createdAt).toLocaleDateString()}
                               </p>
                             </div>
-                            <span className={`rounded-full px-3 py-1 text-xs font-medium ${getRiskBadgeColor(report.aiAnalysis?.riskLevel || "")}`}>
+                            <span className={`rounded-full px-3 py-1 text-xs font-medium ${getRiskBadgeColor(getEffectiveRiskLevel(report))}`}>
                               {report.status}
                             </span>
                           </div>
@@ -552,6 +613,8 @@ const PatientDashboard = () => {
                             </h3>
                             <p className="mt-1 text-sm text-body-color dark:text-dark-6">
                               {report.reportType} • Uploaded {new Date(report.createdAt).toLocaleDateString()}
+                              {report.collectedAt &&
+                                ` • Collected ${new Date(report.collectedAt).toLocaleDateString(undefined, { timeZone: "UTC" })}`}
                             </p>
                             {report.description && (
                               <p className="mt-2 text-sm text-body-color dark:text-dark-6">
@@ -576,32 +639,95 @@ const PatientDashboard = () => {
                                 Download
                               </a>
                             </div>
-                            <span className={`rounded-full px-3 py-1 text-center text-xs font-medium ${getRiskBadgeColor(report.aiAnalysis?.riskLevel || "")}`}>
+                            <span className={`rounded-full px-3 py-1 text-center text-xs font-medium ${getRiskBadgeColor(getEffectiveRiskLevel(report))}`}>
                               {report.status}
                             </span>
+                            {report.aiAnalysis && (
+                              <button
+                                onClick={() => setHistoryReport(report)}
+                                className="rounded-full border border-stroke px-3 py-1 text-xs font-medium text-dark transition hover:bg-gray-50 dark:border-dark-3 dark:text-white dark:hover:bg-dark-3"
+                              >
+                                Version {report.aiAnalysis.version} • History
+                              </button>
+                            )}
                           </div>
                         </div>                        {report.aiAnalysis && (
                           <div className="mt-4 space-y-4 border-t border-gray-200 pt-4 dark:border-dark-3">
+                            {report.aiAnalysis.reviews[0]?.decision === "REJECTED" ? (
+                              <div className="rounded-md border border-red-200 bg-red-50 p-4 dark:border-red-900 dark:bg-red-900/20">
+                                <h4 className="mb-1 font-semibold text-red-800 dark:text-red-300">
+                                  ✕ Not confirmed by your doctor
+                                </h4>
+                                <p className="text-sm text-red-800 dark:text-red-300">
+                                  Dr. {report.aiAnalysis.reviews[0].reviewer.name} reviewed this AI analysis on{" "}
+                                  {new Date(report.aiAnalysis.reviews[0].reviewedAt).toLocaleDateString()} and
+                                  found it should not be relied on: {report.aiAnalysis.reviews[0].comment}
+                                </p>
+                              </div>
+                            ) : report.aiAnalysis.reviews[0] ? (
+                              <div className="rounded-md border border-green-200 bg-green-50 p-4 dark:border-green-900 dark:bg-green-900/20">
+                                <h4 className="mb-2 font-semibold text-green-800 dark:text-green-300">
+                                  ✓ Doctor-Reviewed Result
+                                </h4>
+                                <p className="mb-2 text-xs text-green-800 dark:text-green-300">
+                                  {report.aiAnalysis.reviews[0].decision === "AMENDED" ? "Amended" : "Confirmed"} by Dr.{" "}
+                                  {report.aiAnalysis.reviews[0].reviewer.name} on{" "}
+                                  {new Date(report.aiAnalysis.reviews[0].reviewedAt).toLocaleDateString()}
+                                </p>
+                                {getEffectiveRiskLevel(report) && (
+                                  <span className={`inline-block rounded-full px-3 py-1 text-xs font-medium ${getRiskBadgeColor(getEffectiveRiskLevel(report))}`}>
+                                    {getEffectiveRiskLevel(report)} RISK
+                                  </span>
+                                )}
+                                <p className="mt-2 text-sm text-green-900 dark:text-green-200">
+                                  {report.aiAnalysis.reviews[0].recommendationsOverride || report.aiAnalysis.recommendations}
+                                </p>
+                                {report.aiAnalysis.reviews[0].comment && (
+                                  <p className="mt-2 text-sm text-green-900 dark:text-green-200">
+                                    <strong>Doctor&apos;s comment:</strong> {report.aiAnalysis.reviews[0].comment}
+                                  </p>
+                                )}
+                              </div>
+                            ) : (
+                              <p className="text-xs text-body-color dark:text-dark-6">
+                                AI-generated result, not yet reviewed by a doctor.
+                              </p>
+                            )}
+
                             <div>
                               <h4 className="mb-2 font-semibold text-dark dark:text-white">
                                 AI Analysis Summary
+                                {report.aiAnalysis.reviews[0] && (
+                                  <span className="ml-2 text-xs font-normal text-body-color dark:text-dark-6">
+                                    (original AI output)
+                                  </span>
+                                )}
                               </h4>
                               <p className="text-sm text-body-color dark:text-dark-6">
                                 {report.aiAnalysis.patientSummary}
                               </p>
                             </div>
 
-                            <div>
-                              <h4 className="mb-2 font-semibold text-dark dark:text-white">
-                                Risk Level
-                              </h4>
-                              <span className={`inline-block rounded-full px-3 py-1 text-xs font-medium ${getRiskBadgeColor(report.aiAnalysis.riskLevel)}`}>
-                                {report.aiAnalysis.riskLevel} RISK
-                              </span>
-                              <span className="ml-3 text-sm text-body-color dark:text-dark-6">
-                                Confidence: {(report.aiAnalysis.confidence * 100).toFixed(0)}%
-                              </span>
-                            </div>
+                            {report.aiAnalysis.parseStatus === "UNPARSED" ? (
+                              <div className="rounded-md bg-yellow-50 p-3 dark:bg-yellow-900/20">
+                                <p className="text-sm text-yellow-800 dark:text-yellow-300">
+                                  ⚠️ No risk level could be determined automatically for this report. Please ask your
+                                  doctor to review it.
+                                </p>
+                              </div>
+                            ) : (
+                              <div>
+                                <h4 className="mb-2 font-semibold text-dark dark:text-white">
+                                  Risk Level
+                                </h4>
+                                <span className={`inline-block rounded-full px-3 py-1 text-xs font-medium ${getRiskBadgeColor(report.aiAnalysis.riskLevel || "")}`}>
+                                  {report.aiAnalysis.riskLevel} RISK
+                                </span>
+                                <span className="ml-3 text-sm text-body-color dark:text-dark-6">
+                                  Confidence: {((report.aiAnalysis.confidence ?? 0) * 100).toFixed(0)}%
+                                </span>
+                              </div>
+                            )}
 
                             <div>
                               <h4 className="mb-2 font-semibold text-dark dark:text-white">
@@ -740,7 +866,7 @@ const PatientDashboard = () => {
                   Health Profile
                 </h2>
                 <form onSubmit={handleProfileUpdate} className="space-y-6">
-                  <div className="grid gap-6 sm:grid-cols-2">
+                  <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-4">
                     <div>
                       <label className="mb-2 block text-sm font-medium text-dark dark:text-white">
                         Age
@@ -768,6 +894,46 @@ const PatientDashboard = () => {
                         <option value="OTHER">Other</option>
                       </select>
                     </div>
+                    <div>
+                      <label className="mb-2 block text-sm font-medium text-dark dark:text-white">
+                        Race
+                      </label>
+                      <select
+                        value={profileForm.race}
+                        onChange={(e) => setProfileForm({ ...profileForm, race: e.target.value })}
+                        className="w-full rounded-md border border-stroke bg-transparent px-5 py-3 text-base text-dark outline-none transition focus:border-primary dark:border-dark-3 dark:text-white"
+                      >
+                        <option value="">Select</option>
+                        <option value="WHITE">White</option>
+                        <option value="AFRICAN_AMERICAN">African American</option>
+                        <option value="OTHER">Other</option>
+                      </select>
+                      <p className="mt-1 text-xs text-body-color dark:text-dark-6">
+                        Used only to pick the matching heart risk equation
+                      </p>
+                    </div>
+                    <div>
+                      <label className="mb-2 block text-sm font-medium text-dark dark:text-white">
+                        Ethnicity
+                      </label>
+                      <select
+                        value={profileForm.ethnicity}
+                        onChange={(e) => setProfileForm({ ...profileForm, ethnicity: e.target.value })}
+                        className="w-full rounded-md border border-stroke bg-transparent px-5 py-3 text-base text-dark outline-none transition focus:border-primary dark:border-dark-3 dark:text-white"
+                      >
+                        <option value="">Select</option>
+                        <option value="EUROPID">European</option>
+                        <option value="SOUTH_ASIAN">South Asian</option>
+                        <option value="CHINESE">Chinese</option>
+                        <option value="JAPANESE">Japanese</option>
+                        <option value="CENTRAL_SOUTH_AMERICAN">Central or South American</option>
+                        <option value="SUB_SAHARAN_AFRICAN">Sub-Saharan African</option>
+                        <option value="MIDDLE_EASTERN">Middle Eastern or North African</option>
+                      </select>
+                      <p className="mt-1 text-xs text-body-color dark:text-dark-6">
+                        Used only to pick the waist circumference cutoff
+                      </p>
+                    </div>
                   </div>
 
                   <div className="grid gap-6 sm:grid-cols-3">
@@ -870,6 +1036,36 @@ const PatientDashboard = () => {
                     ></textarea>
                   </div>
 
+                  <div>
+                    <label className="mb-2 block text-sm font-medium text-dark dark:text-white">
+                      Health Conditions
+                    </label>
+                    <p className="mb-3 text-xs text-body-color dark:text-dark-6">
+                      Used for stroke and bleeding risk scores. Leave &quot;Not sure&quot; if you don&apos;t know; your doctor will see it as missing.
+                    </p>
+                    <div className="grid gap-3 sm:grid-cols-2">
+                      {CONDITION_FIELDS.map((condition) => (
+                        <div key={condition.key} className="flex items-center justify-between gap-3">
+                          <span className="text-sm text-dark dark:text-white">{condition.label}</span>
+                          <select
+                            value={profileForm.conditions[condition.key] || ""}
+                            onChange={(e) =>
+                              setProfileForm({
+                                ...profileForm,
+                                conditions: { ...profileForm.conditions, [condition.key]: e.target.value },
+                              })
+                            }
+                            className="rounded-md border border-stroke bg-transparent px-3 py-2 text-sm text-dark outline-none transition focus:border-primary dark:border-dark-3 dark:text-white"
+                          >
+                            <option value="">Not sure</option>
+                            <option value="YES">Yes</option>
+                            <option value="NO">No</option>
+                          </select>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+
                   <div>
                     <label className="mb-2 block text-sm font-medium text-dark dark:text-white">
                       Family History
@@ -904,6 +1100,16 @@ const PatientDashboard = () => {
         />
       )}
 
+      {/* Analysis Versions Modal */}
+      {historyReport && (
+        <AnalysisHistory
+          reportId={historyReport.id}
+          reportTitle={historyReport.title}
+          onClose={() => setHistoryReport(null)}
+          onChange={fetchReports}
+        />
+      )}
+
       {/* Add Doctor Modal */}
       {showAddDoctorModal && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
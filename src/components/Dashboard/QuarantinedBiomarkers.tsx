@@ -0,0 +1,103 @@
+"use client";
+import { useState } from "react";
+import toast from "react-hot-toast";
+
+export interface QuarantinedBiomarker {
+  id: string;
+  biomarkerType: string;
+  value: number;
+  unit: string;
+  recordedDate: string;
+  reportId: string | null;
+  quarantineReason: string | null;
+}
+
+interface QuarantinedBiomarkersProps {
+  biomarkers: QuarantinedBiomarker[];
+  onChange: () => void;
+}
+
+const formatBiomarkerName = (type: string) =>
+  type
+    .split("_")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+
+const QuarantinedBiomarkers = ({ biomarkers, onChange }: QuarantinedBiomarkersProps) => {
+  const [resolving, setResolving] = useState<string | null>(null);
+
+  if (biomarkers.length === 0) return null;
+
+  const handleResolve = async (biomarker: QuarantinedBiomarker, action: "CONFIRM" | "REJECT") => {
+    setResolving(biomarker.id);
+    try {
+      const response = await fetch(`/api/health/trends/${biomarker.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update value");
+      }
+
+      toast.success(data.message);
+      onChange();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to update value");
+    } finally {
+      setResolving(null);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-yellow-300 bg-yellow-50 p-6 dark:border-yellow-700 dark:bg-yellow-900/20">
+      <h3 className="mb-1 text-lg font-bold text-dark dark:text-white">
+        Values Awaiting Confirmation
+      </h3>
+      <p className="mb-4 text-sm text-body-color dark:text-dark-6">
+        These results look implausible or changed unusually fast, so they are not used in trends or risk scores until confirmed.
+      </p>
+      <ul className="space-y-3">
+        {biomarkers.map((biomarker) => (
+          <li
+            key={biomarker.id}
+            className="flex flex-col gap-3 rounded-md bg-white p-4 dark:bg-dark sm:flex-row sm:items-center sm:justify-between"
+          >
+            <div>
+              <p className="font-semibold text-dark dark:text-white">
+                {formatBiomarkerName(biomarker.biomarkerType)}: {biomarker.value} {biomarker.unit}
+                <span className="ml-2 text-sm font-normal text-body-color dark:text-dark-6">
+                  {new Date(biomarker.recordedDate).toLocaleDateString()}
+                  {biomarker.reportId ? " · from report" : " · manual entry"}
+                </span>
+              </p>
+              {biomarker.quarantineReason && (
+                <p className="text-sm text-yellow-800 dark:text-yellow-300">⚠️ {biomarker.quarantineReason}</p>
+              )}
+            </div>
+            <div className="flex shrink-0 gap-2">
+              <button
+                onClick={() => handleResolve(biomarker, "CONFIRM")}
+                disabled={resolving === biomarker.id}
+                className="rounded-md bg-primary px-4 py-2 text-sm font-medium text-white transition hover:bg-primary/90 disabled:opacity-50"
+              >
+                Confirm
+              </button>
+              <button
+                onClick={() => handleResolve(biomarker, "REJECT")}
+                disabled={resolving === biomarker.id}
+                className="rounded-md border border-stroke px-4 py-2 text-sm font-medium text-dark transition hover:bg-gray-50 disabled:opacity-50 dark:border-dark-3 dark:text-white dark:hover:bg-dark-3"
+              >
+                Reject
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default QuarantinedBiomarkers;
@@ -0,0 +1,296 @@
+"use client";
+import { useEffect, useState } from "react";
+import toast from "react-hot-toast";
+
+interface RiskSimulatorProps {
+  patientId?: string; // Set when a doctor simulates for a patient
+}
+
+interface RiskContribution {
+  factor: string;
+  label: string;
+  value: string | number | boolean | null;
+  points: number;
+}
+
+interface RiskResult {
+  score: number;
+  riskCategory: "LOW" | "MODERATE" | "HIGH" | "VERY_HIGH";
+  percentageRisk?: number;
+  factors: Record<string, any>;
+  contributions?: RiskContribution[];
+}
+
+interface RiskProfile {
+  framingham?: RiskResult;
+  ascvd?: RiskResult;
+  diabetes?: RiskResult;
+  kidney?: RiskResult;
+  metabolicSyndrome?: RiskResult;
+  overallHealthScore: number;
+}
+
+interface RiskScenarioComparison {
+  baselineFactors: Record<string, any>;
+  scenarioFactors: Record<string, any>;
+  baseline: RiskProfile;
+  scenario: RiskProfile;
+}
+
+const MODELS: Array<{ key: keyof Omit<RiskProfile, "overallHealthScore">; label: string; unit: string }> = [
+  { key: "ascvd", label: "ASCVD (Pooled Cohort)", unit: "percentage points" },
+  { key: "framingham", label: "Framingham CVD", unit: "percentage points" },
+  { key: "diabetes", label: "Type 2 Diabetes", unit: "points" },
+  { key: "kidney", label: "Kidney (KDIGO)", unit: "" },
+  { key: "metabolicSyndrome", label: "Metabolic Syndrome", unit: "" },
+];
+
+const NUMERIC_FIELDS: Array<{ key: string; label: string; unit: string }> = [
+  { key: "systolicBP", label: "Systolic BP", unit: "mmHg" },
+  { key: "ldlCholesterol", label: "LDL Cholesterol", unit: "mg/dL" },
+  { key: "totalCholesterol", label: "Total Cholesterol", unit: "mg/dL" },
+  { key: "hdlCholesterol", label: "HDL Cholesterol", unit: "mg/dL" },
+  { key: "fastingGlucose", label: "Fasting Glucose", unit: "mg/dL" },
+  { key: "hba1c", label: "HbA1c", unit: "%" },
+  { key: "weight", label: "Weight", unit: "kg" },
+  { key: "waistCircumference", label: "Waist", unit: "cm" },
+];
+
+const formatRisk = (risk?: RiskResult) => {
+  if (!risk) return "—";
+  if (risk.factors?.stage) return risk.factors.stage;
+  if (risk.factors?.criteriaMet != null) return `${risk.factors.criteriaMet} of 5 criteria`;
+  return risk.percentageRisk != null ? `${risk.percentageRisk.toFixed(1)}%` : `${risk.score} pts`;
+};
+
+const RiskSimulator = ({ patientId }: RiskSimulatorProps) => {
+  const [comparison, setComparison] = useState<RiskScenarioComparison | null>(null);
+  const [changes, setChanges] = useState<Record<string, any>>({});
+  const [simulating, setSimulating] = useState(false);
+
+  const simulate = async (scenario: Record<string, any>) => {
+    setSimulating(true);
+    try {
+      const response = await fetch("/api/health/risk-simulator", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ userId: patientId, changes: scenario }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to simulate risk");
+      }
+
+      setComparison(data);
+    } catch (error: any) {
+      toast.error(error.message || "Failed to simulate risk");
+    } finally {
+      setSimulating(false);
+    }
+  };
+
+  useEffect(() => {
+    simulate({});
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [patientId]);
+
+  if (!comparison) return null;
+
+  const baseline = comparison.baselineFactors;
+
+  const applyPreset = (preset: Record<string, any>) => {
+    const next = { ...changes, ...preset };
+    setChanges(next);
+    simulate(next);
+  };
+
+  const handleReset = () => {
+    setChanges({});
+    simulate({});
+  };
+
+  const presets = [
+    baseline.smokingStatus === "CURRENT" && { label: "Quit smoking", changes: { smokingStatus: "NEVER" } },
+    baseline.systolicBP > 120 && { label: "Lower SBP to 120", changes: { systolicBP: 120 } },
+    baseline.ldlCholesterol && {
+      label: "Lower LDL by 30%",
+      changes: { ldlCholesterol: Math.round(baseline.ldlCholesterol * 0.7) },
+    },
+    baseline.weight && {
+      label: "Lose 7% of weight",
+      changes: { weight: Math.round(baseline.weight * 0.93 * 10) / 10 },
+    },
+  ].filter(Boolean) as Array<{ label: string; changes: Record<string, any> }>;
+
+  const models = MODELS.filter(({ key }) => comparison.baseline[key] || comparison.scenario[key]);
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-6 dark:border-dark-3 dark:bg-dark">
+      <h3 className="mb-1 text-lg font-bold text-dark dark:text-white">What-If Risk Simulator</h3>
+      <p className="mb-4 text-sm text-body-color dark:text-dark-6">
+        Change a risk factor to see how the scores would respond. Nothing is saved.
+      </p>
+
+      {presets.length > 0 && (
+        <div className="mb-4 flex flex-wrap gap-2">
+          {presets.map((preset) => (
+            <button
+              key={preset.label}
+              onClick={() => applyPreset(preset.changes)}
+              disabled={simulating}
+              className="rounded-full border border-primary px-3 py-1 text-sm text-primary transition hover:bg-primary hover:text-white disabled:opacity-50"
+            >
+              {preset.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="mb-4 grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+        <label className="text-sm">
+          <span className="mb-1 block text-body-color dark:text-dark-6">Smoking</span>
+          <select
+            value={changes.smokingStatus ?? baseline.smokingStatus ?? "NEVER"}
+            onChange={(e) => setChanges({ ...changes, smokingStatus: e.target.value })}
+            className="w-full rounded-md border border-stroke bg-transparent px-3 py-2 text-dark outline-none focus:border-primary dark:border-dark-3 dark:text-white"
+          >
+            <option value="NEVER">Never</option>
+            <option value="FORMER">Former</option>
+            <option value="CURRENT">Current</option>
+          </select>
+        </label>
+        {NUMERIC_FIELDS.map((field) => (
+          <label key={field.key} className="text-sm">
+            <span className="mb-1 block text-body-color dark:text-dark-6">
+              {field.label} ({field.unit})
+            </span>
+            <input
+              type="number"
+              step="any"
+              value={changes[field.key] ?? baseline[field.key] ?? ""}
+              placeholder="Not measured"
+              onChange={(e) =>
+                setChanges({ ...changes, [field.key]: e.target.value === "" ? null : parseFloat(e.target.value) })
+              }
+              className="w-full rounded-md border border-stroke bg-transparent px-3 py-2 text-dark outline-none focus:border-primary dark:border-dark-3 dark:text-white"
+            />
+          </label>
+        ))}
+        <label className="flex items-center gap-2 text-sm text-body-color dark:text-dark-6">
+          <input
+            type="checkbox"
+            checked={changes.hypertensionTreated ?? !!baseline.hypertensionTreated}
+            onChange={(e) => setChanges({ ...changes, hypertensionTreated: e.target.checked })}
+          />
+          On blood pressure medication
+        </label>
+      </div>
+
+      <div className="mb-6 flex gap-3">
+        <button
+          onClick={() => simulate(changes)}
+          disabled={simulating}
+          className="rounded-md bg-primary px-5 py-2 text-sm font-medium text-white transition hover:bg-primary/90 disabled:opacity-50"
+        >
+          {simulating ? "Calculating..." : "Recalculate"}
+        </button>
+        <button
+          onClick={handleReset}
+          disabled={simulating}
+          className="rounded-md border border-stroke px-5 py-2 text-sm font-medium text-dark transition hover:bg-gray-50 disabled:opacity-50 dark:border-dark-3 dark:text-white dark:hover:bg-dark-3"
+        >
+          Reset
+        </button>
+      </div>
+
+      {models.length === 0 ? (
+        <p className="text-sm text-body-color dark:text-dark-6">
+          Not enough data to calculate risk scores yet. Cholesterol and blood pressure results are needed.
+        </p>
+      ) : (
+        <div className="space-y-6">
+          <table className="w-full text-left text-sm">
+            <thead>
+              <tr className="border-b border-stroke text-body-color dark:border-dark-3 dark:text-dark-6">
+                <th className="py-2">Score</th>
+                <th className="py-2">Current</th>
+                <th className="py-2">What-if</th>
+                <th className="py-2">Change</th>
+              </tr>
+            </thead>
+            <tbody>
+              {models.map(({ key, label }) => {
+                const current = comparison.baseline[key];
+                const scenario = comparison.scenario[key];
+                const change =
+                  current?.percentageRisk != null && scenario?.percentageRisk != null
+                    ? scenario.percentageRisk - current.percentageRisk
+                    : null;
+
+                return (
+                  <tr key={key} className="border-b border-stroke last:border-0 dark:border-dark-3">
+                    <td className="py-2 font-medium text-dark dark:text-white">{label}</td>
+                    <td className="py-2 text-dark dark:text-white">{formatRisk(current)}</td>
+                    <td className="py-2 text-dark dark:text-white">{formatRisk(scenario)}</td>
+                    <td
+                      className={`py-2 font-medium ${
+                        change == null || Math.abs(change) < 0.05
+                          ? "text-body-color dark:text-dark-6"
+                          : change < 0
+                          ? "text-green-600"
+                          : "text-red-600"
+                      }`}
+                    >
+                      {change == null ? "—" : `${change > 0 ? "+" : ""}${change.toFixed(1)}`}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          {models
+            .filter(({ key }) => comparison.scenario[key]?.contributions?.length)
+            .map(({ key, label, unit }) => {
+              const currentPoints = Object.fromEntries(
+                (comparison.baseline[key]?.contributions ?? []).map((c) => [c.label, c.points])
+              );
+
+              return (
+                <div key={key}>
+                  <h4 className="mb-2 text-sm font-semibold text-dark dark:text-white">
+                    {label}: what each factor adds ({unit})
+                  </h4>
+                  <div className="space-y-1">
+                    {comparison.scenario[key]!.contributions!.map((contribution) => (
+                      <div key={contribution.label} className="flex items-center justify-between text-sm">
+                        <span className="text-body-color dark:text-dark-6">{contribution.label}</span>
+                        <span className="text-dark dark:text-white">
+                          {currentPoints[contribution.label] != null &&
+                            Math.abs(currentPoints[contribution.label] - contribution.points) >= 0.05 && (
+                              <span className="mr-2 text-body-color line-through dark:text-dark-6">
+                                {currentPoints[contribution.label].toFixed(1)}
+                              </span>
+                            )}
+                          {contribution.points.toFixed(1)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+
+          {changes.ldlCholesterol != null && changes.totalCholesterol == null && (
+            <p className="text-xs text-body-color dark:text-dark-6">
+              The heart risk models use total cholesterol, so a lower LDL lowers total cholesterol by the same amount.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RiskSimulator;
@@ -0,0 +1,18 @@
+/**
+ * Next.js instrumentation hook
+ * Starts the background analysis, risk reassessment and goal evaluation workers in the Node.js server runtime
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs' && process.env.ANALYSIS_WORKER_ENABLED !== 'false') {
+    const { startAnalysisWorker } = await import('./lib/analysisQueue');
+    startAnalysisWorker();
+  }
+  if (process.env.NEXT_RUNTIME === 'nodejs' && process.env.RISK_REASSESSMENT_WORKER_ENABLED !== 'false') {
+    const { startRiskReassessmentWorker } = await import('./lib/riskReassessment');
+    startRiskReassessmentWorker();
+  }
+  if (process.env.NEXT_RUNTIME === 'nodejs' && process.env.GOAL_EVALUATION_WORKER_ENABLED !== 'false') {
+    const { startGoalEvaluationWorker } = await import('./lib/goalProgress');
+    startGoalEvaluationWorker();
+  }
+}
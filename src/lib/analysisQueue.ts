@@ -0,0 +1,318 @@
+/**
+ * Analysis Job Queue
+ * Database-backed queue and worker loop for asynchronous medical report analysis
+ */
+
+import { AnalysisJob, AnalysisJobStatus } from '@prisma/client';
+import { prisma } from '@/utils/prismaDB';
+import { analyzeMedicalReport } from './llmAnalysis';
+import { extractReportContent } from './reportExtraction';
+import { saveAnalysisVersion } from './analysisVersions';
+import { reassessRiskAfterECG, reassessRiskAfterNewBiomarkers } from './riskReassessment';
+import { reevaluateGoalsAfterRemovedBiomarkers, updateGoalsAfterNewBiomarkers } from './goalProgress';
+import { hasAtrialFibrillationFinding } from './atrialFibrillation';
+
+export const ACTIVE_JOB_STATUSES: AnalysisJobStatus[] = ['QUEUED', 'EXTRACTING', 'ANALYZING', 'SAVING'];
+const RUNNING_JOB_STATUSES: AnalysisJobStatus[] = ['EXTRACTING', 'ANALYZING', 'SAVING'];
+
+const POLL_INTERVAL_MS = 5000;
+const STALE_LOCK_MS = 10 * 60 * 1000; // Running jobs locked longer than this are assumed crashed
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+
+// A worker's hold on a claimed job. Every write after the claim matches on lockedAt, so a
+// worker whose job was re-queued as stale (and claimed again) can no longer change it.
+interface JobLock {
+  jobId: string;
+  lockedAt: Date;
+}
+
+// Rough progress percentage shown to the user for each job state
+export const JOB_PROGRESS: Record<AnalysisJobStatus, number> = {
+  QUEUED: 5,
+  EXTRACTING: 25,
+  ANALYZING: 60,
+  SAVING: 90,
+  FAILED: 100,
+  DONE: 100,
+};
+
+/**
+ * Queue an analysis for a report, reusing the active job if one already exists.
+ * Re-analysis jobs run even when the report already has an analysis and add a new version.
+ */
+export async function enqueueAnalysisJob(
+  reportId: string,
+  requestedBy: string,
+  reanalysis: boolean = false
+): Promise<AnalysisJob> {
+  const activeJob = await prisma.analysisJob.findFirst({
+    where: { reportId, status: { in: ACTIVE_JOB_STATUSES } },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  if (activeJob) {
+    return activeJob;
+  }
+
+  return prisma.analysisJob.create({
+    data: { reportId, requestedBy, reanalysis },
+  });
+}
+
+/**
+ * Put running jobs whose worker died back on the queue, or fail them when
+ * they have used up their attempts
+ */
+async function requeueStaleJobs(): Promise<void> {
+  const staleBefore = new Date(Date.now() - STALE_LOCK_MS);
+  const stale = {
+    status: { in: RUNNING_JOB_STATUSES },
+    lockedAt: { lt: staleBefore },
+  };
+
+  const failed = await prisma.analysisJob.updateMany({
+    where: { ...stale, attempts: { gte: prisma.analysisJob.fields.maxAttempts } },
+    data: {
+      status: 'FAILED',
+      lockedAt: null,
+      error: 'Worker stopped responding on the last attempt',
+      finishedAt: new Date(),
+    },
+  });
+
+  const requeued = await prisma.analysisJob.updateMany({
+    where: stale,
+    data: {
+      status: 'QUEUED',
+      lockedAt: null,
+      error: 'Worker stopped responding; job re-queued',
+    },
+  });
+
+  if (failed.count > 0) {
+    console.warn(`⚠️ Failed ${failed.count} stale analysis job(s) with no attempts left`);
+  }
+  if (requeued.count > 0) {
+    console.warn(`⚠️ Re-queued ${requeued.count} stale analysis job(s)`);
+  }
+}
+
+/**
+ * Atomically claim the next runnable job.
+ * The conditional update on status guarantees only one worker wins a job.
+ */
+async function claimNextJob(): Promise<AnalysisJob | null> {
+  const candidate = await prisma.analysisJob.findFirst({
+    where: {
+      status: 'QUEUED',
+      runAfter: { lte: new Date() },
+      attempts: { lt: prisma.analysisJob.fields.maxAttempts },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  if (!candidate) {
+    return null;
+  }
+
+  const { count } = await prisma.analysisJob.updateMany({
+    where: { id: candidate.id, status: 'QUEUED', attempts: { lt: prisma.analysisJob.fields.maxAttempts } },
+    data: {
+      status: 'EXTRACTING',
+      lockedAt: new Date(),
+      startedAt: new Date(),
+      attempts: { increment: 1 },
+    },
+  });
+
+  if (count === 0) {
+    // Another worker claimed it first
+    return claimNextJob();
+  }
+
+  return prisma.analysisJob.findUnique({ where: { id: candidate.id } });
+}
+
+/**
+ * Move a job to its next state and refresh its lock.
+ * Throws when the job was re-claimed by another worker, which stops this run.
+ */
+async function setJobStatus(lock: JobLock, status: AnalysisJobStatus): Promise<void> {
+  const lockedAt = new Date();
+  const { count } = await prisma.analysisJob.updateMany({
+    where: { id: lock.jobId, lockedAt: lock.lockedAt },
+    data: { status, lockedAt },
+  });
+
+  if (count === 0) {
+    throw new Error(`Lost the lock on analysis job ${lock.jobId}`);
+  }
+  lock.lockedAt = lockedAt;
+}
+
+/**
+ * Run the analysis pipeline for a claimed job:
+ * decrypt + extract content, call the LLM, then persist the result as a new analysis version
+ */
+async function processAnalysisJob(job: AnalysisJob, lock: JobLock): Promise<void> {
+  const report = await prisma.medicalReport.findUnique({
+    where: { id: job.reportId },
+    include: { aiAnalysis: true },
+  });
+
+  if (!report) {
+    throw new Error('Report not found');
+  }
+
+  if (report.aiAnalysis && !job.reanalysis) {
+    console.log(`ℹ️ Report ${report.id} already analyzed, skipping job ${job.id}`);
+    return;
+  }
+
+  // Get patient profile for context
+  const patientProfile = await prisma.patientProfile.findUnique({
+    where: { userId: report.userId },
+  });
+
+  // Extract report content from file
+  let reportData: { text: string; images: string[] } = { text: '', images: [] };
+  try {
+    reportData = await extractReportContent(
+      report.fileUrl,
+      report.mimeType,
+      report.fileName
+    );
+  } catch (error) {
+    console.error('Failed to extract report content:', error);
+    // Use report title and description as fallback
+    reportData.text = `${report.title}\n${report.description || ''}`;
+  }
+
+  // If report content is too short, add description
+  if (reportData.text.length < 50 && report.description) {
+    reportData.text = `${report.title}\n\n${report.description}\n\n${reportData.text}`;
+  }
+
+  await setJobStatus(lock, 'ANALYZING');
+  console.log(`📄 Analyzing ${report.reportType} report (${reportData.text.length} characters, ${reportData.images.length} images)`);
+
+  const analysisData = await analyzeMedicalReport(
+    report.reportType,
+    reportData.text,
+    patientProfile,
+    reportData.images
+  );
+
+  await setJobStatus(lock, 'SAVING');
+
+  const { analysis, isCurrent, biomarkerCount, replacedTypes } = await saveAnalysisVersion(
+    report,
+    analysisData,
+    job.requestedBy,
+    reportData.text,
+    lock
+  );
+
+  if (biomarkerCount > 0) {
+    console.log(`📊 Extracted ${biomarkerCount} biomarker(s) for tracking`);
+  }
+  if (isCurrent && report.reportType === 'ECG' && hasAtrialFibrillationFinding(analysis.findings)) {
+    console.log(`🫀 ECG report ${report.id} shows atrial fibrillation or flutter`);
+    await reassessRiskAfterECG(report.userId, report.id);
+  } else if (isCurrent && biomarkerCount > 0) {
+    await reassessRiskAfterNewBiomarkers(
+      report.userId,
+      Object.keys(analysis.biomarkers as Record<string, number>)
+    );
+  }
+  if (isCurrent && biomarkerCount > 0) {
+    await updateGoalsAfterNewBiomarkers(report.userId, Object.keys(analysis.biomarkers as Record<string, number>));
+  }
+  if (isCurrent && replacedTypes.length > 0) {
+    // Progress recorded from the previous rows was deleted with them
+    await reevaluateGoalsAfterRemovedBiomarkers(report.userId, replacedTypes, `Report ${report.id} was re-analyzed`);
+  }
+  if (!isCurrent) {
+    console.warn(`⚠️ Version ${analysis.version} of report ${report.id} could not be parsed; keeping the current version`);
+  }
+  console.log(`✅ Analysis v${analysis.version} completed for report ${report.id} using ${analysisData.modelUsed} (${analysisData.parseStatus})`);
+}
+
+/**
+ * Process a claimed job and record its outcome, scheduling a retry with
+ * exponential backoff until maxAttempts is reached
+ */
+async function runJob(job: AnalysisJob): Promise<void> {
+  const lock: JobLock = { jobId: job.id, lockedAt: job.lockedAt! };
+
+  try {
+    await processAnalysisJob(job, lock);
+
+    const { count } = await prisma.analysisJob.updateMany({
+      where: { id: job.id, lockedAt: lock.lockedAt },
+      data: { status: 'DONE', error: null, lockedAt: null, finishedAt: new Date() },
+    });
+    if (count === 0) {
+      console.warn(`⚠️ Analysis job ${job.id} was re-claimed by another worker before it finished here`);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const exhausted = job.attempts >= job.maxAttempts;
+    console.error(`❌ Analysis job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}):`, error);
+
+    const { count } = await prisma.analysisJob.updateMany({
+      where: { id: job.id, lockedAt: lock.lockedAt },
+      data: exhausted
+        ? { status: 'FAILED', error: message, lockedAt: null, finishedAt: new Date() }
+        : {
+            status: 'QUEUED',
+            error: message,
+            lockedAt: null,
+            runAfter: new Date(Date.now() + RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1)),
+          },
+    });
+    if (count === 0) {
+      console.warn(`⚠️ Analysis job ${job.id} was re-claimed by another worker; leaving its status to that worker`);
+    }
+  }
+}
+
+let draining = false;
+
+/**
+ * Process queued jobs until none are runnable. Concurrent calls within the
+ * same process are collapsed into the running drain.
+ */
+export async function drainAnalysisQueue(): Promise<void> {
+  if (draining) return;
+  draining = true;
+
+  try {
+    await requeueStaleJobs();
+
+    let job = await claimNextJob();
+    while (job) {
+      await runJob(job);
+      job = await claimNextJob();
+    }
+  } catch (error) {
+    console.error('Analysis worker error:', error);
+  } finally {
+    draining = false;
+  }
+}
+
+const globalForWorker = global as unknown as { analysisWorker?: ReturnType<typeof setInterval> };
+
+/**
+ * Start the polling worker loop (once per process)
+ */
+export function startAnalysisWorker(intervalMs: number = POLL_INTERVAL_MS): void {
+  if (globalForWorker.analysisWorker) return;
+
+  globalForWorker.analysisWorker = setInterval(() => {
+    void drainAnalysisQueue();
+  }, intervalMs);
+
+  console.log(`✓ Analysis worker started (polling every ${intervalMs}ms)`);
+}
@@ -0,0 +1,91 @@
+/**
+ * Doctor Review of AI Analyses
+ * Sign-off workflow where an approved doctor accepts, amends or rejects
+ * the current analysis version of a report
+ */
+
+import { AIAnalysis, AnalysisReview, Prisma, ReviewDecision } from '@prisma/client';
+import { prisma } from '@/utils/prismaDB';
+import { AnalysisRiskLevel } from './analysisSchema';
+
+export const REVIEW_DECISIONS: ReviewDecision[] = ['ACCEPTED', 'AMENDED', 'REJECTED'];
+const RISK_LEVELS: AnalysisRiskLevel[] = ['LOW', 'MEDIUM', 'HIGH'];
+
+export interface ReviewInput {
+  decision: ReviewDecision;
+  riskLevel?: string | null; // Override, only used when AMENDED
+  recommendations?: string | null; // Override, only used when AMENDED
+  comment?: string | null;
+}
+
+// Prisma include that loads the latest sign-off of an analysis with its reviewer
+export const latestReviewInclude = {
+  reviews: {
+    orderBy: { reviewedAt: 'desc' },
+    take: 1,
+    include: {
+      reviewer: {
+        select: { name: true, email: true },
+      },
+    },
+  },
+} satisfies Prisma.AIAnalysisInclude;
+
+/**
+ * Check a review request, returning the list of problems (empty when valid)
+ */
+export function validateReviewInput(input: ReviewInput): string[] {
+  const errors: string[] = [];
+
+  if (!REVIEW_DECISIONS.includes(input.decision)) {
+    errors.push(`decision must be one of ${REVIEW_DECISIONS.join(', ')}`);
+    return errors;
+  }
+
+  if (input.decision === 'AMENDED') {
+    if (!input.riskLevel && !input.recommendations) {
+      errors.push('An amended review must override the risk level or the recommendations');
+    }
+    if (input.riskLevel && !RISK_LEVELS.includes(input.riskLevel as AnalysisRiskLevel)) {
+      errors.push(`riskLevel must be one of ${RISK_LEVELS.join(', ')}`);
+    }
+  }
+
+  if (input.decision === 'REJECTED' && !input.comment?.trim()) {
+    errors.push('A rejected review must include a reason');
+  }
+
+  return errors;
+}
+
+/**
+ * Record a doctor's sign-off on an analysis version and mark the report REVIEWED
+ */
+export async function submitAnalysisReview(
+  analysis: AIAnalysis,
+  reviewerId: string,
+  input: ReviewInput
+): Promise<AnalysisReview> {
+  const amended = input.decision === 'AMENDED';
+
+  return prisma.$transaction(async (tx) => {
+    const review = await tx.analysisReview.create({
+      data: {
+        reportId: analysis.reportId,
+        analysisId: analysis.id,
+        reviewerId,
+        decision: input.decision,
+        riskLevelOverride: amended ? input.riskLevel || null : null,
+        recommendationsOverride: amended ? input.recommendations?.trim() || null : null,
+        comment: input.comment?.trim() || null,
+      },
+    });
+
+    await tx.medicalReport.update({
+      where: { id: analysis.reportId },
+      data: { status: 'REVIEWED' },
+    });
+
+    return review;
+  });
+}
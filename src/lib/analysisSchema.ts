@@ -0,0 +1,244 @@
+/**
+ * AI Analysis Output Schemas
+ * Typed schemas per report type (matching the JSON shapes requested in the system prompts)
+ * and validation of raw LLM output against them
+ */
+
+export type AnalysisRiskLevel = 'LOW' | 'MEDIUM' | 'HIGH';
+
+export interface ECGFindings {
+  heartRate: number | null;
+  rhythm: string;
+  intervals: Record<string, any>;
+  abnormalities: any[];
+}
+
+export interface XRayFindings {
+  location: string;
+  quality: string;
+  structures: any[];
+  abnormalities: any[];
+}
+
+export interface CTScanFindings {
+  scanType: string;
+  findings: string;
+  structures: string;
+  abnormalities: any[];
+}
+
+export interface MRIFindings {
+  scanType: string;
+  sequences: any[];
+  findings: string;
+  abnormalities: any[];
+}
+
+export type BloodTestFindings = Record<string, any>;
+
+export interface PathologyFindings {
+  specimen: string;
+  diagnosis: string;
+  details: Record<string, any>;
+}
+
+export interface OtherFindings {
+  summary: string;
+  details: Record<string, any>;
+}
+
+export interface ReportFindingsByType {
+  ECG: ECGFindings;
+  XRAY: XRayFindings;
+  CT_SCAN: CTScanFindings;
+  MRI: MRIFindings;
+  BLOOD_TEST: BloodTestFindings;
+  PATHOLOGY: PathologyFindings;
+  OTHER: OtherFindings;
+}
+
+export interface StructuredAnalysis<T = Record<string, any>> {
+  findings: T;
+  patientSummary: string;
+  technicalSummary: string;
+  confidence: number;
+  riskLevel: AnalysisRiskLevel;
+  recommendations: string;
+  collectionDate: string | null; // As printed on the report, null when not shown
+}
+
+type FieldType = 'string' | 'number' | 'array' | 'object';
+
+interface FieldSpec {
+  type: FieldType;
+  nullable?: boolean;
+  optional?: boolean;
+  min?: number;
+  max?: number;
+  enum?: string[];
+}
+
+type ObjectSpec = Record<string, FieldSpec>;
+
+const FINDINGS_SCHEMAS: Record<keyof ReportFindingsByType, ObjectSpec> = {
+  ECG: {
+    heartRate: { type: 'number', nullable: true, min: 0, max: 400 },
+    rhythm: { type: 'string' },
+    intervals: { type: 'object' },
+    abnormalities: { type: 'array' },
+  },
+  XRAY: {
+    location: { type: 'string' },
+    quality: { type: 'string' },
+    structures: { type: 'array' },
+    abnormalities: { type: 'array' },
+  },
+  CT_SCAN: {
+    scanType: { type: 'string' },
+    findings: { type: 'string' },
+    structures: { type: 'string' },
+    abnormalities: { type: 'array' },
+  },
+  MRI: {
+    scanType: { type: 'string' },
+    sequences: { type: 'array' },
+    findings: { type: 'string' },
+    abnormalities: { type: 'array' },
+  },
+  // Lab panels are keyed by whatever tests the report contains
+  BLOOD_TEST: {},
+  PATHOLOGY: {
+    specimen: { type: 'string' },
+    diagnosis: { type: 'string' },
+    details: { type: 'object' },
+  },
+  OTHER: {
+    summary: { type: 'string' },
+    details: { type: 'object' },
+  },
+};
+
+const ANALYSIS_SCHEMA: ObjectSpec = {
+  findings: { type: 'object' },
+  patientSummary: { type: 'string' },
+  technicalSummary: { type: 'string' },
+  confidence: { type: 'number', min: 0, max: 1 },
+  riskLevel: { type: 'string', enum: ['LOW', 'MEDIUM', 'HIGH'] },
+  recommendations: { type: 'string' },
+  collectionDate: { type: 'string', nullable: true, optional: true },
+};
+
+export type AnalysisValidationResult<T> =
+  | { valid: true; value: StructuredAnalysis<T> }
+  | { valid: false; errors: string[] };
+
+function typeOf(value: any): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function validateObject(value: any, spec: ObjectSpec, path: string): string[] {
+  const errors: string[] = [];
+
+  for (const [key, field] of Object.entries(spec)) {
+    const fieldPath = path ? `${path}.${key}` : key;
+    const fieldValue = value[key];
+
+    if (fieldValue === undefined) {
+      if (!field.optional) errors.push(`${fieldPath} is required`);
+      continue;
+    }
+
+    if (fieldValue === null) {
+      if (!field.nullable) errors.push(`${fieldPath} must not be null`);
+      continue;
+    }
+
+    const actualType = typeOf(fieldValue);
+    if (actualType !== field.type) {
+      errors.push(`${fieldPath} must be of type ${field.type} (got ${actualType})`);
+      continue;
+    }
+
+    if (field.type === 'number') {
+      if (!Number.isFinite(fieldValue)) {
+        errors.push(`${fieldPath} must be a finite number`);
+      } else if (field.min !== undefined && fieldValue < field.min) {
+        errors.push(`${fieldPath} must be >= ${field.min}`);
+      } else if (field.max !== undefined && fieldValue > field.max) {
+        errors.push(`${fieldPath} must be <= ${field.max}`);
+      }
+    }
+
+    if (field.type === 'string') {
+      if (field.enum && !field.enum.includes(fieldValue)) {
+        errors.push(`${fieldPath} must be one of ${field.enum.join(', ')}`);
+      } else if (!field.enum && fieldValue.trim().length === 0) {
+        errors.push(`${fieldPath} must not be empty`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Extract the JSON object from raw LLM output (plain JSON or a fenced code block)
+ * @throws if no parseable JSON object is present
+ */
+export function parseAnalysisContent(content: string): any {
+  const fenced = content.match(/```(?:json)?\s*(\{[\s\S]*\})\s*```/);
+  if (fenced) return JSON.parse(fenced[1]);
+
+  const start = content.indexOf('{');
+  const end = content.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    throw new Error('No JSON object found in response');
+  }
+  return JSON.parse(content.slice(start, end + 1));
+}
+
+/**
+ * Validate parsed LLM output against the schema for a report type
+ */
+export function validateAnalysis(
+  reportType: string,
+  data: any
+): AnalysisValidationResult<Record<string, any>> {
+  if (typeOf(data) !== 'object') {
+    return { valid: false, errors: ['Response must be a JSON object'] };
+  }
+
+  const errors = validateObject(data, ANALYSIS_SCHEMA, '');
+
+  if (typeOf(data.findings) === 'object') {
+    const findingsSpec =
+      FINDINGS_SCHEMAS[reportType as keyof ReportFindingsByType] || FINDINGS_SCHEMAS.OTHER;
+    errors.push(...validateObject(data.findings, findingsSpec, 'findings'));
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    value: {
+      findings: data.findings,
+      patientSummary: data.patientSummary,
+      technicalSummary: data.technicalSummary,
+      confidence: data.confidence,
+      riskLevel: data.riskLevel,
+      recommendations: data.recommendations,
+      collectionDate: data.collectionDate ?? null,
+    },
+  };
+}
+
+/**
+ * Describe validation errors for a repair prompt
+ */
+export function describeValidationErrors(errors: string[]): string {
+  return errors.map((error) => `- ${error}`).join('\n');
+}
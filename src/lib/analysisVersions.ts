@@ -0,0 +1,342 @@
+/**
+ * Analysis Version History
+ * Stores every analysis run of a report as a numbered version, tracks which
+ * version is current and compares versions with each other
+ */
+
+import { AIAnalysis, MedicalReport, Prisma } from '@prisma/client';
+import { prisma } from '@/utils/prismaDB';
+import { MedicalReportAnalysis } from './llmAnalysis';
+import { BiomarkerData, extractBiomarkers } from './trendAnalysis';
+import { getEducationalRecommendations } from './educationalContent';
+import { getBiomarkerRangeFields } from './referenceRanges';
+import { normalizeBiomarkerValue } from './unitConversion';
+import { resolveCollectionDate } from './collectionDate';
+import { CALCULATED_SOURCE, withDerivedBiomarkers } from './derivedBiomarkers';
+import { getAnalyteDefinition } from './analyteDictionary';
+import { checkDerivedBiomarker, validateBiomarkerValue } from './biomarkerValidation';
+
+export interface FindingChange {
+  path: string; // Dot path into the findings object, e.g. "cholesterol.ldl"
+  change: 'added' | 'removed' | 'changed';
+  from?: any;
+  to?: any;
+}
+
+export interface AnalysisVersionSummary {
+  id: string;
+  version: number;
+  modelUsed: string;
+  promptVersion: string;
+  parseStatus: string;
+  riskLevel: string | null;
+  confidence: number | null;
+  analyzedAt: Date;
+}
+
+export interface AnalysisVersionDiff {
+  from: AnalysisVersionSummary;
+  to: AnalysisVersionSummary;
+  riskLevelChanged: boolean;
+  confidenceChange: number | null;
+  summaryChanged: boolean;
+  recommendationsChanged: boolean;
+  findings: FindingChange[];
+}
+
+// Extracted biomarker as stored on an analysis version; trend rows take the report's date
+type StoredBiomarker = Omit<BiomarkerData, 'date'>;
+
+interface ReplacedBiomarkers {
+  biomarkerData: Record<string, number>; // Value per biomarker type in the stored unit
+  replacedTypes: string[]; // Types of the trend rows that were deleted, whose goal progress went with them
+}
+
+export function summarizeAnalysisVersion(analysis: AIAnalysis): AnalysisVersionSummary {
+  return {
+    id: analysis.id,
+    version: analysis.version,
+    modelUsed: analysis.modelUsed,
+    promptVersion: analysis.promptVersion,
+    parseStatus: analysis.parseStatus,
+    riskLevel: analysis.riskLevel,
+    confidence: analysis.confidence,
+    analyzedAt: analysis.analyzedAt,
+  };
+}
+
+/**
+ * Biomarkers of an analysis version: the matches stored when it was saved,
+ * or a fresh extraction from its findings for versions saved before matches were stored
+ */
+function getVersionBiomarkers(analysis: AIAnalysis, reportType: string): StoredBiomarker[] {
+  if (Array.isArray(analysis.extractedBiomarkers)) {
+    return analysis.extractedBiomarkers as unknown as StoredBiomarker[];
+  }
+  return extractBiomarkers(analysis.findings, reportType);
+}
+
+/**
+ * Replace the biomarker trend rows of a report with the ones found in an analysis.
+ * Rows are recorded on the report's collection date; without one they keep the
+ * date of the previous rows (so re-analysis does not move the data point) or
+ * fall back to the upload date. Implausible values and sudden jumps are
+ * quarantined until confirmed; a value confirmed before stays confirmed when
+ * the analysis finds it unchanged on the same date.
+ */
+async function replaceReportBiomarkers(
+  tx: Prisma.TransactionClient,
+  report: Pick<MedicalReport, 'id' | 'userId' | 'uploadedAt' | 'collectedAt'>,
+  biomarkers: StoredBiomarker[]
+): Promise<ReplacedBiomarkers> {
+  const previousRows = await tx.biomarkerTrend.findMany({
+    where: { reportId: report.id },
+    orderBy: { recordedDate: 'asc' },
+  });
+  const recordedDate = report.collectedAt ?? previousRows[0]?.recordedDate ?? report.uploadedAt;
+
+  await tx.biomarkerTrend.deleteMany({ where: { reportId: report.id } });
+
+  const biomarkerData: Record<string, number> = {};
+  const quarantinedTypes: string[] = [];
+  const patientProfile = await tx.patientProfile.findUnique({
+    where: { userId: report.userId },
+  });
+
+  // Values calculated from the report's results (eGFR, lipid ratios, MAP, BMI) are added alongside them
+  for (const biomarker of withDerivedBiomarkers(biomarkers, patientProfile ?? {})) {
+    const { value, unit, originalValue, originalUnit } = normalizeBiomarkerValue(
+      biomarker.type,
+      biomarker.value,
+      biomarker.unit
+    );
+    biomarkerData[biomarker.type] = value;
+
+    // A value confirmed on an earlier analysis is not checked again while it is unchanged
+    const confirmation = previousRows.find(
+      (row) =>
+        row.status === 'CONFIRMED' &&
+        row.biomarkerType === biomarker.type &&
+        row.value === value &&
+        row.unit === unit &&
+        row.recordedDate.getTime() === recordedDate.getTime()
+    );
+    const check = confirmation
+      ? { status: confirmation.status, reason: confirmation.quarantineReason }
+      : biomarker.source === CALCULATED_SOURCE
+        ? checkDerivedBiomarker(biomarker.type, quarantinedTypes)
+        : await validateBiomarkerValue(tx, report.userId, biomarker.type, value, unit, recordedDate);
+    if (check.status === 'QUARANTINED') {
+      quarantinedTypes.push(biomarker.type);
+      console.warn(`🚧 Quarantined ${biomarker.type} from report ${report.id}: ${check.reason}`);
+    }
+
+    await tx.biomarkerTrend.create({
+      data: {
+        userId: report.userId,
+        biomarkerType: biomarker.type,
+        value,
+        unit,
+        originalValue,
+        originalUnit,
+        reportId: report.id,
+        loincCode: biomarker.loincCode ?? getAnalyteDefinition(biomarker.type)?.loinc ?? null,
+        extractionConfidence: biomarker.confidence ?? null,
+        extractionSource: biomarker.source ?? null,
+        formula: biomarker.formula ?? null,
+        recordedDate,
+        ...getBiomarkerRangeFields(biomarker.type, value, unit, patientProfile ?? {}),
+        status: check.status,
+        quarantineReason: check.reason,
+        confirmedById: confirmation?.confirmedById ?? null,
+        confirmedAt: confirmation?.confirmedAt ?? null,
+      },
+    });
+  }
+
+  return {
+    biomarkerData,
+    replacedTypes: Array.from(new Set(previousRows.map((row) => row.biomarkerType))),
+  };
+}
+
+/**
+ * Store an analysis run as the next version of a report.
+ * The new version becomes current unless it could not be parsed while a
+ * parsed version already exists, so a failed re-run never hides a usable result.
+ * replacedTypes lists the biomarkers whose previous rows (and the goal progress
+ * recorded from them) were deleted, for re-evaluating goals afterwards.
+ */
+export async function saveAnalysisVersion(
+  report: MedicalReport & { aiAnalysis: AIAnalysis | null },
+  analysisData: MedicalReportAnalysis,
+  requestedBy: string,
+  reportText?: string,
+  jobLock?: { jobId: string; lockedAt: Date } // Queue job running this analysis; the save is dropped if it lost the lock
+): Promise<{ analysis: AIAnalysis; isCurrent: boolean; biomarkerCount: number; replacedTypes: string[] }> {
+  // Get educational content recommendations
+  const educationalLinks = getEducationalRecommendations(
+    analysisData.findings,
+    report.reportType,
+    analysisData.riskLevel ?? undefined
+  );
+
+  const keepPrevious =
+    analysisData.parseStatus === 'UNPARSED' && report.aiAnalysis?.parseStatus === 'PARSED';
+
+  const extractedBiomarkers: StoredBiomarker[] = extractBiomarkers(
+    analysisData.findings,
+    report.reportType,
+    reportText
+  ).map(({ date: _date, ...biomarker }) => biomarker);
+
+  const collection = resolveCollectionDate(report, reportText, analysisData.collectionDate);
+
+  // Persist everything together so a retried job never leaves partial data behind
+  return prisma.$transaction(async (tx) => {
+    if (jobLock) {
+      // Also locks the job row, so the job can't be re-queued while this version is written
+      const { count } = await tx.analysisJob.updateMany({
+        where: { id: jobLock.jobId, lockedAt: jobLock.lockedAt },
+        data: { lockedAt: jobLock.lockedAt },
+      });
+      if (count === 0) {
+        throw new Error(`Lost the lock on analysis job ${jobLock.jobId}`);
+      }
+    }
+
+    const latest = await tx.aIAnalysis.findFirst({
+      where: { reportId: report.id },
+      orderBy: { version: 'desc' },
+      select: { version: true },
+    });
+
+    const { biomarkerData, replacedTypes }: ReplacedBiomarkers = keepPrevious
+      ? { biomarkerData: {}, replacedTypes: [] }
+      : await replaceReportBiomarkers(tx, { ...report, ...collection }, extractedBiomarkers);
+
+    const analysis = await tx.aIAnalysis.create({
+      data: {
+        reportId: report.id,
+        version: (latest?.version ?? 0) + 1,
+        requestedBy,
+        analysisType: `${report.reportType}_ANALYSIS`,
+        ...analysisData,
+        biomarkers: biomarkerData, // Store extracted biomarkers
+        extractedBiomarkers,
+        educationalLinks: JSON.stringify(educationalLinks), // Store educational resources
+      },
+    });
+
+    await tx.medicalReport.update({
+      where: { id: report.id },
+      data: {
+        ...collection,
+        ...(keepPrevious ? {} : { currentAnalysisId: analysis.id, status: 'ANALYZED' as const }),
+      },
+    });
+
+    return {
+      analysis,
+      isCurrent: !keepPrevious,
+      biomarkerCount: Object.keys(biomarkerData).length,
+      replacedTypes,
+    };
+  });
+}
+
+/**
+ * Mark an existing version as the current analysis of its report and
+ * rebuild the report's biomarker trend rows from that version
+ */
+export async function setCurrentAnalysisVersion(
+  reportId: string,
+  analysisId: string
+): Promise<{ analysis: AIAnalysis; replacedTypes: string[] }> {
+  return prisma.$transaction(async (tx) => {
+    const analysis = await tx.aIAnalysis.findFirst({
+      where: { id: analysisId, reportId },
+      include: { report: true },
+    });
+
+    if (!analysis) {
+      throw new Error('Analysis version not found for this report');
+    }
+
+    const { biomarkerData, replacedTypes } = await replaceReportBiomarkers(
+      tx,
+      analysis.report,
+      getVersionBiomarkers(analysis, analysis.report.reportType)
+    );
+
+    // Doctor sign-off belongs to a specific version, so the status follows the version
+    const reviewCount = await tx.analysisReview.count({ where: { analysisId: analysis.id } });
+
+    await tx.medicalReport.update({
+      where: { id: reportId },
+      data: {
+        currentAnalysisId: analysis.id,
+        status: reviewCount > 0 ? 'REVIEWED' : 'ANALYZED',
+      },
+    });
+
+    const updated = await tx.aIAnalysis.update({
+      where: { id: analysis.id },
+      data: { biomarkers: biomarkerData },
+    });
+    return { analysis: updated, replacedTypes };
+  });
+}
+
+function parseFindings(findings: string): any {
+  try {
+    return JSON.parse(findings);
+  } catch {
+    return {};
+  }
+}
+
+function isPlainObject(value: any): boolean {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function diffValues(from: any, to: any, path: string, changes: FindingChange[]): void {
+  if (isPlainObject(from) && isPlainObject(to)) {
+    const keys = new Set([...Object.keys(from), ...Object.keys(to)]);
+    for (const key of Array.from(keys).sort()) {
+      diffValues(from[key], to[key], path ? `${path}.${key}` : key, changes);
+    }
+    return;
+  }
+
+  if (from === undefined) {
+    changes.push({ path, change: 'added', to });
+  } else if (to === undefined) {
+    changes.push({ path, change: 'removed', from });
+  } else if (JSON.stringify(from) !== JSON.stringify(to)) {
+    // Arrays and scalars are compared as a whole
+    changes.push({ path, change: 'changed', from, to });
+  }
+}
+
+/**
+ * Compare two analysis versions: risk level, confidence, summaries and a
+ * field-by-field diff of the findings
+ */
+export function diffAnalysisVersions(from: AIAnalysis, to: AIAnalysis): AnalysisVersionDiff {
+  const findings: FindingChange[] = [];
+  diffValues(parseFindings(from.findings), parseFindings(to.findings), '', findings);
+
+  return {
+    from: summarizeAnalysisVersion(from),
+    to: summarizeAnalysisVersion(to),
+    riskLevelChanged: from.riskLevel !== to.riskLevel,
+    confidenceChange:
+      from.confidence !== null && to.confidence !== null
+        ? Math.round((to.confidence - from.confidence) * 100) / 100
+        : null,
+    summaryChanged: from.patientSummary !== to.patientSummary,
+    recommendationsChanged: from.recommendations !== to.recommendations,
+    findings,
+  };
+}
@@ -0,0 +1,719 @@
+/**
+ * Analyte Dictionary
+ * LOINC-style catalog of lab analytes and vital signs with synonyms and
+ * expected units, used to map LLM findings and report text to biomarker types
+ */
+
+import { normalizeUnitString } from './unitConversion';
+
+export type AnalytePanel = 'LIPID' | 'METABOLIC' | 'CBC' | 'LIVER' | 'KIDNEY' | 'THYROID' | 'OTHER' | 'VITALS' | 'ECG';
+
+export interface AnalyteDefinition {
+  type: string; // Biomarker type stored on BiomarkerTrend
+  name: string;
+  loinc: string;
+  panel: AnalytePanel;
+  synonyms: string[]; // Matched case-insensitively; separators are ignored
+  units: string[]; // Expected units, canonical first (see lib/unitConversion.ts)
+}
+
+export const ANALYTE_DICTIONARY: AnalyteDefinition[] = [
+  // Lipid panel
+  {
+    type: 'cholesterol_total',
+    name: 'Total Cholesterol',
+    loinc: '2093-3',
+    panel: 'LIPID',
+    synonyms: ['total cholesterol', 'cholesterol total', 'cholesterol', 'tc', 'chol'],
+    units: ['mg/dL', 'mmol/L'],
+  },
+  {
+    type: 'cholesterol_ldl',
+    name: 'LDL Cholesterol',
+    loinc: '13457-7',
+    panel: 'LIPID',
+    synonyms: ['ldl cholesterol', 'cholesterol ldl', 'ldl', 'ldl c', 'ldl calculated', 'ldl direct', 'low density lipoprotein'],
+    units: ['mg/dL', 'mmol/L'],
+  },
+  {
+    type: 'cholesterol_hdl',
+    name: 'HDL Cholesterol',
+    loinc: '2085-9',
+    panel: 'LIPID',
+    synonyms: ['hdl cholesterol', 'cholesterol hdl', 'hdl', 'hdl c', 'high density lipoprotein'],
+    units: ['mg/dL', 'mmol/L'],
+  },
+  {
+    type: 'triglycerides',
+    name: 'Triglycerides',
+    loinc: '2571-8',
+    panel: 'LIPID',
+    synonyms: ['triglycerides', 'triglyceride', 'cholesterol triglycerides', 'trig', 'tg'],
+    units: ['mg/dL', 'mmol/L'],
+  },
+
+  // Glucose control
+  {
+    type: 'glucose_fasting',
+    name: 'Fasting Glucose',
+    loinc: '1558-6',
+    panel: 'METABOLIC',
+    synonyms: ['fasting glucose', 'glucose fasting', 'fasting blood sugar', 'fasting blood glucose', 'fasting plasma glucose', 'fbs', 'fbg', 'fpg'],
+    units: ['mg/dL', 'mmol/L'],
+  },
+  {
+    // Glucose not labelled as fasting; never used where a fasting value is required
+    type: 'glucose_random',
+    name: 'Random Glucose',
+    loinc: '2345-7',
+    panel: 'METABOLIC',
+    synonyms: [
+      'random glucose', 'glucose random', 'random blood sugar', 'random blood glucose', 'non fasting glucose', 'rbs',
+      'glucose', 'blood glucose', 'blood sugar', 'plasma glucose', 'serum glucose',
+    ],
+    units: ['mg/dL', 'mmol/L'],
+  },
+  {
+    type: 'hba1c',
+    name: 'Hemoglobin A1c',
+    loinc: '4548-4',
+    panel: 'METABOLIC',
+    synonyms: ['hba1c', 'hemoglobin a1c', 'haemoglobin a1c', 'a1c', 'glycated hemoglobin', 'glycosylated hemoglobin'],
+    units: ['%', 'mmol/mol'],
+  },
+
+  // Comprehensive metabolic panel
+  {
+    type: 'sodium',
+    name: 'Sodium',
+    loinc: '2951-2',
+    panel: 'METABOLIC',
+    synonyms: ['sodium', 'na', 'serum sodium'],
+    units: ['mmol/L', 'mEq/L'],
+  },
+  {
+    type: 'potassium',
+    name: 'Potassium',
+    loinc: '2823-3',
+    panel: 'METABOLIC',
+    synonyms: ['potassium', 'k', 'serum potassium'],
+    units: ['mmol/L', 'mEq/L'],
+  },
+  {
+    type: 'chloride',
+    name: 'Chloride',
+    loinc: '2075-0',
+    panel: 'METABOLIC',
+    synonyms: ['chloride', 'cl'],
+    units: ['mmol/L', 'mEq/L'],
+  },
+  {
+    type: 'bicarbonate',
+    name: 'Bicarbonate (CO2)',
+    loinc: '2028-9',
+    panel: 'METABOLIC',
+    synonyms: ['bicarbonate', 'co2', 'total co2', 'carbon dioxide', 'hco3'],
+    units: ['mmol/L', 'mEq/L'],
+  },
+  {
+    type: 'calcium',
+    name: 'Calcium',
+    loinc: '17861-6',
+    panel: 'METABOLIC',
+    synonyms: ['calcium', 'ca', 'serum calcium', 'total calcium'],
+    units: ['mg/dL', 'mmol/L'],
+  },
+  {
+    type: 'albumin',
+    name: 'Albumin',
+    loinc: '1751-7',
+    panel: 'LIVER',
+    synonyms: ['albumin', 'serum albumin', 'alb'],
+    units: ['g/dL', 'g/L'],
+  },
+  {
+    type: 'total_protein',
+    name: 'Total Protein',
+    loinc: '2885-2',
+    panel: 'LIVER',
+    synonyms: ['total protein', 'protein total', 'tp'],
+    units: ['g/dL', 'g/L'],
+  },
+
+  // Kidney function
+  {
+    type: 'creatinine',
+    name: 'Creatinine',
+    loinc: '2160-0',
+    panel: 'KIDNEY',
+    synonyms: ['creatinine', 'serum creatinine', 'creat', 'cr'],
+    units: ['mg/dL', 'µmol/L'],
+  },
+  {
+    type: 'bun',
+    name: 'Blood Urea Nitrogen',
+    loinc: '3094-0',
+    panel: 'KIDNEY',
+    synonyms: ['bun', 'blood urea nitrogen', 'urea nitrogen', 'urea'],
+    units: ['mg/dL', 'mmol/L'],
+  },
+  {
+    type: 'egfr',
+    name: 'eGFR',
+    loinc: '98979-8',
+    panel: 'KIDNEY',
+    synonyms: ['egfr', 'estimated gfr', 'gfr', 'glomerular filtration rate', 'estimated glomerular filtration rate'],
+    units: ['mL/min/1.73m²'],
+  },
+  {
+    type: 'uacr',
+    name: 'Albumin/Creatinine Ratio (urine)',
+    loinc: '9318-7',
+    panel: 'KIDNEY',
+    synonyms: [
+      'uacr', 'acr', 'albumin creatinine ratio', 'urine albumin creatinine ratio', 'microalbumin creatinine ratio',
+    ],
+    units: ['mg/g', 'mg/mmol'],
+  },
+  {
+    type: 'uric_acid',
+    name: 'Uric Acid',
+    loinc: '3084-1',
+    panel: 'KIDNEY',
+    synonyms: ['uric acid', 'urate'],
+    units: ['mg/dL', 'µmol/L'],
+  },
+
+  // Liver panel
+  {
+    type: 'alt',
+    name: 'ALT',
+    loinc: '1742-6',
+    panel: 'LIVER',
+    synonyms: ['alt', 'alanine aminotransferase', 'alanine transaminase', 'sgpt', 'alt sgpt'],
+    units: ['U/L'],
+  },
+  {
+    type: 'ast',
+    name: 'AST',
+    loinc: '1920-8',
+    panel: 'LIVER',
+    synonyms: ['ast', 'aspartate aminotransferase', 'aspartate transaminase', 'sgot', 'ast sgot'],
+    units: ['U/L'],
+  },
+  {
+    type: 'alkaline_phosphatase',
+    name: 'Alkaline Phosphatase',
+    loinc: '6768-6',
+    panel: 'LIVER',
+    synonyms: ['alkaline phosphatase', 'alk phos', 'alp'],
+    units: ['U/L'],
+  },
+  {
+    type: 'bilirubin_total',
+    name: 'Total Bilirubin',
+    loinc: '1975-2',
+    panel: 'LIVER',
+    synonyms: ['total bilirubin', 'bilirubin total', 'bilirubin', 'tbil'],
+    units: ['mg/dL', 'µmol/L'],
+  },
+
+  // Complete blood count
+  {
+    type: 'hemoglobin',
+    name: 'Hemoglobin',
+    loinc: '718-7',
+    panel: 'CBC',
+    synonyms: ['hemoglobin', 'haemoglobin', 'hgb', 'hb'],
+    units: ['g/dL', 'g/L', 'mmol/L'],
+  },
+  {
+    type: 'hematocrit',
+    name: 'Hematocrit',
+    loinc: '4544-3',
+    panel: 'CBC',
+    synonyms: ['hematocrit', 'haematocrit', 'hct', 'packed cell volume', 'pcv'],
+    units: ['%', 'L/L'],
+  },
+  {
+    type: 'wbc',
+    name: 'White Blood Cells',
+    loinc: '6690-2',
+    panel: 'CBC',
+    synonyms: ['wbc', 'white blood cells', 'white blood cell count', 'white cell count', 'leukocytes', 'wbc count'],
+    units: ['10^3/µL', '10^9/L'],
+  },
+  {
+    type: 'rbc',
+    name: 'Red Blood Cells',
+    loinc: '789-8',
+    panel: 'CBC',
+    synonyms: ['rbc', 'red blood cells', 'red blood cell count', 'red cell count', 'erythrocytes', 'rbc count'],
+    units: ['10^6/µL', '10^12/L'],
+  },
+  {
+    type: 'platelets',
+    name: 'Platelets',
+    loinc: '777-3',
+    panel: 'CBC',
+    synonyms: ['platelets', 'platelet count', 'plt', 'thrombocytes'],
+    units: ['10^3/µL', '10^9/L'],
+  },
+  {
+    type: 'mcv',
+    name: 'Mean Corpuscular Volume',
+    loinc: '787-2',
+    panel: 'CBC',
+    synonyms: ['mcv', 'mean corpuscular volume', 'mean cell volume'],
+    units: ['fL'],
+  },
+  {
+    type: 'mch',
+    name: 'Mean Corpuscular Hemoglobin',
+    loinc: '785-6',
+    panel: 'CBC',
+    synonyms: ['mch', 'mean corpuscular hemoglobin', 'mean cell hemoglobin'],
+    units: ['pg'],
+  },
+
+  // Thyroid
+  {
+    type: 'tsh',
+    name: 'TSH',
+    loinc: '3016-3',
+    panel: 'THYROID',
+    synonyms: ['tsh', 'thyroid stimulating hormone', 'thyrotropin'],
+    units: ['mIU/L'],
+  },
+  {
+    type: 'free_t4',
+    name: 'Free T4',
+    loinc: '3024-7',
+    panel: 'THYROID',
+    synonyms: ['free t4', 'ft4', 't4 free', 'free thyroxine'],
+    units: ['ng/dL', 'pmol/L'],
+  },
+  {
+    type: 'free_t3',
+    name: 'Free T3',
+    loinc: '3051-0',
+    panel: 'THYROID',
+    synonyms: ['free t3', 'ft3', 't3 free', 'free triiodothyronine'],
+    units: ['pg/mL', 'pmol/L'],
+  },
+
+  // Other common tests
+  {
+    type: 'vitamin_d',
+    name: 'Vitamin D (25-OH)',
+    loinc: '1989-3',
+    panel: 'OTHER',
+    synonyms: ['vitamin d 25 oh', '25 oh vitamin d', '25 hydroxyvitamin d', 'vitamin d', 'vit d'],
+    units: ['ng/mL', 'nmol/L'],
+  },
+  {
+    type: 'ferritin',
+    name: 'Ferritin',
+    loinc: '2276-4',
+    panel: 'OTHER',
+    synonyms: ['ferritin', 'serum ferritin'],
+    units: ['ng/mL', 'µg/L'],
+  },
+
+  // Vital signs
+  {
+    type: 'bp_systolic',
+    name: 'Systolic Blood Pressure',
+    loinc: '8480-6',
+    panel: 'VITALS',
+    synonyms: ['systolic', 'systolic blood pressure', 'systolic bp', 'sbp', 'blood pressure systolic'],
+    units: ['mmHg', 'kPa'],
+  },
+  {
+    type: 'bp_diastolic',
+    name: 'Diastolic Blood Pressure',
+    loinc: '8462-4',
+    panel: 'VITALS',
+    synonyms: ['diastolic', 'diastolic blood pressure', 'diastolic bp', 'dbp', 'blood pressure diastolic'],
+    units: ['mmHg', 'kPa'],
+  },
+  {
+    type: 'waist_circumference',
+    name: 'Waist Circumference',
+    loinc: '8280-0',
+    panel: 'VITALS',
+    synonyms: ['waist circumference', 'waist circ', 'waist'],
+    units: ['cm', 'in'],
+  },
+  {
+    type: 'heart_rate',
+    name: 'Heart Rate',
+    loinc: '8867-4',
+    panel: 'VITALS',
+    synonyms: ['heart rate', 'hr', 'pulse', 'pulse rate', 'ventricular rate'],
+    units: ['bpm'],
+  },
+
+  // ECG intervals
+  {
+    type: 'qtc_interval',
+    name: 'QTc Interval',
+    loinc: '8636-3',
+    panel: 'ECG',
+    synonyms: ['qtc', 'qtc interval', 'corrected qt', 'qt corrected', 'intervals qtc'],
+    units: ['ms', 's'],
+  },
+  {
+    type: 'pr_interval',
+    name: 'PR Interval',
+    loinc: '8625-6',
+    panel: 'ECG',
+    synonyms: ['pr interval', 'pr', 'intervals pr'],
+    units: ['ms', 's'],
+  },
+  {
+    type: 'qrs_duration',
+    name: 'QRS Duration',
+    loinc: '8633-2',
+    panel: 'ECG',
+    synonyms: ['qrs duration', 'qrs', 'qrs interval', 'intervals qrs'],
+    units: ['ms', 's'],
+  },
+];
+
+// Combined readings such as "120/80 mmHg" that map to the two blood pressure analytes
+export const BLOOD_PRESSURE_SYNONYMS = ['blood pressure', 'bp'];
+
+/**
+ * Normalize a label for matching: split camelCase, drop punctuation, lower-case
+ * e.g. "LDL-Cholesterol (calc.)" -> "ldl cholesterol calc", "heartRate" -> "heart rate"
+ */
+export function normalizeAnalyteLabel(label: string): string {
+  return label
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+const SYNONYM_INDEX = new Map<string, AnalyteDefinition>();
+for (const definition of ANALYTE_DICTIONARY) {
+  for (const synonym of definition.synonyms) {
+    SYNONYM_INDEX.set(normalizeAnalyteLabel(synonym), definition);
+  }
+}
+
+/**
+ * Look up an analyte by an exact synonym (after normalization)
+ */
+export function findAnalyteBySynonym(label: string): AnalyteDefinition | null {
+  return SYNONYM_INDEX.get(normalizeAnalyteLabel(label)) ?? null;
+}
+
+/**
+ * Find the analyte whose longest synonym appears as whole words inside a label,
+ * e.g. "ldl cholesterol calculated" -> cholesterol_ldl
+ */
+export function findAnalyteInLabel(label: string): AnalyteDefinition | null {
+  const normalized = ` ${normalizeAnalyteLabel(label)} `;
+  let best: AnalyteDefinition | null = null;
+  let bestLength = 0;
+
+  for (const [synonym, definition] of Array.from(SYNONYM_INDEX.entries())) {
+    // Very short synonyms (k, hr, tg) are only trusted as exact matches
+    if (synonym.length < 3 || synonym.length <= bestLength) continue;
+    if (normalized.includes(` ${synonym} `)) {
+      best = definition;
+      bestLength = synonym.length;
+    }
+  }
+
+  return best;
+}
+
+export function getAnalyteDefinition(type: string): AnalyteDefinition | null {
+  return ANALYTE_DICTIONARY.find((definition) => definition.type === type) ?? null;
+}
+
+export interface AnalyteMatch {
+  type: string;
+  loinc: string;
+  value: number;
+  unit: string; // As reported; the canonical unit when none was given
+  confidence: number; // 0-1
+  source: 'FINDINGS' | 'REPORT_TEXT';
+  label: string; // Findings path or text the value was read from
+}
+
+// Analyte panels worth looking for in each report type (all panels otherwise)
+const REPORT_PANELS: Record<string, AnalytePanel[]> = {
+  BLOOD_TEST: ['LIPID', 'METABOLIC', 'CBC', 'LIVER', 'KIDNEY', 'THYROID', 'OTHER', 'VITALS'],
+  ECG: ['ECG', 'VITALS'],
+};
+
+// Keys holding reference limits or derived values rather than the measurement itself
+const IGNORED_KEYS = ['low', 'high', 'min', 'max', 'lower', 'upper', 'status', 'flag', 'unit', 'units'];
+const IGNORED_LABEL_WORDS = ['ratio', 'non', 'reference', 'range', 'normal', 'target', 'goal', 'urine'];
+
+const MIN_CONFIDENCE = 0.4;
+
+// Unit token following a number, without sentence punctuation ("" when it is not a unit)
+function readUnit(token: string): string {
+  const unit = token.replace(/[.:]+$/, '');
+  return /[a-zA-Zµμ%]/.test(unit) ? unit : '';
+}
+
+/**
+ * Read a value reported as a number, a "5.2 mmol/L (high)" string or a
+ * { value, unit } object. The default unit is only used when none is given.
+ */
+export function readMeasurement(
+  raw: any,
+  defaultUnit: string
+): { value: number; unit: string; unitGiven: boolean } | null {
+  if (typeof raw === 'number') {
+    return Number.isFinite(raw) ? { value: raw, unit: defaultUnit, unitGiven: false } : null;
+  }
+
+  if (typeof raw === 'string') {
+    const match = raw.match(/(-?\d+(?:\.\d+)?)\s*(?:[x×]\s*)?([^\s(),;]*)/);
+    if (!match) return null;
+    const unit = readUnit(match[2]);
+    return { value: parseFloat(match[1]), unit: unit || defaultUnit, unitGiven: !!unit };
+  }
+
+  if (raw && typeof raw === 'object' && raw.value !== undefined) {
+    const measurement = readMeasurement(raw.value, defaultUnit);
+    if (!measurement) return null;
+    return raw.unit ? { ...measurement, unit: String(raw.unit), unitGiven: true } : measurement;
+  }
+
+  return null;
+}
+
+// Synonyms that themselves contain an ignored word ("albumin creatinine ratio")
+const SYNONYMS_WITH_IGNORED_WORDS = Array.from(SYNONYM_INDEX.keys())
+  .filter((synonym) => synonym.split(' ').some((word) => IGNORED_LABEL_WORDS.includes(word)))
+  .sort((a, b) => b.length - a.length);
+
+function isIgnoredLabel(label: string): boolean {
+  const normalized = normalizeAnalyteLabel(label);
+  const remainder = SYNONYMS_WITH_IGNORED_WORDS.reduce(
+    (text, synonym) => ` ${text} `.replace(` ${synonym} `, ' ').trim(),
+    normalized
+  );
+  return (
+    IGNORED_KEYS.includes(normalized) ||
+    remainder.split(' ').some((word) => IGNORED_LABEL_WORDS.includes(word))
+  );
+}
+
+/**
+ * Confidence of a match: how the label matched, adjusted by whether the unit
+ * was reported and is one the analyte is expected in
+ */
+function scoreMatch(base: number, definition: AnalyteDefinition, unit: string, unitGiven: boolean): number {
+  let confidence = base;
+  if (!unitGiven) {
+    confidence -= 0.15; // Canonical unit assumed
+  } else if (definition.units.includes(normalizeUnitString(unit))) {
+    confidence += 0.05;
+  } else {
+    confidence -= 0.3;
+  }
+  return Math.round(Math.min(1, Math.max(0, confidence)) * 100) / 100;
+}
+
+/**
+ * Keep the most confident match per analyte
+ */
+function addMatch(matches: Map<string, AnalyteMatch>, match: AnalyteMatch): void {
+  if (match.confidence < MIN_CONFIDENCE) return;
+  const existing = matches.get(match.type);
+  if (!existing || match.confidence > existing.confidence) {
+    matches.set(match.type, match);
+  }
+}
+
+function matchBloodPressure(
+  matches: Map<string, AnalyteMatch>,
+  raw: any,
+  label: string,
+  source: AnalyteMatch['source'],
+  base: number
+): void {
+  const text = typeof raw === 'object' && raw?.value !== undefined ? String(raw.value) : String(raw);
+  const reading = text.match(/(\d{2,3})\s*\/\s*(\d{2,3})/);
+  if (!reading) return;
+
+  for (const [type, value] of [['bp_systolic', reading[1]], ['bp_diastolic', reading[2]]]) {
+    const definition = getAnalyteDefinition(type)!;
+    addMatch(matches, {
+      type,
+      loinc: definition.loinc,
+      value: parseInt(value),
+      unit: 'mmHg',
+      confidence: scoreMatch(base, definition, 'mmHg', /mmhg/i.test(text)),
+      source,
+      label,
+    });
+  }
+}
+
+/**
+ * Walk arbitrary findings JSON. Keys are matched with their parent key
+ * ("cholesterol" > "hdl"), and arrays of { name, value, unit } rows are read
+ * using the row's name.
+ */
+function walkFindings(
+  node: any,
+  path: string[],
+  panels: AnalytePanel[],
+  matches: Map<string, AnalyteMatch>
+): void {
+  if (Array.isArray(node)) {
+    node.forEach((item) => {
+      const name = item && typeof item === 'object'
+        ? item.name ?? item.test ?? item.analyte ?? item.label
+        : undefined;
+      walkFindings(item, typeof name === 'string' ? [...path, name] : path, panels, matches);
+    });
+    return;
+  }
+
+  const isMeasurementObject = node && typeof node === 'object' && node.value !== undefined;
+
+  if (node && typeof node === 'object' && !isMeasurementObject) {
+    for (const [key, child] of Object.entries(node)) {
+      if (!isIgnoredLabel(key)) walkFindings(child, [...path, key], panels, matches);
+    }
+    return;
+  }
+
+  if (path.length === 0) return;
+
+  const key = path[path.length - 1];
+  const withParent = path.slice(-2).join(' ');
+  const label = path.join('.');
+
+  if (BLOOD_PRESSURE_SYNONYMS.includes(normalizeAnalyteLabel(key))) {
+    matchBloodPressure(matches, node, label, 'FINDINGS', 0.9);
+    return;
+  }
+
+  // Exact synonym with the parent key, exact synonym of the key, then a synonym inside the label
+  const candidates: Array<[AnalyteDefinition | null, number]> = [
+    [path.length > 1 ? findAnalyteBySynonym(withParent) : null, 0.95],
+    [findAnalyteBySynonym(key), 0.9],
+    [findAnalyteInLabel(withParent), 0.75],
+  ];
+  const [definition, base] = candidates.find(
+    ([candidate]) => candidate && panels.includes(candidate.panel)
+  ) ?? [null, 0];
+  if (!definition) return;
+
+  const measurement = readMeasurement(node, definition.units[0]);
+  if (!measurement) return;
+
+  addMatch(matches, {
+    type: definition.type,
+    loinc: definition.loinc,
+    value: measurement.value,
+    unit: measurement.unit,
+    confidence: scoreMatch(base, definition, measurement.unit, measurement.unitGiven),
+    source: 'FINDINGS',
+    label,
+  });
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Text between a name and its number that makes the number something other than a plain
+// result: a target or reference ("LDL goal < 100 mg/dL") or a censored value ("eGFR >90")
+function isQualifiedValue(gap: string): boolean {
+  return /[<>≤≥]/.test(gap) || normalizeAnalyteLabel(gap).split(' ').some((word) => IGNORED_LABEL_WORDS.includes(word));
+}
+
+/**
+ * Find "<analyte name> ... <value> <unit>" on a single line of report text.
+ * Longer synonyms are tried first and matched text is masked, so
+ * "Hemoglobin A1c 5.8 %" is not also read as hemoglobin. Targets, reference
+ * values and censored values are masked without being read.
+ */
+function matchReportText(text: string, panels: AnalytePanel[], matches: Map<string, AnalyteMatch>): void {
+  let remaining = text;
+
+  const synonyms = ANALYTE_DICTIONARY
+    .filter((definition) => panels.includes(definition.panel))
+    .flatMap((definition) => definition.synonyms.map((synonym) => ({ synonym, definition })))
+    .filter(({ synonym }) => synonym.length >= 3) // "k" or "hr" alone are too ambiguous in prose
+    .sort((a, b) => b.synonym.length - a.synonym.length);
+
+  for (const { synonym, definition } of synonyms) {
+    const words = normalizeAnalyteLabel(synonym).split(' ').map(escapeRegExp).join('[\\s,\\-_()./]*');
+    const pattern = new RegExp(
+      `(?:^|[^a-z0-9])(${words})(?![a-z0-9])([^0-9\\n]{0,25}?)(-?\\d+(?:\\.\\d+)?)[ \\t]*(?:[x×][ \\t]*)?([^\\s(),;]*)`,
+      'i'
+    );
+
+    let match = remaining.match(pattern);
+    while (match && match.index !== undefined) {
+      const start = match.index;
+      remaining = remaining.slice(0, start) + ' '.repeat(match[0].length) + remaining.slice(start + match[0].length);
+      if (!isQualifiedValue(match[2])) break;
+      match = remaining.match(pattern);
+    }
+    if (!match || matches.has(definition.type)) continue;
+
+    const unitGiven = readUnit(match[4]) !== '';
+    const unit = unitGiven ? readUnit(match[4]) : definition.units[0];
+
+    addMatch(matches, {
+      type: definition.type,
+      loinc: definition.loinc,
+      value: parseFloat(match[3]),
+      unit,
+      confidence: scoreMatch(0.65, definition, unit, unitGiven),
+      source: 'REPORT_TEXT',
+      label: match[0].trim(),
+    });
+  }
+
+  for (const synonym of BLOOD_PRESSURE_SYNONYMS.filter((candidate) => candidate.length >= 3)) {
+    const pattern = new RegExp(`${synonym}([^0-9\\n]{0,15}?)(\\d{2,3}\\s*\\/\\s*\\d{2,3}(?:\\s*mmHg)?)`, 'i');
+
+    let bp = remaining.match(pattern);
+    while (bp && bp.index !== undefined && isQualifiedValue(bp[1])) {
+      remaining = remaining.slice(0, bp.index) + ' '.repeat(bp[0].length) + remaining.slice(bp.index + bp[0].length);
+      bp = remaining.match(pattern);
+    }
+    if (bp && !matches.has('bp_systolic')) {
+      matchBloodPressure(matches, bp[2], bp[0].trim(), 'REPORT_TEXT', 0.65);
+    }
+  }
+}
+
+/**
+ * Map LLM findings (any JSON shape) and report text to canonical biomarker types.
+ * Findings are preferred; the text only fills analytes the findings did not contain.
+ */
+export function extractAnalytes(
+  findings: any,
+  reportText: string | null | undefined,
+  reportType: string
+): AnalyteMatch[] {
+  const panels = REPORT_PANELS[reportType] ?? Array.from(new Set(ANALYTE_DICTIONARY.map((d) => d.panel)));
+  const matches = new Map<string, AnalyteMatch>();
+
+  if (findings && typeof findings === 'object') {
+    walkFindings(findings, [], panels, matches);
+  }
+
+  if (reportText) {
+    matchReportText(reportText, panels, matches);
+  }
+
+  return Array.from(matches.values());
+}
@@ -0,0 +1,354 @@
+/**
+ * Atrial Fibrillation Risk Scores
+ * Detects atrial fibrillation/flutter in ECG analyses and scores stroke risk
+ * (CHA2DS2-VASc) and bleeding risk (HAS-BLED) from the profile, structured
+ * conditions, medical history text and the latest lab results. Items that
+ * cannot be determined are reported as missing instead of counted as absent.
+ */
+
+import { prisma } from '@/utils/prismaDB';
+import { RiskAssessmentResult, RiskFactors } from './riskAssessment';
+import { RiskFactorSource } from './patientRiskFactors';
+
+// Structured conditions stored in PatientProfile.conditions; a missing key means "not answered"
+export const PATIENT_CONDITIONS = {
+  atrialFibrillation: 'Atrial fibrillation or flutter',
+  heartFailure: 'Heart failure',
+  hypertension: 'Hypertension',
+  diabetes: 'Diabetes',
+  strokeOrTIA: 'Stroke, TIA or thromboembolism',
+  vascularDisease: 'Heart attack, peripheral artery disease or aortic plaque',
+  bleedingHistory: 'Major bleeding or bleeding tendency',
+  liverDisease: 'Chronic liver disease (e.g. cirrhosis)',
+  dialysisOrKidneyTransplant: 'Dialysis or kidney transplant',
+  labileINR: 'Unstable INR on warfarin',
+  antiplateletOrNSAID: 'Taking aspirin, clopidogrel or NSAIDs',
+  alcoholExcess: '8 or more alcoholic drinks a week',
+} as const;
+
+export type PatientCondition = keyof typeof PATIENT_CONDITIONS;
+export type PatientConditions = Partial<Record<PatientCondition, boolean>>;
+
+/**
+ * Keep only known conditions answered yes or no; anything else stays unknown
+ */
+export function parsePatientConditions(input: unknown): PatientConditions {
+  const conditions: PatientConditions = {};
+  if (!input || typeof input !== 'object') return conditions;
+
+  for (const [key, value] of Object.entries(input)) {
+    if (key in PATIENT_CONDITIONS && typeof value === 'boolean') {
+      conditions[key as PatientCondition] = value;
+    }
+  }
+  return conditions;
+}
+
+export interface ScoreItem {
+  key: string;
+  label: string;
+  points: number; // Points when present
+  present: boolean | null; // null when it could not be determined
+  source?: string; // Where the answer came from
+}
+
+interface ConditionFinding {
+  present: boolean | null;
+  source?: string;
+}
+
+// Keywords in the free-text history fields that indicate a condition
+const HISTORY_KEYWORDS: Partial<Record<PatientCondition, RegExp>> = {
+  atrialFibrillation: /atrial (fibrillation|flutter)|\ba-?fib\b/i,
+  heartFailure: /heart failure|\bchf\b|cardiomyopathy|reduced ejection fraction/i,
+  hypertension: /hypertension|high blood pressure/i,
+  diabetes: /(?<!pre-?)diabet/i,
+  strokeOrTIA: /stroke|\btia\b|transient isch(a)?emic attack|thromboembol|embolism/i,
+  vascularDisease: /myocardial infarction|heart attack|peripheral arter(y|ial) disease|\bpad\b|aortic plaque|coronary artery disease/i,
+  bleedingHistory: /bleed|h(a)?emorrhag/i,
+  liverDisease: /cirrhosis|liver disease|hepatitis/i,
+  dialysisOrKidneyTransplant: /dialysis|(kidney|renal) transplant/i,
+  antiplateletOrNSAID: /aspirin|clopidogrel|ticagrelor|prasugrel|ibuprofen|naproxen|diclofenac|nsaid/i,
+};
+
+const AF_PATTERN = /atrial (fibrillation|flutter)|\ba-?fib\b|\bafl\b|\baf\b/i;
+const NEGATION_PATTERN = /\b(no|not|denies|without|negative for|ruled out)\b[^.;,]*$/i;
+
+// HAS-BLED abnormal function thresholds
+const CREATININE_RENAL_THRESHOLD = 2.26; // mg/dL (200 µmol/L)
+const UNCONTROLLED_SBP = 160; // mmHg
+const ELDERLY_AGE = 65;
+const DEFAULT_ULN: Record<string, number> = { alt: 40, ast: 40, bilirubin_total: 1.2 };
+
+// Adjusted annual stroke rate (%) per CHA2DS2-VASc score (Lip et al., Stroke 2010)
+const ANNUAL_STROKE_RATE = [0, 1.3, 2.2, 3.2, 4.0, 6.7, 9.8, 9.6, 6.7, 15.2];
+
+/**
+ * Whether text mentions a pattern outside a negated phrase ("no atrial fibrillation")
+ */
+function mentions(text: string, pattern: RegExp): boolean {
+  const global = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`);
+  for (const match of Array.from(text.matchAll(global))) {
+    if (!NEGATION_PATTERN.test(text.slice(Math.max(0, match.index! - 40), match.index))) return true;
+  }
+  return false;
+}
+
+/**
+ * Whether the rhythm or abnormalities of an ECG analysis report atrial fibrillation or flutter
+ */
+export function hasAtrialFibrillationFinding(findings: string | Record<string, any>): boolean {
+  let parsed: Record<string, any>;
+  try {
+    parsed = typeof findings === 'string' ? JSON.parse(findings) : findings;
+  } catch {
+    return false;
+  }
+
+  const texts = [
+    parsed?.rhythm,
+    ...(Array.isArray(parsed?.abnormalities) ? parsed.abnormalities : []),
+  ].map((item) => (typeof item === 'string' ? item : JSON.stringify(item ?? '')));
+
+  return texts.some((text) => mentions(text, AF_PATTERN));
+}
+
+/**
+ * Resolve a condition from the structured answer first, then from the history text.
+ * History text can only show a condition is present, never that it is absent.
+ */
+function findCondition(condition: PatientCondition, conditions: PatientConditions, history: string): ConditionFinding {
+  const answer = conditions[condition];
+  if (typeof answer === 'boolean') return { present: answer, source: 'Profile conditions' };
+
+  const keywords = HISTORY_KEYWORDS[condition];
+  if (keywords && mentions(history, keywords)) return { present: true, source: 'Medical history' };
+
+  return { present: null };
+}
+
+function scoreItems(items: ScoreItem[]) {
+  const score = items.reduce((sum, item) => sum + (item.present ? item.points : 0), 0);
+  const missing = items.filter((item) => item.present === null);
+  return {
+    score,
+    maxScore: score + missing.reduce((sum, item) => sum + item.points, 0),
+    missing: missing.map((item) => item.label),
+  };
+}
+
+const formatDate = (date?: Date) => (date ? ` on ${new Date(date).toISOString().split('T')[0]}` : '');
+
+export interface AtrialFibrillationInputs {
+  factors: RiskFactors;
+  sources: Record<string, RiskFactorSource>;
+  conditions: PatientConditions;
+  biologicalSex: 'MALE' | 'FEMALE' | null; // From the profile only; risk factors default to MALE
+  history: string; // Medical history, chronic illness and medication text
+  labs: Record<string, { value: number; referenceHigh: number | null; recordedDate: Date }>;
+  ecgReportId: string | null; // ECG that showed atrial fibrillation, if any
+}
+
+/**
+ * CHA2DS2-VASc stroke risk score for atrial fibrillation
+ */
+export function calculateCHA2DS2VASc(inputs: AtrialFibrillationInputs): RiskAssessmentResult {
+  const { factors, sources, conditions, history } = inputs;
+  const age = factors.age || null;
+  const sex = inputs.biologicalSex;
+  const knownSex = sex !== null;
+
+  const diabetes = findCondition('diabetes', conditions, history);
+  if (diabetes.present === null && ((factors.hba1c ?? 0) >= 6.5 || (factors.fastingGlucose ?? 0) >= 126)) {
+    diabetes.present = true;
+    diabetes.source = factors.hba1c && factors.hba1c >= 6.5 ? `HbA1c ${factors.hba1c}%` : `Fasting glucose ${factors.fastingGlucose} mg/dL`;
+  }
+  const hypertension = findCondition('hypertension', conditions, history);
+  if (hypertension.present === null && factors.hypertensionTreated) {
+    hypertension.present = true;
+    hypertension.source = 'Blood pressure treatment';
+  }
+
+  const items: ScoreItem[] = [
+    { key: 'C', label: PATIENT_CONDITIONS.heartFailure, points: 1, ...findCondition('heartFailure', conditions, history) },
+    { key: 'H', label: PATIENT_CONDITIONS.hypertension, points: 1, ...hypertension },
+    { key: 'A2', label: 'Age 75 or older', points: 2, present: age ? age >= 75 : null, source: age ? 'Profile age' : undefined },
+    { key: 'D', label: PATIENT_CONDITIONS.diabetes, points: 1, ...diabetes },
+    { key: 'S2', label: PATIENT_CONDITIONS.strokeOrTIA, points: 2, ...findCondition('strokeOrTIA', conditions, history) },
+    { key: 'V', label: 'Vascular disease (heart attack, peripheral artery disease, aortic plaque)', points: 1, ...findCondition('vascularDisease', conditions, history) },
+    { key: 'A', label: 'Age 65-74', points: 1, present: age ? age >= 65 && age < 75 : null, source: age ? 'Profile age' : undefined },
+    { key: 'Sc', label: 'Female sex', points: 1, present: knownSex ? sex === 'FEMALE' : null, source: knownSex ? 'Profile sex' : undefined },
+  ];
+
+  const { score, maxScore, missing } = scoreItems(items);
+  const female = sex === 'FEMALE';
+  // Female sex is a risk modifier: guideline thresholds are one point higher for women
+  const nonSexScore = score - (female ? 1 : 0);
+
+  let riskCategory: RiskAssessmentResult['riskCategory'];
+  if (nonSexScore === 0) riskCategory = 'LOW';
+  else if (nonSexScore === 1) riskCategory = 'MODERATE';
+  else if (nonSexScore < 5) riskCategory = 'HIGH';
+  else riskCategory = 'VERY_HIGH';
+
+  const recommendations: string[] = [];
+  if (nonSexScore >= 2) {
+    recommendations.push('💊 Oral anticoagulation is recommended to prevent stroke; discuss it with your doctor');
+  } else if (nonSexScore === 1) {
+    recommendations.push('💊 Oral anticoagulation should be considered; discuss the benefits and bleeding risk with your doctor');
+  } else {
+    recommendations.push('✅ Anticoagulation is generally not needed at this stroke risk; reassess yearly');
+  }
+  if (missing.length > 0) {
+    recommendations.push(`📝 Complete your health conditions to finish this score (missing: ${missing.join(', ')})`);
+  }
+  recommendations.push('🩺 Control blood pressure, blood sugar and other stroke risk factors');
+  recommendations.push('🚨 Seek emergency care for sudden weakness, facial droop or trouble speaking');
+
+  const annualStrokeRate = ANNUAL_STROKE_RATE[Math.min(score, ANNUAL_STROKE_RATE.length - 1)];
+
+  return {
+    score,
+    riskCategory,
+    factors: {
+      items,
+      maxScore,
+      missing,
+      annualStrokeRate,
+      ecgReportId: inputs.ecgReportId,
+      ageSource: sources.age?.source ?? null,
+    },
+    recommendations,
+    interpretation:
+      missing.length > 0
+        ? `CHA2DS2-VASc is at least ${score} (up to ${maxScore} once ${missing.length} missing item(s) are known).`
+        : `CHA2DS2-VASc score of ${score}, an estimated ${annualStrokeRate}% yearly stroke risk without anticoagulation.`,
+    validityPeriod: 365,
+  };
+}
+
+/**
+ * HAS-BLED bleeding risk score for anticoagulation in atrial fibrillation
+ */
+export function calculateHASBLED(inputs: AtrialFibrillationInputs): RiskAssessmentResult {
+  const { factors, sources, conditions, history, labs } = inputs;
+  const age = factors.age || null;
+
+  const hypertension: ConditionFinding =
+    factors.systolicBP != null
+      ? {
+          present: factors.systolicBP > UNCONTROLLED_SBP,
+          source: `Systolic BP ${factors.systolicBP} mmHg${formatDate(sources.systolicBP?.recordedDate)}`,
+        }
+      : { present: null };
+
+  const renal = findCondition('dialysisOrKidneyTransplant', conditions, history);
+  if (renal.present !== true && labs.creatinine) {
+    renal.present = labs.creatinine.value >= CREATININE_RENAL_THRESHOLD;
+    renal.source = `Creatinine ${labs.creatinine.value} mg/dL${formatDate(labs.creatinine.recordedDate)}`;
+  }
+
+  // Liver: cirrhosis, or bilirubin > 2x ULN with AST/ALT > 3x ULN
+  const liver = findCondition('liverDisease', conditions, history);
+  const timesUln = (type: string) =>
+    labs[type] ? labs[type].value / (labs[type].referenceHigh ?? DEFAULT_ULN[type]) : null;
+  const bilirubin = timesUln('bilirubin_total');
+  const transaminase = Math.max(timesUln('alt') ?? 0, timesUln('ast') ?? 0) || null;
+  if (liver.present !== true && bilirubin != null && transaminase != null) {
+    liver.present = bilirubin > 2 && transaminase > 3;
+    liver.source = 'Liver function tests';
+  }
+
+  const items: ScoreItem[] = [
+    { key: 'H', label: 'Uncontrolled hypertension (systolic > 160 mmHg)', points: 1, ...hypertension },
+    { key: 'A-renal', label: 'Abnormal kidney function', points: 1, ...renal },
+    { key: 'A-liver', label: 'Abnormal liver function', points: 1, ...liver },
+    { key: 'S', label: PATIENT_CONDITIONS.strokeOrTIA, points: 1, ...findCondition('strokeOrTIA', conditions, history) },
+    { key: 'B', label: PATIENT_CONDITIONS.bleedingHistory, points: 1, ...findCondition('bleedingHistory', conditions, history) },
+    { key: 'L', label: PATIENT_CONDITIONS.labileINR, points: 1, ...findCondition('labileINR', conditions, history) },
+    { key: 'E', label: 'Age over 65', points: 1, present: age ? age > ELDERLY_AGE : null, source: age ? 'Profile age' : undefined },
+    { key: 'D-drugs', label: PATIENT_CONDITIONS.antiplateletOrNSAID, points: 1, ...findCondition('antiplateletOrNSAID', conditions, history) },
+    { key: 'D-alcohol', label: PATIENT_CONDITIONS.alcoholExcess, points: 1, ...findCondition('alcoholExcess', conditions, history) },
+  ];
+
+  const { score, maxScore, missing } = scoreItems(items);
+
+  let riskCategory: RiskAssessmentResult['riskCategory'];
+  if (score <= 1) riskCategory = 'LOW';
+  else if (score === 2) riskCategory = 'MODERATE';
+  else if (score < 5) riskCategory = 'HIGH';
+  else riskCategory = 'VERY_HIGH';
+
+  const recommendations: string[] = [];
+  if (score >= 3) {
+    recommendations.push('⚠️ High bleeding risk: this is not a reason to avoid anticoagulation, but needs closer follow-up');
+  }
+  if (hypertension.present) recommendations.push('🩺 Bring systolic blood pressure below 160 mmHg to lower bleeding risk');
+  if (items.find((item) => item.key === 'D-drugs')?.present) {
+    recommendations.push('💊 Ask your doctor whether aspirin or NSAIDs can be stopped while on anticoagulation');
+  }
+  if (items.find((item) => item.key === 'D-alcohol')?.present) {
+    recommendations.push('🍷 Reduce alcohol to fewer than 8 drinks a week');
+  }
+  if (missing.length > 0) {
+    recommendations.push(`📝 Complete your health conditions to finish this score (missing: ${missing.join(', ')})`);
+  }
+
+  return {
+    score,
+    riskCategory,
+    factors: { items, maxScore, missing, ecgReportId: inputs.ecgReportId },
+    recommendations,
+    interpretation:
+      missing.length > 0
+        ? `HAS-BLED is at least ${score} (up to ${maxScore} once ${missing.length} missing item(s) are known).`
+        : `HAS-BLED score of ${score}: ${score >= 3 ? 'high' : 'low to moderate'} risk of major bleeding on anticoagulation.`,
+    validityPeriod: 365,
+  };
+}
+
+/**
+ * Gather the atrial fibrillation score inputs of a patient who has atrial
+ * fibrillation, from the structured conditions or a current ECG analysis.
+ * An ECG finding counts even when the profile says "no", since newly detected
+ * atrial fibrillation is what the scores are for. Returns null when atrial
+ * fibrillation is not known.
+ */
+export async function getAtrialFibrillationInputs(
+  userId: string,
+  factors: RiskFactors,
+  sources: Record<string, RiskFactorSource>
+): Promise<AtrialFibrillationInputs | null> {
+  const profile = await prisma.patientProfile.findUnique({ where: { userId } });
+  const conditions = (profile?.conditions as PatientConditions | null) ?? {};
+  const history = [profile?.medicalHistory, profile?.chronicIllness, profile?.medications]
+    .filter(Boolean)
+    .join('. ');
+
+  const ecgReports = await prisma.medicalReport.findMany({
+    where: { userId, reportType: 'ECG', aiAnalysis: { isNot: null } },
+    include: { aiAnalysis: true },
+    orderBy: { uploadedAt: 'desc' },
+  });
+  const ecgReport = ecgReports.find((report) => hasAtrialFibrillationFinding(report.aiAnalysis!.findings));
+
+  const hasAF =
+    conditions.atrialFibrillation === true || !!ecgReport || mentions(history, HISTORY_KEYWORDS.atrialFibrillation!);
+  if (!hasAF) return null;
+
+  const labs: AtrialFibrillationInputs['labs'] = {};
+  for (const biomarkerType of ['creatinine', 'alt', 'ast', 'bilirubin_total']) {
+    const latest = await prisma.biomarkerTrend.findFirst({
+      where: { userId, biomarkerType, status: { not: 'QUARANTINED' } },
+      orderBy: [{ recordedDate: 'desc' }, { createdAt: 'desc' }],
+    });
+    if (latest) {
+      labs[biomarkerType] = { value: latest.value, referenceHigh: latest.referenceHigh, recordedDate: latest.recordedDate };
+    }
+  }
+
+  const sex = profile?.biologicalSex?.toUpperCase();
+  const biologicalSex = sex === 'MALE' || sex === 'FEMALE' ? sex : null;
+
+  return { factors, sources, conditions, biologicalSex, history, labs, ecgReportId: ecgReport?.id ?? null };
+}
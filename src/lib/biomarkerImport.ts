@@ -0,0 +1,524 @@
+/**
+ * Biomarker Spreadsheet Import
+ * Maps spreadsheet columns to biomarker types and units, previews and validates
+ * the values (unit, plausibility, duplicates against tracked data) and imports
+ * them in one transaction that can be undone for a limited time
+ */
+
+import { BiomarkerImport, Prisma } from '@prisma/client';
+import { prisma } from '@/utils/prismaDB';
+import { findAnalyteBySynonym, findAnalyteInLabel, normalizeAnalyteLabel } from './analyteDictionary';
+import { checkBiomarkerValue, checkDerivedBiomarker, PreviousResult } from './biomarkerValidation';
+import { isPlausibleCollectionDate, parseReportDate } from './collectionDate';
+import { CALCULATED_SOURCE, getDerivedBiomarker, withDerivedBiomarkers } from './derivedBiomarkers';
+import { reevaluateGoalsAfterRemovedBiomarkers, updateGoalsAfterNewBiomarkers } from './goalProgress';
+import { getBiomarkerRangeFields } from './referenceRanges';
+import { reassessRiskAfterImportUndone, reassessRiskAfterNewBiomarkers } from './riskReassessment';
+import { SpreadsheetData } from './spreadsheet';
+import { getAvailableUnits, getCanonicalUnit, normalizeBiomarkerValue, normalizeUnitString, UNIT_REGISTRY } from './unitConversion';
+
+// WIDE: a date column and one column per biomarker; LONG: one value per row with its name and unit
+export type ImportLayout = 'WIDE' | 'LONG';
+
+export interface ImportColumn {
+  column: string; // Header in the file
+  biomarkerType: string;
+  unit: string; // Unit of the values in this column
+}
+
+export interface ImportMapping {
+  layout: ImportLayout;
+  dateColumn: string;
+  dayFirst?: boolean; // Read 03/04/2024 as 3 April instead of March 4
+  columns?: ImportColumn[]; // WIDE
+  nameColumn?: string; // LONG
+  valueColumn?: string;
+  unitColumn?: string; // LONG, optional: values without a unit are read in the canonical unit
+}
+
+// VALID and QUARANTINE rows are imported (QUARANTINE rows held for confirmation); the others are skipped
+export type ImportRowStatus = 'VALID' | 'QUARANTINE' | 'DUPLICATE' | 'ERROR';
+
+export interface ImportPreviewRow {
+  rowNumber: number; // Row in the file, the header being row 1
+  label: string; // Column (WIDE) or test name (LONG) the value was read from
+  biomarkerType: string | null;
+  recordedDate: Date | null;
+  value: number | null; // Canonical unit
+  unit: string | null;
+  originalValue: number | null;
+  originalUnit: string | null;
+  status: ImportRowStatus;
+  message: string | null;
+  deviceSource?: string | null; // App and device of values read from a wearable export (see lib/wearableImport.ts)
+}
+
+export interface CheckedImport {
+  rows: ImportPreviewRow[];
+  summary: Record<ImportRowStatus, number>;
+}
+
+export interface ImportPreview extends CheckedImport {
+  mapping: ImportMapping;
+}
+
+export type ImportSource = 'SPREADSHEET' | 'APPLE_HEALTH' | 'GOOGLE_FIT';
+
+export const IMPORT_UNDO_WINDOW_HOURS = 24;
+export const MAX_IMPORT_VALUES = 10000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30); // Day 0 of Excel's 1900 date system
+const DELTA_LOOKBACK_DAYS = 90; // Longer than any delta-check window
+
+const DATE_HEADER = /\b(date|collected|collection|drawn|time|day)\b/;
+const NAME_HEADER = /\b(test|analyte|biomarker|component|measurement|name|type)\b/;
+const VALUE_HEADER = /\b(value|result)\b/;
+const UNIT_HEADER = /\b(unit|units|uom)\b/;
+
+const dayKey = (date: Date) => date.toISOString().split('T')[0];
+
+/**
+ * Resolve a column header or test name such as "LDL (mmol/L)" to a biomarker type
+ * and, when the label names one, its unit. A bracket that is part of a synonym,
+ * as in "Glucose (fasting)", is not read as a unit.
+ */
+export function resolveBiomarkerLabel(label: string): { biomarkerType: string; unit: string | null } | null {
+  const match = findAnalyteBySynonym(label) ? null : label.match(/^(.*?)\s*[([]\s*([^)\]]+?)\s*[)\]]\s*$/);
+  const name = match ? match[1] : label;
+
+  const key = normalizeAnalyteLabel(name).replace(/ /g, '_');
+  const biomarkerType = UNIT_REGISTRY[key]
+    ? key
+    : (findAnalyteBySynonym(name) ?? findAnalyteInLabel(name))?.type;
+  if (!biomarkerType) return null;
+
+  const unit = match ? normalizeUnitString(match[2]) : null;
+  return { biomarkerType, unit: unit && getAvailableUnits(biomarkerType).includes(unit) ? unit : null };
+}
+
+/**
+ * Guess how a file is laid out from its headers. Columns that don't name a known
+ * biomarker are left unmapped for the patient to assign.
+ */
+export function suggestImportMapping(headers: string[]): ImportMapping {
+  const find = (pattern: RegExp) => headers.find((header) => pattern.test(normalizeAnalyteLabel(header)));
+  const dateColumn = find(DATE_HEADER) ?? headers[0] ?? '';
+  const nameColumn = headers.find((header) => header !== dateColumn && NAME_HEADER.test(normalizeAnalyteLabel(header)));
+  const valueColumn = find(VALUE_HEADER);
+
+  if (nameColumn && valueColumn) {
+    return { layout: 'LONG', dateColumn, nameColumn, valueColumn, unitColumn: find(UNIT_HEADER) };
+  }
+
+  const columns: ImportColumn[] = [];
+  for (const column of headers) {
+    if (column === dateColumn) continue;
+    const resolved = resolveBiomarkerLabel(column);
+    if (resolved && getCanonicalUnit(resolved.biomarkerType)) {
+      columns.push({
+        column,
+        biomarkerType: resolved.biomarkerType,
+        unit: resolved.unit ?? getCanonicalUnit(resolved.biomarkerType)!,
+      });
+    }
+  }
+  return { layout: 'WIDE', dateColumn, columns };
+}
+
+/**
+ * Check a mapping sent by the client against the file's headers
+ * @returns An error message, or null when the mapping can be used
+ */
+export function validateImportMapping(mapping: ImportMapping, headers: string[]): string | null {
+  if (mapping?.layout !== 'WIDE' && mapping?.layout !== 'LONG') return 'layout must be WIDE or LONG';
+
+  const missing = [mapping.dateColumn, mapping.nameColumn, mapping.valueColumn, mapping.unitColumn]
+    .concat((mapping.columns ?? []).map((column) => column.column))
+    .filter((column): column is string => !!column && !headers.includes(column));
+  if (!headers.includes(mapping.dateColumn)) return 'Choose the column holding the date';
+  if (missing.length > 0) return `Columns not found in the file: ${missing.join(', ')}`;
+
+  if (mapping.layout === 'LONG') {
+    return mapping.nameColumn && mapping.valueColumn ? null : 'Choose the columns holding the test name and value';
+  }
+
+  if (!mapping.columns?.length) return 'Map at least one column to a biomarker';
+  const invalid = mapping.columns.find(
+    (column) => !getAvailableUnits(column.biomarkerType).includes(normalizeUnitString(column.unit ?? ''))
+  );
+  return invalid ? `"${invalid.column}" needs a known biomarker and one of its units` : null;
+}
+
+/**
+ * Parse a date cell: report date formats, an optional time after the date, or an
+ * Excel serial day number
+ */
+export function parseImportDate(raw: string, dayFirst = false): Date | null {
+  const text = raw.trim();
+  if (/^\d{5}(\.\d+)?$/.test(text)) {
+    return new Date(EXCEL_EPOCH + Math.floor(parseFloat(text)) * DAY_MS);
+  }
+
+  const datePart = text.split(/[ T]/)[0];
+  const dayFirstMatch = dayFirst ? datePart.match(/^(\d{1,2})([/-])(\d{1,2})\2(\d{2,4})$/) : null;
+  const normalized = dayFirstMatch ? `${dayFirstMatch[3]}/${dayFirstMatch[1]}/${dayFirstMatch[4]}` : datePart;
+
+  return parseReportDate(normalized) ?? parseReportDate(text);
+}
+
+/**
+ * Parse a value cell, accepting a decimal comma ("5,2")
+ */
+export function parseImportValue(raw: string): { value: number } | { error: string } {
+  const text = raw.trim().replace(/\s/g, '');
+  if (/^[<>≤≥]/.test(text)) {
+    return { error: `"${raw}" is a value below or above the measurable range and can't be tracked` };
+  }
+
+  const normalized = /^-?\d+,\d{1,2}$/.test(text) ? text.replace(',', '.') : text.replace(/,/g, '');
+  const value = Number(normalized);
+  return normalized !== '' && Number.isFinite(value) ? { value } : { error: `"${raw}" is not a number` };
+}
+
+interface ImportCandidate {
+  rowNumber: number;
+  label: string;
+  biomarkerType: string | null;
+  rawDate: string;
+  rawValue: string;
+  unit: string | null;
+}
+
+// One candidate per value in the file, in file order
+function readCandidates(data: SpreadsheetData, mapping: ImportMapping): ImportCandidate[] {
+  const index = (column?: string) => (column ? data.headers.indexOf(column) : -1);
+  const dateIndex = index(mapping.dateColumn);
+  const candidates: ImportCandidate[] = [];
+
+  data.rows.forEach((row, rowIndex) => {
+    const rowNumber = rowIndex + 2;
+    const rawDate = dateIndex === -1 ? '' : row[dateIndex];
+
+    if (mapping.layout === 'LONG') {
+      const label = row[index(mapping.nameColumn)] ?? '';
+      const rawValue = row[index(mapping.valueColumn)] ?? '';
+      if (!label && !rawValue) return;
+
+      const resolved = label ? resolveBiomarkerLabel(label) : null;
+      const unitCell = index(mapping.unitColumn) === -1 ? '' : row[index(mapping.unitColumn)];
+      candidates.push({
+        rowNumber,
+        label,
+        biomarkerType: resolved?.biomarkerType ?? null,
+        rawDate,
+        rawValue,
+        unit: unitCell ? normalizeUnitString(unitCell) : resolved?.unit ?? null,
+      });
+      return;
+    }
+
+    for (const column of mapping.columns ?? []) {
+      const rawValue = row[index(column.column)] ?? '';
+      if (rawValue === '') continue;
+      candidates.push({
+        rowNumber,
+        label: column.column,
+        biomarkerType: column.biomarkerType,
+        rawDate,
+        rawValue,
+        unit: normalizeUnitString(column.unit),
+      });
+    }
+  });
+
+  return candidates;
+}
+
+/**
+ * Number of values a file holds under a mapping, to reject oversized files
+ * before they are validated
+ */
+export function countImportValues(data: SpreadsheetData, mapping: ImportMapping): number {
+  return readCandidates(data, mapping).length;
+}
+
+// Values equal after the rounding of a unit conversion
+const sameValue = (a: number, b: number) => Math.abs(a - b) <= Math.max(0.01, Math.abs(b) * 0.005);
+
+/**
+ * Read and validate every value of a file against the mapping: unknown biomarkers,
+ * units and dates are errors, values already tracked on the same day (or repeated in
+ * the file) are duplicates, and implausible values or jumps are quarantined
+ */
+export async function buildImportPreview(
+  userId: string,
+  data: SpreadsheetData,
+  mapping: ImportMapping
+): Promise<ImportPreview> {
+  const rows: ImportPreviewRow[] = readCandidates(data, mapping).map((candidate) => {
+    const row: ImportPreviewRow = {
+      rowNumber: candidate.rowNumber,
+      label: candidate.label,
+      biomarkerType: candidate.biomarkerType,
+      recordedDate: null,
+      value: null,
+      unit: null,
+      originalValue: null,
+      originalUnit: null,
+      status: 'ERROR',
+      message: null,
+    };
+
+    const type = candidate.biomarkerType;
+    if (!type || !getCanonicalUnit(type)) {
+      return { ...row, message: `"${candidate.label}" is not a biomarker that can be tracked` };
+    }
+
+    const date = parseImportDate(candidate.rawDate, mapping.dayFirst);
+    if (!date || !isPlausibleCollectionDate(date)) {
+      return { ...row, message: candidate.rawDate ? `"${candidate.rawDate}" is not a valid past date` : 'Missing date' };
+    }
+
+    const parsed = parseImportValue(candidate.rawValue);
+    if ('error' in parsed) return { ...row, recordedDate: date, message: parsed.error };
+
+    const unit = candidate.unit ?? getCanonicalUnit(type)!;
+    if (!getAvailableUnits(type).includes(unit)) {
+      return {
+        ...row,
+        recordedDate: date,
+        message: `Unit "${unit}" is not supported for this biomarker; use ${getAvailableUnits(type).join(' or ')}`,
+      };
+    }
+
+    const measurement = normalizeBiomarkerValue(type, parsed.value, unit);
+    return {
+      ...row,
+      recordedDate: date,
+      value: measurement.value,
+      unit: measurement.unit,
+      originalValue: measurement.originalValue,
+      originalUnit: measurement.originalUnit,
+      status: 'VALID',
+      message: null,
+    };
+  });
+
+  return { mapping, ...(await checkImportRows(userId, rows)) };
+}
+
+/**
+ * Check the VALID rows of an import against tracked data and each other: values
+ * already tracked on the same day (or from the same device on that day, or repeated
+ * in the import) become duplicates, and implausible values or jumps are quarantined
+ */
+export async function checkImportRows(userId: string, rows: ImportPreviewRow[]): Promise<CheckedImport> {
+  const valid = rows.filter((row) => row.status === 'VALID');
+  const types = Array.from(new Set(valid.map((row) => row.biomarkerType!)));
+
+  if (valid.length > 0) {
+    // A loop rather than spreading the dates into Math.min, which overflows the stack on large imports
+    let first = Infinity;
+    let last = -Infinity;
+    for (const row of valid) {
+      first = Math.min(first, row.recordedDate!.getTime());
+      last = Math.max(last, row.recordedDate!.getTime());
+    }
+
+    const existing = await prisma.biomarkerTrend.findMany({
+      where: {
+        userId,
+        biomarkerType: { in: types },
+        recordedDate: {
+          gte: new Date(first - DELTA_LOOKBACK_DAYS * DAY_MS),
+          lt: new Date(last + DAY_MS),
+        },
+      },
+      select: { biomarkerType: true, value: true, unit: true, recordedDate: true, status: true, deviceSource: true },
+      orderBy: { recordedDate: 'asc' },
+    });
+
+    // Duplicates of tracked values (in any status) and of earlier rows of the file
+    const seen = new Map<string, Array<{ value: number; rowNumber: number | null; deviceSource: string | null }>>();
+    for (const row of existing) {
+      const key = `${row.biomarkerType}|${dayKey(row.recordedDate)}`;
+      seen.set(key, [...(seen.get(key) ?? []), { value: row.value, rowNumber: null, deviceSource: row.deviceSource }]);
+    }
+    for (const row of valid) {
+      const key = `${row.biomarkerType}|${dayKey(row.recordedDate!)}`;
+      // A device contributes one aggregate per day, so a later export covering the same day is a duplicate
+      const duplicate = (seen.get(key) ?? []).find(
+        (entry) => sameValue(row.value!, entry.value) || (!!row.deviceSource && entry.deviceSource === row.deviceSource)
+      );
+      if (duplicate) {
+        row.status = 'DUPLICATE';
+        row.message =
+          duplicate.rowNumber !== null
+            ? `Same value as row ${duplicate.rowNumber}`
+            : row.deviceSource && duplicate.deviceSource === row.deviceSource
+              ? 'Already imported from this device on this date'
+              : 'Already tracked on this date';
+        continue;
+      }
+      seen.set(key, [...(seen.get(key) ?? []), { value: row.value!, rowNumber: row.rowNumber, deviceSource: row.deviceSource ?? null }]);
+    }
+
+    // Plausibility limits and delta checks against the previous tracked or imported value
+    for (const type of types) {
+      const tracked = existing.filter((row) => row.biomarkerType === type && row.status !== 'QUARANTINED');
+      const imported = valid
+        .filter((row) => row.biomarkerType === type && row.status === 'VALID')
+        .sort((a, b) => a.recordedDate!.getTime() - b.recordedDate!.getTime());
+
+      let previousImported: PreviousResult | null = null;
+      for (const row of imported) {
+        const previousTracked = tracked.filter((entry) => entry.recordedDate <= row.recordedDate!).pop() ?? null;
+        const previous =
+          previousImported && (!previousTracked || previousImported.recordedDate >= previousTracked.recordedDate)
+            ? previousImported
+            : previousTracked;
+
+        const check = checkBiomarkerValue(type, row.value!, row.unit!, row.recordedDate!, previous);
+        if (check.status === 'QUARANTINED') {
+          row.status = 'QUARANTINE';
+          row.message = check.reason;
+        } else {
+          previousImported = { value: row.value!, unit: row.unit!, recordedDate: row.recordedDate! };
+        }
+      }
+    }
+  }
+
+  const summary: Record<ImportRowStatus, number> = { VALID: 0, QUARANTINE: 0, DUPLICATE: 0, ERROR: 0 };
+  for (const row of rows) summary[row.status]++;
+
+  return { rows, summary };
+}
+
+/**
+ * Store the VALID and QUARANTINE rows of a preview, with the values calculated from
+ * each day's results, as one import. Risk and goals are updated afterwards.
+ */
+export async function importBiomarkers(
+  userId: string,
+  fileName: string,
+  preview: CheckedImport,
+  source: ImportSource = 'SPREADSHEET'
+): Promise<BiomarkerImport> {
+  const patientProfile = await prisma.patientProfile.findUnique({ where: { userId } });
+  const importable = preview.rows.filter((row) => row.status === 'VALID' || row.status === 'QUARANTINE');
+
+  // Each day of results is one draw for derived values
+  const draws = new Map<string, ImportPreviewRow[]>();
+  for (const row of importable) {
+    const key = dayKey(row.recordedDate!);
+    draws.set(key, [...(draws.get(key) ?? []), row]);
+  }
+
+  const data: Array<Omit<Prisma.BiomarkerTrendCreateManyInput, 'importId'>> = [];
+  for (const draw of Array.from(draws.values())) {
+    const quarantinedTypes = draw.filter((row) => row.status === 'QUARANTINE').map((row) => row.biomarkerType!);
+    const derived = withDerivedBiomarkers(
+      draw.map((row) => ({ type: row.biomarkerType!, value: row.value!, unit: row.unit! })),
+      patientProfile ?? {}
+    ).filter((entry) => entry.source === CALCULATED_SOURCE);
+
+    // A derivation that replaces reported values (eGFR) takes the place of the file's value
+    const replaced = derived.filter((entry) => getDerivedBiomarker(entry.type)?.replacesReported).map((entry) => entry.type);
+
+    for (const row of draw) {
+      if (replaced.includes(row.biomarkerType!)) continue;
+      data.push({
+        userId,
+        biomarkerType: row.biomarkerType!,
+        value: row.value!,
+        unit: row.unit!,
+        originalValue: row.originalValue,
+        originalUnit: row.originalUnit,
+        recordedDate: row.recordedDate!,
+        deviceSource: row.deviceSource ?? null,
+        ...getBiomarkerRangeFields(row.biomarkerType!, row.value!, row.unit!, patientProfile ?? {}),
+        status: row.status === 'QUARANTINE' ? 'QUARANTINED' : 'ACCEPTED',
+        quarantineReason: row.status === 'QUARANTINE' ? row.message : null,
+      });
+    }
+
+    for (const entry of derived) {
+      const check = checkDerivedBiomarker(entry.type, quarantinedTypes);
+      data.push({
+        userId,
+        biomarkerType: entry.type,
+        value: entry.value,
+        unit: entry.unit,
+        extractionSource: entry.source,
+        formula: entry.formula,
+        recordedDate: draw[0].recordedDate!,
+        ...getBiomarkerRangeFields(entry.type, entry.value, entry.unit, patientProfile ?? {}),
+        status: check.status,
+        quarantineReason: check.reason,
+      });
+    }
+  }
+
+  const biomarkerImport = await prisma.$transaction(async (tx) => {
+    const created = await tx.biomarkerImport.create({
+      data: {
+        userId,
+        fileName,
+        source,
+        rowCount: preview.rows.length,
+        importedCount: importable.length,
+        quarantinedCount: preview.summary.QUARANTINE,
+        duplicateCount: preview.summary.DUPLICATE,
+        errorCount: preview.summary.ERROR,
+        undoDeadline: new Date(Date.now() + IMPORT_UNDO_WINDOW_HOURS * 60 * 60 * 1000),
+      },
+    });
+    await tx.biomarkerTrend.createMany({
+      data: data.map((row) => ({ ...row, importId: created.id })),
+    });
+    return created;
+  }, { timeout: 30000 });
+  console.log(`📥 Imported ${importable.length} value(s) from ${fileName} for user ${userId} (import ${biomarkerImport.id})`);
+
+  const acceptedTypes = Array.from(
+    new Set(data.filter((row) => row.status !== 'QUARANTINED').map((row) => row.biomarkerType))
+  );
+  if (acceptedTypes.length > 0) {
+    await reassessRiskAfterNewBiomarkers(userId, acceptedTypes);
+    await updateGoalsAfterNewBiomarkers(userId, acceptedTypes);
+  }
+
+  return biomarkerImport;
+}
+
+/**
+ * Remove the values added by an import, with the goal progress recorded from them,
+ * and recalculate risk and goal status without them
+ */
+export async function undoBiomarkerImport(biomarkerImport: BiomarkerImport): Promise<BiomarkerImport> {
+  const removed = await prisma.biomarkerTrend.findMany({
+    where: { importId: biomarkerImport.id },
+    distinct: ['biomarkerType'],
+    select: { biomarkerType: true },
+  });
+
+  const [, undone] = await prisma.$transaction([
+    prisma.biomarkerTrend.deleteMany({ where: { importId: biomarkerImport.id } }),
+    prisma.biomarkerImport.update({
+      where: { id: biomarkerImport.id },
+      data: { status: 'UNDONE', undoneAt: new Date() },
+    }),
+  ]);
+  console.log(`↩️ Undid import ${biomarkerImport.id} (${biomarkerImport.fileName}) for user ${biomarkerImport.userId}`);
+
+  const removedTypes = removed.map((row) => row.biomarkerType);
+  await reassessRiskAfterImportUndone(biomarkerImport.userId, removedTypes, biomarkerImport.id);
+  await reevaluateGoalsAfterRemovedBiomarkers(
+    biomarkerImport.userId,
+    removedTypes,
+    `Values imported from ${biomarkerImport.fileName} were removed`
+  );
+  return undone;
+}
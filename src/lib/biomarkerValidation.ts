@@ -0,0 +1,199 @@
+/**
+ * Biomarker Plausibility and Delta Checks
+ * Physiological limits and delta-check rules for incoming biomarker values.
+ * Values that fail are stored as QUARANTINED and kept out of trends and risk
+ * scores until the patient or their doctor confirms them.
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import { DERIVED_BIOMARKERS, getDerivedBiomarker } from './derivedBiomarkers';
+import { getCanonicalUnit } from './unitConversion';
+
+// ACCEPTED: passed the checks; QUARANTINED: awaiting confirmation; CONFIRMED: quarantined, then confirmed
+export type BiomarkerStatus = 'ACCEPTED' | 'QUARANTINED' | 'CONFIRMED';
+
+export interface DeltaRule {
+  absolute: number; // Minimum absolute change, in the canonical unit
+  percent: number; // Minimum change relative to the previous result
+  windowDays: number; // Only results this close to the previous one are compared
+}
+
+export interface PlausibilityRule {
+  min: number; // Physiologically possible limits in the canonical unit
+  max: number;
+  delta?: DeltaRule; // Omitted for analytes that legitimately change quickly
+}
+
+export interface BiomarkerCheck {
+  status: 'ACCEPTED' | 'QUARANTINED';
+  reason: string | null;
+}
+
+export interface PreviousResult {
+  value: number;
+  unit: string;
+  recordedDate: Date;
+}
+
+// A change fails the delta check when it exceeds both the absolute and the percentage limit
+export const PLAUSIBILITY_RULES: Record<string, PlausibilityRule> = {
+  cholesterol_total: { min: 40, max: 1000, delta: { absolute: 80, percent: 35, windowDays: 30 } },
+  cholesterol_ldl: { min: 5, max: 700, delta: { absolute: 70, percent: 40, windowDays: 30 } },
+  cholesterol_hdl: { min: 5, max: 200, delta: { absolute: 25, percent: 40, windowDays: 30 } },
+  triglycerides: { min: 10, max: 10000, delta: { absolute: 400, percent: 150, windowDays: 14 } },
+  glucose_fasting: { min: 10, max: 1500, delta: { absolute: 150, percent: 100, windowDays: 7 } },
+  glucose_random: { min: 10, max: 1500 },
+  hba1c: { min: 3, max: 20, delta: { absolute: 1.5, percent: 20, windowDays: 60 } },
+  creatinine: { min: 0.1, max: 25, delta: { absolute: 1, percent: 50, windowDays: 7 } },
+  egfr: { min: 1, max: 200 },
+  uacr: { min: 0, max: 10000 },
+  potassium: { min: 1.5, max: 10, delta: { absolute: 1, percent: 25, windowDays: 3 } },
+  sodium: { min: 100, max: 180, delta: { absolute: 8, percent: 6, windowDays: 3 } },
+  chloride: { min: 60, max: 140 },
+  bicarbonate: { min: 5, max: 50 },
+  calcium: { min: 4, max: 16, delta: { absolute: 2, percent: 20, windowDays: 7 } },
+  albumin: { min: 1, max: 7 },
+  total_protein: { min: 2, max: 14 },
+  bun: { min: 1, max: 250 },
+  uric_acid: { min: 0.5, max: 20 },
+  alt: { min: 1, max: 10000 },
+  ast: { min: 1, max: 10000 },
+  alkaline_phosphatase: { min: 5, max: 5000 },
+  bilirubin_total: { min: 0, max: 50 },
+  hemoglobin: { min: 3, max: 25, delta: { absolute: 3, percent: 20, windowDays: 7 } },
+  hematocrit: { min: 10, max: 75 },
+  wbc: { min: 0.1, max: 500 },
+  rbc: { min: 1, max: 10 },
+  platelets: { min: 1, max: 2000, delta: { absolute: 150, percent: 50, windowDays: 7 } },
+  mcv: { min: 50, max: 150 },
+  mch: { min: 15, max: 50 },
+  tsh: { min: 0.001, max: 500 },
+  free_t4: { min: 0.1, max: 10 },
+  free_t3: { min: 0.5, max: 30 },
+  vitamin_d: { min: 2, max: 250 },
+  ferritin: { min: 1, max: 100000 },
+  bp_systolic: { min: 50, max: 300 },
+  bp_diastolic: { min: 20, max: 200 },
+  heart_rate: { min: 20, max: 300 },
+  qtc_interval: { min: 200, max: 800 },
+  pr_interval: { min: 50, max: 600 },
+  qrs_duration: { min: 40, max: 300 },
+  weight: { min: 1, max: 650, delta: { absolute: 10, percent: 10, windowDays: 14 } },
+  waist_circumference: { min: 30, max: 300, delta: { absolute: 15, percent: 15, windowDays: 30 } },
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatNumber = (value: number) => Number(value.toPrecision(4)).toString();
+const formatName = (biomarkerType: string) =>
+  biomarkerType.charAt(0).toUpperCase() + biomarkerType.slice(1).replace(/_/g, ' ');
+
+/**
+ * Check a value against its analyte's physiological limits and, when a previous
+ * result is given, the delta-check rule. Values in a unit other than the
+ * canonical one, and analytes without a rule, are accepted.
+ */
+export function checkBiomarkerValue(
+  biomarkerType: string,
+  value: number,
+  unit: string,
+  recordedDate: Date,
+  previous?: PreviousResult | null
+): BiomarkerCheck {
+  const rule = PLAUSIBILITY_RULES[biomarkerType];
+  if (!rule || unit !== getCanonicalUnit(biomarkerType)) return { status: 'ACCEPTED', reason: null };
+
+  const name = formatName(biomarkerType);
+
+  if (!Number.isFinite(value) || value < rule.min || value > rule.max) {
+    return {
+      status: 'QUARANTINED',
+      reason: `${name} of ${formatNumber(value)} ${unit} is outside the physiologically possible range (${rule.min}–${rule.max} ${unit})`,
+    };
+  }
+
+  if (rule.delta && previous && previous.unit === unit) {
+    const days = Math.abs(new Date(recordedDate).getTime() - new Date(previous.recordedDate).getTime()) / DAY_MS;
+    const change = value - previous.value;
+    const percent = previous.value !== 0 ? Math.abs(change / previous.value) * 100 : Infinity;
+
+    if (days <= rule.delta.windowDays && Math.abs(change) >= rule.delta.absolute && percent >= rule.delta.percent) {
+      const elapsed = days < 1 ? 'on the same day as' : `${Math.round(days)} day(s) after`;
+      return {
+        status: 'QUARANTINED',
+        reason: `${name} ${change > 0 ? 'rose' : 'fell'} from ${formatNumber(previous.value)} to ${formatNumber(value)} ${unit} (${change > 0 ? '+' : '-'}${Math.round(percent)}%) ${elapsed} the previous result; changes of more than ${rule.delta.absolute} ${unit} and ${rule.delta.percent}% within ${rule.delta.windowDays} days need confirmation`,
+      };
+    }
+  }
+
+  return { status: 'ACCEPTED', reason: null };
+}
+
+/**
+ * Latest tracked (not quarantined) result of a biomarker on or before a date
+ * @param excludeReportId Report whose own results are left out, when they are being re-checked
+ */
+export async function getPreviousResult(
+  client: PrismaClient | Prisma.TransactionClient,
+  userId: string,
+  biomarkerType: string,
+  recordedDate: Date,
+  excludeReportId?: string
+): Promise<PreviousResult | null> {
+  return client.biomarkerTrend.findFirst({
+    where: {
+      userId,
+      biomarkerType,
+      status: { not: 'QUARANTINED' },
+      recordedDate: { lte: recordedDate },
+      ...(excludeReportId ? { OR: [{ reportId: null }, { reportId: { not: excludeReportId } }] } : {}),
+    },
+    orderBy: [{ recordedDate: 'desc' }, { createdAt: 'desc' }],
+    select: { value: true, unit: true, recordedDate: true },
+  });
+}
+
+/**
+ * Check an incoming value against the limits and the patient's previous result
+ * @param excludeReportId Report the value belongs to, when its results are being re-checked
+ */
+export async function validateBiomarkerValue(
+  client: PrismaClient | Prisma.TransactionClient,
+  userId: string,
+  biomarkerType: string,
+  value: number,
+  unit: string,
+  recordedDate: Date,
+  excludeReportId?: string
+): Promise<BiomarkerCheck> {
+  if (!PLAUSIBILITY_RULES[biomarkerType]) return { status: 'ACCEPTED', reason: null };
+
+  const previous = await getPreviousResult(client, userId, biomarkerType, recordedDate, excludeReportId);
+  return checkBiomarkerValue(biomarkerType, value, unit, recordedDate, previous);
+}
+
+/**
+ * Check for a value calculated from other biomarkers: it is quarantined with its inputs
+ * @param quarantinedTypes Biomarkers quarantined in the same batch
+ */
+export function checkDerivedBiomarker(
+  biomarkerType: string,
+  quarantinedTypes: string[]
+): BiomarkerCheck {
+  const quarantinedInputs = (getDerivedBiomarker(biomarkerType)?.inputs ?? []).filter((input) =>
+    quarantinedTypes.includes(input)
+  );
+  if (quarantinedInputs.length === 0) return { status: 'ACCEPTED', reason: null };
+
+  return {
+    status: 'QUARANTINED',
+    reason: `${formatName(biomarkerType)} was calculated from ${quarantinedInputs.map((type) => type.replace(/_/g, ' ')).join(', ')} awaiting confirmation`,
+  };
+}
+
+/**
+ * Biomarkers calculated from a given biomarker, which follow it when it is confirmed or rejected
+ */
+export function getDerivedBiomarkerTypes(biomarkerType: string): string[] {
+  return DERIVED_BIOMARKERS.filter((derived) => derived.inputs.includes(biomarkerType)).map((derived) => derived.type);
+}
@@ -0,0 +1,143 @@
+/**
+ * Specimen Collection Date Detection
+ * Finds the date a sample was collected (or an exam was performed) in report
+ * text, so biomarkers are recorded on that date instead of the upload date
+ */
+
+export type CollectionDateSource = 'PATIENT' | 'REPORT_TEXT' | 'ANALYSIS';
+
+export interface DetectedCollectionDate {
+  date: Date;
+  label: string; // Text the date was read from, shown to the patient for confirmation
+  kind: 'COLLECTION' | 'REPORT'; // REPORT = only a report/exam date was found
+}
+
+// Labels in order of preference; collection labels beat report/exam dates
+const DATE_LABELS: Array<{ pattern: string; kind: DetectedCollectionDate['kind'] }> = [
+  { pattern: '(?:date\\s+(?:of\\s+)?)?(?:specimen\\s+)?collect(?:ed|ion)(?:\\s+(?:date|on|time))?', kind: 'COLLECTION' },
+  { pattern: '(?:date\\s+)?drawn(?:\\s+(?:date|on))?', kind: 'COLLECTION' },
+  { pattern: '(?:sample|specimen)\\s+(?:date|taken|received)', kind: 'COLLECTION' },
+  { pattern: '(?:date\\s+of\\s+)?(?:service|exam(?:ination)?|study|procedure|test)(?:\\s+date)?', kind: 'REPORT' },
+  { pattern: '(?:report(?:ed)?|result(?:ed)?)(?:\\s+date)?', kind: 'REPORT' },
+];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Date formats seen on lab reports: 2025-10-20, 10/20/2025, 20.10.2025, 20 Oct 2025, October 20, 2025
+const DATE_PATTERN =
+  '(\\d{4}-\\d{1,2}-\\d{1,2}|\\d{1,2}[/.-]\\d{1,2}[/.-]\\d{2,4}|\\d{1,2}\\s+[a-z]{3,9}\\.?,?\\s+\\d{4}|[a-z]{3,9}\\.?\\s+\\d{1,2},?\\s+\\d{4})';
+
+function buildDate(year: number, month: number, day: number): Date | null {
+  if (year < 100) year += year > 50 ? 1900 : 2000;
+  const date = new Date(Date.UTC(year, month - 1, day));
+
+  // Reject rollovers such as 31/02
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date;
+}
+
+function monthFromName(name: string): number | null {
+  const index = MONTHS.indexOf(name.slice(0, 3).toLowerCase());
+  return index === -1 ? null : index + 1;
+}
+
+/**
+ * Parse a date as printed on a report. Slash dates are read month first unless
+ * the first part cannot be a month; dotted dates (20.10.2025) are read day first.
+ * @returns null when the text is not a valid date
+ */
+export function parseReportDate(text: string): Date | null {
+  const value = text.trim();
+  let match: RegExpMatchArray | null;
+
+  if ((match = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/))) {
+    return buildDate(+match[1], +match[2], +match[3]);
+  }
+
+  if ((match = value.match(/^(\d{1,2})\.(\d{1,2})\.(\d{2,4})$/))) {
+    return buildDate(+match[3], +match[2], +match[1]);
+  }
+
+  if ((match = value.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{2,4})$/))) {
+    const [first, second, year] = [+match[1], +match[2], +match[3]];
+    return first > 12 ? buildDate(year, second, first) : buildDate(year, first, second);
+  }
+
+  if ((match = value.match(/^(\d{1,2})\s+([a-z]+)\.?,?\s+(\d{4})$/i))) {
+    const month = monthFromName(match[2]);
+    return month ? buildDate(+match[3], month, +match[1]) : null;
+  }
+
+  if ((match = value.match(/^([a-z]+)\.?\s+(\d{1,2}),?\s+(\d{4})$/i))) {
+    const month = monthFromName(match[1]);
+    return month ? buildDate(+match[3], month, +match[2]) : null;
+  }
+
+  return null;
+}
+
+/**
+ * A collection date must be a real past date (one day of slack for time zones)
+ */
+export function isPlausibleCollectionDate(date: Date, now: Date = new Date()): boolean {
+  return date.getUTCFullYear() >= 1900 && date.getTime() <= now.getTime() + 24 * 60 * 60 * 1000;
+}
+
+/**
+ * Find the collection date in report text, preferring collection labels over report dates
+ * @returns null when no labelled, plausible date is found
+ */
+export function detectCollectionDate(text: string | null | undefined): DetectedCollectionDate | null {
+  if (!text) return null;
+
+  for (const { pattern, kind } of DATE_LABELS) {
+    const regex = new RegExp(`\\b${pattern}\\b\\s*[:#-]?\\s*${DATE_PATTERN}`, 'gi');
+
+    for (const match of Array.from(text.matchAll(regex))) {
+      const date = parseReportDate(match[1]);
+      if (date && isPlausibleCollectionDate(date)) {
+        return { date, label: match[0].trim(), kind };
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Format a date for a date input / API payload (YYYY-MM-DD)
+ */
+export function toDateInputValue(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export interface ReportCollectionDate {
+  collectedAt: Date | null;
+  collectionDateSource: string | null;
+}
+
+/**
+ * Pick the collection date of a report after an analysis run: a date the patient
+ * confirmed is never replaced; otherwise a labelled date in the report text wins
+ * over the date the model read, and the existing date is kept when neither is found
+ */
+export function resolveCollectionDate(
+  current: ReportCollectionDate,
+  reportText: string | null | undefined,
+  analysisDate: Date | null
+): ReportCollectionDate {
+  const unchanged = {
+    collectedAt: current.collectedAt,
+    collectionDateSource: current.collectionDateSource,
+  };
+  if (current.collectionDateSource === 'PATIENT') return unchanged;
+
+  const detected = detectCollectionDate(reportText);
+  if (detected) return { collectedAt: detected.date, collectionDateSource: 'REPORT_TEXT' };
+
+  if (analysisDate) return { collectedAt: analysisDate, collectionDateSource: 'ANALYSIS' };
+
+  return unchanged;
+}
@@ -0,0 +1,262 @@
+/**
+ * Derived Biomarkers
+ * Values calculated from other results of the same draw and the patient's
+ * profile: eGFR, non-HDL cholesterol, LDL cholesterol by the Martin/Hopkins and
+ * Friedewald equations, TG/HDL ratio, mean arterial pressure and BMI
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/utils/prismaDB';
+import { calculateEGFR } from './kidneyFunction';
+import { PatientDemographics } from './referenceRanges';
+import { BiomarkerData } from './trendAnalysis';
+import { convertToCanonical, getCanonicalUnit } from './unitConversion';
+
+// extractionSource of trend rows computed from other biomarkers
+export const CALCULATED_SOURCE = 'CALCULATED' as const;
+
+export interface DerivationPatient extends PatientDemographics {
+  height?: number | null; // cm
+}
+
+export interface DerivedBiomarkerDefinition {
+  type: string;
+  inputs: string[]; // Biomarkers of the same draw the value is calculated from
+  formula: string; // Stored on the trend row
+  replacesReported: boolean; // Replace a lab-reported value so the series stays on one equation
+  estimates?: string; // Measured biomarker the value stands in for; not calculated when the draw reports it
+  calculate: (values: Record<string, number>, patient: DerivationPatient) => number | null; // Inputs in canonical units
+}
+
+type DrawBiomarker = Omit<BiomarkerData, 'date'>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const roundTo = (value: number, decimals: number) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+// Martin/Hopkins factors (JAMA 2013): rows by triglycerides, columns by non-HDL cholesterol (mg/dL)
+const MARTIN_TG_UPPER = [49, 56, 61, 66, 71, 75, 79, 83, 87, 92, 96, 100, 105, 110, 115, 120, 126, 132, 138, 146, 154, 163, 173, 185, 201, 220, 247, 292, 399];
+const MARTIN_NON_HDL_UPPER = [99, 129, 159, 189, 219];
+const MARTIN_FACTORS = [
+  [3.5, 3.4, 3.3, 3.3, 3.2, 3.1],
+  [4.0, 3.9, 3.7, 3.6, 3.6, 3.4],
+  [4.3, 4.1, 4.0, 3.9, 3.8, 3.6],
+  [4.5, 4.3, 4.1, 4.0, 3.9, 3.9],
+  [4.7, 4.4, 4.3, 4.2, 4.1, 3.9],
+  [4.8, 4.6, 4.4, 4.2, 4.2, 4.1],
+  [4.9, 4.6, 4.5, 4.3, 4.3, 4.2],
+  [5.0, 4.8, 4.6, 4.4, 4.3, 4.2],
+  [5.1, 4.8, 4.6, 4.5, 4.4, 4.3],
+  [5.2, 4.9, 4.7, 4.6, 4.4, 4.3],
+  [5.3, 5.0, 4.8, 4.7, 4.5, 4.4],
+  [5.4, 5.1, 4.8, 4.7, 4.5, 4.3],
+  [5.5, 5.2, 5.0, 4.7, 4.6, 4.5],
+  [5.6, 5.3, 5.0, 4.8, 4.6, 4.5],
+  [5.7, 5.4, 5.1, 4.9, 4.7, 4.5],
+  [5.8, 5.5, 5.2, 5.0, 4.8, 4.6],
+  [6.0, 5.5, 5.3, 5.0, 4.8, 4.6],
+  [6.1, 5.7, 5.3, 5.1, 4.9, 4.7],
+  [6.2, 5.8, 5.4, 5.2, 5.0, 4.7],
+  [6.3, 5.9, 5.6, 5.3, 5.0, 4.8],
+  [6.5, 6.0, 5.7, 5.4, 5.1, 4.8],
+  [6.7, 6.2, 5.8, 5.4, 5.2, 4.9],
+  [6.8, 6.3, 5.9, 5.5, 5.3, 5.0],
+  [7.0, 6.5, 6.0, 5.7, 5.4, 5.1],
+  [7.3, 6.7, 6.2, 5.8, 5.5, 5.2],
+  [7.6, 6.9, 6.4, 6.0, 5.6, 5.3],
+  [8.0, 7.2, 6.6, 6.2, 5.9, 5.4],
+  [8.5, 7.6, 7.0, 6.5, 6.1, 5.6],
+  [9.5, 8.3, 7.5, 7.0, 6.5, 5.9],
+];
+
+/**
+ * LDL cholesterol by the Friedewald equation (total − HDL − triglycerides/5)
+ * @returns LDL in mg/dL, or null when triglycerides are 400 mg/dL or more
+ */
+export function calculateFriedewaldLDL(totalCholesterol: number, hdl: number, triglycerides: number): number | null {
+  if (triglycerides <= 0 || triglycerides >= 400) return null;
+
+  const ldl = totalCholesterol - hdl - triglycerides / 5;
+  return ldl > 0 ? ldl : null;
+}
+
+/**
+ * LDL cholesterol by the Martin/Hopkins equation, which replaces Friedewald's
+ * fixed triglycerides/5 with a factor fitted to the triglyceride and non-HDL
+ * levels, so low LDL and high triglycerides are not underestimated
+ * @returns LDL in mg/dL, or null when triglycerides are 400 mg/dL or more
+ */
+export function calculateMartinHopkinsLDL(totalCholesterol: number, hdl: number, triglycerides: number): number | null {
+  if (triglycerides <= 0 || triglycerides >= 400) return null;
+
+  const nonHdl = totalCholesterol - hdl;
+  const row = MARTIN_TG_UPPER.findIndex((upper) => triglycerides < upper + 1);
+  const column = MARTIN_NON_HDL_UPPER.findIndex((upper) => nonHdl < upper + 1);
+  const factor = MARTIN_FACTORS[row][column === -1 ? MARTIN_NON_HDL_UPPER.length : column];
+
+  const ldl = nonHdl - triglycerides / factor;
+  return ldl > 0 ? ldl : null;
+}
+
+export const DERIVED_BIOMARKERS: DerivedBiomarkerDefinition[] = [
+  {
+    type: 'egfr',
+    inputs: ['creatinine'],
+    formula: 'CKD-EPI 2021 creatinine equation (race-free)',
+    replacesReported: true,
+    calculate: ({ creatinine }, patient) => {
+      if (!patient.age || !patient.biologicalSex) return null;
+      const egfr = calculateEGFR(creatinine, patient.age, patient.biologicalSex);
+      return egfr === null ? null : Math.round(egfr);
+    },
+  },
+  {
+    type: 'cholesterol_non_hdl',
+    inputs: ['cholesterol_total', 'cholesterol_hdl'],
+    formula: 'Total cholesterol − HDL cholesterol',
+    replacesReported: false,
+    calculate: ({ cholesterol_total, cholesterol_hdl }) =>
+      cholesterol_total > cholesterol_hdl ? Math.round(cholesterol_total - cholesterol_hdl) : null,
+  },
+  // Calculated LDL is kept apart from measured LDL so each series stays on one method
+  {
+    type: 'cholesterol_ldl_martin',
+    inputs: ['cholesterol_total', 'cholesterol_hdl', 'triglycerides'],
+    formula: 'Martin/Hopkins: non-HDL cholesterol − triglycerides ÷ adjustable factor',
+    replacesReported: false,
+    estimates: 'cholesterol_ldl',
+    calculate: ({ cholesterol_total, cholesterol_hdl, triglycerides }) => {
+      const ldl = calculateMartinHopkinsLDL(cholesterol_total, cholesterol_hdl, triglycerides);
+      return ldl === null ? null : Math.round(ldl);
+    },
+  },
+  {
+    type: 'cholesterol_ldl_friedewald',
+    inputs: ['cholesterol_total', 'cholesterol_hdl', 'triglycerides'],
+    formula: 'Friedewald: total cholesterol − HDL cholesterol − triglycerides ÷ 5',
+    replacesReported: false,
+    estimates: 'cholesterol_ldl',
+    calculate: ({ cholesterol_total, cholesterol_hdl, triglycerides }) => {
+      const ldl = calculateFriedewaldLDL(cholesterol_total, cholesterol_hdl, triglycerides);
+      return ldl === null ? null : Math.round(ldl);
+    },
+  },
+  {
+    type: 'tg_hdl_ratio',
+    inputs: ['triglycerides', 'cholesterol_hdl'],
+    formula: 'Triglycerides ÷ HDL cholesterol (both in mg/dL)',
+    replacesReported: false,
+    calculate: ({ triglycerides, cholesterol_hdl }) =>
+      cholesterol_hdl > 0 ? roundTo(triglycerides / cholesterol_hdl, 2) : null,
+  },
+  {
+    type: 'bp_mean_arterial',
+    inputs: ['bp_systolic', 'bp_diastolic'],
+    formula: '(Systolic + 2 × diastolic) ÷ 3',
+    replacesReported: false,
+    calculate: ({ bp_systolic, bp_diastolic }) =>
+      bp_systolic > bp_diastolic ? Math.round((bp_systolic + 2 * bp_diastolic) / 3) : null,
+  },
+  {
+    type: 'bmi',
+    inputs: ['weight'],
+    formula: 'Weight (kg) ÷ height (m)², with the height from the profile',
+    replacesReported: false,
+    calculate: ({ weight }, patient) => (patient.height ? roundTo(weight / (patient.height / 100) ** 2, 1) : null),
+  },
+];
+
+export function getDerivedBiomarker(type: string): DerivedBiomarkerDefinition | undefined {
+  return DERIVED_BIOMARKERS.find((definition) => definition.type === type);
+}
+
+/**
+ * Add the values that can be calculated from a set of biomarkers from one draw.
+ * A lab-reported value is kept unless the derivation replaces it, and an estimate
+ * of a biomarker the lab measured is not calculated.
+ */
+export function withDerivedBiomarkers(biomarkers: DrawBiomarker[], patient: DerivationPatient): DrawBiomarker[] {
+  const measured = biomarkers.filter((biomarker) => biomarker.source !== CALCULATED_SOURCE);
+  const values: Record<string, number> = {};
+  for (const biomarker of measured) {
+    const canonical = convertToCanonical(biomarker.type, biomarker.value, biomarker.unit);
+    if (canonical !== null) values[biomarker.type] = canonical;
+  }
+
+  let result = measured;
+  for (const definition of DERIVED_BIOMARKERS) {
+    if (!definition.inputs.every((input) => input in values)) continue;
+
+    if (measured.some((biomarker) => biomarker.type === definition.estimates)) continue;
+    const reported = measured.some((biomarker) => biomarker.type === definition.type);
+    if (reported && !definition.replacesReported) continue;
+
+    const value = definition.calculate(values, patient);
+    if (value === null || !Number.isFinite(value)) continue;
+
+    result = [
+      ...result.filter((biomarker) => biomarker.type !== definition.type),
+      {
+        type: definition.type,
+        value,
+        unit: getCanonicalUnit(definition.type)!,
+        source: CALCULATED_SOURCE,
+        formula: definition.formula,
+      },
+    ];
+  }
+  return result;
+}
+
+/**
+ * Trend rows of the same draw: the same report, or for manual entries the
+ * same calendar day (UTC)
+ */
+export function getSameDrawWhere(
+  userId: string,
+  recordedDate: Date,
+  reportId?: string | null
+): Prisma.BiomarkerTrendWhereInput {
+  if (reportId) return { userId, reportId };
+
+  const dayStart = new Date(Math.floor(recordedDate.getTime() / DAY_MS) * DAY_MS);
+  return { userId, reportId: null, recordedDate: { gte: dayStart, lt: new Date(dayStart.getTime() + DAY_MS) } };
+}
+
+/**
+ * Values that can be calculated after a biomarker is added to a draw, from it and
+ * the latest other results of that draw that are not quarantined
+ */
+export async function getDerivedBiomarkersForNewResult(
+  biomarker: { id: string; userId: string; biomarkerType: string; recordedDate: Date; reportId: string | null },
+  patient: DerivationPatient
+): Promise<DrawBiomarker[]> {
+  const definitions = DERIVED_BIOMARKERS.filter((definition) => definition.inputs.includes(biomarker.biomarkerType));
+  if (definitions.length === 0) return [];
+
+  const rows = await prisma.biomarkerTrend.findMany({
+    where: {
+      ...getSameDrawWhere(biomarker.userId, biomarker.recordedDate, biomarker.reportId),
+      biomarkerType: {
+        in: definitions.flatMap((definition) => [
+          ...definition.inputs,
+          definition.type,
+          ...(definition.estimates ? [definition.estimates] : []),
+        ]),
+      },
+      OR: [{ id: biomarker.id }, { status: { not: 'QUARANTINED' } }],
+    },
+    orderBy: [{ recordedDate: 'desc' }, { createdAt: 'desc' }],
+  });
+
+  // The new result, then the latest measured value of each other input
+  const draw: DrawBiomarker[] = [];
+  for (const row of [...rows.filter((row) => row.id === biomarker.id), ...rows]) {
+    if (row.extractionSource === CALCULATED_SOURCE || draw.some((entry) => entry.type === row.biomarkerType)) continue;
+    draw.push({ type: row.biomarkerType, value: row.value, unit: row.unit });
+  }
+
+  return withDerivedBiomarkers(draw, patient).filter(
+    (entry) => entry.source === CALCULATED_SOURCE && definitions.some((definition) => definition.type === entry.type)
+  );
+}
@@ -161,6 +161,25 @@ const EDUCATIONAL_DATABASE: Record<string, EducationalResource[]> = {
     },
   ],
 
+  metabolic_syndrome: [
+    {
+      title: 'About Metabolic Syndrome',
+      description: 'What the five risk factors are and how they raise heart disease and diabetes risk.',
+      url: 'https://www.heart.org/en/health-topics/metabolic-syndrome/about-metabolic-syndrome',
+      source: 'American Heart Association',
+      type: 'ARTICLE',
+      trustScore: 10,
+    },
+    {
+      title: 'Metabolic Syndrome: Treatment',
+      description: 'Lifestyle changes and medicines that treat each component.',
+      url: 'https://www.nhlbi.nih.gov/health/metabolic-syndrome/treatment',
+      source: 'NHLBI',
+      type: 'ARTICLE',
+      trustScore: 10,
+    },
+  ],
+
   smoking_cessation: [
     {
       title: 'How to Quit Smoking',
@@ -284,3 +303,21 @@ export function getGoalEducationalResources(goalType: string): EducationalResour
 
   return resources.slice(0, 3); // Top 3 resources per goal
 }
+
+/**
+ * Get educational resources stored with a risk assessment
+ */
+export function getRiskAssessmentEducationalResources(assessmentType: string): EducationalResource[] {
+  const assessmentMappings: Record<string, string[]> = {
+    METABOLIC_SYNDROME: ['metabolic_syndrome', 'weight_management'],
+    CHA2DS2_VASC: ['arrhythmia'],
+    HAS_BLED: ['arrhythmia'],
+  };
+
+  const resources: EducationalResource[] = [];
+  for (const condition of assessmentMappings[assessmentType] || []) {
+    resources.push(...(EDUCATIONAL_DATABASE[condition] || []));
+  }
+
+  return resources.slice(0, 4);
+}
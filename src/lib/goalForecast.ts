@@ -0,0 +1,166 @@
+/**
+ * Health Goal Forecasting
+ * Projects a goal's metric to its target date from the biomarker history and
+ * recorded progress, with a 95% prediction band, and classifies the goal as
+ * on track, at risk or off track
+ */
+
+import { GoalProgress, HealthGoal } from '@prisma/client';
+import { prisma } from '@/utils/prismaDB';
+import { getGoalDirection, GoalDirection } from './goalProgress';
+import { fitLinearTrend, LinearTrendFit, tCritical95 } from './trendAnalysis';
+import { convertFromCanonical } from './unitConversion';
+
+export type GoalForecastStatus = 'ON_TRACK' | 'AT_RISK' | 'OFF_TRACK' | 'INSUFFICIENT_DATA';
+
+export interface ForecastPoint {
+  date: Date;
+  value: number;
+  lower: number | null; // 95% prediction band; null with only two measurements
+  upper: number | null;
+}
+
+export interface GoalForecast {
+  status: GoalForecastStatus;
+  direction: GoalDirection; // Direction the metric must move to reach the target
+  projectedValue: number | null; // Value expected on the target date
+  lower: number | null;
+  upper: number | null;
+  ratePerMonth: number | null; // In the goal's unit
+  observations: Array<{ date: Date; value: number }>; // In the goal's unit, oldest first
+  projection: ForecastPoint[]; // From the latest observation to the target date
+  explanation: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HISTORY_DAYS = 365; // Only the last year of results reflects the current effort
+const PROJECTION_STEPS = 6;
+
+const round = (value: number) => Number(value.toPrecision(4));
+
+function predict(fit: LinearTrendFit, date: Date): Omit<ForecastPoint, 'date'> {
+  const x = (date.getTime() - fit.start.getTime()) / DAY_MS;
+  const value = fit.intercept + fit.slopePerDay * x;
+  if (fit.residualStandardError === null) return { value: round(value), lower: null, upper: null };
+
+  const margin =
+    tCritical95(fit.n - 2) *
+    fit.residualStandardError *
+    Math.sqrt(1 + 1 / fit.n + (x - fit.meanX) ** 2 / fit.sxx);
+  return { value: round(value), lower: round(value - margin), upper: round(value + margin) };
+}
+
+/**
+ * Project a goal from dated observations in the goal's unit. The goal is on track
+ * when the whole prediction band reaches the target, at risk when only part of it
+ * does and off track when none of it does.
+ */
+export function forecastGoal(
+  goal: Pick<HealthGoal, 'targetMetric' | 'targetValue' | 'targetDate' | 'currentValue' | 'unit'>,
+  observations: Array<{ date: Date; value: number }>
+): GoalForecast {
+  const sorted = [...observations].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  const direction = getGoalDirection(goal);
+  const reaches = (value: number) => (direction === 'DECREASE' ? value <= goal.targetValue : value >= goal.targetValue);
+
+  const insufficient = (explanation: string): GoalForecast => ({
+    status: 'INSUFFICIENT_DATA',
+    direction,
+    projectedValue: null,
+    lower: null,
+    upper: null,
+    ratePerMonth: null,
+    observations: sorted,
+    projection: [],
+    explanation,
+  });
+
+  const fit = fitLinearTrend(sorted);
+  if (!fit) {
+    return insufficient('At least two measurements on different dates are needed to forecast this goal.');
+  }
+
+  const targetDate = new Date(goal.targetDate);
+  const latest = sorted[sorted.length - 1];
+  const projectionStart = new Date(latest.date);
+  const projectionEnd = targetDate > projectionStart ? targetDate : projectionStart;
+  const projection: ForecastPoint[] = Array.from({ length: PROJECTION_STEPS + 1 }, (_, step) => {
+    const date = new Date(
+      projectionStart.getTime() + ((projectionEnd.getTime() - projectionStart.getTime()) * step) / PROJECTION_STEPS
+    );
+    return { date, ...predict(fit, date) };
+  });
+
+  const { value: projectedValue, lower, upper } = predict(fit, targetDate);
+  const ratePerMonth = round(fit.slopePerDay * (365.25 / 12));
+
+  // Bound of the band closest to and furthest from the target
+  const best = lower === null ? projectedValue : direction === 'DECREASE' ? lower : upper!;
+  const worst = upper === null ? projectedValue : direction === 'DECREASE' ? upper : lower!;
+
+  let status: GoalForecastStatus;
+  let explanation: string;
+  if (reaches(latest.value) || reaches(worst)) {
+    status = 'ON_TRACK';
+    explanation = reaches(latest.value)
+      ? `The latest result (${latest.value} ${goal.unit}) already meets the target.`
+      : `Expected to reach ${projectedValue} ${goal.unit} by the target date.`;
+  } else if (reaches(best)) {
+    status = 'AT_RISK';
+    explanation = reaches(projectedValue)
+      ? `Expected to reach ${projectedValue} ${goal.unit} by the target date, but results vary enough that the target may be missed.`
+      : `Expected to reach ${projectedValue} ${goal.unit} by the target date; the target is only reached at the favorable end of the forecast range.`;
+  } else {
+    status = 'OFF_TRACK';
+    explanation = `At the current rate (${ratePerMonth > 0 ? '+' : ''}${ratePerMonth} ${goal.unit} per month) the value will be about ${projectedValue} ${goal.unit} on the target date, short of ${goal.targetValue} ${goal.unit}.`;
+  }
+
+  return {
+    status,
+    direction,
+    projectedValue,
+    lower,
+    upper,
+    ratePerMonth,
+    observations: sorted,
+    projection,
+    explanation,
+  };
+}
+
+/**
+ * Forecast a goal from the patient's tracked results of its metric (converted to
+ * the goal's unit) and the progress recorded on the goal
+ */
+export async function getGoalForecast(
+  userId: string,
+  goal: HealthGoal & { progress: GoalProgress[] }
+): Promise<GoalForecast> {
+  const since = new Date(Date.now() - HISTORY_DAYS * DAY_MS);
+
+  const rows = await prisma.biomarkerTrend.findMany({
+    where: {
+      userId,
+      biomarkerType: goal.targetMetric,
+      status: { not: 'QUARANTINED' },
+      recordedDate: { gte: since },
+    },
+    orderBy: { recordedDate: 'asc' },
+  });
+
+  const observations: Array<{ date: Date; value: number }> = [];
+  for (const row of rows) {
+    const value = row.unit === goal.unit ? row.value : convertFromCanonical(goal.targetMetric, row.value, goal.unit);
+    if (value !== null) observations.push({ date: row.recordedDate, value });
+  }
+
+  // Progress entries on a day that already has a tracked result would count twice
+  const trackedDays = new Set(observations.map((observation) => observation.date.toISOString().split('T')[0]));
+  for (const entry of goal.progress) {
+    if (entry.recordedAt >= since && !trackedDays.has(entry.recordedAt.toISOString().split('T')[0])) {
+      observations.push({ date: entry.recordedAt, value: entry.value });
+    }
+  }
+
+  return forecastGoal(goal, observations);
+}
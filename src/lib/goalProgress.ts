@@ -0,0 +1,241 @@
+/**
+ * Health Goal Progress Engine
+ * Records tracked biomarker results as progress on matching goals and moves
+ * goals to ACHIEVED or OVERDUE, recording every status transition
+ */
+
+import { GoalStatus, HealthGoal } from '@prisma/client';
+import { prisma } from '@/utils/prismaDB';
+import { getDerivedBiomarkerTypes } from './biomarkerValidation';
+import { isLowerBetter } from './referenceRanges';
+import { convertFromCanonical, UNIT_REGISTRY } from './unitConversion';
+
+export type GoalDirection = 'DECREASE' | 'INCREASE';
+
+// Goals that can still pick up progress and change status automatically
+const ACTIVE_GOAL_STATUSES: GoalStatus[] = ['IN_PROGRESS', 'OVERDUE'];
+
+const EVALUATION_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Direction a goal's metric must move: away from the starting value towards the
+ * target, or the analyte's healthy direction when no starting value was given
+ */
+export function getGoalDirection(
+  goal: Pick<HealthGoal, 'targetMetric' | 'currentValue' | 'targetValue'>
+): GoalDirection {
+  if (goal.currentValue != null && goal.currentValue !== goal.targetValue) {
+    return goal.targetValue < goal.currentValue ? 'DECREASE' : 'INCREASE';
+  }
+  return isLowerBetter(goal.targetMetric) ? 'DECREASE' : 'INCREASE';
+}
+
+/**
+ * Whether a value (in the goal's unit) meets the goal's target
+ */
+export function isGoalTargetMet(
+  goal: Pick<HealthGoal, 'targetMetric' | 'currentValue' | 'targetValue'>,
+  value: number
+): boolean {
+  return getGoalDirection(goal) === 'DECREASE' ? value <= goal.targetValue : value >= goal.targetValue;
+}
+
+/**
+ * Change a goal's status and record the transition
+ * @param changedBy User who made the change; omitted for automatic transitions
+ */
+export async function transitionGoalStatus(
+  goal: Pick<HealthGoal, 'id' | 'status'>,
+  toStatus: GoalStatus,
+  reason: string,
+  changedBy?: string
+): Promise<void> {
+  if (goal.status === toStatus) return;
+
+  await prisma.$transaction([
+    prisma.healthGoal.update({ where: { id: goal.id }, data: { status: toStatus } }),
+    prisma.goalStatusChange.create({
+      data: { goalId: goal.id, fromStatus: goal.status, toStatus, reason, changedBy: changedBy ?? null },
+    }),
+  ]);
+  console.log(`🎯 Goal ${goal.id}: ${goal.status} → ${toStatus} (${reason})`);
+}
+
+/**
+ * Add tracked results of a goal's metric recorded since the goal was created as
+ * progress entries, converted to the goal's unit. Returns the number added.
+ */
+async function syncBiomarkerProgress(goal: HealthGoal, userId: string): Promise<number> {
+  if (!UNIT_REGISTRY[goal.targetMetric]) return 0;
+
+  const rows = await prisma.biomarkerTrend.findMany({
+    where: {
+      userId,
+      biomarkerType: goal.targetMetric,
+      status: { not: 'QUARANTINED' },
+      recordedDate: { gte: goal.createdAt },
+      goalProgress: null,
+    },
+    orderBy: { recordedDate: 'asc' },
+  });
+
+  let added = 0;
+  for (const row of rows) {
+    const value = row.unit === goal.unit ? row.value : convertFromCanonical(goal.targetMetric, row.value, goal.unit);
+    if (value === null) continue;
+
+    await prisma.goalProgress.create({
+      data: {
+        goalId: goal.id,
+        value,
+        source: 'BIOMARKER',
+        biomarkerId: row.id,
+        notes: row.reportId ? 'From report' : 'From tracked result',
+        recordedAt: row.recordedDate,
+      },
+    });
+    added++;
+  }
+  return added;
+}
+
+/**
+ * Mark a goal ACHIEVED when its latest progress meets the target, or OVERDUE
+ * once its target date has passed
+ */
+export async function evaluateGoal(goal: HealthGoal): Promise<GoalStatus> {
+  const latest = await prisma.goalProgress.findFirst({
+    where: { goalId: goal.id },
+    orderBy: { recordedAt: 'desc' },
+  });
+
+  if (latest && isGoalTargetMet(goal, latest.value)) {
+    await transitionGoalStatus(
+      goal,
+      'ACHIEVED',
+      `Latest value ${latest.value} ${goal.unit} on ${latest.recordedAt.toISOString().split('T')[0]} meets the target of ${goal.targetValue} ${goal.unit}`
+    );
+    return 'ACHIEVED';
+  }
+
+  if (goal.status === 'IN_PROGRESS' && goal.targetDate < new Date()) {
+    await transitionGoalStatus(
+      goal,
+      'OVERDUE',
+      `Target date ${goal.targetDate.toISOString().split('T')[0]} passed without reaching ${goal.targetValue} ${goal.unit}`
+    );
+    return 'OVERDUE';
+  }
+
+  return goal.status;
+}
+
+/**
+ * Record new results of the given biomarkers (and values calculated from them)
+ * on the patient's active goals and re-evaluate them. Errors are logged so saving
+ * the results never fails.
+ */
+export async function updateGoalsAfterNewBiomarkers(userId: string, biomarkerTypes: string[]): Promise<void> {
+  try {
+    const goals = await prisma.healthGoal.findMany({
+      where: {
+        patientProfile: { userId },
+        targetMetric: { in: [...biomarkerTypes, ...biomarkerTypes.flatMap(getDerivedBiomarkerTypes)] },
+        status: { in: ACTIVE_GOAL_STATUSES },
+      },
+    });
+
+    for (const goal of goals) {
+      if ((await syncBiomarkerProgress(goal, userId)) > 0) {
+        await evaluateGoal(goal);
+      }
+    }
+  } catch (error) {
+    console.error(`Failed to update goals for patient ${userId}:`, error);
+  }
+}
+
+/**
+ * Re-evaluate goals after results of the given biomarkers (and values calculated
+ * from them) were removed, e.g. by undoing an import or re-analyzing a report.
+ * Results recorded since, such as the re-analyzed values, are added as progress
+ * first. A goal the evaluator marked ACHIEVED goes back to its previous status
+ * when its progress no longer meets the target; goals a user marked achieved are
+ * left alone. Errors are logged.
+ */
+export async function reevaluateGoalsAfterRemovedBiomarkers(
+  userId: string,
+  biomarkerTypes: string[],
+  reason: string
+): Promise<void> {
+  try {
+    const goals = await prisma.healthGoal.findMany({
+      where: {
+        patientProfile: { userId },
+        targetMetric: { in: [...biomarkerTypes, ...biomarkerTypes.flatMap(getDerivedBiomarkerTypes)] },
+        status: 'ACHIEVED',
+      },
+      include: { statusChanges: { orderBy: { changedAt: 'desc' }, take: 1 } },
+    });
+
+    for (const { statusChanges, ...goal } of goals) {
+      const [achieved] = statusChanges;
+      if (!achieved || achieved.toStatus !== 'ACHIEVED' || achieved.changedBy) continue;
+
+      await syncBiomarkerProgress(goal, userId);
+      const latest = await prisma.goalProgress.findFirst({
+        where: { goalId: goal.id },
+        orderBy: { recordedAt: 'desc' },
+      });
+      if (latest && isGoalTargetMet(goal, latest.value)) continue;
+
+      await transitionGoalStatus(goal, achieved.fromStatus, reason);
+      await evaluateGoal({ ...goal, status: achieved.fromStatus });
+    }
+  } catch (error) {
+    console.error(`Failed to re-evaluate goals for patient ${userId}:`, error);
+  }
+}
+
+/**
+ * Pick up new results and re-evaluate every active goal. Returns the number of
+ * goals whose status changed.
+ */
+export async function evaluateActiveGoals(): Promise<number> {
+  const goals = await prisma.healthGoal.findMany({
+    where: { status: { in: ACTIVE_GOAL_STATUSES } },
+    include: { patientProfile: { select: { userId: true } } },
+  });
+
+  let changed = 0;
+  for (const { patientProfile, ...goal } of goals) {
+    try {
+      await syncBiomarkerProgress(goal, patientProfile.userId);
+      if ((await evaluateGoal(goal)) !== goal.status) changed++;
+    } catch (error) {
+      console.error(`Failed to evaluate goal ${goal.id}:`, error);
+    }
+  }
+
+  if (changed > 0) {
+    console.log(`🎯 Updated the status of ${changed} goal(s)`);
+  }
+  return changed;
+}
+
+const globalForWorker = global as unknown as { goalEvaluationWorker?: ReturnType<typeof setInterval> };
+
+/**
+ * Start the periodic goal evaluation (once per process)
+ */
+export function startGoalEvaluationWorker(intervalMs: number = EVALUATION_INTERVAL_MS): void {
+  if (globalForWorker.goalEvaluationWorker) return;
+
+  globalForWorker.goalEvaluationWorker = setInterval(() => {
+    evaluateActiveGoals().catch((error) => {
+      console.error('Goal evaluation worker error:', error);
+    });
+  }, intervalMs);
+
+  console.log(`✓ Goal evaluation worker started (checking every ${intervalMs / 60000} minutes)`);
+}
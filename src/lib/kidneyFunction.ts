@@ -0,0 +1,149 @@
+/**
+ * Kidney Function
+ * eGFR from serum creatinine (CKD-EPI 2021, race-free) and KDIGO CKD staging
+ * by GFR category (G1-G5) and albuminuria category (A1-A3)
+ */
+
+import { RiskAssessmentResult } from './riskAssessment';
+
+export type GFRCategory = 'G1' | 'G2' | 'G3a' | 'G3b' | 'G4' | 'G5';
+export type AlbuminuriaCategory = 'A1' | 'A2' | 'A3';
+type KDIGORisk = RiskAssessmentResult['riskCategory'];
+
+const GFR_CATEGORIES: Array<{ category: GFRCategory; min: number; label: string }> = [
+  { category: 'G1', min: 90, label: 'Normal or high' },
+  { category: 'G2', min: 60, label: 'Mildly decreased' },
+  { category: 'G3a', min: 45, label: 'Mildly to moderately decreased' },
+  { category: 'G3b', min: 30, label: 'Moderately to severely decreased' },
+  { category: 'G4', min: 15, label: 'Severely decreased' },
+  { category: 'G5', min: 0, label: 'Kidney failure' },
+];
+
+const ALBUMINURIA_CATEGORIES: Array<{ category: AlbuminuriaCategory; min: number; label: string }> = [
+  { category: 'A3', min: 300, label: 'Severely increased' },
+  { category: 'A2', min: 30, label: 'Moderately increased' },
+  { category: 'A1', min: 0, label: 'Normal to mildly increased' },
+];
+
+// KDIGO 2012 prognosis heat map: rows G1-G5, columns A1-A3
+const KDIGO_RISK: Record<GFRCategory, Record<AlbuminuriaCategory, KDIGORisk>> = {
+  G1: { A1: 'LOW', A2: 'MODERATE', A3: 'HIGH' },
+  G2: { A1: 'LOW', A2: 'MODERATE', A3: 'HIGH' },
+  G3a: { A1: 'MODERATE', A2: 'HIGH', A3: 'VERY_HIGH' },
+  G3b: { A1: 'HIGH', A2: 'VERY_HIGH', A3: 'VERY_HIGH' },
+  G4: { A1: 'VERY_HIGH', A2: 'VERY_HIGH', A3: 'VERY_HIGH' },
+  G5: { A1: 'VERY_HIGH', A2: 'VERY_HIGH', A3: 'VERY_HIGH' },
+};
+
+/**
+ * CKD-EPI 2021 creatinine equation (Inker et al., NEJM 2021), without a race term
+ * @param creatinine Serum creatinine in mg/dL
+ * @returns eGFR in mL/min/1.73m², or null for children or when sex is unknown
+ */
+export function calculateEGFR(creatinine: number, age: number, biologicalSex: string): number | null {
+  const sex = biologicalSex.toUpperCase();
+  if (age < 18 || creatinine <= 0 || (sex !== 'MALE' && sex !== 'FEMALE')) return null;
+
+  const female = sex === 'FEMALE';
+  const kappa = female ? 0.7 : 0.9;
+  const alpha = female ? -0.241 : -0.302;
+  const ratio = creatinine / kappa;
+
+  return (
+    142 *
+    Math.pow(Math.min(ratio, 1), alpha) *
+    Math.pow(Math.max(ratio, 1), -1.2) *
+    Math.pow(0.9938, age) *
+    (female ? 1.012 : 1)
+  );
+}
+
+export function getGFRCategory(egfr: number): GFRCategory {
+  return GFR_CATEGORIES.find(({ min }) => egfr >= min)!.category;
+}
+
+/**
+ * @param uacr Urine albumin/creatinine ratio in mg/g
+ */
+export function getAlbuminuriaCategory(uacr: number): AlbuminuriaCategory {
+  return ALBUMINURIA_CATEGORIES.find(({ min }) => uacr >= min)!.category;
+}
+
+/**
+ * KDIGO CKD stage and prognosis from the latest eGFR and, when measured, the
+ * urine albumin/creatinine ratio. Without a UACR result the A1 column is used.
+ */
+export function calculateKidneyRisk(egfr: number, uacr?: number | null): RiskAssessmentResult {
+  const gfrCategory = getGFRCategory(egfr);
+  const albuminuriaCategory = uacr != null ? getAlbuminuriaCategory(uacr) : null;
+  const riskCategory = KDIGO_RISK[gfrCategory][albuminuriaCategory ?? 'A1'];
+  const stage = `${gfrCategory}${albuminuriaCategory ?? ''}`;
+  const gfrLabel = GFR_CATEGORIES.find(({ category }) => category === gfrCategory)!.label;
+
+  // CKD needs reduced GFR or albuminuria; G1/G2 with normal albumin is not CKD
+  const hasCKD = (gfrCategory !== 'G1' && gfrCategory !== 'G2') || (albuminuriaCategory ?? 'A1') !== 'A1';
+
+  const recommendations: string[] = [];
+  if (albuminuriaCategory === null) {
+    recommendations.push('🧪 Ask your doctor for a urine albumin/creatinine ratio test to complete your kidney stage');
+  }
+  if (hasCKD) {
+    recommendations.push('🩺 Repeat kidney tests in 3 months; CKD is confirmed when changes last longer than 3 months');
+    recommendations.push('💊 Review your medications with your doctor, as some need a lower dose with reduced kidney function');
+    recommendations.push('🩸 Keep blood pressure below 130/80 mmHg and manage blood sugar');
+  }
+  if (riskCategory === 'HIGH' || riskCategory === 'VERY_HIGH') {
+    recommendations.push('⚕️ Discuss a referral to a nephrologist');
+  }
+  if (gfrCategory === 'G5') {
+    recommendations.push('🚨 An eGFR below 15 indicates kidney failure and needs prompt specialist care');
+  }
+  recommendations.push('🥗 Limit salt and processed foods and stay hydrated');
+
+  const interpretation = hasCKD
+    ? `Your kidney function is in KDIGO stage ${stage} (${gfrLabel.toLowerCase()} filtration, eGFR ${Math.round(egfr)}), which carries ${riskCategory.replace('_', ' ').toLowerCase()} risk of CKD progression.`
+    : `Your eGFR of ${Math.round(egfr)} is in category ${gfrCategory} (${gfrLabel.toLowerCase()}) with no sign of chronic kidney disease.`;
+
+  return {
+    score: Math.round(egfr),
+    riskCategory,
+    factors: {
+      egfr: Math.round(egfr),
+      uacr: uacr ?? null,
+      gfrCategory,
+      albuminuriaCategory,
+      stage,
+      equation: 'CKD-EPI 2021',
+    },
+    recommendations,
+    interpretation,
+    validityPeriod: hasCKD ? 90 : 365,
+  };
+}
+
+/**
+ * Alert when the latest value of a staged kidney biomarker falls into a worse
+ * KDIGO category than the previous value
+ */
+export function getStageProgressionAlert(
+  biomarkerType: string,
+  latestValue: number,
+  previousValue: number
+): string | null {
+  if (biomarkerType === 'egfr') {
+    const order = GFR_CATEGORIES.map(({ category }) => category);
+    const [from, to] = [getGFRCategory(previousValue), getGFRCategory(latestValue)];
+    if (order.indexOf(to) > order.indexOf(from)) {
+      return `Kidney function progressed from stage ${from} to ${to} (eGFR ${Math.round(previousValue)} → ${Math.round(latestValue)})`;
+    }
+  }
+
+  if (biomarkerType === 'uacr') {
+    const [from, to] = [getAlbuminuriaCategory(previousValue), getAlbuminuriaCategory(latestValue)];
+    if (to > from) {
+      return `Albuminuria progressed from ${from} to ${to} (albumin/creatinine ratio ${previousValue} → ${latestValue} mg/g)`;
+    }
+  }
+
+  return null;
+}
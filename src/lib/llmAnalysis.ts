@@ -1,13 +1,20 @@
 /**
  * LLM Analysis Service
- * Handles communication with the LLM API for medical report analysis
+ * Builds medical report analysis prompts and sends them to the configured LLM provider
  */
 
 import { deidentifyText, preparePatientContext } from './deidentification';
-
-const LLM_API_URL = process.env.LLM_API_URL;
-const LLM_API_KEY = process.env.LLM_API_KEY || '';
-const LLM_MODEL = process.env.LLM_MODEL || 'gpt-5';
+import { getProviderForReportType, LLMMessage } from './llmProviders';
+import {
+  describeValidationErrors,
+  parseAnalysisContent,
+  validateAnalysis,
+} from './analysisSchema';
+import { isPlausibleCollectionDate, parseReportDate } from './collectionDate';
+
+// Bump whenever SYSTEM_PROMPTS or the repair prompt change, so every stored
+// analysis version records which prompts produced it
+export const PROMPT_VERSION = '4';
 
 // System prompts for different report types
 const SYSTEM_PROMPTS = {
@@ -98,13 +105,15 @@ Your analysis should include:
 
 Provide your response in the following JSON structure:
 {
-  "findings": { "key test names": "value (status)" },
+  "findings": { "key test names": { "value": number, "unit": "unit exactly as printed on the report", "status": "normal|low|high" } },
   "patientSummary": "Easy-to-understand explanation for the patient in 2-3 sentences",
   "technicalSummary": "Detailed interpretation for healthcare professionals",
   "confidence": 0.0-1.0,
   "riskLevel": "LOW|MEDIUM|HIGH",
   "recommendations": "Clinical recommendations and follow-up suggestions"
-}`,
+}
+
+Always copy the unit the laboratory used (e.g. mg/dL, mmol/L, µmol/L). Never convert values yourself.`,
 
   PATHOLOGY: `You are an expert pathologist's assistant specializing in pathology report interpretation. Your role is to analyze pathology reports and provide both patient-friendly and technical medical summaries.
 
@@ -144,23 +153,50 @@ Provide your response in the following JSON structure:
 }`
 };
 
+// Appended to every system prompt. Dates are redacted from the report text before
+// it is sent, so this mostly comes from dates visible in the report images.
+const COLLECTION_DATE_INSTRUCTION = `
+
+Also include a top-level "collectionDate" field: the date the specimen was collected or the exam was performed, as printed on the report, in YYYY-MM-DD format. Use null if the report does not show it or the date is redacted.`;
+
+export type AnalysisParseStatus = 'PARSED' | 'UNPARSED';
+
+export interface MedicalReportAnalysis {
+  parseStatus: AnalysisParseStatus;
+  findings: string;
+  patientSummary: string;
+  technicalSummary: string;
+  confidence: number | null;
+  riskLevel: string | null;
+  recommendations: string | null;
+  collectionDate: Date | null;
+  validationErrors: string | null; // JSON array of schema errors from the last attempt
+  repairAttempts: number;
+  modelUsed: string;
+  promptVersion: string;
+}
+
+// Only keep a collection date from the model that is a real, past date
+function readCollectionDate(value: string | null): Date | null {
+  const date = value ? parseReportDate(value) : null;
+  return date && isPlausibleCollectionDate(date) ? date : null;
+}
+
+// How many times the model is re-asked after returning output that fails schema validation
+const MAX_REPAIR_ATTEMPTS = 2;
+
 /**
- * Call LLM API for medical report analysis
+ * Call LLM API for medical report analysis.
+ * The response is validated against the report type schema; invalid output is re-asked
+ * up to MAX_REPAIR_ATTEMPTS times and otherwise returned as explicitly UNPARSED
+ * (no risk level or confidence is ever invented).
  */
 export async function analyzeMedicalReport(
   reportType: string,
   reportContent: string,
   patientContext?: any,
   images?: string[]
-): Promise<{
-  findings: string;
-  patientSummary: string;
-  technicalSummary: string;
-  confidence: number;
-  riskLevel: string;
-  recommendations: string;
-  modelUsed: string;
-}> {
+): Promise<MedicalReportAnalysis> {
   try {
     // De-identify report content
     const deidentifiedContent = deidentifyText(reportContent);
@@ -169,120 +205,113 @@ export async function analyzeMedicalReport(
     const contextStr = patientContext ? preparePatientContext(patientContext) : '';
     
     // Get system prompt for report type
-    const systemPrompt = SYSTEM_PROMPTS[reportType as keyof typeof SYSTEM_PROMPTS] || SYSTEM_PROMPTS.OTHER;
+    const systemPrompt =
+      (SYSTEM_PROMPTS[reportType as keyof typeof SYSTEM_PROMPTS] || SYSTEM_PROMPTS.OTHER) +
+      COLLECTION_DATE_INSTRUCTION;
     
+    const provider = getProviderForReportType(reportType);
     const hasImages = images && images.length > 0;
-    console.log(`🔬 Analyzing ${reportType} using model: ${LLM_MODEL}${hasImages ? ` with ${images.length} image(s)` : ''}`);
+    console.log(`🔬 Analyzing ${reportType} using ${provider.name} model: ${provider.model}${hasImages ? ` with ${images.length} image(s)` : ''}`);
     
-    // Construct user message content
-    let userContent: any;
+    // Construct user message
+    let userMessage: LLMMessage;
     
     if (hasImages) {
-      // For vision models, structure content with text and images
-      const contentParts: any[] = [
-        {
-          type: 'text',
-          text: `Please analyze the following ${reportType} report images and any accompanying text. Provide a comprehensive medical interpretation.${contextStr}
+      // For vision models, send text together with the images
+      userMessage = {
+        role: 'user',
+        text: `Please analyze the following ${reportType} report images and any accompanying text. Provide a comprehensive medical interpretation.${contextStr}
 
 ${deidentifiedContent ? `Report Text:\n${deidentifiedContent}\n\n` : ''}Please carefully examine the medical images provided and give a detailed analysis.
 
-Remember to provide your response in the JSON format specified in the system prompt.`
-        }
-      ];
-      
-      // Add images (limit to prevent token overflow)
-      const imageLimit = Math.min(images.length, 5);
-      for (let i = 0; i < imageLimit; i++) {
-        contentParts.push({
-          type: 'image_url',
-          image_url: {
-            url: `data:image/png;base64,${images[i]}`,
-            detail: 'high' // Use high detail for medical images
-          }
-        });
-      }
-      
-      userContent = contentParts;
+Remember to provide your response in the JSON format specified in the system prompt.`,
+        // Limit images to prevent token overflow
+        images: images.slice(0, 5),
+      };
     } else {
       // Text-only analysis
-      userContent = `Please analyze the following ${reportType} report and provide a comprehensive medical interpretation.${contextStr}
+      userMessage = {
+        role: 'user',
+        text: `Please analyze the following ${reportType} report and provide a comprehensive medical interpretation.${contextStr}
 
 Report Content:
 ${deidentifiedContent}
 
-Remember to provide your response in the JSON format specified in the system prompt.`;
+Remember to provide your response in the JSON format specified in the system prompt.`,
+      };
     }
 
-    if (!LLM_API_URL) {
-      throw new Error('LLM_API_URL environment variable is not configured');
-    }
+    const messages: LLMMessage[] = [userMessage];
+    let content = '';
+    let model = provider.model;
+    let errors: string[] = [];
+
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      // Call the configured LLM provider
+      const response = await provider.complete({ reportType, systemPrompt, messages });
+      content = response.content;
+      model = response.model;
+
+      let parsed: any;
+      try {
+        parsed = parseAnalysisContent(content);
+      } catch (parseError) {
+        errors = [`Response is not valid JSON: ${parseError instanceof Error ? parseError.message : 'parse error'}`];
+      }
 
-    // Call LLM API
-    const response = await fetch(LLM_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${LLM_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: LLM_MODEL,
-        messages: [
-          {
-            role: 'system',
-            content: systemPrompt,
-          },
-          {
-            role: 'user',
-            content: userContent,
-          },
-        ],
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`LLM API error: ${response.status} - ${errorText}`);
-    }
+      if (parsed !== undefined) {
+        const validation = validateAnalysis(reportType, parsed);
+        if (validation.valid) {
+          const analysis = validation.value;
+          return {
+            parseStatus: 'PARSED',
+            findings: JSON.stringify(analysis.findings),
+            patientSummary: analysis.patientSummary,
+            technicalSummary: analysis.technicalSummary,
+            confidence: analysis.confidence,
+            riskLevel: analysis.riskLevel,
+            recommendations: analysis.recommendations,
+            collectionDate: readCollectionDate(analysis.collectionDate),
+            validationErrors: null,
+            repairAttempts: attempt,
+            modelUsed: model,
+            promptVersion: PROMPT_VERSION,
+          };
+        }
+        errors = validation.errors;
+      }
 
-    const data = await response.json();
-    
-    // Extract response content
-    const content = data.choices?.[0]?.message?.content;
-    
-    if (!content) {
-      throw new Error('No content in LLM response');
-    }
+      console.warn(`⚠️ ${reportType} analysis failed schema validation (attempt ${attempt + 1}):`, errors);
 
-    // Parse JSON response
-    let analysisData;
-    try {
-      // Try to extract JSON from markdown code blocks if present
-      const jsonMatch = content.match(/```(?:json)?\s*(\{[\s\S]*\})\s*```/);
-      const jsonStr = jsonMatch ? jsonMatch[1] : content;
-      analysisData = JSON.parse(jsonStr);
-    } catch (parseError) {
-      console.error('Failed to parse LLM response as JSON:', content);
-      // Fallback: create structured response from text
-      analysisData = {
-        findings: { summary: 'Analysis completed' },
-        patientSummary: content.substring(0, 300),
-        technicalSummary: content,
-        confidence: 0.75,
-        riskLevel: 'MEDIUM',
-        recommendations: 'Please consult with your healthcare provider for detailed interpretation.',
-      };
+      // Re-ask with the validation errors so the model can repair its output
+      messages.push(
+        { role: 'assistant', text: content },
+        {
+          role: 'user',
+          text: `Your previous response did not match the required JSON structure:
+${describeValidationErrors(errors)}
+
+Respond again with ONLY the corrected JSON object in the exact structure specified in the system prompt.`,
+        }
+      );
     }
 
+    console.error(`❌ ${reportType} analysis could not be parsed after ${MAX_REPAIR_ATTEMPTS} repair attempt(s)`);
+
+    // Store as explicitly unparsed - never fabricate a risk level or confidence
     return {
-      findings: typeof analysisData.findings === 'object' 
-        ? JSON.stringify(analysisData.findings) 
-        : analysisData.findings || '{}',
-      patientSummary: analysisData.patientSummary || 'Analysis completed. Please review the technical summary.',
-      technicalSummary: analysisData.technicalSummary || content,
-      confidence: analysisData.confidence || 0.8,
-      riskLevel: analysisData.riskLevel || 'MEDIUM',
-      recommendations: analysisData.recommendations || 'Follow up with your healthcare provider.',
-      modelUsed: LLM_MODEL,
+      parseStatus: 'UNPARSED',
+      findings: '{}',
+      patientSummary: 'The AI analysis could not be converted into a structured result. Please ask your healthcare provider to review this report.',
+      technicalSummary: content,
+      confidence: null,
+      riskLevel: null,
+      recommendations: null,
+      collectionDate: null,
+      validationErrors: JSON.stringify(errors),
+      repairAttempts: MAX_REPAIR_ATTEMPTS,
+      modelUsed: model,
+      promptVersion: PROMPT_VERSION,
     };
   } catch (error) {
     console.error('LLM Analysis Error:', error);
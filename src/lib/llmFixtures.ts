@@ -0,0 +1,108 @@
+/**
+ * Offline LLM Analysis Fixtures
+ * Canned, deterministic analyses per report type used by the fixture LLM provider
+ */
+
+const ANALYSIS_FIXTURES: Record<string, Record<string, any>> = {
+  ECG: {
+    findings: {
+      heartRate: 72,
+      rhythm: 'Normal sinus rhythm',
+      intervals: { PR: 160, QRS: 92, QT: 380, QTc: 410 },
+      abnormalities: [],
+    },
+    patientSummary: 'Your heart rhythm is regular and your heart rate is normal. No concerning changes were seen on this ECG.',
+    technicalSummary: 'Normal sinus rhythm at 72 bpm. PR 160 ms, QRS 92 ms, QTc 410 ms. Normal axis. No ST-T changes, no conduction abnormalities.',
+    confidence: 0.9,
+    riskLevel: 'LOW',
+    recommendations: 'No follow-up required for this ECG. Continue routine cardiovascular care.',
+  },
+
+  XRAY: {
+    findings: {
+      location: 'Chest, PA view',
+      quality: 'Adequate inspiration and penetration',
+      structures: ['lungs', 'heart', 'mediastinum', 'bony thorax'],
+      abnormalities: [],
+    },
+    patientSummary: 'Your chest X-ray looks normal. The lungs are clear and the heart is a normal size.',
+    technicalSummary: 'PA chest radiograph. Lungs are clear without focal consolidation, effusion or pneumothorax. Cardiomediastinal silhouette within normal limits. No acute osseous abnormality.',
+    confidence: 0.88,
+    riskLevel: 'LOW',
+    recommendations: 'No further imaging required.',
+  },
+
+  CT_SCAN: {
+    findings: {
+      scanType: 'CT head without contrast',
+      findings: 'No acute intracranial abnormality',
+      structures: 'Ventricles and sulci appropriate for age',
+      abnormalities: [],
+    },
+    patientSummary: 'Your CT scan did not show any bleeding, stroke or other urgent problems.',
+    technicalSummary: 'Non-contrast CT head. No intracranial hemorrhage, mass effect or midline shift. Gray-white differentiation preserved. Ventricles and sulci are age appropriate.',
+    confidence: 0.87,
+    riskLevel: 'LOW',
+    recommendations: 'Clinical correlation. No imaging follow-up required.',
+  },
+
+  MRI: {
+    findings: {
+      scanType: 'MRI lumbar spine',
+      sequences: ['T1', 'T2', 'STIR'],
+      findings: 'Mild degenerative disc disease at L4-L5',
+      abnormalities: ['Mild L4-L5 disc bulge without nerve root compression'],
+    },
+    patientSummary: 'Your MRI shows mild wear-and-tear changes in one disc of your lower back, which is common and not pinching any nerves.',
+    technicalSummary: 'Mild desiccation and broad-based bulge at L4-L5 without significant canal or foraminal stenosis. No nerve root compression. Remaining levels unremarkable.',
+    confidence: 0.85,
+    riskLevel: 'LOW',
+    recommendations: 'Conservative management with physical therapy if symptomatic.',
+  },
+
+  BLOOD_TEST: {
+    findings: {
+      cholesterol: { total: 212, hdl: 48, ldl: 138, triglycerides: 165 },
+      fastingGlucose: 104,
+      hba1c: 5.8,
+      creatinine: 0.98,
+    },
+    patientSummary: 'Your cholesterol and blood sugar are slightly above the healthy range. Kidney function looks normal.',
+    technicalSummary: 'Borderline-high total cholesterol (212 mg/dL) and LDL (138 mg/dL) with triglycerides 165 mg/dL and HDL 48 mg/dL. Fasting glucose 104 mg/dL and HbA1c 5.8% are consistent with prediabetes. Creatinine 0.98 mg/dL.',
+    confidence: 0.9,
+    riskLevel: 'MEDIUM',
+    recommendations: 'Lifestyle modification for lipids and glycemia. Repeat lipid panel and HbA1c in 3-6 months.',
+  },
+
+  PATHOLOGY: {
+    findings: {
+      specimen: 'Skin punch biopsy, left forearm',
+      diagnosis: 'Benign intradermal nevus',
+      details: { margins: 'Clear', atypia: 'None' },
+    },
+    patientSummary: 'The skin sample is a harmless mole. It was completely removed.',
+    technicalSummary: 'Intradermal melanocytic nevus without cytologic atypia. Margins uninvolved.',
+    confidence: 0.92,
+    riskLevel: 'LOW',
+    recommendations: 'No further treatment required.',
+  },
+
+  OTHER: {
+    findings: {
+      summary: 'No significant abnormalities identified',
+      details: {},
+    },
+    patientSummary: 'Nothing concerning was found in this report.',
+    technicalSummary: 'Report reviewed. No significant abnormal findings identified.',
+    confidence: 0.8,
+    riskLevel: 'LOW',
+    recommendations: 'Follow up with your healthcare provider as routinely scheduled.',
+  },
+};
+
+/**
+ * Get the canned analysis for a report type (falls back to OTHER)
+ */
+export function getAnalysisFixture(reportType: string): Record<string, any> {
+  return ANALYSIS_FIXTURES[reportType] || ANALYSIS_FIXTURES.OTHER;
+}
@@ -0,0 +1,274 @@
+/**
+ * LLM Provider Adapters
+ * Pluggable backends for medical report analysis: OpenAI-compatible chat completions,
+ * Anthropic-style messages, Ollama-style local endpoints and an offline fixture provider
+ */
+
+import { getAnalysisFixture } from './llmFixtures';
+
+export type LLMProviderName = 'openai' | 'anthropic' | 'ollama' | 'fixture';
+
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  text: string;
+  images?: string[]; // Base64 encoded PNGs (without data URI prefix)
+}
+
+export interface LLMCompletionRequest {
+  reportType: string;
+  systemPrompt: string;
+  messages: LLMMessage[];
+}
+
+export interface LLMCompletionResponse {
+  content: string;
+  model: string;
+  provider: LLMProviderName;
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  model: string;
+  complete(request: LLMCompletionRequest): Promise<LLMCompletionResponse>;
+}
+
+const PROVIDER_NAMES: LLMProviderName[] = ['openai', 'anthropic', 'ollama', 'fixture'];
+
+// Per request; an analysis makes up to three requests and must finish well within the queue's stale-lock window
+const DEFAULT_REQUEST_TIMEOUT_MS = 3 * 60 * 1000;
+
+/**
+ * POST to a provider endpoint, giving up after LLM_REQUEST_TIMEOUT_MS
+ */
+async function postWithTimeout(url: string, init: RequestInit): Promise<Response> {
+  const timeoutMs = parseInt(process.env.LLM_REQUEST_TIMEOUT_MS || '', 10) || DEFAULT_REQUEST_TIMEOUT_MS;
+
+  try {
+    return await fetch(url, { ...init, method: 'POST', signal: AbortSignal.timeout(timeoutMs) });
+  } catch (error) {
+    if (error instanceof Error && error.name === 'TimeoutError') {
+      throw new Error(`LLM request timed out after ${Math.round(timeoutMs / 1000)}s`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * OpenAI-compatible chat completions (also works for Azure/OpenRouter/vLLM style gateways)
+ */
+export function createOpenAIProvider(): LLMProvider {
+  const apiUrl = process.env.LLM_API_URL;
+  const apiKey = process.env.LLM_API_KEY || '';
+  const model = process.env.LLM_MODEL || 'gpt-5';
+
+  return {
+    name: 'openai',
+    model,
+    async complete({ systemPrompt, messages }) {
+      if (!apiUrl) {
+        throw new Error('LLM_API_URL environment variable is not configured');
+      }
+
+      const response = await postWithTimeout(apiUrl, {
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${apiKey}`,
+        },
+        body: JSON.stringify({
+          model,
+          messages: [
+            { role: 'system', content: systemPrompt },
+            ...messages.map((message) => ({
+              role: message.role,
+              content: message.images && message.images.length > 0
+                ? [
+                    { type: 'text', text: message.text },
+                    ...message.images.map((image) => ({
+                      type: 'image_url',
+                      image_url: {
+                        url: `data:image/png;base64,${image}`,
+                        detail: 'high', // Use high detail for medical images
+                      },
+                    })),
+                  ]
+                : message.text,
+            })),
+          ],
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`LLM API error: ${response.status} - ${errorText}`);
+      }
+
+      const data = await response.json();
+      const content = data.choices?.[0]?.message?.content;
+
+      if (!content) {
+        throw new Error('No content in LLM response');
+      }
+
+      return { content, model: data.model || model, provider: 'openai' };
+    },
+  };
+}
+
+/**
+ * Anthropic-style messages API
+ */
+export function createAnthropicProvider(): LLMProvider {
+  const apiUrl = process.env.ANTHROPIC_API_URL || 'https://api.anthropic.com/v1/messages';
+  const apiKey = process.env.ANTHROPIC_API_KEY || '';
+  const model = process.env.ANTHROPIC_MODEL || 'claude-sonnet-4-5';
+
+  return {
+    name: 'anthropic',
+    model,
+    async complete({ systemPrompt, messages }) {
+      if (!apiKey) {
+        throw new Error('ANTHROPIC_API_KEY environment variable is not configured');
+      }
+
+      const response = await postWithTimeout(apiUrl, {
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': apiKey,
+          'anthropic-version': '2023-06-01',
+        },
+        body: JSON.stringify({
+          model,
+          max_tokens: 4096,
+          system: systemPrompt,
+          messages: messages.map((message) => ({
+            role: message.role,
+            content: [
+              ...(message.images || []).map((image) => ({
+                type: 'image',
+                source: { type: 'base64', media_type: 'image/png', data: image },
+              })),
+              { type: 'text', text: message.text },
+            ],
+          })),
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Anthropic API error: ${response.status} - ${errorText}`);
+      }
+
+      const data = await response.json();
+      const content = (data.content || [])
+        .filter((block: any) => block.type === 'text')
+        .map((block: any) => block.text)
+        .join('\n');
+
+      if (!content) {
+        throw new Error('No content in LLM response');
+      }
+
+      return { content, model: data.model || model, provider: 'anthropic' };
+    },
+  };
+}
+
+/**
+ * Ollama-style local chat endpoint
+ */
+export function createOllamaProvider(): LLMProvider {
+  const apiUrl = process.env.OLLAMA_API_URL || 'http://localhost:11434/api/chat';
+  const model = process.env.OLLAMA_MODEL || 'llama3.2-vision';
+
+  return {
+    name: 'ollama',
+    model,
+    async complete({ systemPrompt, messages }) {
+      const response = await postWithTimeout(apiUrl, {
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model,
+          stream: false,
+          format: 'json',
+          messages: [
+            { role: 'system', content: systemPrompt },
+            ...messages.map((message) => ({
+              role: message.role,
+              content: message.text,
+              ...(message.images && message.images.length > 0 ? { images: message.images } : {}),
+            })),
+          ],
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Ollama API error: ${response.status} - ${errorText}`);
+      }
+
+      const data = await response.json();
+      const content = data.message?.content;
+
+      if (!content) {
+        throw new Error('No content in LLM response');
+      }
+
+      return { content, model: data.model || model, provider: 'ollama' };
+    },
+  };
+}
+
+/**
+ * Deterministic offline provider for development and tests.
+ * Returns a canned analysis per report type without any network access.
+ */
+export function createFixtureProvider(): LLMProvider {
+  const model = 'fixture';
+
+  return {
+    name: 'fixture',
+    model,
+    async complete({ reportType }) {
+      const fixture = getAnalysisFixture(reportType);
+      return {
+        content: '```json\n' + JSON.stringify(fixture, null, 2) + '\n```',
+        model,
+        provider: 'fixture',
+      };
+    },
+  };
+}
+
+const PROVIDER_FACTORIES: Record<LLMProviderName, () => LLMProvider> = {
+  openai: createOpenAIProvider,
+  anthropic: createAnthropicProvider,
+  ollama: createOllamaProvider,
+  fixture: createFixtureProvider,
+};
+
+/**
+ * Resolve the configured provider name for a report type.
+ * `LLM_PROVIDER_<REPORT_TYPE>` (e.g. LLM_PROVIDER_ECG) overrides the global `LLM_PROVIDER`.
+ */
+export function getProviderNameForReportType(reportType: string): LLMProviderName {
+  const configured = (
+    process.env[`LLM_PROVIDER_${reportType.toUpperCase()}`] ||
+    process.env.LLM_PROVIDER ||
+    'openai'
+  ).toLowerCase();
+
+  if (!PROVIDER_NAMES.includes(configured as LLMProviderName)) {
+    throw new Error(
+      `Unknown LLM provider "${configured}". Expected one of: ${PROVIDER_NAMES.join(', ')}`
+    );
+  }
+
+  return configured as LLMProviderName;
+}
+
+/**
+ * Get the LLM provider to use for a report type
+ */
+export function getProviderForReportType(reportType: string): LLMProvider {
+  return PROVIDER_FACTORIES[getProviderNameForReportType(reportType)]();
+}
@@ -0,0 +1,235 @@
+/**
+ * Metabolic Syndrome
+ * Harmonized IDF/AHA/NHLBI definition (Alberti et al., Circulation 2009): three
+ * of five cardiometabolic criteria, with population-specific waist cutoffs
+ */
+
+import { RiskAssessmentResult, RiskFactors } from './riskAssessment';
+import { RiskFactorSource } from './patientRiskFactors';
+
+export type WaistEthnicity =
+  | 'EUROPID'
+  | 'SOUTH_ASIAN'
+  | 'CHINESE'
+  | 'JAPANESE'
+  | 'CENTRAL_SOUTH_AMERICAN'
+  | 'SUB_SAHARAN_AFRICAN'
+  | 'MIDDLE_EASTERN';
+
+export type MetabolicCriterionType = 'WAIST' | 'TRIGLYCERIDES' | 'HDL' | 'BLOOD_PRESSURE' | 'FASTING_GLUCOSE';
+
+export interface MetabolicCriterion {
+  criterion: MetabolicCriterionType;
+  label: string;
+  threshold: string;
+  met: boolean | null; // null when the value was not measured
+  value: string | null; // Source value(s) as shown to the user
+  recordedDate?: Date; // Date of the measured value, when it came from a stored result
+  reportId?: string | null;
+}
+
+// IDF waist circumference cutoffs in cm adopted by the harmonized definition.
+// South and Central Americans use the South Asian values; Sub-Saharan Africans and
+// Eastern Mediterranean/Middle East (Arab) populations use the Europid values.
+export const WAIST_CUTOFFS: Record<WaistEthnicity, { male: number; female: number }> = {
+  EUROPID: { male: 94, female: 80 },
+  SOUTH_ASIAN: { male: 90, female: 80 },
+  CHINESE: { male: 90, female: 80 },
+  JAPANESE: { male: 90, female: 80 },
+  CENTRAL_SOUTH_AMERICAN: { male: 90, female: 80 },
+  SUB_SAHARAN_AFRICAN: { male: 94, female: 80 },
+  MIDDLE_EASTERN: { male: 94, female: 80 },
+};
+
+const TRIGLYCERIDES_CUTOFF = 150; // mg/dL
+const HDL_CUTOFF = { male: 40, female: 50 }; // mg/dL, met below
+const SYSTOLIC_CUTOFF = 130; // mmHg
+const DIASTOLIC_CUTOFF = 85; // mmHg
+const GLUCOSE_CUTOFF = 100; // mg/dL
+const CRITERIA_FOR_DIAGNOSIS = 3;
+
+/**
+ * Waist cutoff for a patient's sex and ethnicity. Without a recorded ethnicity the
+ * Europid cutoff is used and flagged as assumed.
+ */
+export function getWaistCutoff(
+  biologicalSex: 'MALE' | 'FEMALE',
+  ethnicity?: WaistEthnicity | null
+): { cutoff: number; ethnicity: WaistEthnicity; assumed: boolean } {
+  const group = ethnicity && WAIST_CUTOFFS[ethnicity] ? ethnicity : 'EUROPID';
+  const cutoffs = WAIST_CUTOFFS[group];
+  return {
+    cutoff: biologicalSex === 'FEMALE' ? cutoffs.female : cutoffs.male,
+    ethnicity: group,
+    assumed: group !== ethnicity,
+  };
+}
+
+/**
+ * Evaluate the five harmonized criteria and classify metabolic syndrome.
+ * Treatment for hypertension and known diabetes count as meeting the blood
+ * pressure and glucose criteria. Returns null when fewer than three criteria
+ * can be evaluated.
+ * @param sources Where each input came from, to list values with their dates
+ */
+export function calculateMetabolicSyndrome(
+  factors: RiskFactors,
+  sources: Record<string, RiskFactorSource> = {}
+): RiskAssessmentResult | null {
+  const female = factors.biologicalSex === 'FEMALE';
+  const waist = getWaistCutoff(factors.biologicalSex, factors.ethnicity);
+  const hdlCutoff = female ? HDL_CUTOFF.female : HDL_CUTOFF.male;
+
+  // Date and report of the most recent input behind a criterion
+  const sourceOf = (...fields: Array<keyof RiskFactors>) => {
+    const dated = fields
+      .map((field) => sources[field])
+      .filter((source) => source?.recordedDate)
+      .sort((a, b) => new Date(b.recordedDate!).getTime() - new Date(a.recordedDate!).getTime());
+    return dated.length > 0 ? { recordedDate: dated[0].recordedDate, reportId: dated[0].reportId } : {};
+  };
+
+  const { waistCircumference, triglycerides, hdlCholesterol, systolicBP, diastolicBP, fastingGlucose } = factors;
+  const hasBP = systolicBP != null || diastolicBP != null;
+
+  const criteria: MetabolicCriterion[] = [
+    {
+      criterion: 'WAIST',
+      label: 'Elevated waist circumference',
+      threshold: `≥ ${waist.cutoff} cm`,
+      met: waistCircumference != null ? waistCircumference >= waist.cutoff : null,
+      value: waistCircumference != null ? `${waistCircumference} cm` : null,
+      ...sourceOf('waistCircumference'),
+    },
+    {
+      criterion: 'TRIGLYCERIDES',
+      label: 'Elevated triglycerides',
+      threshold: `≥ ${TRIGLYCERIDES_CUTOFF} mg/dL`,
+      met: triglycerides != null ? triglycerides >= TRIGLYCERIDES_CUTOFF : null,
+      value: triglycerides != null ? `${triglycerides} mg/dL` : null,
+      ...sourceOf('triglycerides'),
+    },
+    {
+      criterion: 'HDL',
+      label: 'Reduced HDL cholesterol',
+      threshold: `< ${hdlCutoff} mg/dL`,
+      met: hdlCholesterol != null ? hdlCholesterol < hdlCutoff : null,
+      value: hdlCholesterol != null ? `${hdlCholesterol} mg/dL` : null,
+      ...sourceOf('hdlCholesterol'),
+    },
+    {
+      criterion: 'BLOOD_PRESSURE',
+      label: 'Elevated blood pressure',
+      threshold: `≥ ${SYSTOLIC_CUTOFF}/${DIASTOLIC_CUTOFF} mmHg or treated`,
+      met: factors.hypertensionTreated
+        ? true
+        : hasBP
+        ? (systolicBP ?? 0) >= SYSTOLIC_CUTOFF || (diastolicBP ?? 0) >= DIASTOLIC_CUTOFF
+        : null,
+      value: [
+        hasBP && `${systolicBP ?? '–'}/${diastolicBP ?? '–'} mmHg`,
+        factors.hypertensionTreated && 'on treatment',
+      ].filter(Boolean).join(', ') || null,
+      ...sourceOf('systolicBP', 'diastolicBP'),
+    },
+    {
+      criterion: 'FASTING_GLUCOSE',
+      label: 'Elevated fasting glucose',
+      threshold: `≥ ${GLUCOSE_CUTOFF} mg/dL or diabetes`,
+      met: factors.diabetesStatus ? true : fastingGlucose != null ? fastingGlucose >= GLUCOSE_CUTOFF : null,
+      value: [
+        fastingGlucose != null && `${fastingGlucose} mg/dL`,
+        factors.diabetesStatus && 'known diabetes',
+      ].filter(Boolean).join(', ') || null,
+      ...sourceOf('fastingGlucose'),
+    },
+  ];
+
+  const measured = criteria.filter((criterion) => criterion.met !== null);
+  if (measured.length < CRITERIA_FOR_DIAGNOSIS) return null;
+
+  const met = criteria.filter((criterion) => criterion.met);
+  const missing = criteria.filter((criterion) => criterion.met === null);
+
+  // Missing criteria can still decide the diagnosis
+  const hasMetabolicSyndrome =
+    met.length >= CRITERIA_FOR_DIAGNOSIS
+      ? true
+      : met.length + missing.length < CRITERIA_FOR_DIAGNOSIS
+      ? false
+      : null;
+
+  let riskCategory: RiskAssessmentResult['riskCategory'];
+  if (met.length >= 5) riskCategory = 'VERY_HIGH';
+  else if (met.length >= CRITERIA_FOR_DIAGNOSIS) riskCategory = 'HIGH';
+  else if (met.length === 2) riskCategory = 'MODERATE';
+  else riskCategory = 'LOW';
+
+  const recommendations = generateMetabolicSyndromeRecommendations(met, missing, waist.assumed);
+
+  const metLabels = met.map((criterion) => criterion.label.toLowerCase()).join(', ');
+  let interpretation: string;
+  if (hasMetabolicSyndrome) {
+    interpretation = `You meet ${met.length} of 5 criteria for metabolic syndrome (${metLabels}), which roughly doubles the risk of heart disease and raises the risk of type 2 diabetes.`;
+  } else if (hasMetabolicSyndrome === false) {
+    interpretation = met.length > 0
+      ? `You meet ${met.length} of 5 criteria (${metLabels}); metabolic syndrome needs 3.`
+      : 'You meet none of the criteria for metabolic syndrome.';
+  } else {
+    interpretation = `You meet ${met.length} of the ${measured.length} criteria measured so far; ${missing.map((criterion) => criterion.label.toLowerCase()).join(' and ')} must be measured to rule metabolic syndrome in or out.`;
+  }
+
+  return {
+    score: met.length,
+    riskCategory,
+    factors: {
+      hasMetabolicSyndrome,
+      criteriaMet: met.length,
+      criteriaMeasured: measured.length,
+      criteria,
+      waistEthnicity: waist.ethnicity,
+      waistCutoffAssumed: waist.assumed,
+      definition: 'Harmonized IDF/AHA/NHLBI 2009',
+    },
+    recommendations,
+    interpretation,
+    validityPeriod: hasMetabolicSyndrome ? 180 : 365,
+  };
+}
+
+function generateMetabolicSyndromeRecommendations(
+  met: MetabolicCriterion[],
+  missing: MetabolicCriterion[],
+  waistCutoffAssumed: boolean
+): string[] {
+  const recommendations: string[] = [];
+  const isMet = (type: MetabolicCriterionType) => met.some((criterion) => criterion.criterion === type);
+
+  if (met.length >= CRITERIA_FOR_DIAGNOSIS) {
+    recommendations.push('⚕️ Discuss metabolic syndrome with your doctor; treating each component lowers heart and diabetes risk');
+  }
+  if (isMet('WAIST')) {
+    recommendations.push('⚖️ Losing 5-10% of body weight improves every metabolic syndrome component');
+  }
+  if (isMet('TRIGLYCERIDES')) {
+    recommendations.push('🍞 Cut back on sugar, refined carbohydrates and alcohol to lower triglycerides');
+  }
+  if (isMet('HDL')) {
+    recommendations.push('🏃 Regular aerobic exercise and not smoking raise HDL cholesterol');
+  }
+  if (isMet('BLOOD_PRESSURE')) {
+    recommendations.push('🩺 Monitor blood pressure and limit salt to under 2,300 mg a day');
+  }
+  if (isMet('FASTING_GLUCOSE')) {
+    recommendations.push('🩸 Check HbA1c yearly and follow a diet low in added sugar');
+  }
+  for (const criterion of missing) {
+    recommendations.push(`📏 Record your ${criterion.label.replace(/^(Elevated|Reduced) /, '').toLowerCase()} to complete the assessment`);
+  }
+  if (waistCutoffAssumed && !missing.some((criterion) => criterion.criterion === 'WAIST')) {
+    recommendations.push('🌍 Add your ethnicity to your profile so the right waist circumference cutoff is used');
+  }
+  recommendations.push('🥗 Aim for 150 minutes of moderate activity a week and a Mediterranean-style diet');
+
+  return recommendations;
+}
@@ -0,0 +1,133 @@
+/**
+ * Patient Risk Factors
+ * Builds risk calculator inputs from a patient's profile and latest biomarker results
+ */
+
+import { prisma } from '@/utils/prismaDB';
+import { RiskFactors } from './riskAssessment';
+import { RISK_FACTOR_ANALYTES, RISK_FACTOR_CALCULATED_ANALYTES } from './unitConversion';
+
+// Where a risk calculator input came from
+export interface RiskFactorSource {
+  source: 'PROFILE' | 'BIOMARKER' | 'REQUEST' | 'CLINICIAN'; // CLINICIAN: verified by the assessing doctor
+  biomarkerType?: string;
+  biomarkerId?: string;
+  reportId?: string | null; // null for manually entered biomarkers
+  recordedDate?: Date;
+}
+
+export interface PatientRiskInputs {
+  factors: RiskFactors;
+  sources: Record<string, RiskFactorSource>;
+}
+
+const PROFILE_FACTORS = ['age', 'biologicalSex', 'race', 'ethnicity', 'weight', 'height', 'smokingStatus', 'diabetesStatus'];
+
+// Factors a request may set over the stored ones (what-if scenarios, values verified by a
+// doctor); demographics always come from the profile
+const NUMERIC_FACTORS = [
+  'systolicBP',
+  'diastolicBP',
+  'totalCholesterol',
+  'hdlCholesterol',
+  'ldlCholesterol',
+  'triglycerides',
+  'fastingGlucose',
+  'hba1c',
+  'weight',
+  'waistCircumference',
+];
+const BOOLEAN_FACTORS = ['hypertensionTreated', 'diabetesStatus'];
+const SMOKING_STATUSES = ['NEVER', 'FORMER', 'CURRENT'];
+
+/**
+ * Check risk factor values sent in a request (canonical units, see
+ * normalizeRiskFactorInputs); empty values are left out
+ * @throws Error naming the first factor that can't be set or has an invalid value
+ */
+export function parseRiskFactorOverrides(values: Record<string, any>): Partial<RiskFactors> {
+  const overrides: Record<string, number | boolean | string> = {};
+
+  for (const [factor, value] of Object.entries(values)) {
+    if (value === null || value === '') continue;
+
+    if (NUMERIC_FACTORS.includes(factor)) {
+      const number = typeof value === 'number' || typeof value === 'string' ? Number(value) : NaN;
+      if (!Number.isFinite(number) || number <= 0) {
+        throw new Error(`${factor} must be a positive number`);
+      }
+      overrides[factor] = number;
+    } else if (BOOLEAN_FACTORS.includes(factor)) {
+      if (value !== true && value !== false && value !== 'true' && value !== 'false') {
+        throw new Error(`${factor} must be true or false`);
+      }
+      overrides[factor] = value === true || value === 'true';
+    } else if (factor === 'smokingStatus') {
+      if (!SMOKING_STATUSES.includes(value)) {
+        throw new Error(`smokingStatus must be one of ${SMOKING_STATUSES.join(', ')}`);
+      }
+      overrides[factor] = value;
+    } else {
+      throw new Error(`${factor} cannot be set in a request`);
+    }
+  }
+
+  return overrides as Partial<RiskFactors>;
+}
+
+/**
+ * Risk factors of a patient with the source of each: demographics and history from
+ * the profile, and the most recent stored value (canonical unit) of every biomarker
+ * a calculator uses, or of the value calculated in its place (Martin/Hopkins LDL)
+ */
+export async function getPatientRiskInputs(userId: string): Promise<PatientRiskInputs> {
+  const profile = await prisma.patientProfile.findUnique({
+    where: { userId },
+  });
+
+  const factors: Record<string, any> = {
+    age: profile?.age || 0,
+    biologicalSex: (profile?.biologicalSex?.toUpperCase() as 'MALE' | 'FEMALE') || 'MALE',
+    race: (profile?.race as RiskFactors['race']) || undefined,
+    ethnicity: (profile?.ethnicity as RiskFactors['ethnicity']) || undefined,
+    weight: profile?.weight || undefined,
+    height: profile?.height || undefined,
+    smokingStatus: (profile?.smokingStatus as RiskFactors['smokingStatus']) || 'NEVER',
+    diabetesStatus: profile?.diabetesStatus || false,
+  };
+  const sources: Record<string, RiskFactorSource> = {};
+  for (const field of PROFILE_FACTORS) {
+    if (profile && factors[field] !== undefined) sources[field] = { source: 'PROFILE' };
+  }
+
+  for (const [field, biomarkerType] of Object.entries(RISK_FACTOR_ANALYTES)) {
+    const calculatedType = RISK_FACTOR_CALCULATED_ANALYTES[biomarkerType];
+    const latest = await prisma.biomarkerTrend.findFirst({
+      where: {
+        userId,
+        biomarkerType: { in: calculatedType ? [biomarkerType, calculatedType] : [biomarkerType] },
+        status: { not: 'QUARANTINED' },
+      },
+      orderBy: [{ recordedDate: 'desc' }, { createdAt: 'desc' }],
+    });
+    if (!latest) continue;
+
+    factors[field] = latest.value;
+    sources[field] = {
+      source: 'BIOMARKER',
+      biomarkerType: latest.biomarkerType,
+      biomarkerId: latest.id,
+      reportId: latest.reportId,
+      recordedDate: latest.recordedDate,
+    };
+  }
+
+  return { factors: factors as RiskFactors, sources };
+}
+
+/**
+ * Risk factors of a patient without their sources
+ */
+export async function getPatientRiskFactors(userId: string): Promise<RiskFactors> {
+  return (await getPatientRiskInputs(userId)).factors;
+}
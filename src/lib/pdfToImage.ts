@@ -1,96 +1,117 @@
 /**
- * PDF to Image Converter using PDFRest API
- * Converts PDF pages to base64 images for LLM vision analysis
+ * PDF Rasterization & Text Extraction
+ * Renders PDF pages to PNG and reads the text layer locally with pdf.js,
+ * so patient documents never leave the server
  */
 
-const PDFREST_API_URL = 'https://api.pdfrest.com/jpg';
-const PDFREST_API_KEY = process.env.PDFREST_API_KEY || '0ba276c0-e566-4770-9303-940872d3065d';
+import path from 'path';
+
+// pdf.js loads fonts and character maps from its package directory when running in Node
+const PDFJS_DIR = path.join(process.cwd(), 'node_modules', 'pdfjs-dist');
+const MAX_RENDER_DIMENSION = 2000; // px, keeps very large pages within vision model limits
 
 export interface PDFToImageOptions {
-  maxPages?: number; // Maximum number of pages to convert (default: 5)
+  maxPages?: number; // Maximum number of pages to process (default: 10)
+  scale?: number; // Render scale, 1 = 72 DPI (default: 2)
+  renderImages?: boolean; // Set to false to only read the text layer (default: true)
+}
+
+export interface PDFContent {
+  text: string; // Text layer of the processed pages (empty for scanned documents)
+  images: string[]; // Base64 encoded PNGs (without data URI prefix)
+  pageCount: number; // Total pages in the document
+}
+
+async function loadPDFDocument(pdfBuffer: Buffer) {
+  const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+
+  return pdfjs.getDocument({
+    data: new Uint8Array(pdfBuffer),
+    standardFontDataUrl: path.join(PDFJS_DIR, 'standard_fonts') + path.sep,
+    cMapUrl: path.join(PDFJS_DIR, 'cmaps') + path.sep,
+    cMapPacked: true,
+    isEvalSupported: false,
+  }).promise;
 }
 
 /**
- * Convert PDF buffer to array of base64 encoded images using PDFRest API
+ * Render PDF pages to PNG images and extract their text layer
  * @param pdfBuffer - PDF file as Buffer
- * @param options - Conversion options
- * @returns Array of base64 encoded images (without data URI prefix)
+ * @param options - Processing options
  */
-export async function convertPDFToImages(
+export async function extractPDFContent(
   pdfBuffer: Buffer,
   options: PDFToImageOptions = {}
-): Promise<string[]> {
-  const { maxPages = 10 } = options;
+): Promise<PDFContent> {
+  const { maxPages = 10, scale = 2, renderImages = true } = options;
+  const document = await loadPDFDocument(pdfBuffer);
+  const pageTexts: string[] = [];
   const images: string[] = [];
 
   try {
-    console.log(`📄 Converting PDF to images using PDFRest API...`);
-
-    // Create form data
-    const formData = new FormData();
-    // Convert Buffer to Uint8Array for Blob compatibility
-    const uint8Array = new Uint8Array(pdfBuffer);
-    const blob = new Blob([uint8Array], { type: 'application/pdf' });
-    formData.append('file', blob, 'report.pdf');
-    
-    // Optional: Set output quality and other parameters
-    formData.append('output', 'zip'); // Get all pages in a zip
-
-    // Call PDFRest API with increased timeout
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 60000); // 60 second timeout
-    
-    const response = await fetch(PDFREST_API_URL, {
-      method: 'POST',
-      headers: {
-        'Accept': 'application/json',
-        'Api-Key': PDFREST_API_KEY,
-      },
-      body: formData,
-      signal: controller.signal,
-    });
-
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`PDFRest API error: ${response.status} - ${errorText}`);
-    }
+    const pagesToProcess = Math.min(document.numPages, maxPages);
+
+    for (let pageNumber = 1; pageNumber <= pagesToProcess; pageNumber++) {
+      const page = await document.getPage(pageNumber);
 
-    const result = await response.json();
-    
-    // The API returns URLs to the converted images
-    // Check if outputUrl is an array or a single URL
-    if (result.outputUrl) {
-      const urls = Array.isArray(result.outputUrl) 
-        ? result.outputUrl 
-        : result.outputUrl.split(',');
-      
-      console.log(`✓ PDF converted to ${urls.length} image(s), downloading...`);
-      
-      // Download each image and convert to base64
-      let pageCount = 0;
-      for (const url of urls) {
-        if (pageCount >= maxPages) break;
-        
+      // Text layer
+      const textContent = await page.getTextContent();
+      const pageText = textContent.items
+        .map((item: any) => (item.str || '') + (item.hasEOL ? '\n' : ' '))
+        .join('')
+        .trim();
+      if (pageText) {
+        pageTexts.push(`--- Page ${pageNumber} ---\n${pageText}`);
+      }
+
+      // Rasterize, capping the output size for very large pages
+      if (renderImages) {
         try {
-          const imageUrl = url.trim();
-          const imageResponse = await fetch(imageUrl);
-          
-          if (imageResponse.ok) {
-            const imageBuffer = Buffer.from(await imageResponse.arrayBuffer());
-            const base64Image = imageBuffer.toString('base64');
-            images.push(base64Image);
-            pageCount++;
-            console.log(`✓ Downloaded page ${pageCount}`);
-          }
-        } catch (imgError) {
-          console.error('Error downloading image:', imgError);
+          const baseViewport = page.getViewport({ scale: 1 });
+          const renderScale = Math.min(
+            scale,
+            MAX_RENDER_DIMENSION / Math.max(baseViewport.width, baseViewport.height)
+          );
+          const viewport = page.getViewport({ scale: renderScale });
+          const { canvas } = (document.canvasFactory as any).create(
+            Math.ceil(viewport.width),
+            Math.ceil(viewport.height)
+          );
+
+          await page.render({ canvas, viewport }).promise;
+          images.push((canvas as any).toBuffer('image/png').toString('base64'));
+        } catch (renderError) {
+          console.error(`Failed to render PDF page ${pageNumber}:`, renderError);
         }
       }
+
+      page.cleanup();
     }
 
-    console.log(`📄 Extracted ${images.length} page(s) from PDF`);
+    console.log(`📄 Processed ${pagesToProcess} of ${document.numPages} page(s): ${images.length} image(s), ${pageTexts.length} page(s) with text`);
+
+    return {
+      text: pageTexts.join('\n\n'),
+      images,
+      pageCount: document.numPages,
+    };
+  } finally {
+    await document.destroy();
+  }
+}
+
+/**
+ * Convert PDF buffer to array of base64 encoded PNG images
+ * @param pdfBuffer - PDF file as Buffer
+ * @param options - Conversion options
+ * @returns Array of base64 encoded images (without data URI prefix)
+ */
+export async function convertPDFToImages(
+  pdfBuffer: Buffer,
+  options: PDFToImageOptions = {}
+): Promise<string[]> {
+  try {
+    const { images } = await extractPDFContent(pdfBuffer, options);
     return images;
   } catch (error) {
     console.error('PDF to image conversion error:', error);
@@ -98,3 +119,16 @@ export async function convertPDFToImages(
     return [];
   }
 }
+
+/**
+ * Extract the text layer from a PDF
+ * @param pdfBuffer - PDF file as Buffer
+ * @param options - Extraction options
+ */
+export async function extractPDFText(
+  pdfBuffer: Buffer,
+  options: PDFToImageOptions = {}
+): Promise<string> {
+  const { text } = await extractPDFContent(pdfBuffer, { ...options, renderImages: false });
+  return text;
+}
@@ -0,0 +1,591 @@
+/**
+ * Lab Reference Ranges
+ * Reference-range catalog keyed by analyte, with sex/age specific ranges,
+ * critical limits and L/H/LL/HH abnormal flagging
+ */
+
+export type AbnormalFlag = 'LL' | 'L' | 'H' | 'HH';
+
+export interface ReferenceRangeRule {
+  sex?: 'MALE' | 'FEMALE'; // Omitted = applies to everyone
+  minAge?: number; // Inclusive, years
+  maxAge?: number; // Inclusive, years
+  low?: number;
+  high?: number;
+  criticalLow?: number;
+  criticalHigh?: number;
+}
+
+export interface AnalyteReference {
+  name: string;
+  unit: string;
+  lowerIsBetter: boolean; // Direction used for trend interpretation
+  meaningfulChange: number; // Smallest clinically meaningful change in the catalog unit, above measurement noise
+  ranges: ReferenceRangeRule[]; // Most specific first; the first matching rule wins
+}
+
+export interface ResolvedReferenceRange {
+  analyte: string;
+  unit: string;
+  low: number | null;
+  high: number | null;
+  criticalLow: number | null;
+  criticalHigh: number | null;
+}
+
+export interface PatientDemographics {
+  age?: number | null;
+  biologicalSex?: string | null;
+}
+
+// Ranges for every analyte the dictionary can extract and every derived value (adult unless age-limited)
+export const REFERENCE_RANGES: Record<string, AnalyteReference> = {
+  cholesterol_total: {
+    name: 'Total Cholesterol',
+    unit: 'mg/dL',
+    lowerIsBetter: true,
+    meaningfulChange: 20,
+    ranges: [
+      { maxAge: 19, high: 170 },
+      { high: 200 },
+    ],
+  },
+  cholesterol_ldl: {
+    name: 'LDL Cholesterol',
+    unit: 'mg/dL',
+    lowerIsBetter: true,
+    meaningfulChange: 15,
+    ranges: [
+      { maxAge: 19, high: 110 },
+      { high: 100, criticalHigh: 190 },
+    ],
+  },
+  cholesterol_ldl_martin: {
+    name: 'LDL Cholesterol (Martin/Hopkins)',
+    unit: 'mg/dL',
+    lowerIsBetter: true,
+    meaningfulChange: 15,
+    ranges: [
+      { maxAge: 19, high: 110 },
+      { high: 100, criticalHigh: 190 },
+    ],
+  },
+  cholesterol_ldl_friedewald: {
+    name: 'LDL Cholesterol (Friedewald)',
+    unit: 'mg/dL',
+    lowerIsBetter: true,
+    meaningfulChange: 15,
+    ranges: [
+      { maxAge: 19, high: 110 },
+      { high: 100, criticalHigh: 190 },
+    ],
+  },
+  cholesterol_hdl: {
+    name: 'HDL Cholesterol',
+    unit: 'mg/dL',
+    lowerIsBetter: false,
+    meaningfulChange: 5,
+    ranges: [
+      { sex: 'FEMALE', low: 50 },
+      { low: 40 },
+    ],
+  },
+  triglycerides: {
+    name: 'Triglycerides',
+    unit: 'mg/dL',
+    lowerIsBetter: true,
+    meaningfulChange: 40,
+    ranges: [
+      { maxAge: 19, high: 90, criticalHigh: 1000 },
+      { high: 150, criticalHigh: 1000 },
+    ],
+  },
+  cholesterol_non_hdl: {
+    name: 'Non-HDL Cholesterol',
+    unit: 'mg/dL',
+    lowerIsBetter: true,
+    meaningfulChange: 15,
+    ranges: [
+      { maxAge: 19, high: 120 },
+      { high: 130 },
+    ],
+  },
+  tg_hdl_ratio: {
+    name: 'Triglyceride/HDL Ratio',
+    unit: 'ratio',
+    lowerIsBetter: true,
+    meaningfulChange: 0.5,
+    // Above 3 (mg/dL values) suggests insulin resistance and small dense LDL
+    ranges: [{ high: 3 }],
+  },
+  glucose_fasting: {
+    name: 'Fasting Glucose',
+    unit: 'mg/dL',
+    lowerIsBetter: true,
+    meaningfulChange: 10,
+    ranges: [{ low: 70, high: 99, criticalLow: 40, criticalHigh: 400 }],
+  },
+  glucose_random: {
+    name: 'Random Glucose',
+    unit: 'mg/dL',
+    lowerIsBetter: true,
+    meaningfulChange: 20,
+    // Non-fasting; 200 or more with symptoms is diagnostic of diabetes
+    ranges: [{ low: 70, high: 139, criticalLow: 40, criticalHigh: 400 }],
+  },
+  hba1c: {
+    name: 'Hemoglobin A1c',
+    unit: '%',
+    lowerIsBetter: true,
+    meaningfulChange: 0.5,
+    ranges: [{ low: 4, high: 5.6, criticalHigh: 14 }],
+  },
+  creatinine: {
+    name: 'Creatinine',
+    unit: 'mg/dL',
+    lowerIsBetter: true,
+    meaningfulChange: 0.3,
+    ranges: [
+      { sex: 'MALE', low: 0.74, high: 1.35, criticalHigh: 4 },
+      { sex: 'FEMALE', low: 0.59, high: 1.04, criticalHigh: 4 },
+      { low: 0.59, high: 1.35, criticalHigh: 4 },
+    ],
+  },
+  egfr: {
+    name: 'eGFR',
+    unit: 'mL/min/1.73m²',
+    lowerIsBetter: false,
+    meaningfulChange: 5,
+    // KDIGO: below 60 for 3 months defines CKD; below 15 is kidney failure
+    ranges: [{ low: 60, criticalLow: 15 }],
+  },
+  uacr: {
+    name: 'Albumin/Creatinine Ratio',
+    unit: 'mg/g',
+    lowerIsBetter: true,
+    meaningfulChange: 30,
+    ranges: [{ high: 30 }],
+  },
+  potassium: {
+    name: 'Potassium',
+    unit: 'mmol/L',
+    lowerIsBetter: true,
+    meaningfulChange: 0.5,
+    ranges: [{ low: 3.5, high: 5.1, criticalLow: 2.8, criticalHigh: 6.2 }],
+  },
+  sodium: {
+    name: 'Sodium',
+    unit: 'mmol/L',
+    lowerIsBetter: true,
+    meaningfulChange: 4,
+    ranges: [{ low: 136, high: 145, criticalLow: 120, criticalHigh: 160 }],
+  },
+  chloride: {
+    name: 'Chloride',
+    unit: 'mmol/L',
+    lowerIsBetter: true,
+    meaningfulChange: 4,
+    ranges: [{ low: 98, high: 107, criticalLow: 80, criticalHigh: 120 }],
+  },
+  bicarbonate: {
+    name: 'Bicarbonate (CO2)',
+    unit: 'mmol/L',
+    lowerIsBetter: false,
+    meaningfulChange: 3,
+    ranges: [{ low: 22, high: 29, criticalLow: 10, criticalHigh: 40 }],
+  },
+  calcium: {
+    name: 'Calcium',
+    unit: 'mg/dL',
+    lowerIsBetter: true,
+    meaningfulChange: 0.5,
+    ranges: [
+      { maxAge: 17, low: 8.8, high: 10.8, criticalLow: 6.5, criticalHigh: 13 },
+      { low: 8.6, high: 10.3, criticalLow: 6.5, criticalHigh: 13 },
+    ],
+  },
+  bun: {
+    name: 'Blood Urea Nitrogen',
+    unit: 'mg/dL',
+    lowerIsBetter: true,
+    meaningfulChange: 5,
+    ranges: [
+      { minAge: 60, low: 8, high: 23, criticalHigh: 100 },
+      { low: 7, high: 20, criticalHigh: 100 },
+    ],
+  },
+  uric_acid: {
+    name: 'Uric Acid',
+    unit: 'mg/dL',
+    lowerIsBetter: true,
+    meaningfulChange: 1,
+    ranges: [
+      { sex: 'MALE', low: 3.4, high: 7, criticalHigh: 13 },
+      { sex: 'FEMALE', low: 2.4, high: 6, criticalHigh: 13 },
+      { low: 2.4, high: 7, criticalHigh: 13 },
+    ],
+  },
+  albumin: {
+    name: 'Albumin',
+    unit: 'g/dL',
+    lowerIsBetter: false,
+    meaningfulChange: 0.3,
+    ranges: [{ low: 3.5, high: 5, criticalLow: 1.5 }],
+  },
+  total_protein: {
+    name: 'Total Protein',
+    unit: 'g/dL',
+    lowerIsBetter: false,
+    meaningfulChange: 0.5,
+    ranges: [{ low: 6, high: 8.3 }],
+  },
+  alt: {
+    name: 'ALT',
+    unit: 'U/L',
+    lowerIsBetter: true,
+    meaningfulChange: 10,
+    ranges: [
+      { sex: 'MALE', low: 7, high: 55, criticalHigh: 1000 },
+      { sex: 'FEMALE', low: 7, high: 45, criticalHigh: 1000 },
+      { low: 7, high: 55, criticalHigh: 1000 },
+    ],
+  },
+  ast: {
+    name: 'AST',
+    unit: 'U/L',
+    lowerIsBetter: true,
+    meaningfulChange: 10,
+    ranges: [
+      { sex: 'MALE', low: 8, high: 48, criticalHigh: 1000 },
+      { sex: 'FEMALE', low: 8, high: 43, criticalHigh: 1000 },
+      { low: 8, high: 48, criticalHigh: 1000 },
+    ],
+  },
+  alkaline_phosphatase: {
+    name: 'Alkaline Phosphatase',
+    unit: 'U/L',
+    lowerIsBetter: true,
+    meaningfulChange: 20,
+    // Bone growth raises it well above adult values in children and teenagers
+    ranges: [
+      { maxAge: 17, low: 40, high: 500 },
+      { sex: 'MALE', low: 40, high: 129 },
+      { sex: 'FEMALE', low: 35, high: 104 },
+      { low: 35, high: 129 },
+    ],
+  },
+  bilirubin_total: {
+    name: 'Total Bilirubin',
+    unit: 'mg/dL',
+    lowerIsBetter: true,
+    meaningfulChange: 0.3,
+    ranges: [{ low: 0.1, high: 1.2, criticalHigh: 15 }],
+  },
+  hemoglobin: {
+    name: 'Hemoglobin',
+    unit: 'g/dL',
+    lowerIsBetter: false,
+    meaningfulChange: 1,
+    ranges: [
+      { sex: 'MALE', low: 13.5, high: 17.5, criticalLow: 7, criticalHigh: 20 },
+      { sex: 'FEMALE', low: 12, high: 15.5, criticalLow: 7, criticalHigh: 20 },
+      { low: 12, high: 17.5, criticalLow: 7, criticalHigh: 20 },
+    ],
+  },
+  hematocrit: {
+    name: 'Hematocrit',
+    unit: '%',
+    lowerIsBetter: false,
+    meaningfulChange: 3,
+    ranges: [
+      { sex: 'MALE', low: 38.3, high: 48.6, criticalLow: 20, criticalHigh: 60 },
+      { sex: 'FEMALE', low: 35.5, high: 44.9, criticalLow: 20, criticalHigh: 60 },
+      { low: 35.5, high: 48.6, criticalLow: 20, criticalHigh: 60 },
+    ],
+  },
+  rbc: {
+    name: 'Red Blood Cells',
+    unit: '10^6/µL',
+    lowerIsBetter: false,
+    meaningfulChange: 0.3,
+    ranges: [
+      { sex: 'MALE', low: 4.35, high: 5.65 },
+      { sex: 'FEMALE', low: 3.92, high: 5.13 },
+      { low: 3.92, high: 5.65 },
+    ],
+  },
+  wbc: {
+    name: 'White Blood Cells',
+    unit: '10^3/µL',
+    lowerIsBetter: true,
+    meaningfulChange: 2,
+    ranges: [
+      { maxAge: 17, low: 4.5, high: 13.5, criticalLow: 2, criticalHigh: 30 },
+      { low: 4.5, high: 11, criticalLow: 2, criticalHigh: 30 },
+    ],
+  },
+  platelets: {
+    name: 'Platelets',
+    unit: '10^3/µL',
+    lowerIsBetter: false,
+    meaningfulChange: 50,
+    ranges: [{ low: 150, high: 450, criticalLow: 50, criticalHigh: 1000 }],
+  },
+  mcv: {
+    name: 'Mean Corpuscular Volume',
+    unit: 'fL',
+    lowerIsBetter: true,
+    meaningfulChange: 5,
+    ranges: [{ low: 80, high: 100 }],
+  },
+  mch: {
+    name: 'Mean Corpuscular Hemoglobin',
+    unit: 'pg',
+    lowerIsBetter: false,
+    meaningfulChange: 2,
+    ranges: [{ low: 27, high: 33 }],
+  },
+  tsh: {
+    name: 'TSH',
+    unit: 'mIU/L',
+    lowerIsBetter: true,
+    meaningfulChange: 0.5,
+    // TSH rises with age; older adults are not flagged up to 6 mIU/L
+    ranges: [
+      { minAge: 70, low: 0.4, high: 6 },
+      { low: 0.4, high: 4 },
+    ],
+  },
+  free_t4: {
+    name: 'Free T4',
+    unit: 'ng/dL',
+    lowerIsBetter: false,
+    meaningfulChange: 0.2,
+    ranges: [{ low: 0.8, high: 1.8 }],
+  },
+  free_t3: {
+    name: 'Free T3',
+    unit: 'pg/mL',
+    lowerIsBetter: false,
+    meaningfulChange: 0.4,
+    ranges: [{ low: 2.3, high: 4.2 }],
+  },
+  vitamin_d: {
+    name: 'Vitamin D (25-OH)',
+    unit: 'ng/mL',
+    lowerIsBetter: false,
+    meaningfulChange: 5,
+    // Below 30 is insufficient and below 12 deficient; above 150 can be toxic
+    ranges: [{ low: 30, high: 100, criticalHigh: 150 }],
+  },
+  ferritin: {
+    name: 'Ferritin',
+    unit: 'ng/mL',
+    lowerIsBetter: false,
+    meaningfulChange: 20,
+    ranges: [
+      { sex: 'MALE', low: 24, high: 336 },
+      { sex: 'FEMALE', low: 11, high: 307 },
+      { low: 11, high: 336 },
+    ],
+  },
+  bp_systolic: {
+    name: 'Systolic Blood Pressure',
+    unit: 'mmHg',
+    lowerIsBetter: true,
+    meaningfulChange: 10,
+    ranges: [{ low: 90, high: 119, criticalLow: 70, criticalHigh: 180 }],
+  },
+  bp_diastolic: {
+    name: 'Diastolic Blood Pressure',
+    unit: 'mmHg',
+    lowerIsBetter: true,
+    meaningfulChange: 5,
+    ranges: [{ low: 60, high: 79, criticalLow: 40, criticalHigh: 120 }],
+  },
+  bp_mean_arterial: {
+    name: 'Mean Arterial Pressure',
+    unit: 'mmHg',
+    lowerIsBetter: true,
+    meaningfulChange: 7,
+    // Below 60 mmHg organs are not reliably perfused
+    ranges: [{ low: 70, high: 100, criticalLow: 60 }],
+  },
+  waist_circumference: {
+    name: 'Waist Circumference',
+    unit: 'cm',
+    lowerIsBetter: true,
+    meaningfulChange: 3,
+    // Europid IDF cutoffs; lib/metabolicSyndrome.ts applies the population-specific ones
+    ranges: [
+      { sex: 'MALE', minAge: 18, high: 94 },
+      { sex: 'FEMALE', minAge: 18, high: 80 },
+    ],
+  },
+  bmi: {
+    name: 'Body Mass Index',
+    unit: 'kg/m²',
+    lowerIsBetter: true,
+    meaningfulChange: 1,
+    // Adult WHO categories; children are assessed on age- and sex-specific percentiles
+    ranges: [{ minAge: 18, low: 18.5, high: 24.9 }],
+  },
+  heart_rate: {
+    name: 'Heart Rate',
+    unit: 'bpm',
+    lowerIsBetter: true,
+    meaningfulChange: 10,
+    ranges: [
+      { maxAge: 17, low: 60, high: 110, criticalLow: 40, criticalHigh: 180 },
+      { low: 60, high: 100, criticalLow: 40, criticalHigh: 150 },
+    ],
+  },
+  qtc_interval: {
+    name: 'QTc Interval',
+    unit: 'ms',
+    lowerIsBetter: true,
+    meaningfulChange: 30,
+    ranges: [
+      { sex: 'MALE', low: 350, high: 450, criticalHigh: 500 },
+      { sex: 'FEMALE', low: 350, high: 460, criticalHigh: 500 },
+      { low: 350, high: 460, criticalHigh: 500 },
+    ],
+  },
+  pr_interval: {
+    name: 'PR Interval',
+    unit: 'ms',
+    lowerIsBetter: true,
+    meaningfulChange: 20,
+    // Above 200 ms is first-degree AV block; below 120 ms suggests pre-excitation
+    ranges: [{ low: 120, high: 200, criticalHigh: 300 }],
+  },
+  qrs_duration: {
+    name: 'QRS Duration',
+    unit: 'ms',
+    lowerIsBetter: true,
+    meaningfulChange: 10,
+    // 120 ms or more is a bundle branch block or ventricular conduction delay
+    ranges: [{ low: 70, high: 119 }],
+  },
+};
+
+function ruleMatches(rule: ReferenceRangeRule, patient: PatientDemographics): boolean {
+  if (rule.sex && rule.sex !== patient.biologicalSex?.toUpperCase()) return false;
+
+  // Age-limited rules only apply when the age is known
+  if (rule.minAge !== undefined || rule.maxAge !== undefined) {
+    if (patient.age === null || patient.age === undefined) return false;
+    if (rule.minAge !== undefined && patient.age < rule.minAge) return false;
+    if (rule.maxAge !== undefined && patient.age > rule.maxAge) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Find the reference range that applies to a patient for an analyte
+ * @returns null when the analyte is not in the catalog
+ */
+export function resolveReferenceRange(
+  analyte: string,
+  patient: PatientDemographics = {}
+): ResolvedReferenceRange | null {
+  const reference = REFERENCE_RANGES[analyte];
+  if (!reference) return null;
+
+  const rule = reference.ranges.find((candidate) => ruleMatches(candidate, patient));
+  if (!rule) return null;
+
+  return {
+    analyte,
+    unit: reference.unit,
+    low: rule.low ?? null,
+    high: rule.high ?? null,
+    criticalLow: rule.criticalLow ?? null,
+    criticalHigh: rule.criticalHigh ?? null,
+  };
+}
+
+/**
+ * Flag a value against a reference range (null = within range)
+ */
+export function flagValue(
+  value: number,
+  range: Pick<ResolvedReferenceRange, 'low' | 'high' | 'criticalLow' | 'criticalHigh'>
+): AbnormalFlag | null {
+  if (range.criticalLow !== null && value < range.criticalLow) return 'LL';
+  if (range.criticalHigh !== null && value > range.criticalHigh) return 'HH';
+  if (range.low !== null && value < range.low) return 'L';
+  if (range.high !== null && value > range.high) return 'H';
+  return null;
+}
+
+/**
+ * Reference-range fields to store on a BiomarkerTrend row.
+ * Values in a unit other than the catalog unit are left unflagged.
+ */
+export function getBiomarkerRangeFields(
+  biomarkerType: string,
+  value: number,
+  unit: string,
+  patient: PatientDemographics = {}
+): {
+  flag: AbnormalFlag | null;
+  referenceLow: number | null;
+  referenceHigh: number | null;
+  criticalLow: number | null;
+  criticalHigh: number | null;
+} {
+  const range = resolveReferenceRange(biomarkerType, patient);
+
+  if (!range || range.unit !== unit) {
+    return { flag: null, referenceLow: null, referenceHigh: null, criticalLow: null, criticalHigh: null };
+  }
+
+  return {
+    flag: flagValue(value, range),
+    referenceLow: range.low,
+    referenceHigh: range.high,
+    criticalLow: range.criticalLow,
+    criticalHigh: range.criticalHigh,
+  };
+}
+
+/**
+ * Human readable range, e.g. "70–99 mg/dL", "≤ 200 mg/dL" or "≥ 40 mg/dL"
+ */
+export function formatReferenceRange(
+  low: number | null,
+  high: number | null,
+  unit: string
+): string | null {
+  if (low !== null && high !== null) return `${low}–${high} ${unit}`;
+  if (high !== null) return `≤ ${high} ${unit}`;
+  if (low !== null) return `≥ ${low} ${unit}`;
+  return null;
+}
+
+/**
+ * Whether lower values are better for an analyte (defaults to true for unknown analytes)
+ */
+export function isLowerBetter(analyte: string): boolean {
+  return REFERENCE_RANGES[analyte]?.lowerIsBetter ?? true;
+}
+
+// Share of the value treated as meaningful for analytes without a catalog entry
+const DEFAULT_MEANINGFUL_CHANGE_PERCENT = 10;
+
+/**
+ * Smallest clinically meaningful change of an analyte, in the catalog unit.
+ * Analytes outside the catalog use a share of the given value.
+ */
+export function getMeaningfulChange(analyte: string, value: number): number {
+  return REFERENCE_RANGES[analyte]?.meaningfulChange ?? Math.abs(value) * DEFAULT_MEANINGFUL_CHANGE_PERCENT / 100;
+}
+
+export const FLAG_LABELS: Record<AbnormalFlag, string> = {
+  LL: 'Critically low',
+  L: 'Low',
+  H: 'High',
+  HH: 'Critically high',
+};
@@ -0,0 +1,68 @@
+/**
+ * Report Content Extraction
+ * Decrypts stored report files and extracts text and images for LLM analysis
+ */
+
+import { readEncryptedFile } from './fileStorage';
+import { extractPDFContent } from './pdfToImage';
+
+export interface ExtractedReportContent {
+  text: string;
+  images: string[];
+}
+
+/**
+ * Extract text and images from medical report file
+ */
+export async function extractReportContent(
+  fileUrl: string,
+  mimeType: string,
+  fileName: string
+): Promise<ExtractedReportContent> {
+  try {
+    // Read and decrypt the file
+    const fileBuffer = await readEncryptedFile(fileUrl);
+
+    // Extract text and images based on file type
+    if (mimeType === 'application/pdf') {
+      // Render pages for vision analysis and read the embedded text layer locally
+      try {
+        console.log('📄 Extracting PDF content with pdf.js...');
+        const { text, images, pageCount } = await extractPDFContent(fileBuffer, {
+          maxPages: 10, // Limit to avoid token overflow
+        });
+        console.log(`✅ Extracted ${images.length} of ${pageCount} page(s) from PDF as images`);
+
+        // Scanned documents have no text layer, so the analysis relies on the page images
+        const textContent = text
+          ? `[PDF Document: ${fileName}]\n\n${text}`
+          : `[PDF Document: ${fileName}]\nNo text layer found (scanned document). The pages have been converted to images for visual analysis.`;
+
+        return { text: textContent, images };
+      } catch (pdfError) {
+        console.error('❌ PDF extraction failed:', pdfError);
+
+        return {
+          text: `[PDF file: ${fileName}]\nNote: Unable to read this PDF. Please ensure the file is a valid PDF and try again.`,
+          images: [],
+        };
+      }
+    } else if (mimeType.startsWith('image/')) {
+      // For images, convert to base64
+      const base64Image = fileBuffer.toString('base64');
+      return {
+        text: `[Image file: ${fileName}]`,
+        images: [base64Image],
+      };
+    } else {
+      // For other types, try to convert buffer to text
+      return {
+        text: fileBuffer.toString('utf-8'),
+        images: [],
+      };
+    }
+  } catch (error) {
+    console.error('Error extracting report content:', error);
+    throw new Error('Failed to extract content from report file');
+  }
+}
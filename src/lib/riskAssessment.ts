@@ -3,9 +3,15 @@
  * Implements established clinical risk scores and models
  */
 
+import { calculateKidneyRisk } from './kidneyFunction';
+import { calculateMetabolicSyndrome, WaistEthnicity } from './metabolicSyndrome';
+import { RiskFactorSource } from './patientRiskFactors';
+
 export interface RiskFactors {
   age: number;
   biologicalSex: 'MALE' | 'FEMALE';
+  race?: 'WHITE' | 'AFRICAN_AMERICAN' | 'OTHER';
+  ethnicity?: WaistEthnicity; // Selects the metabolic syndrome waist cutoff
   totalCholesterol?: number; // mg/dL
   hdlCholesterol?: number; // mg/dL
   ldlCholesterol?: number; // mg/dL
@@ -21,6 +27,8 @@ export interface RiskFactors {
   fastingGlucose?: number; // mg/dL
   hba1c?: number; // %
   triglycerides?: number; // mg/dL
+  egfr?: number; // mL/min/1.73m²
+  uacr?: number; // Urine albumin/creatinine ratio, mg/g
 }
 
 export interface RiskAssessmentResult {
@@ -31,11 +39,101 @@ export interface RiskAssessmentResult {
   recommendations: string[];
   interpretation: string;
   validityPeriod: number; // days until reassessment needed
+  contributions?: RiskContribution[]; // What each factor adds to the score
+}
+
+export interface RiskContribution {
+  factor: keyof RiskFactors;
+  label: string;
+  value: string | number | boolean | null;
+  points: number; // Score points, or percentage points of risk for the 10-year CVD models
+}
+
+// Values of a person at optimal cardiovascular risk (ACC/AHA), the starting point of a CVD breakdown
+const OPTIMAL_CVD_FACTORS: Partial<RiskFactors> = {
+  totalCholesterol: 170,
+  hdlCholesterol: 50,
+  systolicBP: 110,
+  hypertensionTreated: false,
+  smokingStatus: 'NEVER',
+  diabetesStatus: false,
+};
+
+const CVD_BREAKDOWN_STEPS: Array<{ label: string; keys: Array<keyof RiskFactors> }> = [
+  { label: 'Total cholesterol', keys: ['totalCholesterol'] },
+  { label: 'HDL cholesterol', keys: ['hdlCholesterol'] },
+  { label: 'Systolic blood pressure', keys: ['systolicBP', 'hypertensionTreated'] },
+  { label: 'Smoking', keys: ['smokingStatus'] },
+  { label: 'Diabetes', keys: ['diabetesStatus'] },
+];
+
+/**
+ * Break a 10-year risk down into percentage points per factor. Starts from the risk
+ * of someone the same age and sex with optimal values and applies the patient's
+ * values one factor at a time, so the contributions add up to the patient's risk.
+ */
+function breakDownCVDRisk(riskOf: (factors: RiskFactors) => number, factors: RiskFactors): RiskContribution[] {
+  let current: RiskFactors = { ...factors, ...OPTIMAL_CVD_FACTORS };
+  let previousRisk = riskOf(current);
+  const contributions: RiskContribution[] = [
+    { factor: 'age', label: 'Age and sex', value: factors.age, points: previousRisk },
+  ];
+
+  for (const { label, keys } of CVD_BREAKDOWN_STEPS) {
+    current = { ...current, ...Object.fromEntries(keys.map((key) => [key, factors[key]])) };
+    const risk = riskOf(current);
+    contributions.push({ factor: keys[0], label, value: factors[keys[0]] ?? null, points: risk - previousRisk });
+    previousRisk = risk;
+  }
+
+  return contributions;
+}
+
+interface FraminghamCoefficients {
+  lnAge: number;
+  lnTotalCholesterol: number;
+  lnHdl: number;
+  lnUntreatedSBP: number;
+  lnTreatedSBP: number;
+  smoker: number;
+  diabetes: number;
+  baselineSurvival: number; // S0(10)
+  meanSum: number; // Sum of coefficient x mean risk factor in the derivation cohort
+}
+
+// D'Agostino et al., Circulation 2008;117:743-753, Table 2
+const FRAMINGHAM_COEFFICIENTS: Record<'MALE' | 'FEMALE', FraminghamCoefficients> = {
+  FEMALE: {
+    lnAge: 2.32888, lnTotalCholesterol: 1.20904, lnHdl: -0.70833, lnUntreatedSBP: 2.76157,
+    lnTreatedSBP: 2.82263, smoker: 0.52873, diabetes: 0.69154, baselineSurvival: 0.95012, meanSum: 26.1931,
+  },
+  MALE: {
+    lnAge: 3.06117, lnTotalCholesterol: 1.1237, lnHdl: -0.93263, lnUntreatedSBP: 1.93303,
+    lnTreatedSBP: 1.99881, smoker: 0.65451, diabetes: 0.57367, baselineSurvival: 0.88936, meanSum: 23.9802,
+  },
+};
+
+// Age range of the Framingham derivation cohort
+const FRAMINGHAM_AGE_RANGE = [30, 74] as const;
+
+function framinghamRiskPercentage(factors: RiskFactors): number {
+  const c = FRAMINGHAM_COEFFICIENTS[factors.biologicalSex === 'MALE' ? 'MALE' : 'FEMALE'];
+
+  const individualSum =
+    c.lnAge * Math.log(factors.age) +
+    c.lnTotalCholesterol * Math.log(factors.totalCholesterol!) +
+    c.lnHdl * Math.log(factors.hdlCholesterol!) +
+    (factors.hypertensionTreated ? c.lnTreatedSBP : c.lnUntreatedSBP) * Math.log(factors.systolicBP!) +
+    (factors.smokingStatus === 'CURRENT' ? c.smoker : 0) +
+    (factors.diabetesStatus ? c.diabetes : 0);
+
+  return (1 - Math.pow(c.baselineSurvival, Math.exp(individualSum - c.meanSum))) * 100;
 }
 
 /**
  * Framingham Risk Score for 10-year CVD risk
- * Based on the 2008 Framingham General Cardiovascular Disease Risk Score
+ * 2008 Framingham General Cardiovascular Disease model (continuous, sex-specific Cox model):
+ * risk = 1 - S0(10) ^ exp(sum(beta x X) - mean sum)
  */
 export function calculateFraminghamRisk(factors: RiskFactors): RiskAssessmentResult {
   const { age, biologicalSex, totalCholesterol, hdlCholesterol, systolicBP, 
@@ -46,120 +144,200 @@ export function calculateFraminghamRisk(factors: RiskFactors): RiskAssessmentRes
     throw new Error('Missing required parameters for Framingham calculation');
   }
 
-  let points = 0;
-  const sex = biologicalSex === 'MALE' ? 'M' : 'F';
-
-  // Age points
-  if (sex === 'M') {
-    if (age >= 30 && age <= 34) points += -1;
-    else if (age >= 35 && age <= 39) points += 0;
-    else if (age >= 40 && age <= 44) points += 1;
-    else if (age >= 45 && age <= 49) points += 2;
-    else if (age >= 50 && age <= 54) points += 3;
-    else if (age >= 55 && age <= 59) points += 4;
-    else if (age >= 60 && age <= 64) points += 5;
-    else if (age >= 65 && age <= 69) points += 6;
-    else if (age >= 70 && age <= 74) points += 7;
-    else if (age >= 75) points += 8;
-  } else {
-    if (age >= 30 && age <= 34) points += -9;
-    else if (age >= 35 && age <= 39) points += -4;
-    else if (age >= 40 && age <= 44) points += 0;
-    else if (age >= 45 && age <= 49) points += 3;
-    else if (age >= 50 && age <= 54) points += 6;
-    else if (age >= 55 && age <= 59) points += 7;
-    else if (age >= 60 && age <= 64) points += 8;
-    else if (age >= 65 && age <= 69) points += 9;
-    else if (age >= 70 && age <= 74) points += 10;
-    else if (age >= 75) points += 11;
+  const [minAge, maxAge] = FRAMINGHAM_AGE_RANGE;
+  if (age < minAge || age > maxAge) {
+    throw new Error(`Framingham risk is only valid for ages ${minAge}-${maxAge} (got ${age})`);
   }
 
-  // Total cholesterol points
-  if (sex === 'M') {
-    if (totalCholesterol < 160) points += -3;
-    else if (totalCholesterol < 200) points += 0;
-    else if (totalCholesterol < 240) points += 1;
-    else if (totalCholesterol < 280) points += 2;
-    else points += 3;
-  } else {
-    if (totalCholesterol < 160) points += -2;
-    else if (totalCholesterol < 200) points += 0;
-    else if (totalCholesterol < 240) points += 1;
-    else if (totalCholesterol < 280) points += 2;
-    else points += 3;
-  }
+  const riskPercentage = framinghamRiskPercentage(factors);
 
-  // HDL cholesterol points (same for both sexes)
-  if (hdlCholesterol < 35) points += 2;
-  else if (hdlCholesterol < 45) points += 1;
-  else if (hdlCholesterol < 50) points += 0;
-  else if (hdlCholesterol < 60) points += -1;
-  else points += -2;
-
-  // Blood pressure points
-  if (hypertensionTreated) {
-    if (systolicBP < 120) points += 0;
-    else if (systolicBP < 130) points += 1;
-    else if (systolicBP < 140) points += 2;
-    else if (systolicBP < 160) points += 3;
-    else points += 4;
-  } else {
-    if (systolicBP < 120) points += 0;
-    else if (systolicBP < 130) points += 1;
-    else if (systolicBP < 140) points += 1;
-    else if (systolicBP < 160) points += 2;
-    else points += 3;
-  }
+  // <10% low, 10-20% intermediate, >=20% high (ATP III cut-offs); >=30% is flagged as very high
+  let riskCategory: 'LOW' | 'MODERATE' | 'HIGH' | 'VERY_HIGH';
+  if (riskPercentage < 10) riskCategory = 'LOW';
+  else if (riskPercentage < 20) riskCategory = 'MODERATE';
+  else if (riskPercentage < 30) riskCategory = 'HIGH';
+  else riskCategory = 'VERY_HIGH';
 
-  // Smoking (5 points if current smoker)
-  if (smokingStatus === 'CURRENT') points += 4;
+  const recommendations = generateCVDRecommendations(riskCategory, factors);
+  const interpretation = `Based on the Framingham Risk Score, you have a ${riskPercentage.toFixed(1)}% risk of developing cardiovascular disease in the next 10 years. This places you in the ${riskCategory.replace('_', ' ')} risk category.`;
 
-  // Diabetes (3 points if diabetic)
-  if (diabetesStatus) points += 3;
+  return {
+    score: Math.round(riskPercentage * 10) / 10,
+    riskCategory,
+    percentageRisk: riskPercentage,
+    factors: {
+      age,
+      sex: biologicalSex,
+      totalCholesterol,
+      hdlCholesterol,
+      systolicBP,
+      smoking: smokingStatus,
+      diabetes: diabetesStatus,
+      hypertensionTreated,
+    },
+    recommendations,
+    interpretation,
+    validityPeriod: 365, // Reassess yearly
+    contributions: breakDownCVDRisk(framinghamRiskPercentage, factors),
+  };
+}
 
-  // Convert points to 10-year risk percentage (simplified mapping)
-  let riskPercentage = 0;
-  let riskCategory: 'LOW' | 'MODERATE' | 'HIGH' | 'VERY_HIGH' = 'LOW';
+interface PooledCohortCoefficients {
+  lnAge: number;
+  lnAgeSquared: number;
+  lnTotalCholesterol: number;
+  lnAgeLnTotalCholesterol: number;
+  lnHdl: number;
+  lnAgeLnHdl: number;
+  lnTreatedSBP: number;
+  lnAgeLnTreatedSBP: number;
+  lnUntreatedSBP: number;
+  lnAgeLnUntreatedSBP: number;
+  smoker: number;
+  lnAgeSmoker: number;
+  diabetes: number;
+  baselineSurvival: number; // S10
+  meanSum: number; // Mean of the individual sums in the derivation cohort
+}
 
-  if (points <= 0) {
-    riskPercentage = 2;
-    riskCategory = 'LOW';
-  } else if (points <= 5) {
-    riskPercentage = 3 + (points * 1.5);
+// Goff et al., 2013 ACC/AHA Guideline on the Assessment of Cardiovascular Risk, Table A
+const POOLED_COHORT_COEFFICIENTS: Record<'WHITE' | 'AFRICAN_AMERICAN', Record<'MALE' | 'FEMALE', PooledCohortCoefficients>> = {
+  WHITE: {
+    FEMALE: {
+      lnAge: -29.799, lnAgeSquared: 4.884, lnTotalCholesterol: 13.54, lnAgeLnTotalCholesterol: -3.114,
+      lnHdl: -13.578, lnAgeLnHdl: 3.149, lnTreatedSBP: 2.019, lnAgeLnTreatedSBP: 0,
+      lnUntreatedSBP: 1.957, lnAgeLnUntreatedSBP: 0, smoker: 7.574, lnAgeSmoker: -1.665,
+      diabetes: 0.661, baselineSurvival: 0.9665, meanSum: -29.18,
+    },
+    MALE: {
+      lnAge: 12.344, lnAgeSquared: 0, lnTotalCholesterol: 11.853, lnAgeLnTotalCholesterol: -2.664,
+      lnHdl: -7.99, lnAgeLnHdl: 1.769, lnTreatedSBP: 1.797, lnAgeLnTreatedSBP: 0,
+      lnUntreatedSBP: 1.764, lnAgeLnUntreatedSBP: 0, smoker: 7.837, lnAgeSmoker: -1.795,
+      diabetes: 0.658, baselineSurvival: 0.9144, meanSum: 61.18,
+    },
+  },
+  AFRICAN_AMERICAN: {
+    FEMALE: {
+      lnAge: 17.114, lnAgeSquared: 0, lnTotalCholesterol: 0.94, lnAgeLnTotalCholesterol: 0,
+      lnHdl: -18.92, lnAgeLnHdl: 4.475, lnTreatedSBP: 29.291, lnAgeLnTreatedSBP: -6.432,
+      lnUntreatedSBP: 27.82, lnAgeLnUntreatedSBP: -6.087, smoker: 0.691, lnAgeSmoker: 0,
+      diabetes: 0.874, baselineSurvival: 0.9533, meanSum: 86.61,
+    },
+    MALE: {
+      lnAge: 2.469, lnAgeSquared: 0, lnTotalCholesterol: 0.302, lnAgeLnTotalCholesterol: 0,
+      lnHdl: -0.307, lnAgeLnHdl: 0, lnTreatedSBP: 1.916, lnAgeLnTreatedSBP: 0,
+      lnUntreatedSBP: 1.809, lnAgeLnUntreatedSBP: 0, smoker: 0.549, lnAgeSmoker: 0,
+      diabetes: 0.645, baselineSurvival: 0.8954, meanSum: 19.54,
+    },
+  },
+};
+
+// Input ranges the equations were validated for
+const POOLED_COHORT_LIMITS = {
+  age: [40, 79],
+  totalCholesterol: [130, 320],
+  hdlCholesterol: [20, 100],
+  systolicBP: [90, 200],
+} as const;
+
+function pooledCohortRiskPercentage(factors: RiskFactors): number {
+  const { age, biologicalSex, totalCholesterol, hdlCholesterol, systolicBP,
+          smokingStatus, diabetesStatus, hypertensionTreated } = factors;
+
+  const sex = biologicalSex === 'MALE' ? 'MALE' : 'FEMALE';
+  const equation = factors.race === 'AFRICAN_AMERICAN' ? 'AFRICAN_AMERICAN' : 'WHITE';
+  const c = POOLED_COHORT_COEFFICIENTS[equation][sex];
+
+  const lnAge = Math.log(age);
+  const lnTotalCholesterol = Math.log(totalCholesterol!);
+  const lnHdl = Math.log(hdlCholesterol!);
+  const lnSBP = Math.log(systolicBP!);
+  const smoker = smokingStatus === 'CURRENT' ? 1 : 0;
+  const diabetes = diabetesStatus ? 1 : 0;
+
+  const individualSum =
+    c.lnAge * lnAge +
+    c.lnAgeSquared * lnAge * lnAge +
+    c.lnTotalCholesterol * lnTotalCholesterol +
+    c.lnAgeLnTotalCholesterol * lnAge * lnTotalCholesterol +
+    c.lnHdl * lnHdl +
+    c.lnAgeLnHdl * lnAge * lnHdl +
+    (hypertensionTreated
+      ? c.lnTreatedSBP * lnSBP + c.lnAgeLnTreatedSBP * lnAge * lnSBP
+      : c.lnUntreatedSBP * lnSBP + c.lnAgeLnUntreatedSBP * lnAge * lnSBP) +
+    c.smoker * smoker +
+    c.lnAgeSmoker * lnAge * smoker +
+    c.diabetes * diabetes;
+
+  return (1 - Math.pow(c.baselineSurvival, Math.exp(individualSum - c.meanSum))) * 100;
+}
+
+/**
+ * ACC/AHA Pooled Cohort Equations for 10-year ASCVD risk (first hard ASCVD event)
+ * Race- and sex-specific equations; patients of other races use the white equations,
+ * as the guideline recommends. Throws when an input is outside the validated range.
+ */
+export function calculateASCVDRisk(factors: RiskFactors): RiskAssessmentResult {
+  const { age, biologicalSex, totalCholesterol, hdlCholesterol, ldlCholesterol, systolicBP,
+          smokingStatus, diabetesStatus, hypertensionTreated } = factors;
+
+  if (!age || !totalCholesterol || !hdlCholesterol || !systolicBP) {
+    throw new Error('Missing required parameters for ASCVD calculation');
+  }
+
+  const inputs = { age, totalCholesterol, hdlCholesterol, systolicBP };
+  for (const [name, [min, max]] of Object.entries(POOLED_COHORT_LIMITS)) {
+    const value = inputs[name as keyof typeof inputs];
+    if (value < min || value > max) {
+      throw new Error(`Pooled Cohort Equations are only valid for ${name} between ${min} and ${max} (got ${value})`);
+    }
+  }
+
+  const equation = factors.race === 'AFRICAN_AMERICAN' ? 'AFRICAN_AMERICAN' : 'WHITE';
+  const riskPercentage = pooledCohortRiskPercentage(factors);
+
+  // 2018 AHA/ACC cholesterol guideline risk groups
+  let guidelineCategory: 'LOW' | 'BORDERLINE' | 'INTERMEDIATE' | 'HIGH';
+  let riskCategory: 'LOW' | 'MODERATE' | 'HIGH' | 'VERY_HIGH';
+  if (riskPercentage < 5) {
+    guidelineCategory = 'LOW';
     riskCategory = 'LOW';
-  } else if (points <= 10) {
-    riskPercentage = 10 + ((points - 5) * 2);
+  } else if (riskPercentage < 7.5) {
+    guidelineCategory = 'BORDERLINE';
     riskCategory = 'MODERATE';
-  } else if (points <= 15) {
-    riskPercentage = 20 + ((points - 10) * 3);
+  } else if (riskPercentage < 20) {
+    guidelineCategory = 'INTERMEDIATE';
     riskCategory = 'HIGH';
   } else {
-    riskPercentage = 35 + ((points - 15) * 2);
+    guidelineCategory = 'HIGH';
     riskCategory = 'VERY_HIGH';
   }
 
-  riskPercentage = Math.min(riskPercentage, 60); // Cap at 60%
-
-  const recommendations = generateCVDRecommendations(riskCategory, factors);
-  const interpretation = `Based on the Framingham Risk Score, you have a ${riskPercentage.toFixed(1)}% risk of developing cardiovascular disease in the next 10 years. This places you in the ${riskCategory.replace('_', ' ')} risk category.`;
+  const recommendations = generateASCVDRecommendations(guidelineCategory, factors);
+  const interpretation = `Based on the ACC/AHA Pooled Cohort Equations, your estimated risk of a first heart attack or stroke in the next 10 years is ${riskPercentage.toFixed(1)}%. This is ${guidelineCategory.toLowerCase()} risk under the 2018 cholesterol guideline.`;
 
   return {
-    score: points,
+    score: Math.round(riskPercentage * 10) / 10,
     riskCategory,
     percentageRisk: riskPercentage,
     factors: {
       age,
       sex: biologicalSex,
+      race: factors.race ?? null,
+      equation,
       totalCholesterol,
       hdlCholesterol,
+      ldlCholesterol,
       systolicBP,
       smoking: smokingStatus,
       diabetes: diabetesStatus,
-      hypertensionTreated,
+      hypertensionTreated: !!hypertensionTreated,
+      guidelineCategory,
     },
     recommendations,
     interpretation,
-    validityPeriod: 365, // Reassess yearly
+    validityPeriod: 365,
+    contributions: breakDownCVDRisk(pooledCohortRiskPercentage, factors),
   };
 }
 
@@ -171,7 +349,10 @@ export function calculateDiabetesRisk(factors: RiskFactors): RiskAssessmentResul
   const { age, weight, height, waistCircumference, familyHistoryCVD, 
           fastingGlucose, hba1c, systolicBP } = factors;
 
-  let points = 0;
+  const contributions: RiskContribution[] = [];
+  const addPoints = (factor: keyof RiskFactors, label: string, value: RiskContribution['value'], points: number) => {
+    if (points) contributions.push({ factor, label, value, points });
+  };
 
   // Calculate BMI if height and weight available
   let bmi: number | undefined;
@@ -181,30 +362,33 @@ export function calculateDiabetesRisk(factors: RiskFactors): RiskAssessmentResul
   }
 
   // Age points
-  if (age && age >= 45) points += 2;
-  else if (age && age >= 40) points += 1;
+  if (age && age >= 45) addPoints('age', 'Age', age, 2);
+  else if (age && age >= 40) addPoints('age', 'Age', age, 1);
 
   // BMI points
   if (bmi) {
-    if (bmi >= 30) points += 3;
-    else if (bmi >= 25) points += 2;
+    const bmiValue = Math.round(bmi * 10) / 10;
+    if (bmi >= 30) addPoints('weight', 'BMI', bmiValue, 3);
+    else if (bmi >= 25) addPoints('weight', 'BMI', bmiValue, 2);
   }
 
   // Waist circumference (indicator of central obesity)
   if (waistCircumference) {
     const threshold = factors.biologicalSex === 'MALE' ? 102 : 88; // cm
-    if (waistCircumference >= threshold) points += 2;
+    if (waistCircumference >= threshold) addPoints('waistCircumference', 'Waist circumference', waistCircumference, 2);
   }
 
   // Family history
-  if (familyHistoryCVD) points += 2;
+  if (familyHistoryCVD) addPoints('familyHistoryCVD', 'Family history', true, 2);
 
   // Hypertension
-  if (systolicBP && systolicBP >= 140) points += 2;
+  if (systolicBP && systolicBP >= 140) addPoints('systolicBP', 'Systolic blood pressure', systolicBP, 2);
 
   // Prediabetes indicators
-  if (fastingGlucose && fastingGlucose >= 100 && fastingGlucose < 126) points += 3;
-  if (hba1c && hba1c >= 5.7 && hba1c < 6.5) points += 3;
+  if (fastingGlucose && fastingGlucose >= 100 && fastingGlucose < 126) addPoints('fastingGlucose', 'Fasting glucose', fastingGlucose, 3);
+  if (hba1c && hba1c >= 5.7 && hba1c < 6.5) addPoints('hba1c', 'HbA1c', hba1c, 3);
+
+  const points = contributions.reduce((sum, contribution) => sum + contribution.points, 0);
 
   // Determine risk category
   let riskCategory: 'LOW' | 'MODERATE' | 'HIGH' | 'VERY_HIGH';
@@ -235,6 +419,7 @@ export function calculateDiabetesRisk(factors: RiskFactors): RiskAssessmentResul
     recommendations,
     interpretation,
     validityPeriod: 365,
+    contributions,
   };
 }
 
@@ -275,6 +460,43 @@ function generateCVDRecommendations(
   return recommendations;
 }
 
+/**
+ * Generate statin and lifestyle recommendations from the 2018 AHA/ACC cholesterol guideline
+ */
+function generateASCVDRecommendations(
+  guidelineCategory: 'LOW' | 'BORDERLINE' | 'INTERMEDIATE' | 'HIGH',
+  factors: RiskFactors
+): string[] {
+  const recommendations: string[] = [];
+
+  if (factors.ldlCholesterol && factors.ldlCholesterol >= 190) {
+    recommendations.push('💊 LDL cholesterol of 190 mg/dL or higher calls for high-intensity statin therapy regardless of calculated risk');
+  } else if (factors.diabetesStatus && factors.age <= 75) {
+    recommendations.push('💊 Adults with diabetes aged 40-75 are candidates for at least moderate-intensity statin therapy');
+  }
+
+  if (guidelineCategory === 'HIGH') {
+    recommendations.push('💊 High-intensity statin therapy to lower LDL cholesterol by 50% or more is recommended');
+  } else if (guidelineCategory === 'INTERMEDIATE') {
+    recommendations.push('💊 Discuss starting a moderate-intensity statin with your doctor; risk-enhancing factors or a coronary calcium score can guide the decision');
+  } else if (guidelineCategory === 'BORDERLINE') {
+    recommendations.push('🩺 Ask your doctor whether risk-enhancing factors (family history, chronic kidney disease, metabolic syndrome) favor statin therapy');
+  }
+
+  if (factors.smokingStatus === 'CURRENT') {
+    recommendations.push('🚭 Smoking cessation is the single most important step to reduce cardiovascular risk');
+  }
+
+  if (factors.systolicBP && factors.systolicBP >= 130) {
+    recommendations.push('💊 Work with your doctor to bring blood pressure below 130/80 mmHg');
+  }
+
+  recommendations.push('🏃 Aim for 150 minutes of moderate-intensity aerobic exercise per week');
+  recommendations.push('🥦 Follow a heart-healthy diet (Mediterranean or DASH diet)');
+
+  return recommendations;
+}
+
 /**
  * Generate personalized recommendations for diabetes risk
  */
@@ -309,16 +531,26 @@ function generateDiabetesRecommendations(
   return recommendations;
 }
 
+export interface ComprehensiveRiskProfile {
+  framingham?: RiskAssessmentResult;
+  ascvd?: RiskAssessmentResult;
+  diabetes?: RiskAssessmentResult;
+  kidney?: RiskAssessmentResult;
+  metabolicSyndrome?: RiskAssessmentResult;
+  // Only for patients with atrial fibrillation; added when a patient's risk is reassessed
+  cha2ds2vasc?: RiskAssessmentResult;
+  hasBled?: RiskAssessmentResult;
+  overallHealthScore: number;
+}
+
 /**
  * Calculate comprehensive risk profile
+ * @param sources Where each factor came from, shown with the metabolic syndrome criteria
  */
 export async function calculateComprehensiveRiskProfile(
-  factors: RiskFactors
-): Promise<{
-  framingham?: RiskAssessmentResult;
-  diabetes?: RiskAssessmentResult;
-  overallHealthScore: number;
-}> {
+  factors: RiskFactors,
+  sources: Record<string, RiskFactorSource> = {}
+): Promise<ComprehensiveRiskProfile> {
   const results: any = {
     overallHealthScore: 100, // Start with perfect score
   };
@@ -336,6 +568,15 @@ export async function calculateComprehensiveRiskProfile(
     console.log('Could not calculate Framingham risk:', error);
   }
 
+  // Pooled Cohort Equations need the same inputs; they describe the same CVD risk, so the health score is not reduced twice
+  try {
+    if (factors.totalCholesterol && factors.hdlCholesterol && factors.systolicBP) {
+      results.ascvd = calculateASCVDRisk(factors);
+    }
+  } catch (error: any) {
+    console.log('Could not calculate ASCVD risk:', error.message);
+  }
+
   // Try to calculate diabetes risk
   try {
     if (factors.age && (factors.weight || factors.fastingGlucose)) {
@@ -349,6 +590,21 @@ export async function calculateComprehensiveRiskProfile(
     console.log('Could not calculate diabetes risk:', error);
   }
 
+  // KDIGO CKD stage from eGFR and albuminuria
+  if (factors.egfr) {
+    results.kidney = calculateKidneyRisk(factors.egfr, factors.uacr);
+    if (results.kidney.riskCategory === 'HIGH') results.overallHealthScore -= 15;
+    else if (results.kidney.riskCategory === 'VERY_HIGH') results.overallHealthScore -= 25;
+    else if (results.kidney.riskCategory === 'MODERATE') results.overallHealthScore -= 8;
+  }
+
+  // Harmonized metabolic syndrome criteria, when at least three can be evaluated
+  const metabolicSyndrome = calculateMetabolicSyndrome(factors, sources);
+  if (metabolicSyndrome) {
+    results.metabolicSyndrome = metabolicSyndrome;
+    if (metabolicSyndrome.factors.hasMetabolicSyndrome) results.overallHealthScore -= 10;
+  }
+
   // Adjust for lifestyle factors
   if (factors.smokingStatus === 'CURRENT') results.overallHealthScore -= 15;
   if (factors.smokingStatus === 'FORMER') results.overallHealthScore -= 5;
@@ -358,3 +614,47 @@ export async function calculateComprehensiveRiskProfile(
 
   return results;
 }
+
+export interface RiskScenarioComparison {
+  baselineFactors: RiskFactors;
+  scenarioFactors: RiskFactors;
+  baseline: ComprehensiveRiskProfile;
+  scenario: ComprehensiveRiskProfile;
+}
+
+/**
+ * Apply what-if changes to a patient's risk factors. A lower LDL lowers total
+ * cholesterol by the same amount unless total cholesterol is changed as well,
+ * since the CVD models only use total and HDL cholesterol.
+ */
+export function applyRiskScenario(baseline: RiskFactors, changes: Partial<RiskFactors>): RiskFactors {
+  const scenario: RiskFactors = { ...baseline, ...changes };
+
+  if (
+    changes.ldlCholesterol != null &&
+    changes.totalCholesterol == null &&
+    baseline.ldlCholesterol != null &&
+    baseline.totalCholesterol != null
+  ) {
+    scenario.totalCholesterol = baseline.totalCholesterol + (changes.ldlCholesterol - baseline.ldlCholesterol);
+  }
+
+  return scenario;
+}
+
+/**
+ * Recalculate every risk score with what-if changes, side by side with the current scores
+ */
+export async function simulateRiskScenario(
+  baseline: RiskFactors,
+  changes: Partial<RiskFactors>
+): Promise<RiskScenarioComparison> {
+  const scenarioFactors = applyRiskScenario(baseline, changes);
+
+  return {
+    baselineFactors: baseline,
+    scenarioFactors,
+    baseline: await calculateComprehensiveRiskProfile(baseline),
+    scenario: await calculateComprehensiveRiskProfile(scenarioFactors),
+  };
+}
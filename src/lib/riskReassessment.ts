@@ -0,0 +1,347 @@
+/**
+ * Risk Reassessment
+ * Recalculates and stores a patient's risk assessments when relevant biomarkers
+ * arrive, an ECG shows atrial fibrillation or a stored assessment expires, and
+ * emails the patient when a risk category changes
+ */
+
+import { RiskAssessment } from '@prisma/client';
+import { prisma } from '@/utils/prismaDB';
+import { sendEmail } from '@/utils/email';
+import {
+  calculateComprehensiveRiskProfile,
+  ComprehensiveRiskProfile,
+  RiskAssessmentResult,
+  RiskFactors,
+} from './riskAssessment';
+import { getPatientRiskInputs, RiskFactorSource } from './patientRiskFactors';
+import { RISK_FACTOR_ANALYTES, RISK_FACTOR_CALCULATED_ANALYTES } from './unitConversion';
+import { getRiskAssessmentEducationalResources } from './educationalContent';
+import { calculateCHA2DS2VASc, calculateHASBLED, getAtrialFibrillationInputs } from './atrialFibrillation';
+
+export type RiskAssessmentTrigger =
+  | 'MANUAL'
+  | 'CLINICIAN'
+  | 'NEW_BIOMARKERS'
+  | 'IMPORT_UNDONE'
+  | 'BIOMARKERS_REMOVED'
+  | 'ECG_FINDING'
+  | 'EXPIRED';
+
+export interface RiskCategoryChange {
+  assessmentType: string;
+  label: string;
+  from: string;
+  to: string;
+}
+
+export interface RiskReassessment {
+  riskProfile: ComprehensiveRiskProfile;
+  assessments: RiskAssessment[];
+  categoryChanges: RiskCategoryChange[];
+}
+
+// Stored assessment type and display name of each calculator in the risk profile
+const ASSESSMENT_TYPES: Array<{
+  key: keyof Omit<ComprehensiveRiskProfile, 'overallHealthScore'>;
+  assessmentType: string;
+  label: string;
+}> = [
+  { key: 'framingham', assessmentType: 'FRAMINGHAM_CVD', label: 'Framingham cardiovascular risk' },
+  { key: 'ascvd', assessmentType: 'ASCVD', label: 'ASCVD 10-year risk' },
+  { key: 'kidney', assessmentType: 'KDIGO_CKD', label: 'Kidney disease (KDIGO) risk' },
+  { key: 'diabetes', assessmentType: 'DIABETES_RISK', label: 'Type 2 diabetes risk' },
+  { key: 'metabolicSyndrome', assessmentType: 'METABOLIC_SYNDROME', label: 'Metabolic syndrome' },
+  { key: 'cha2ds2vasc', assessmentType: 'CHA2DS2_VASC', label: 'Atrial fibrillation stroke risk (CHA2DS2-VASc)' },
+  { key: 'hasBled', assessmentType: 'HAS_BLED', label: 'Anticoagulation bleeding risk (HAS-BLED)' },
+];
+
+const REASSESSMENT_INTERVAL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RISK_FACTOR_BIOMARKERS = new Set([
+  ...Object.values(RISK_FACTOR_ANALYTES),
+  ...Object.values(RISK_FACTOR_CALCULATED_ANALYTES),
+]);
+
+/**
+ * Whether a biomarker is an input to any risk calculator
+ */
+export function isRiskFactorBiomarker(biomarkerType: string): boolean {
+  return RISK_FACTOR_BIOMARKERS.has(biomarkerType);
+}
+
+// Doctor signing a CLINICIAN assessment
+export interface RiskAssessmentSignature {
+  doctorId: string;
+  note?: string | null;
+}
+
+/**
+ * Calculate and store a patient's risk assessments from the latest value of each
+ * factor. Values in overrides (canonical units) take precedence over stored ones;
+ * in a CLINICIAN assessment they are values the signing doctor verified.
+ * Each assessment records its trigger, where each input came from and, when the
+ * category changed, the category of the previous assessment of that type.
+ */
+export async function reassessPatientRisk(
+  userId: string,
+  trigger: RiskAssessmentTrigger,
+  overrides: Partial<RiskFactors> = {},
+  signature?: RiskAssessmentSignature
+): Promise<RiskReassessment> {
+  if (trigger === 'CLINICIAN' && !signature) {
+    throw new Error('A clinician assessment must be signed by a doctor');
+  }
+
+  const { factors, sources } = await getPatientRiskInputs(userId);
+
+  const inputSources: Record<string, RiskFactorSource> = { ...sources };
+  for (const field of Object.keys(overrides)) {
+    inputSources[field] = { source: trigger === 'CLINICIAN' ? 'CLINICIAN' : 'REQUEST' };
+  }
+
+  const riskProfile = await calculateComprehensiveRiskProfile({ ...factors, ...overrides }, inputSources);
+
+  const afInputs = await getAtrialFibrillationInputs(userId, { ...factors, ...overrides }, inputSources);
+  if (afInputs) {
+    riskProfile.cha2ds2vasc = calculateCHA2DS2VASc(afInputs);
+    riskProfile.hasBled = calculateHASBLED(afInputs);
+  }
+
+  const assessments: RiskAssessment[] = [];
+  const categoryChanges: RiskCategoryChange[] = [];
+
+  for (const { key, assessmentType, label } of ASSESSMENT_TYPES) {
+    const result: RiskAssessmentResult | undefined = riskProfile[key];
+    if (!result) continue;
+
+    const previous = await prisma.riskAssessment.findFirst({
+      where: { userId, assessmentType },
+      orderBy: { calculatedAt: 'desc' },
+    });
+    const categoryChanged = !!previous && previous.riskCategory !== result.riskCategory;
+    const educationalResources = getRiskAssessmentEducationalResources(assessmentType);
+
+    const assessment = await prisma.riskAssessment.create({
+      data: {
+        userId,
+        assessmentType,
+        score: result.score,
+        riskCategory: result.riskCategory,
+        riskPercentage: result.percentageRisk,
+        factors: result.factors,
+        recommendations: result.recommendations.join('\n'),
+        validUntil: new Date(Date.now() + result.validityPeriod * DAY_MS),
+        trigger,
+        assessedById: signature?.doctorId ?? null,
+        clinicianNote: signature?.note || null,
+        previousCategory: categoryChanged ? previous.riskCategory : null,
+        inputSources: JSON.parse(JSON.stringify(inputSources)),
+        educationalLinks: educationalResources.length > 0 ? JSON.stringify(educationalResources) : null,
+      },
+    });
+    assessments.push(assessment);
+
+    if (categoryChanged) {
+      categoryChanges.push({ assessmentType, label, from: previous.riskCategory, to: result.riskCategory });
+    }
+  }
+
+  // Update health score in patient profile
+  await prisma.patientProfile.updateMany({
+    where: { userId },
+    data: {
+      healthScore: riskProfile.overallHealthScore,
+      riskScores: {
+        framingham: riskProfile.framingham?.score,
+        framinghamRisk: riskProfile.framingham?.percentageRisk,
+        ascvdRisk: riskProfile.ascvd?.percentageRisk,
+        diabetes: riskProfile.diabetes?.score,
+        diabetesRisk: riskProfile.diabetes?.percentageRisk,
+        kidneyStage: riskProfile.kidney?.factors.stage,
+        metabolicSyndromeCriteria: riskProfile.metabolicSyndrome?.score,
+        cha2ds2vasc: riskProfile.cha2ds2vasc?.score,
+        hasBled: riskProfile.hasBled?.score,
+        lastUpdated: new Date().toISOString(),
+      },
+    },
+  });
+
+  // A patient's own calculation is shown to them right away
+  if (trigger !== 'MANUAL' && categoryChanges.length > 0) {
+    await notifyRiskCategoryChanges(userId, categoryChanges);
+  }
+
+  return { riskProfile, assessments, categoryChanges };
+}
+
+/**
+ * Email the patient about changed risk categories. Failures are logged, not thrown,
+ * so a missing mail setup never blocks storing the assessments.
+ */
+async function notifyRiskCategoryChanges(userId: string, changes: RiskCategoryChange[]): Promise<void> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { email: true, name: true },
+  });
+  if (!user?.email) return;
+
+  const formatCategory = (category: string) => category.replace('_', ' ').toLowerCase();
+  const rows = changes
+    .map(({ label, from, to }) => `<li>${label}: ${formatCategory(from)} → <strong>${formatCategory(to)}</strong></li>`)
+    .join('');
+
+  try {
+    await sendEmail({
+      to: user.email,
+      subject: 'Your health risk assessment has changed',
+      html: `
+        <p>Hello ${user.name || ''},</p>
+        <p>Your risk assessment was updated with your latest results:</p>
+        <ul>${rows}</ul>
+        <p>Sign in to your dashboard to see the details and recommendations, and talk to your doctor about any questions.</p>
+      `,
+    });
+    console.log(`📧 Notified patient ${userId} of ${changes.length} risk category change(s)`);
+  } catch (error) {
+    console.error(`Failed to notify patient ${userId} of risk category changes:`, error);
+  }
+}
+
+/**
+ * Reassess a patient's risk after new biomarker results were stored, when any of
+ * them is a risk calculator input. Errors are logged so saving the results never fails.
+ */
+export async function reassessRiskAfterNewBiomarkers(
+  userId: string,
+  biomarkerTypes: string[]
+): Promise<RiskReassessment | null> {
+  if (!biomarkerTypes.some(isRiskFactorBiomarker)) return null;
+
+  try {
+    const reassessment = await reassessPatientRisk(userId, 'NEW_BIOMARKERS');
+    console.log(`🔄 Reassessed risk for patient ${userId} after new ${biomarkerTypes.join(', ')} results`);
+    return reassessment;
+  } catch (error) {
+    console.error(`Failed to reassess risk for patient ${userId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Reassess a patient's risk after undoing an import removed results, when any of
+ * them is a risk calculator input. Errors are logged so the undo never fails.
+ */
+export async function reassessRiskAfterImportUndone(
+  userId: string,
+  biomarkerTypes: string[],
+  importId: string
+): Promise<RiskReassessment | null> {
+  if (!biomarkerTypes.some(isRiskFactorBiomarker)) return null;
+
+  try {
+    const reassessment = await reassessPatientRisk(userId, 'IMPORT_UNDONE');
+    console.log(`🔄 Reassessed risk for patient ${userId} after undoing import ${importId}`);
+    return reassessment;
+  } catch (error) {
+    console.error(`Failed to reassess risk for patient ${userId} after undoing import ${importId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Reassess a patient's risk after tracked results were removed one by one, when any
+ * of them is a risk calculator input. Errors are logged so the removal never fails.
+ */
+export async function reassessRiskAfterBiomarkersRemoved(
+  userId: string,
+  biomarkerTypes: string[]
+): Promise<RiskReassessment | null> {
+  if (!biomarkerTypes.some(isRiskFactorBiomarker)) return null;
+
+  try {
+    const reassessment = await reassessPatientRisk(userId, 'BIOMARKERS_REMOVED');
+    console.log(`🔄 Reassessed risk for patient ${userId} after removing ${biomarkerTypes.join(', ')} results`);
+    return reassessment;
+  } catch (error) {
+    console.error(`Failed to reassess risk for patient ${userId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Reassess a patient's risk after an ECG analysis reported atrial fibrillation or
+ * flutter, adding the stroke and bleeding risk scores. Errors are logged so saving
+ * the analysis never fails.
+ */
+export async function reassessRiskAfterECG(userId: string, reportId: string): Promise<RiskReassessment | null> {
+  try {
+    const reassessment = await reassessPatientRisk(userId, 'ECG_FINDING');
+    console.log(`🫀 Scored atrial fibrillation risk for patient ${userId} after ECG report ${reportId}`);
+    return reassessment;
+  } catch (error) {
+    console.error(`Failed to reassess risk for patient ${userId} after ECG report ${reportId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Reassess every patient whose latest assessment of some type has expired and who
+ * has not been assessed since. Returns the number of patients reassessed.
+ */
+export async function reassessExpiredRiskAssessments(): Promise<number> {
+  const now = new Date();
+  const latest = await prisma.riskAssessment.groupBy({
+    by: ['userId', 'assessmentType'],
+    _max: { validUntil: true, calculatedAt: true },
+  });
+
+  const lastCalculated = new Map<string, Date>();
+  for (const { userId, _max } of latest) {
+    const calculatedAt = _max.calculatedAt!;
+    if (!lastCalculated.has(userId) || calculatedAt > lastCalculated.get(userId)!) {
+      lastCalculated.set(userId, calculatedAt);
+    }
+  }
+
+  // An assessment type that can no longer be calculated stays expired, so only
+  // reassess once after each expiry
+  const expiredUserIds = new Set(
+    latest
+      .filter(({ userId, _max }) => _max.validUntil! < now && lastCalculated.get(userId)! < _max.validUntil!)
+      .map(({ userId }) => userId)
+  );
+
+  let reassessed = 0;
+  for (const userId of Array.from(expiredUserIds)) {
+    try {
+      await reassessPatientRisk(userId, 'EXPIRED');
+      reassessed++;
+    } catch (error) {
+      console.error(`Failed to reassess expired risk for patient ${userId}:`, error);
+    }
+  }
+
+  if (reassessed > 0) {
+    console.log(`🔄 Reassessed expired risk assessments for ${reassessed} patient(s)`);
+  }
+  return reassessed;
+}
+
+const globalForWorker = global as unknown as { riskReassessmentWorker?: ReturnType<typeof setInterval> };
+
+/**
+ * Start the periodic sweep for expired risk assessments (once per process)
+ */
+export function startRiskReassessmentWorker(intervalMs: number = REASSESSMENT_INTERVAL_MS): void {
+  if (globalForWorker.riskReassessmentWorker) return;
+
+  globalForWorker.riskReassessmentWorker = setInterval(() => {
+    reassessExpiredRiskAssessments().catch((error) => {
+      console.error('Risk reassessment worker error:', error);
+    });
+  }, intervalMs);
+
+  console.log(`✓ Risk reassessment worker started (checking every ${intervalMs / 60000} minutes)`);
+}
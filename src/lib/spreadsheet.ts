@@ -0,0 +1,173 @@
+/**
+ * Spreadsheet Parsing
+ * Reads CSV files and the first worksheet of XLSX workbooks into a header row
+ * and string cells, for importing data exported from other portals
+ */
+
+import AdmZip from 'adm-zip';
+
+export interface SpreadsheetData {
+  headers: string[];
+  rows: string[][]; // Cells as text, padded to the header length
+}
+
+// Uncompressed size limit per workbook part; a small upload can inflate to gigabytes
+export const MAX_XLSX_ENTRY_SIZE = 50 * 1024 * 1024;
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return String.fromCodePoint(point);
+    }
+    return XML_ENTITIES[code] ?? entity;
+  });
+}
+
+// Text of all <t> elements inside an XML fragment (rich text is split into runs)
+function readXmlText(fragment: string): string {
+  return Array.from(fragment.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g))
+    .map((match) => decodeXml(match[1]))
+    .join('');
+}
+
+// Zero-based column index of a cell reference such as "AB12"
+function columnIndex(reference: string): number {
+  const letters = reference.replace(/\d+$/, '').toUpperCase();
+  return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+function toSpreadsheetData(table: string[][]): SpreadsheetData {
+  const nonEmpty = table.filter((row) => row.some((cell) => cell.trim() !== ''));
+  const [headerRow = [], ...rows] = nonEmpty;
+  const headers = headerRow.map((header) => header.trim());
+
+  return {
+    headers,
+    rows: rows.map((row) => headers.map((_, index) => (row[index] ?? '').trim())),
+  };
+}
+
+/**
+ * Parse CSV text (RFC 4180 quoting). The delimiter (comma, semicolon or tab) is
+ * taken from the header line.
+ */
+export function parseCSV(text: string): SpreadsheetData {
+  const content = text.replace(/^\uFEFF/, '');
+  const headerLine = content.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best
+  );
+
+  const table: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      table.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    table.push(row);
+  }
+
+  return toSpreadsheetData(table);
+}
+
+/**
+ * Parse the first worksheet of an XLSX workbook. Numbers are returned as written
+ * in the file, so dates formatted in Excel arrive as serial day numbers.
+ * @throws Error when a part the parser reads inflates beyond MAX_XLSX_ENTRY_SIZE
+ */
+export function parseXLSX(buffer: Buffer): SpreadsheetData {
+  const zip = new AdmZip(buffer);
+  const readEntry = (path: string) => {
+    const entry = zip.getEntry(path);
+    if (!entry) return null;
+    if (entry.header.size > MAX_XLSX_ENTRY_SIZE) {
+      throw new Error(`The workbook is too large to import (${path} exceeds ${MAX_XLSX_ENTRY_SIZE / 1024 / 1024}MB uncompressed)`);
+    }
+    return entry.getData().toString('utf8');
+  };
+
+  // First sheet in workbook order, resolved through the workbook relationships
+  const workbook = readEntry('xl/workbook.xml');
+  const relationships = readEntry('xl/_rels/workbook.xml.rels');
+  const sheetRelationId = workbook?.match(/<sheet\b[^>]*\br:id="([^"]+)"/)?.[1];
+  const target = sheetRelationId
+    ? relationships?.match(new RegExp(`<Relationship\\b[^>]*Id="${sheetRelationId}"[^>]*Target="([^"]+)"`))?.[1] ??
+      relationships?.match(new RegExp(`<Relationship\\b[^>]*Target="([^"]+)"[^>]*Id="${sheetRelationId}"`))?.[1]
+    : undefined;
+  const sheetPath = target ? (target.startsWith('/') ? target.slice(1) : `xl/${target}`) : 'xl/worksheets/sheet1.xml';
+
+  const sheet = readEntry(sheetPath);
+  if (!sheet) {
+    throw new Error('The workbook has no worksheet');
+  }
+
+  const sharedStringsXml = readEntry('xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsXml
+    ? Array.from(sharedStringsXml.matchAll(/<si>([\s\S]*?)<\/si>/g)).map((match) => readXmlText(match[1]))
+    : [];
+
+  const table: string[][] = [];
+  for (const rowMatch of Array.from(sheet.matchAll(/<row\b[^>]*?(?:\/>|>([\s\S]*?)<\/row>)/g))) {
+    const row: string[] = [];
+    for (const cellMatch of Array.from((rowMatch[1] ?? '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g))) {
+      const attributes = cellMatch[1];
+      const body = cellMatch[2] ?? '';
+      const reference = attributes.match(/\br="([A-Z]+\d+)"/)?.[1];
+      const type = attributes.match(/\bt="([^"]+)"/)?.[1];
+      const raw = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let value = '';
+      if (type === 's' && raw !== undefined) value = sharedStrings[parseInt(raw, 10)] ?? '';
+      else if (type === 'inlineStr') value = readXmlText(body);
+      else if (type === 'b') value = raw === '1' ? 'TRUE' : 'FALSE';
+      else if (raw !== undefined) value = decodeXml(raw);
+
+      row[reference ? columnIndex(reference) : row.length] = value;
+    }
+    table.push(Array.from(row, (cell) => cell ?? ''));
+  }
+
+  return toSpreadsheetData(table);
+}
+
+/**
+ * Parse an uploaded spreadsheet by its file extension
+ */
+export function parseSpreadsheet(buffer: Buffer, fileName: string): SpreadsheetData {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'xlsx') return parseXLSX(buffer);
+  if (extension === 'csv' || extension === 'txt' || extension === 'tsv') return parseCSV(buffer.toString('utf8'));
+
+  throw new Error('Unsupported file type; upload a .csv or .xlsx file');
+}
@@ -4,6 +4,9 @@
  */
 
 import { prisma } from '@/utils/prismaDB';
+import { AbnormalFlag, FLAG_LABELS, formatReferenceRange, getMeaningfulChange, isLowerBetter } from './referenceRanges';
+import { AnalyteMatch, extractAnalytes } from './analyteDictionary';
+import { getStageProgressionAlert } from './kidneyFunction';
 
 export interface BiomarkerData {
   type: string;
@@ -11,6 +14,21 @@ export interface BiomarkerData {
   unit: string;
   date: Date;
   reportId?: string;
+  loincCode?: string;
+  confidence?: number; // Extraction confidence, 0-1
+  source?: AnalyteMatch['source'] | 'CALCULATED'; // CALCULATED = derived from other biomarkers
+  formula?: string; // Calculation of a CALCULATED value (see lib/derivedBiomarkers.ts)
+}
+
+// Linear regression of a biomarker's values on their collection dates
+export interface TrendRegression {
+  ratePerMonth: number; // Change per month in the stored unit
+  ratePerYear: number;
+  confidenceInterval: [number, number] | null; // 95% CI of the yearly rate; null with only two measurements
+  fittedChange: number; // Change over the whole span according to the fitted line
+  spanDays: number;
+  meaningfulChange: number; // Smallest clinically meaningful change in the stored unit
+  significant: boolean; // The change exceeds both statistical and measurement noise
 }
 
 export interface TrendResult {
@@ -20,153 +38,46 @@ export interface TrendResult {
   changePercent?: number;
   trend: 'IMPROVING' | 'WORSENING' | 'STABLE' | 'INSUFFICIENT_DATA';
   interpretation: string;
+  regression?: TrendRegression;
   alert?: string;
-  dataPoints: Array<{ date: Date; value: number }>;
+  flag: AbnormalFlag | null; // Flag of the latest value against its reference range
+  referenceRange: string | null; // Range the latest value was flagged against
+  dataPoints: Array<{ date: Date; value: number; flag: AbnormalFlag | null }>;
 }
 
 /**
- * Extract biomarkers from AI analysis findings
+ * Extract biomarkers from AI analysis findings and, when available, the report text.
+ * Values keep the unit they were reported in; they are normalized when stored.
  */
 export function extractBiomarkers(
   analysisFindings: string,
-  reportType: string
+  reportType: string,
+  reportText?: string | null
 ): BiomarkerData[] {
-  const biomarkers: BiomarkerData[] = [];
   const date = new Date();
 
+  let findings: any = null;
   try {
     // Parse findings as JSON if it's structured
-    const findings = JSON.parse(analysisFindings);
-
-    // Extract based on report type
-    switch (reportType) {
-      case 'BLOOD_TEST':
-        if (findings.cholesterol) {
-          if (findings.cholesterol.total) {
-            biomarkers.push({
-              type: 'cholesterol_total',
-              value: findings.cholesterol.total,
-              unit: 'mg/dL',
-              date,
-            });
-          }
-          if (findings.cholesterol.hdl) {
-            biomarkers.push({
-              type: 'cholesterol_hdl',
-              value: findings.cholesterol.hdl,
-              unit: 'mg/dL',
-              date,
-            });
-          }
-          if (findings.cholesterol.ldl) {
-            biomarkers.push({
-              type: 'cholesterol_ldl',
-              value: findings.cholesterol.ldl,
-              unit: 'mg/dL',
-              date,
-            });
-          }
-          if (findings.cholesterol.triglycerides) {
-            biomarkers.push({
-              type: 'triglycerides',
-              value: findings.cholesterol.triglycerides,
-              unit: 'mg/dL',
-              date,
-            });
-          }
-        }
-
-        if (findings.glucose !== undefined) {
-          biomarkers.push({
-            type: 'glucose_fasting',
-            value: findings.glucose,
-            unit: 'mg/dL',
-            date,
-          });
-        }
-
-        if (findings.hba1c !== undefined) {
-          biomarkers.push({
-            type: 'hba1c',
-            value: findings.hba1c,
-            unit: '%',
-            date,
-          });
-        }
-
-        if (findings.creatinine !== undefined) {
-          biomarkers.push({
-            type: 'creatinine',
-            value: findings.creatinine,
-            unit: 'mg/dL',
-            date,
-          });
-        }
-        break;
-
-      case 'ECG':
-        if (findings.heartRate) {
-          biomarkers.push({
-            type: 'heart_rate',
-            value: findings.heartRate,
-            unit: 'bpm',
-            date,
-          });
-        }
-        if (findings.intervals?.QTc) {
-          biomarkers.push({
-            type: 'qtc_interval',
-            value: findings.intervals.QTc,
-            unit: 'ms',
-            date,
-          });
-        }
-        break;
-    }
+    findings = JSON.parse(analysisFindings);
   } catch (error) {
-    // If findings aren't JSON, try regex extraction
-    console.log('Could not parse findings as JSON, attempting regex extraction');
-    
-    // Extract common patterns
-    const patterns = [
-      { regex: /total cholesterol[:\s]+(\d+\.?\d*)\s*mg\/dL/i, type: 'cholesterol_total', unit: 'mg/dL' },
-      { regex: /HDL[:\s]+(\d+\.?\d*)\s*mg\/dL/i, type: 'cholesterol_hdl', unit: 'mg/dL' },
-      { regex: /LDL[:\s]+(\d+\.?\d*)\s*mg\/dL/i, type: 'cholesterol_ldl', unit: 'mg/dL' },
-      { regex: /glucose[:\s]+(\d+\.?\d*)\s*mg\/dL/i, type: 'glucose_fasting', unit: 'mg/dL' },
-      { regex: /HbA1c[:\s]+(\d+\.?\d*)\s*%/i, type: 'hba1c', unit: '%' },
-      { regex: /heart rate[:\s]+(\d+\.?\d*)\s*bpm/i, type: 'heart_rate', unit: 'bpm' },
-      { regex: /blood pressure[:\s]+(\d+)\/(\d+)/i, type: 'blood_pressure', unit: 'mmHg' },
-    ];
-
-    for (const pattern of patterns) {
-      const match = analysisFindings.match(pattern.regex);
-      if (match) {
-        if (pattern.type === 'blood_pressure') {
-          biomarkers.push({
-            type: 'bp_systolic',
-            value: parseInt(match[1]),
-            unit: 'mmHg',
-            date,
-          });
-          biomarkers.push({
-            type: 'bp_diastolic',
-            value: parseInt(match[2]),
-            unit: 'mmHg',
-            date,
-          });
-        } else {
-          biomarkers.push({
-            type: pattern.type,
-            value: parseFloat(match[1]),
-            unit: pattern.unit,
-            date,
-          });
-        }
-      }
-    }
+    // Unstructured findings are matched like report text
+    console.log('Could not parse findings as JSON, matching analytes in the findings text');
   }
 
-  return biomarkers;
+  const text = findings === null
+    ? [analysisFindings, reportText].filter(Boolean).join('\n')
+    : reportText;
+
+  return extractAnalytes(findings, text, reportType).map((match) => ({
+    type: match.type,
+    value: match.value,
+    unit: match.unit,
+    date,
+    loincCode: match.loinc,
+    confidence: match.confidence,
+    source: match.source,
+  }));
 }
 
 /**
@@ -182,67 +93,98 @@ export async function analyzeBiomarkerTrend(
     where: {
       userId,
       biomarkerType,
+      status: { not: 'QUARANTINED' },
     },
-    orderBy: {
-      recordedDate: 'desc',
-    },
+    // Collection date order; rows from the same day keep the order they were added in
+    orderBy: [{ recordedDate: 'desc' }, { createdAt: 'desc' }],
     take: 12, // Last 12 measurements
   });
 
+  const latest = historicalData[0];
+  const flag = (latest?.flag as AbnormalFlag | null) ?? null;
+  const referenceRange = latest
+    ? formatReferenceRange(latest.referenceLow, latest.referenceHigh, latest.unit)
+    : null;
+  const dataPoints = historicalData.map(d => ({
+    date: d.recordedDate,
+    value: d.value,
+    flag: (d.flag as AbnormalFlag | null) ?? null,
+  }));
+
+  // Alert whenever the latest value is outside its reference range
+  let alert: string | undefined;
+  if (latest && flag) {
+    alert = `Current ${biomarkerType.replace(/_/g, ' ')} (${latest.value} ${latest.unit}) is ${FLAG_LABELS[flag].toLowerCase()}${referenceRange ? ` (reference range ${referenceRange})` : ''}`;
+  }
+
+  // Staged biomarkers (eGFR, UACR) also alert when they move into a worse stage
+  const progressionAlert = historicalData.length >= 2
+    ? getStageProgressionAlert(biomarkerType, historicalData[0].value, historicalData[1].value)
+    : null;
+  if (progressionAlert) {
+    alert = alert ? `${progressionAlert}. ${alert}` : progressionAlert;
+  }
+
   if (historicalData.length < minDataPoints) {
     return {
       biomarkerType,
-      currentValue: historicalData[0]?.value || 0,
+      currentValue: latest?.value || 0,
       trend: 'INSUFFICIENT_DATA',
       interpretation: `Not enough historical data to determine trend. Need at least ${minDataPoints} measurements.`,
-      dataPoints: historicalData.map(d => ({ date: d.recordedDate, value: d.value })),
+      alert,
+      flag,
+      referenceRange,
+      dataPoints,
     };
   }
 
   const currentValue = historicalData[0].value;
   const previousValue = historicalData[1].value;
   const changePercent = ((currentValue - previousValue) / previousValue) * 100;
+  const name = biomarkerType.replace(/_/g, ' ');
+  const unit = latest.unit;
+
+  // Regress on collection dates in chronological order
+  const regression = calculateTrendRegression(
+    historicalData
+      .map((d) => ({ date: d.recordedDate, value: d.value }))
+      .reverse(),
+    getMeaningfulChange(biomarkerType, currentValue)
+  );
+
+  if (!regression) {
+    return {
+      biomarkerType,
+      currentValue,
+      previousValue,
+      changePercent,
+      trend: 'INSUFFICIENT_DATA',
+      interpretation: `All ${name} measurements share the same collection date, so no trend over time can be calculated.`,
+      alert,
+      flag,
+      referenceRange,
+      dataPoints,
+    };
+  }
+
+  const { ratePerYear, confidenceInterval, fittedChange, spanDays, meaningfulChange, significant } = regression;
+  const format = (value: number) => Number(value.toPrecision(3)).toString();
+  const rate = `${ratePerYear > 0 ? '+' : ''}${format(ratePerYear)} ${unit} per year`;
+  const ci = confidenceInterval ? ` (95% CI ${format(confidenceInterval[0])} to ${format(confidenceInterval[1])})` : '';
+  const span = spanDays >= 60 ? `${Math.round(spanDays / 30.44)} months` : `${Math.round(spanDays)} days`;
 
-  // Determine if the trend is improving or worsening based on biomarker type
   let trend: 'IMPROVING' | 'WORSENING' | 'STABLE';
   let interpretation: string;
-  let alert: string | undefined;
 
-  const thresholds = getBiomarkerThresholds(biomarkerType);
-  
-  // Calculate overall trend direction (simple linear regression)
-  const trendDirection = calculateTrendDirection(historicalData.map(d => d.value));
-
-  // For biomarkers where lower is better
-  if (thresholds.lowerIsBetter) {
-    if (trendDirection < -5) {
-      trend = 'IMPROVING';
-      interpretation = `${biomarkerType.replace(/_/g, ' ')} is decreasing over time (${changePercent.toFixed(1)}% decrease from last measurement).`;
-    } else if (trendDirection > 5) {
-      trend = 'WORSENING';
-      interpretation = `${biomarkerType.replace(/_/g, ' ')} is increasing over time (${changePercent.toFixed(1)}% increase from last measurement).`;
-      if (currentValue > thresholds.high) {
-        alert = `⚠️ Current value (${currentValue}) is above healthy range (>${thresholds.high} ${historicalData[0].unit})`;
-      }
-    } else {
-      trend = 'STABLE';
-      interpretation = `${biomarkerType.replace(/_/g, ' ')} remains relatively stable.`;
-    }
+  if (significant) {
+    const increasing = ratePerYear > 0;
+    trend = increasing === isLowerBetter(biomarkerType) ? 'WORSENING' : 'IMPROVING';
+    interpretation = `${name} is ${increasing ? 'increasing' : 'decreasing'} at ${rate}${ci}, a change of ${format(Math.abs(fittedChange))} ${unit} over ${span}.`;
   } else {
-    // For biomarkers where higher is better (like HDL cholesterol)
-    if (trendDirection > 5) {
-      trend = 'IMPROVING';
-      interpretation = `${biomarkerType.replace(/_/g, ' ')} is increasing over time (${changePercent.toFixed(1)}% increase).`;
-    } else if (trendDirection < -5) {
-      trend = 'WORSENING';
-      interpretation = `${biomarkerType.replace(/_/g, ' ')} is decreasing over time (${changePercent.toFixed(1)}% decrease).`;
-      if (currentValue < thresholds.low) {
-        alert = `⚠️ Current value (${currentValue}) is below healthy range (<${thresholds.low} ${historicalData[0].unit})`;
-      }
-    } else {
-      trend = 'STABLE';
-      interpretation = `${biomarkerType.replace(/_/g, ' ')} remains relatively stable.`;
-    }
+    trend = 'STABLE';
+    interpretation = Math.abs(fittedChange) < meaningfulChange
+      ? `${name} remains stable: the ${format(Math.abs(fittedChange))} ${unit} change over ${span} is within the ${format(meaningfulChange)} ${unit} expected from measurement variation.`
+      : `${name} changed at ${rate}${ci}, but the measurements vary too much to call this a trend.`;
   }
 
   return {
@@ -252,55 +194,111 @@ export async function analyzeBiomarkerTrend(
     changePercent,
     trend,
     interpretation,
+    regression,
     alert,
-    dataPoints: historicalData.map(d => ({ date: d.recordedDate, value: d.value })),
+    flag,
+    referenceRange,
+    dataPoints,
   };
 }
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_PER_YEAR = 365.25;
+
+// Two-sided 95% t critical values by degrees of freedom
+const T_CRITICAL_95 = [NaN, 12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228];
+
 /**
- * Calculate trend direction using simple linear regression
- * Returns the slope (positive = increasing, negative = decreasing)
+ * Two-sided 95% t critical value for the given degrees of freedom
  */
-function calculateTrendDirection(values: number[]): number {
-  if (values.length < 2) return 0;
+export function tCritical95(degreesOfFreedom: number): number {
+  // Beyond the table, 1.96 + 2.4/df is within 0.01 of the exact value
+  return T_CRITICAL_95[degreesOfFreedom] ?? 1.96 + 2.4 / degreesOfFreedom;
+}
 
-  const n = values.length;
-  const indices = Array.from({ length: n }, (_, i) => i);
-  
-  const sumX = indices.reduce((a, b) => a + b, 0);
-  const sumY = values.reduce((a, b) => a + b, 0);
-  const sumXY = indices.reduce((sum, x, i) => sum + x * values[i], 0);
-  const sumX2 = indices.reduce((sum, x) => sum + x * x, 0);
-  
-  const slope = (n * sumXY - sumX * sumY) / (n * sumX2 - sumX * sumX);
-  
-  // Convert slope to percentage change per measurement
-  const avgValue = sumY / n;
-  return (slope / avgValue) * 100;
+// Least-squares line through dated values, with x in days since the first point
+export interface LinearTrendFit {
+  start: Date;
+  n: number;
+  slopePerDay: number;
+  intercept: number; // Fitted value at the first point's date
+  meanX: number;
+  sxx: number;
+  spanDays: number;
+  residualStandardError: number | null; // null with only two points
 }
 
 /**
- * Get healthy ranges and thresholds for biomarkers
+ * Fit a least-squares line through dated values (oldest first).
+ * Returns null with fewer than two points or when all share one date.
  */
-function getBiomarkerThresholds(biomarkerType: string): {
-  low: number;
-  high: number;
-  lowerIsBetter: boolean;
-} {
-  const thresholds: Record<string, any> = {
-    cholesterol_total: { low: 125, high: 200, lowerIsBetter: true },
-    cholesterol_ldl: { low: 0, high: 100, lowerIsBetter: true },
-    cholesterol_hdl: { low: 40, high: 200, lowerIsBetter: false }, // Higher is better
-    triglycerides: { low: 0, high: 150, lowerIsBetter: true },
-    glucose_fasting: { low: 70, high: 100, lowerIsBetter: true },
-    hba1c: { low: 4, high: 5.7, lowerIsBetter: true },
-    bp_systolic: { low: 90, high: 120, lowerIsBetter: true },
-    bp_diastolic: { low: 60, high: 80, lowerIsBetter: true },
-    heart_rate: { low: 60, high: 100, lowerIsBetter: true },
-    creatinine: { low: 0.6, high: 1.2, lowerIsBetter: true },
+export function fitLinearTrend(points: Array<{ date: Date; value: number }>): LinearTrendFit | null {
+  const n = points.length;
+  if (n < 2) return null;
+
+  const start = new Date(points[0].date);
+  const xs = points.map((point) => (new Date(point.date).getTime() - start.getTime()) / DAY_MS);
+  const ys = points.map((point) => point.value);
+
+  const meanX = xs.reduce((a, b) => a + b, 0) / n;
+  const meanY = ys.reduce((a, b) => a + b, 0) / n;
+  const sxx = xs.reduce((sum, x) => sum + (x - meanX) ** 2, 0);
+  if (sxx === 0) return null;
+
+  const slopePerDay = xs.reduce((sum, x, i) => sum + (x - meanX) * (ys[i] - meanY), 0) / sxx;
+  const intercept = meanY - slopePerDay * meanX;
+
+  let residualStandardError: number | null = null;
+  if (n > 2) {
+    const residualSS = xs.reduce((sum, x, i) => sum + (ys[i] - (intercept + slopePerDay * x)) ** 2, 0);
+    residualStandardError = Math.sqrt(residualSS / (n - 2));
+  }
+
+  return {
+    start,
+    n,
+    slopePerDay,
+    intercept,
+    meanX,
+    sxx,
+    spanDays: Math.max(...xs) - Math.min(...xs),
+    residualStandardError,
   };
+}
+
+/**
+ * Regression of values on time (oldest first). A trend is significant when the
+ * fitted change over the span reaches the meaningful change and, with three or
+ * more measurements, the 95% confidence interval of the rate excludes zero.
+ * Returns null when all measurements share one date.
+ */
+export function calculateTrendRegression(
+  points: Array<{ date: Date; value: number }>,
+  meaningfulChange: number
+): TrendRegression | null {
+  const fit = fitLinearTrend(points);
+  if (!fit) return null;
 
-  return thresholds[biomarkerType] || { low: 0, high: Infinity, lowerIsBetter: true };
+  const { slopePerDay, spanDays, residualStandardError, sxx, n } = fit;
+  const fittedChange = slopePerDay * spanDays;
+
+  let confidenceInterval: [number, number] | null = null;
+  let excludesZero = true;
+  if (residualStandardError !== null) {
+    const margin = tCritical95(n - 2) * (residualStandardError / Math.sqrt(sxx));
+    confidenceInterval = [(slopePerDay - margin) * DAYS_PER_YEAR, (slopePerDay + margin) * DAYS_PER_YEAR];
+    excludesZero = confidenceInterval[0] > 0 || confidenceInterval[1] < 0;
+  }
+
+  return {
+    ratePerMonth: (slopePerDay * DAYS_PER_YEAR) / 12,
+    ratePerYear: slopePerDay * DAYS_PER_YEAR,
+    confidenceInterval,
+    fittedChange,
+    spanDays,
+    meaningfulChange,
+    significant: excludesZero && Math.abs(fittedChange) >= meaningfulChange,
+  };
 }
 
 /**
@@ -314,7 +312,7 @@ export async function getComprehensiveTrendAnalysis(userId: string): Promise<{
   // Get all unique biomarker types for this user
   const uniqueBiomarkers = await prisma.biomarkerTrend.groupBy({
     by: ['biomarkerType'],
-    where: { userId },
+    where: { userId, status: { not: 'QUARANTINED' } },
   });
 
   const trends: TrendResult[] = [];
@@ -0,0 +1,560 @@
+/**
+ * Biomarker Unit Registry
+ * Analyte-specific unit conversions used to normalize values to one canonical
+ * unit on ingest and to display them in the unit a user prefers
+ */
+
+export interface UnitDefinition {
+  unit: string;
+  factor: number; // canonical = value * factor + offset
+  offset?: number;
+  decimals: number; // Display precision in this unit
+}
+
+export interface AnalyteUnits {
+  canonicalUnit: string; // Same unit as the reference-range catalog
+  units: UnitDefinition[]; // Canonical unit first
+}
+
+export interface NormalizedMeasurement {
+  value: number; // In the canonical unit when the unit is known
+  unit: string;
+  originalValue: number; // As reported by the lab or the user
+  originalUnit: string;
+  converted: boolean;
+}
+
+const MG_DL = { unit: 'mg/dL', factor: 1, decimals: 0 };
+
+export const UNIT_REGISTRY: Record<string, AnalyteUnits> = {
+  cholesterol_total: {
+    canonicalUnit: 'mg/dL',
+    units: [MG_DL, { unit: 'mmol/L', factor: 38.67, decimals: 2 }],
+  },
+  cholesterol_ldl: {
+    canonicalUnit: 'mg/dL',
+    units: [MG_DL, { unit: 'mmol/L', factor: 38.67, decimals: 2 }],
+  },
+  cholesterol_ldl_martin: {
+    canonicalUnit: 'mg/dL',
+    units: [MG_DL, { unit: 'mmol/L', factor: 38.67, decimals: 2 }],
+  },
+  cholesterol_ldl_friedewald: {
+    canonicalUnit: 'mg/dL',
+    units: [MG_DL, { unit: 'mmol/L', factor: 38.67, decimals: 2 }],
+  },
+  cholesterol_hdl: {
+    canonicalUnit: 'mg/dL',
+    units: [MG_DL, { unit: 'mmol/L', factor: 38.67, decimals: 2 }],
+  },
+  triglycerides: {
+    canonicalUnit: 'mg/dL',
+    units: [MG_DL, { unit: 'mmol/L', factor: 88.57, decimals: 2 }],
+  },
+  cholesterol_non_hdl: {
+    canonicalUnit: 'mg/dL',
+    units: [MG_DL, { unit: 'mmol/L', factor: 38.67, decimals: 2 }],
+  },
+  tg_hdl_ratio: {
+    canonicalUnit: 'ratio', // From values in mg/dL
+    units: [{ unit: 'ratio', factor: 1, decimals: 2 }],
+  },
+  glucose_fasting: {
+    canonicalUnit: 'mg/dL',
+    units: [MG_DL, { unit: 'mmol/L', factor: 18.016, decimals: 1 }],
+  },
+  glucose_random: {
+    canonicalUnit: 'mg/dL',
+    units: [MG_DL, { unit: 'mmol/L', factor: 18.016, decimals: 1 }],
+  },
+  hba1c: {
+    canonicalUnit: '%',
+    // IFCC to NGSP master equation: NGSP % = 0.09148 * IFCC + 2.152
+    units: [
+      { unit: '%', factor: 1, decimals: 1 },
+      { unit: 'mmol/mol', factor: 0.09148, offset: 2.152, decimals: 0 },
+    ],
+  },
+  creatinine: {
+    canonicalUnit: 'mg/dL',
+    units: [
+      { unit: 'mg/dL', factor: 1, decimals: 2 },
+      { unit: 'µmol/L', factor: 1 / 88.42, decimals: 0 },
+    ],
+  },
+  potassium: {
+    canonicalUnit: 'mmol/L',
+    units: [
+      { unit: 'mmol/L', factor: 1, decimals: 1 },
+      { unit: 'mEq/L', factor: 1, decimals: 1 },
+    ],
+  },
+  sodium: {
+    canonicalUnit: 'mmol/L',
+    units: [
+      { unit: 'mmol/L', factor: 1, decimals: 0 },
+      { unit: 'mEq/L', factor: 1, decimals: 0 },
+    ],
+  },
+  hemoglobin: {
+    canonicalUnit: 'g/dL',
+    units: [
+      { unit: 'g/dL', factor: 1, decimals: 1 },
+      { unit: 'g/L', factor: 0.1, decimals: 0 },
+      { unit: 'mmol/L', factor: 1.611, decimals: 1 },
+    ],
+  },
+  bp_systolic: {
+    canonicalUnit: 'mmHg',
+    units: [
+      { unit: 'mmHg', factor: 1, decimals: 0 },
+      { unit: 'kPa', factor: 7.50062, decimals: 1 },
+    ],
+  },
+  bp_diastolic: {
+    canonicalUnit: 'mmHg',
+    units: [
+      { unit: 'mmHg', factor: 1, decimals: 0 },
+      { unit: 'kPa', factor: 7.50062, decimals: 1 },
+    ],
+  },
+  bp_mean_arterial: {
+    canonicalUnit: 'mmHg',
+    units: [
+      { unit: 'mmHg', factor: 1, decimals: 0 },
+      { unit: 'kPa', factor: 7.50062, decimals: 1 },
+    ],
+  },
+  heart_rate: {
+    canonicalUnit: 'bpm',
+    units: [{ unit: 'bpm', factor: 1, decimals: 0 }],
+  },
+  qtc_interval: {
+    canonicalUnit: 'ms',
+    units: [
+      { unit: 'ms', factor: 1, decimals: 0 },
+      { unit: 's', factor: 1000, decimals: 3 },
+    ],
+  },
+  chloride: {
+    canonicalUnit: 'mmol/L',
+    units: [
+      { unit: 'mmol/L', factor: 1, decimals: 0 },
+      { unit: 'mEq/L', factor: 1, decimals: 0 },
+    ],
+  },
+  bicarbonate: {
+    canonicalUnit: 'mmol/L',
+    units: [
+      { unit: 'mmol/L', factor: 1, decimals: 0 },
+      { unit: 'mEq/L', factor: 1, decimals: 0 },
+    ],
+  },
+  calcium: {
+    canonicalUnit: 'mg/dL',
+    units: [
+      { unit: 'mg/dL', factor: 1, decimals: 1 },
+      { unit: 'mmol/L', factor: 4.008, decimals: 2 },
+    ],
+  },
+  albumin: {
+    canonicalUnit: 'g/dL',
+    units: [
+      { unit: 'g/dL', factor: 1, decimals: 1 },
+      { unit: 'g/L', factor: 0.1, decimals: 0 },
+    ],
+  },
+  total_protein: {
+    canonicalUnit: 'g/dL',
+    units: [
+      { unit: 'g/dL', factor: 1, decimals: 1 },
+      { unit: 'g/L', factor: 0.1, decimals: 0 },
+    ],
+  },
+  bun: {
+    canonicalUnit: 'mg/dL',
+    // mmol/L of urea to mg/dL of urea nitrogen
+    units: [
+      { unit: 'mg/dL', factor: 1, decimals: 0 },
+      { unit: 'mmol/L', factor: 2.801, decimals: 1 },
+    ],
+  },
+  egfr: {
+    canonicalUnit: 'mL/min/1.73m²',
+    units: [{ unit: 'mL/min/1.73m²', factor: 1, decimals: 0 }],
+  },
+  uacr: {
+    canonicalUnit: 'mg/g',
+    units: [
+      { unit: 'mg/g', factor: 1, decimals: 0 },
+      { unit: 'mg/mmol', factor: 8.84, decimals: 1 },
+    ],
+  },
+  uric_acid: {
+    canonicalUnit: 'mg/dL',
+    units: [
+      { unit: 'mg/dL', factor: 1, decimals: 1 },
+      { unit: 'µmol/L', factor: 1 / 59.48, decimals: 0 },
+    ],
+  },
+  alt: {
+    canonicalUnit: 'U/L',
+    units: [{ unit: 'U/L', factor: 1, decimals: 0 }],
+  },
+  ast: {
+    canonicalUnit: 'U/L',
+    units: [{ unit: 'U/L', factor: 1, decimals: 0 }],
+  },
+  alkaline_phosphatase: {
+    canonicalUnit: 'U/L',
+    units: [{ unit: 'U/L', factor: 1, decimals: 0 }],
+  },
+  bilirubin_total: {
+    canonicalUnit: 'mg/dL',
+    units: [
+      { unit: 'mg/dL', factor: 1, decimals: 1 },
+      { unit: 'µmol/L', factor: 1 / 17.1, decimals: 0 },
+    ],
+  },
+  hematocrit: {
+    canonicalUnit: '%',
+    units: [
+      { unit: '%', factor: 1, decimals: 1 },
+      { unit: 'L/L', factor: 100, decimals: 2 },
+    ],
+  },
+  wbc: {
+    canonicalUnit: '10^3/µL',
+    units: [
+      { unit: '10^3/µL', factor: 1, decimals: 1 },
+      { unit: '10^9/L', factor: 1, decimals: 1 },
+    ],
+  },
+  rbc: {
+    canonicalUnit: '10^6/µL',
+    units: [
+      { unit: '10^6/µL', factor: 1, decimals: 2 },
+      { unit: '10^12/L', factor: 1, decimals: 2 },
+    ],
+  },
+  platelets: {
+    canonicalUnit: '10^3/µL',
+    units: [
+      { unit: '10^3/µL', factor: 1, decimals: 0 },
+      { unit: '10^9/L', factor: 1, decimals: 0 },
+    ],
+  },
+  mcv: {
+    canonicalUnit: 'fL',
+    units: [{ unit: 'fL', factor: 1, decimals: 0 }],
+  },
+  mch: {
+    canonicalUnit: 'pg',
+    units: [{ unit: 'pg', factor: 1, decimals: 1 }],
+  },
+  tsh: {
+    canonicalUnit: 'mIU/L',
+    units: [{ unit: 'mIU/L', factor: 1, decimals: 2 }],
+  },
+  free_t4: {
+    canonicalUnit: 'ng/dL',
+    units: [
+      { unit: 'ng/dL', factor: 1, decimals: 2 },
+      { unit: 'pmol/L', factor: 1 / 12.87, decimals: 1 },
+    ],
+  },
+  free_t3: {
+    canonicalUnit: 'pg/mL',
+    units: [
+      { unit: 'pg/mL', factor: 1, decimals: 2 },
+      { unit: 'pmol/L', factor: 0.651, decimals: 1 },
+    ],
+  },
+  vitamin_d: {
+    canonicalUnit: 'ng/mL',
+    units: [
+      { unit: 'ng/mL', factor: 1, decimals: 0 },
+      { unit: 'nmol/L', factor: 0.4006, decimals: 0 },
+    ],
+  },
+  ferritin: {
+    canonicalUnit: 'ng/mL',
+    units: [
+      { unit: 'ng/mL', factor: 1, decimals: 0 },
+      { unit: 'µg/L', factor: 1, decimals: 0 },
+    ],
+  },
+  pr_interval: {
+    canonicalUnit: 'ms',
+    units: [
+      { unit: 'ms', factor: 1, decimals: 0 },
+      { unit: 's', factor: 1000, decimals: 3 },
+    ],
+  },
+  qrs_duration: {
+    canonicalUnit: 'ms',
+    units: [
+      { unit: 'ms', factor: 1, decimals: 0 },
+      { unit: 's', factor: 1000, decimals: 3 },
+    ],
+  },
+  weight: {
+    canonicalUnit: 'kg',
+    units: [
+      { unit: 'kg', factor: 1, decimals: 1 },
+      { unit: 'lb', factor: 0.45359237, decimals: 1 },
+    ],
+  },
+  waist_circumference: {
+    canonicalUnit: 'cm',
+    units: [
+      { unit: 'cm', factor: 1, decimals: 0 },
+      { unit: 'in', factor: 2.54, decimals: 1 },
+    ],
+  },
+  bmi: {
+    canonicalUnit: 'kg/m²',
+    units: [{ unit: 'kg/m²', factor: 1, decimals: 1 }],
+  },
+};
+
+// Spellings seen on lab reports and in LLM output, keyed by lower-case form
+// without spaces and with µ/μ written as u
+const UNIT_ALIASES: Record<string, string> = {
+  'mg/dl': 'mg/dL',
+  'mg%': 'mg/dL',
+  'mmol/l': 'mmol/L',
+  'mm/l': 'mmol/L',
+  'umol/l': 'µmol/L',
+  'micromol/l': 'µmol/L',
+  'meq/l': 'mEq/L',
+  'g/dl': 'g/dL',
+  'g/l': 'g/L',
+  'mmol/mol': 'mmol/mol',
+  '%': '%',
+  'l/l': 'L/L',
+  'u/l': 'U/L',
+  'iu/l': 'U/L',
+  'miu/l': 'mIU/L',
+  'uiu/ml': 'mIU/L',
+  'mu/l': 'mIU/L',
+  'ng/dl': 'ng/dL',
+  'ng/ml': 'ng/mL',
+  'pg/ml': 'pg/mL',
+  'pmol/l': 'pmol/L',
+  'nmol/l': 'nmol/L',
+  'ug/l': 'µg/L',
+  'fl': 'fL',
+  'pg': 'pg',
+  '10^3/ul': '10^3/µL',
+  '10*3/ul': '10^3/µL',
+  'k/ul': '10^3/µL',
+  'thou/ul': '10^3/µL',
+  '10^9/l': '10^9/L',
+  '10*9/l': '10^9/L',
+  '10^6/ul': '10^6/µL',
+  '10*6/ul': '10^6/µL',
+  'm/ul': '10^6/µL',
+  'mill/ul': '10^6/µL',
+  '10^12/l': '10^12/L',
+  '10*12/l': '10^12/L',
+  'mg/g': 'mg/g',
+  'mg/gcr': 'mg/g',
+  'mg/gcreat': 'mg/g',
+  'mg/mmol': 'mg/mmol',
+  'mg/mmolcr': 'mg/mmol',
+  'ml/min/1.73m2': 'mL/min/1.73m²',
+  'ml/min/1.73m²': 'mL/min/1.73m²',
+  'mmhg': 'mmHg',
+  'kpa': 'kPa',
+  'bpm': 'bpm',
+  '/min': 'bpm',
+  'beats/min': 'bpm',
+  'count/min': 'bpm', // Apple Health
+  'ms': 'ms',
+  'msec': 'ms',
+  's': 's',
+  'sec': 's',
+  'kg': 'kg',
+  'lb': 'lb',
+  'lbs': 'lb',
+  'cm': 'cm',
+  'in': 'in',
+  'inch': 'in',
+  'inches': 'in',
+};
+
+/**
+ * Map a free-text unit to its registry spelling (unknown units are returned trimmed)
+ */
+export function normalizeUnitString(unit: string): string {
+  const key = unit.trim().replace(/\s+/g, '').replace(/[µμ]/g, 'u').toLowerCase();
+  return UNIT_ALIASES[key] ?? unit.trim();
+}
+
+function findUnit(analyte: string, unit: string): UnitDefinition | null {
+  const normalized = normalizeUnitString(unit);
+  return UNIT_REGISTRY[analyte]?.units.find((candidate) => candidate.unit === normalized) ?? null;
+}
+
+function round(value: number, decimals: number): number {
+  const scale = Math.pow(10, decimals);
+  return Math.round(value * scale) / scale;
+}
+
+/**
+ * Units a value of an analyte can be entered in or displayed in
+ */
+export function getAvailableUnits(analyte: string): string[] {
+  return UNIT_REGISTRY[analyte]?.units.map((definition) => definition.unit) ?? [];
+}
+
+export function getCanonicalUnit(analyte: string): string | null {
+  return UNIT_REGISTRY[analyte]?.canonicalUnit ?? null;
+}
+
+/**
+ * Convert a value to the canonical unit of an analyte
+ * @returns null when the analyte or unit is not in the registry
+ */
+export function convertToCanonical(analyte: string, value: number, unit: string): number | null {
+  const definition = findUnit(analyte, unit);
+  if (!definition) return null;
+  if (definition.factor === 1 && !definition.offset) return value;
+
+  // Keep one more decimal than the canonical display precision so round trips stay stable
+  const canonical = UNIT_REGISTRY[analyte].units[0];
+  return round(value * definition.factor + (definition.offset ?? 0), canonical.decimals + 1);
+}
+
+/**
+ * Convert a canonical value to another unit of the same analyte
+ * @returns null when the analyte or unit is not in the registry
+ */
+export function convertFromCanonical(analyte: string, value: number, unit: string): number | null {
+  const definition = findUnit(analyte, unit);
+  if (!definition) return null;
+
+  return round((value - (definition.offset ?? 0)) / definition.factor, definition.decimals);
+}
+
+/**
+ * Normalize a reported value to the canonical unit while keeping what was reported.
+ * Unknown analytes and units are stored as reported (and are left unflagged).
+ */
+export function normalizeBiomarkerValue(
+  analyte: string,
+  value: number,
+  unit: string
+): NormalizedMeasurement {
+  const originalUnit = normalizeUnitString(unit);
+  const canonicalUnit = getCanonicalUnit(analyte);
+  const canonicalValue = convertToCanonical(analyte, value, originalUnit);
+
+  if (canonicalUnit === null || canonicalValue === null) {
+    return { value, unit: originalUnit, originalValue: value, originalUnit, converted: false };
+  }
+
+  return {
+    value: canonicalValue,
+    unit: canonicalUnit,
+    originalValue: value,
+    originalUnit,
+    converted: originalUnit !== canonicalUnit,
+  };
+}
+
+/**
+ * Express a stored value in the unit a user chose for display, falling back
+ * to the stored unit when no preference is set or the conversion is unknown
+ */
+export function toDisplayUnit(
+  analyte: string,
+  value: number,
+  storedUnit: string,
+  preferences: Record<string, string> | null | undefined
+): { value: number; unit: string } {
+  const preferred = preferences?.[analyte];
+  if (!preferred || preferred === storedUnit) return { value, unit: storedUnit };
+
+  const canonical = convertToCanonical(analyte, value, storedUnit);
+  const converted = canonical === null ? null : convertFromCanonical(analyte, canonical, preferred);
+
+  return converted === null ? { value, unit: storedUnit } : { value: converted, unit: preferred };
+}
+
+// Risk calculator inputs that are biomarkers, all expected in canonical units
+export const RISK_FACTOR_ANALYTES: Record<string, string> = {
+  totalCholesterol: 'cholesterol_total',
+  hdlCholesterol: 'cholesterol_hdl',
+  ldlCholesterol: 'cholesterol_ldl',
+  triglycerides: 'triglycerides',
+  fastingGlucose: 'glucose_fasting',
+  hba1c: 'hba1c',
+  systolicBP: 'bp_systolic',
+  diastolicBP: 'bp_diastolic',
+  egfr: 'egfr',
+  uacr: 'uacr',
+  waistCircumference: 'waist_circumference',
+};
+
+// Calculated values that stand in for a measured risk calculator input; the more recent of the two is used
+export const RISK_FACTOR_CALCULATED_ANALYTES: Record<string, string> = {
+  cholesterol_ldl: 'cholesterol_ldl_martin',
+};
+
+/**
+ * Convert risk calculator inputs given as { value, unit } to plain canonical numbers.
+ * Plain numbers are assumed to already be canonical.
+ */
+export function normalizeRiskFactorInputs(inputs: Record<string, any>): Record<string, any> {
+  const normalized: Record<string, any> = { ...inputs };
+
+  for (const [field, analyte] of Object.entries(RISK_FACTOR_ANALYTES)) {
+    const input = inputs[field];
+    if (input === null || typeof input !== 'object' || typeof input.value !== 'number') continue;
+
+    const canonical = input.unit ? convertToCanonical(analyte, input.value, input.unit) : input.value;
+    if (canonical === null) {
+      throw new Error(`Unsupported unit "${input.unit}" for ${field}`);
+    }
+    normalized[field] = canonical;
+  }
+
+  return normalized;
+}
+
+type StoredTrendRow = {
+  biomarkerType: string;
+  value: number;
+  unit: string;
+  referenceLow: number | null;
+  referenceHigh: number | null;
+  criticalLow: number | null;
+  criticalHigh: number | null;
+};
+
+/**
+ * Express a stored BiomarkerTrend row, including its reference and critical
+ * limits, in the display unit a user chose for that biomarker
+ */
+export function convertTrendRowForDisplay<T extends StoredTrendRow>(
+  row: T,
+  preferences: Record<string, string> | null | undefined
+): T {
+  const display = toDisplayUnit(row.biomarkerType, row.value, row.unit, preferences);
+  if (display.unit === row.unit) return row;
+
+  const convertLimit = (limit: number | null) =>
+    limit === null ? null : toDisplayUnit(row.biomarkerType, limit, row.unit, preferences).value;
+
+  return {
+    ...row,
+    value: display.value,
+    unit: display.unit,
+    referenceLow: convertLimit(row.referenceLow),
+    referenceHigh: convertLimit(row.referenceHigh),
+    criticalLow: convertLimit(row.criticalLow),
+    criticalHigh: convertLimit(row.criticalHigh),
+  };
+}
@@ -0,0 +1,405 @@
+/**
+ * Wearable Data Import
+ * Reads vitals from an Apple Health export (export.xml, streamed out of the zip)
+ * and from Google Fit data in a Google Takeout archive, down-samples them to one
+ * value per biomarker and day, and prepares them for the biomarker import
+ */
+
+import AdmZip from 'adm-zip';
+import { Readable } from 'stream';
+import { StringDecoder } from 'string_decoder';
+import { createInflateRaw } from 'zlib';
+import { CheckedImport, checkImportRows, ImportPreviewRow, ImportSource } from './biomarkerImport';
+import { isPlausibleCollectionDate } from './collectionDate';
+import { getAvailableUnits, normalizeBiomarkerValue, normalizeUnitString, UNIT_REGISTRY } from './unitConversion';
+
+export type WearableSource = Exclude<ImportSource, 'SPREADSHEET'>;
+
+// How the readings of one day are reduced to the value that is tracked
+export type DailyAggregation = 'MEAN' | 'MEDIAN' | 'FIRST';
+
+interface WearableMetric {
+  biomarkerType: string;
+  label: string;
+  aggregation: DailyAggregation;
+  priority?: number; // When several series give the same biomarker on a day, the highest priority is used
+}
+
+export interface DailyAggregate {
+  biomarkerType: string;
+  day: string; // YYYY-MM-DD, local to the device when the export records it
+  value: number; // Canonical unit
+  unit: string;
+  label: string;
+  aggregation: DailyAggregation;
+  sampleCount: number;
+  deviceSource: string;
+}
+
+export interface WearableData {
+  source: WearableSource;
+  aggregates: DailyAggregate[];
+  skippedCount: number; // Readings of a tracked type that could not be used (unit, date, not fasting)
+}
+
+export interface WearablePreview extends CheckedImport {
+  source: WearableSource;
+  skippedCount: number;
+}
+
+const SYSTOLIC: WearableMetric = { biomarkerType: 'bp_systolic', label: 'Systolic blood pressure', aggregation: 'MEAN' };
+const DIASTOLIC: WearableMetric = { biomarkerType: 'bp_diastolic', label: 'Diastolic blood pressure', aggregation: 'MEAN' };
+
+const APPLE_METRICS: Record<string, WearableMetric> = {
+  HKQuantityTypeIdentifierBloodPressureSystolic: SYSTOLIC,
+  HKQuantityTypeIdentifierBloodPressureDiastolic: DIASTOLIC,
+  HKQuantityTypeIdentifierRestingHeartRate: { biomarkerType: 'heart_rate', label: 'Resting heart rate', aggregation: 'MEAN', priority: 1 },
+  HKQuantityTypeIdentifierHeartRate: { biomarkerType: 'heart_rate', label: 'Heart rate', aggregation: 'MEDIAN' },
+  HKQuantityTypeIdentifierBodyMass: { biomarkerType: 'weight', label: 'Weight', aggregation: 'MEAN' },
+  HKQuantityTypeIdentifierWaistCircumference: { biomarkerType: 'waist_circumference', label: 'Waist circumference', aggregation: 'MEAN' },
+  HKQuantityTypeIdentifierBloodGlucose: { biomarkerType: 'glucose_fasting', label: 'Fasting glucose', aggregation: 'FIRST' },
+};
+
+const GOOGLE_FIT_METRICS: Record<string, WearableMetric> = {
+  'com.google.heart_rate.bpm': { biomarkerType: 'heart_rate', label: 'Heart rate', aggregation: 'MEDIAN' },
+  'com.google.weight': { biomarkerType: 'weight', label: 'Weight', aggregation: 'MEAN' },
+  'com.google.blood_glucose': { biomarkerType: 'glucose_fasting', label: 'Fasting glucose', aggregation: 'FIRST' },
+};
+
+// Google Fit stores systolic and diastolic pressure as two fields of one data point
+const GOOGLE_FIT_BLOOD_PRESSURE = 'com.google.blood_pressure';
+const GOOGLE_FIT_UNITS: Record<string, string> = {
+  'com.google.heart_rate.bpm': 'bpm',
+  'com.google.weight': 'kg',
+  'com.google.blood_glucose': 'mmol/L',
+  [GOOGLE_FIT_BLOOD_PRESSURE]: 'mmHg',
+};
+const GOOGLE_FIT_FASTING = 2; // temporal_relation_to_meal
+
+// Apple Health has no fasting flag: a reading marked before a meal and taken before this hour counts as fasting.
+// export.xml writes the meal time as its enum number (preprandial = 1); older exports used the symbolic names
+const APPLE_MEAL_TIME = /key="HK(?:MetadataKey)?BloodGlucoseMealTime" value="([^"]*)"/;
+const APPLE_PREPRANDIAL = ['1', 'HKBloodGlucoseMealTimePreprandial'];
+const FASTING_BEFORE_HOUR = 10;
+
+const RECORD_TAG = '<Record';
+const RECORD_PATTERN = /<Record\b[^>]*?(?:\/>|>[\s\S]*?<\/Record>)/g;
+const XML_CHUNK_SIZE = 1024 * 1024;
+
+interface Reading {
+  key: string; // Series: source record or data type
+  metric: WearableMetric;
+  day: string;
+  time: number;
+  value: number; // Canonical unit
+  deviceSource: string;
+}
+
+interface DailySeries {
+  metric: WearableMetric;
+  day: string;
+  values: number[];
+  first: { time: number; value: number };
+  sources: Set<string>;
+}
+
+// Collects the readings of each series per day and reduces them to one value per biomarker and day
+class DailyAccumulator {
+  private series = new Map<string, DailySeries>();
+  skippedCount = 0;
+
+  add(reading: Reading) {
+    const id = `${reading.key}|${reading.day}`;
+    const entry = this.series.get(id);
+    if (!entry) {
+      this.series.set(id, {
+        metric: reading.metric,
+        day: reading.day,
+        values: [reading.value],
+        first: { time: reading.time, value: reading.value },
+        sources: new Set([reading.deviceSource]),
+      });
+      return;
+    }
+    entry.values.push(reading.value);
+    entry.sources.add(reading.deviceSource);
+    if (reading.time < entry.first.time) entry.first = { time: reading.time, value: reading.value };
+  }
+
+  aggregates(): DailyAggregate[] {
+    const byBiomarkerDay = new Map<string, { aggregate: DailyAggregate; priority: number }>();
+
+    for (const entry of Array.from(this.series.values())) {
+      const { metric } = entry;
+      const canonical = UNIT_REGISTRY[metric.biomarkerType].units[0];
+      const sorted = [...entry.values].sort((a, b) => a - b);
+      const middle = Math.floor(sorted.length / 2);
+      const raw =
+        metric.aggregation === 'FIRST'
+          ? entry.first.value
+          : metric.aggregation === 'MEDIAN'
+            ? sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+            : sorted.reduce((sum, value) => sum + value, 0) / sorted.length;
+      const scale = Math.pow(10, canonical.decimals);
+
+      const aggregate: DailyAggregate = {
+        biomarkerType: metric.biomarkerType,
+        day: entry.day,
+        value: Math.round(raw * scale) / scale,
+        unit: canonical.unit,
+        label: metric.label,
+        aggregation: metric.aggregation,
+        sampleCount: entry.values.length,
+        deviceSource: Array.from(entry.sources).sort().join(', '),
+      };
+
+      const id = `${metric.biomarkerType}|${entry.day}`;
+      const priority = metric.priority ?? 0;
+      const current = byBiomarkerDay.get(id);
+      if (!current || priority > current.priority) byBiomarkerDay.set(id, { aggregate, priority });
+    }
+
+    return Array.from(byBiomarkerDay.values())
+      .map(({ aggregate }) => aggregate)
+      .sort((a, b) => a.day.localeCompare(b.day) || a.biomarkerType.localeCompare(b.biomarkerType));
+  }
+}
+
+// Canonical value of a reading, or null when its unit is not one the biomarker can be tracked in
+function toCanonical(biomarkerType: string, value: number, unit: string): number | null {
+  // Apple Health writes molar glucose units with the molar mass, e.g. "mmol<180.15588000005408>/L"
+  const normalized = normalizeUnitString(unit.replace(/<[^>]*>/g, ''));
+  if (!Number.isFinite(value) || !getAvailableUnits(biomarkerType).includes(normalized)) return null;
+  return normalizeBiomarkerValue(biomarkerType, value, normalized).value;
+}
+
+const readAttribute = (element: string, name: string) =>
+  element.match(new RegExp(`\\b${name}="([^"]*)"`))?.[1]?.replace(/&quot;/g, '"').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&') ?? null;
+
+// Apple Health dates look like "2024-03-05 07:41:12 +0100"; the day and hour are the device's local ones
+function parseAppleDate(raw: string): { day: string; hour: number; time: number } | null {
+  const match = raw.match(/^(\d{4}-\d{2}-\d{2}) (\d{2}):(\d{2}):(\d{2}) ([+-])(\d{2})(\d{2})$/);
+  if (!match) return null;
+  const time = Date.parse(`${match[1]}T${match[2]}:${match[3]}:${match[4]}${match[5]}${match[6]}:${match[7]}`);
+  return Number.isNaN(time) ? null : { day: match[1], hour: parseInt(match[2], 10), time };
+}
+
+function readAppleRecord(element: string, accumulator: DailyAccumulator, seen: Set<string>) {
+  const type = readAttribute(element, 'type');
+  const metric = type ? APPLE_METRICS[type] : undefined;
+  if (!type || !metric) return;
+
+  const date = parseAppleDate(readAttribute(element, 'startDate') ?? '');
+  const sourceName = readAttribute(element, 'sourceName') ?? 'Unknown source';
+  const value = toCanonical(metric.biomarkerType, parseFloat(readAttribute(element, 'value') ?? ''), readAttribute(element, 'unit') ?? '');
+  if (!date || value === null || !isPlausibleCollectionDate(new Date(`${date.day}T00:00:00.000Z`))) {
+    accumulator.skippedCount++;
+    return;
+  }
+
+  if (metric.biomarkerType === 'glucose_fasting') {
+    const mealTime = element.match(APPLE_MEAL_TIME)?.[1];
+    if (!mealTime || !APPLE_PREPRANDIAL.includes(mealTime) || date.hour >= FASTING_BEFORE_HOUR) {
+      accumulator.skippedCount++;
+      return;
+    }
+  }
+
+  // Blood pressure records can be listed on their own and again inside their correlation
+  if (metric.biomarkerType.startsWith('bp_')) {
+    const id = `${type}|${date.time}|${value}|${sourceName}`;
+    if (seen.has(id)) return;
+    seen.add(id);
+  }
+
+  const device = readAttribute(element, 'device')?.match(/\bname:([^,>]+)/)?.[1]?.trim();
+  accumulator.add({
+    key: type,
+    metric,
+    day: date.day,
+    time: date.time,
+    value,
+    deviceSource: `Apple Health (${device ?? sourceName})`,
+  });
+}
+
+function* bufferChunks(buffer: Buffer): Generator<Buffer> {
+  for (let offset = 0; offset < buffer.length; offset += XML_CHUNK_SIZE) {
+    yield buffer.subarray(offset, offset + XML_CHUNK_SIZE);
+  }
+}
+
+/**
+ * Read an Apple Health export: the export.zip from the Health app or the export.xml
+ * inside it. The XML is inflated and scanned in chunks, so the multi-hundred-megabyte
+ * document is never held as one string.
+ */
+export async function readAppleHealthExport(buffer: Buffer, fileName: string): Promise<WearableData> {
+  let stream: Readable;
+  if (fileName.toLowerCase().endsWith('.xml')) {
+    stream = Readable.from(bufferChunks(buffer));
+  } else {
+    const entry = new AdmZip(buffer)
+      .getEntries()
+      .find((candidate) => /(^|\/)export\.xml$/i.test(candidate.entryName));
+    if (!entry) {
+      throw new Error('The archive has no export.xml; upload the export.zip from the Health app');
+    }
+    const compressed = Readable.from(bufferChunks(entry.getCompressedData()));
+    stream = entry.header.method === 0 ? compressed : compressed.pipe(createInflateRaw());
+  }
+
+  const accumulator = new DailyAccumulator();
+  const seen = new Set<string>();
+  const decoder = new StringDecoder('utf8');
+  let pending = '';
+
+  const scan = (text: string) => {
+    pending += text;
+    let consumed = 0;
+    for (const match of Array.from(pending.matchAll(RECORD_PATTERN))) {
+      readAppleRecord(match[0], accumulator, seen);
+      consumed = match.index! + match[0].length;
+    }
+    // Keep an unfinished record, or the tail that could be the start of one
+    const rest = pending.slice(consumed);
+    const open = rest.indexOf(RECORD_TAG);
+    pending = open === -1 ? rest.slice(-RECORD_TAG.length) : rest.slice(open);
+  };
+
+  for await (const chunk of stream) scan(decoder.write(chunk as Buffer));
+  scan(decoder.end());
+
+  return { source: 'APPLE_HEALTH', aggregates: accumulator.aggregates(), skippedCount: accumulator.skippedCount };
+}
+
+interface GoogleFitValue {
+  fpVal?: number;
+  intVal?: number;
+}
+
+interface GoogleFitDataPoint {
+  dataTypeName?: string;
+  startTimeNanos?: number | string;
+  originDataSourceId?: string;
+  fitValue?: Array<{ value?: GoogleFitValue }>;
+}
+
+// "raw:com.google.weight:com.withings.wiscale2:..." names the app that wrote the data
+function googleFitDeviceSource(dataSourceId: string | undefined): string {
+  const app = dataSourceId?.split(':')[2];
+  return `Google Fit (${app || 'unknown app'})`;
+}
+
+function readGoogleFitFile(json: string, accumulator: DailyAccumulator) {
+  const file = JSON.parse(json) as { 'Data Source'?: string; 'Data Points'?: GoogleFitDataPoint[] };
+
+  for (const point of file['Data Points'] ?? []) {
+    const dataType = point.dataTypeName ?? '';
+    const unit = GOOGLE_FIT_UNITS[dataType];
+    if (!unit) continue;
+
+    const time = Math.floor(Number(point.startTimeNanos) / 1e6);
+    const date = new Date(time);
+    const fields = (point.fitValue ?? []).map((field) => field.value?.fpVal ?? field.value?.intVal);
+    const deviceSource = googleFitDeviceSource(point.originDataSourceId || file['Data Source']);
+
+    if (!Number.isFinite(time) || !isPlausibleCollectionDate(date)) {
+      accumulator.skippedCount++;
+      continue;
+    }
+    if (dataType === 'com.google.blood_glucose' && fields[1] !== GOOGLE_FIT_FASTING) {
+      accumulator.skippedCount++;
+      continue;
+    }
+
+    const readings: Array<{ key: string; metric: WearableMetric; raw: number | undefined }> =
+      dataType === GOOGLE_FIT_BLOOD_PRESSURE
+        ? [
+            { key: `${dataType}:systolic`, metric: SYSTOLIC, raw: fields[0] },
+            { key: `${dataType}:diastolic`, metric: DIASTOLIC, raw: fields[1] },
+          ]
+        : [{ key: dataType, metric: GOOGLE_FIT_METRICS[dataType], raw: fields[0] }];
+
+    for (const { key, metric, raw } of readings) {
+      const value = raw === undefined ? null : toCanonical(metric.biomarkerType, raw, unit);
+      if (value === null) {
+        accumulator.skippedCount++;
+        continue;
+      }
+      accumulator.add({ key, metric, day: date.toISOString().split('T')[0], time, value, deviceSource });
+    }
+  }
+}
+
+/**
+ * Read Google Fit data from a Google Takeout archive (the raw data streams under
+ * Fit/All Data), or one of those JSON files uploaded on its own. Derived streams
+ * merge the raw ones and are skipped so readings aren't counted twice.
+ */
+export function readGoogleFitTakeout(buffer: Buffer, fileName: string): WearableData {
+  const accumulator = new DailyAccumulator();
+
+  if (fileName.toLowerCase().endsWith('.json')) {
+    readGoogleFitFile(buffer.toString('utf8'), accumulator);
+  } else {
+    const entries = new AdmZip(buffer)
+      .getEntries()
+      .filter((entry) => /(^|\/)Fit\/All Data\/raw_[^/]+\.json$/i.test(entry.entryName));
+    if (entries.length === 0) {
+      throw new Error('The archive has no Google Fit data; include "Fit" when exporting from Google Takeout');
+    }
+    for (const entry of entries) {
+      // Files are named raw_<data type>_<app>.json; step counts and the like are not read at all
+      const name = entry.entryName.split('/').pop()!;
+      if (!Object.keys(GOOGLE_FIT_UNITS).some((dataType) => name.startsWith(`raw_${dataType}_`))) continue;
+      readGoogleFitFile(entry.getData().toString('utf8'), accumulator);
+    }
+  }
+
+  return { source: 'GOOGLE_FIT', aggregates: accumulator.aggregates(), skippedCount: accumulator.skippedCount };
+}
+
+/**
+ * Read an uploaded wearable export, telling Apple Health and Google Takeout apart by
+ * the file name or the archive's contents
+ */
+export async function readWearableExport(buffer: Buffer, fileName: string): Promise<WearableData> {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'xml') return readAppleHealthExport(buffer, fileName);
+  if (extension === 'json') return readGoogleFitTakeout(buffer, fileName);
+  if (extension !== 'zip') {
+    throw new Error('Unsupported file type; upload the Apple Health export.zip or a Google Takeout .zip');
+  }
+
+  const isAppleHealth = new AdmZip(buffer).getEntries().some((entry) => /(^|\/)export\.xml$/i.test(entry.entryName));
+  return isAppleHealth ? readAppleHealthExport(buffer, fileName) : readGoogleFitTakeout(buffer, fileName);
+}
+
+function describeAggregate(aggregate: DailyAggregate): string {
+  if (aggregate.aggregation === 'FIRST') return `${aggregate.label}, first reading of the day`;
+  const readings = aggregate.sampleCount === 1 ? '1 reading' : `${aggregate.sampleCount} readings`;
+  return `${aggregate.label}, ${aggregate.aggregation === 'MEDIAN' ? 'median' : 'mean'} of ${readings}`;
+}
+
+/**
+ * Check the daily values of a wearable export against tracked data, like the rows
+ * of a spreadsheet import
+ */
+export async function buildWearablePreview(userId: string, data: WearableData): Promise<WearablePreview> {
+  const rows: ImportPreviewRow[] = data.aggregates.map((aggregate, index) => ({
+    rowNumber: index + 1,
+    label: describeAggregate(aggregate),
+    biomarkerType: aggregate.biomarkerType,
+    recordedDate: new Date(`${aggregate.day}T00:00:00.000Z`),
+    value: aggregate.value,
+    unit: aggregate.unit,
+    originalValue: null,
+    originalUnit: null,
+    status: 'VALID',
+    message: null,
+    deviceSource: aggregate.deviceSource,
+  }));
+
+  return { source: data.source, skippedCount: data.skippedCount, ...(await checkImportRows(userId, rows)) };
+}
@@ -0,0 +1,133 @@
+/**
+ * Analysis Schema Tests
+ * Validation of LLM output per report type and the repair loop in analyzeMedicalReport
+ */
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { parseAnalysisContent, validateAnalysis } from '../src/lib/analysisSchema';
+import { getAnalysisFixture } from '../src/lib/llmFixtures';
+import { analyzeMedicalReport } from '../src/lib/llmAnalysis';
+
+const ecg = () => structuredClone(getAnalysisFixture('ECG'));
+
+describe('parseAnalysisContent', () => {
+  it('reads a fenced code block', () => {
+    assert.deepEqual(parseAnalysisContent('Here you go:\n```json\n{"a": 1}\n```'), { a: 1 });
+  });
+
+  it('reads a bare object surrounded by prose', () => {
+    assert.deepEqual(parseAnalysisContent('Result: {"a": {"b": 2}} done'), { a: { b: 2 } });
+  });
+
+  it('throws when there is no object', () => {
+    assert.throws(() => parseAnalysisContent('I cannot analyze this report.'), /No JSON object/);
+  });
+});
+
+describe('validateAnalysis', () => {
+  it('accepts every canned analysis', () => {
+    for (const reportType of ['ECG', 'XRAY', 'CT_SCAN', 'MRI', 'BLOOD_TEST', 'PATHOLOGY', 'OTHER']) {
+      const result = validateAnalysis(reportType, getAnalysisFixture(reportType));
+      assert.ok(result.valid, `${reportType}: ${result.valid ? '' : result.errors.join('; ')}`);
+    }
+  });
+
+  it('defaults a missing collection date to null', () => {
+    const result = validateAnalysis('ECG', ecg());
+    assert.ok(result.valid);
+    assert.equal(result.value.collectionDate, null);
+  });
+
+  it('reports missing, mistyped and out-of-range fields with their path', () => {
+    const data = ecg();
+    delete data.patientSummary;
+    data.confidence = 1.4;
+    data.riskLevel = 'SEVERE';
+    data.findings.heartRate = '72 bpm';
+
+    const result = validateAnalysis('ECG', data);
+    assert.equal(result.valid, false);
+    assert.deepEqual(!result.valid && result.errors, [
+      'patientSummary is required',
+      'confidence must be <= 1',
+      'riskLevel must be one of LOW, MEDIUM, HIGH',
+      'findings.heartRate must be of type number (got string)',
+    ]);
+  });
+
+  it('allows a null heart rate but not empty strings', () => {
+    const data = ecg();
+    data.findings.heartRate = null;
+    data.recommendations = '  ';
+    const result = validateAnalysis('ECG', data);
+    assert.deepEqual(!result.valid && result.errors, ['recommendations must not be empty']);
+  });
+
+  it('checks unknown report types against the OTHER schema', () => {
+    const result = validateAnalysis('ULTRASOUND', { ...ecg(), findings: { summary: 'Normal' } });
+    assert.deepEqual(!result.valid && result.errors, ['findings.details is required']);
+  });
+
+  it('rejects anything but an object', () => {
+    assert.deepEqual(validateAnalysis('ECG', [ecg()]), { valid: false, errors: ['Response must be a JSON object'] });
+  });
+});
+
+describe('analyzeMedicalReport repair loop', () => {
+  let server: Server;
+  let replies: string[] = [];
+  let requests: any[] = [];
+
+  before(async () => {
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        requests.push(JSON.parse(body));
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({ model: 'test-model', message: { content: replies.shift() ?? 'no more replies' } }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    process.env.LLM_PROVIDER_ECG = 'ollama';
+    process.env.OLLAMA_API_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/chat`;
+  });
+
+  after(() => {
+    delete process.env.LLM_PROVIDER_ECG;
+    delete process.env.OLLAMA_API_URL;
+    server.close();
+  });
+
+  it('re-asks with the validation errors and keeps the repaired answer', async () => {
+    const invalid = { ...ecg(), confidence: 'high' };
+    replies = [JSON.stringify(invalid), JSON.stringify({ ...ecg(), collectionDate: '2024-02-03' })];
+    requests = [];
+
+    const analysis = await analyzeMedicalReport('ECG', 'Sinus rhythm 72 bpm');
+    assert.equal(analysis.parseStatus, 'PARSED');
+    assert.equal(analysis.repairAttempts, 1);
+    assert.equal(analysis.modelUsed, 'test-model');
+    assert.equal(analysis.collectionDate?.toISOString().slice(0, 10), '2024-02-03');
+
+    const repair = requests[1].messages.at(-1).content;
+    assert.match(repair, /confidence must be of type number \(got string\)/);
+  });
+
+  it('stores the output as unparsed after the last repair attempt', async () => {
+    replies = ['not json', '{"findings": {}}', 'still not json'];
+    requests = [];
+
+    const analysis = await analyzeMedicalReport('ECG', 'Sinus rhythm 72 bpm');
+    assert.equal(requests.length, 3);
+    assert.equal(analysis.parseStatus, 'UNPARSED');
+    assert.equal(analysis.repairAttempts, 2);
+    assert.equal(analysis.riskLevel, null);
+    assert.equal(analysis.confidence, null);
+    assert.equal(analysis.technicalSummary, 'still not json');
+    assert.match(analysis.validationErrors ?? '', /not valid JSON/);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Analyte Dictionary Tests
+ * Mapping of LLM findings and report text to biomarker types
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { extractAnalytes } from '../src/lib/analyteDictionary';
+import { resolveBiomarkerLabel } from '../src/lib/biomarkerImport';
+
+const valueOf = (matches: ReturnType<typeof extractAnalytes>, type: string) =>
+  matches.find((match) => match.type === type)?.value;
+
+describe('glucose labels', () => {
+  it('reads "Random glucose" in report text as random glucose', () => {
+    const matches = extractAnalytes(null, 'Random glucose 180 mg/dL', 'BLOOD_TEST');
+    assert.equal(valueOf(matches, 'glucose_random'), 180);
+    assert.equal(valueOf(matches, 'glucose_fasting'), undefined);
+  });
+
+  it('reads "Glucose (fasting)" in report text as fasting glucose', () => {
+    const matches = extractAnalytes(null, 'Glucose (fasting) 95 mg/dL', 'BLOOD_TEST');
+    assert.equal(valueOf(matches, 'glucose_fasting'), 95);
+    assert.equal(valueOf(matches, 'glucose_random'), undefined);
+  });
+
+  it('keeps unqualified glucose out of fasting glucose', () => {
+    const matches = extractAnalytes({ glucose: 104, fastingGlucose: 92 }, 'Blood sugar 7.1 mmol/L', 'BLOOD_TEST');
+    assert.equal(valueOf(matches, 'glucose_fasting'), 92);
+    assert.equal(valueOf(matches, 'glucose_random'), 104);
+  });
+
+  it('maps import column names the same way', () => {
+    assert.equal(resolveBiomarkerLabel('Random glucose')?.biomarkerType, 'glucose_random');
+    assert.equal(resolveBiomarkerLabel('Glucose (mmol/L)')?.biomarkerType, 'glucose_random');
+    assert.equal(resolveBiomarkerLabel('Fasting glucose (mg/dL)')?.biomarkerType, 'glucose_fasting');
+    assert.equal(resolveBiomarkerLabel('Glucose (fasting)')?.biomarkerType, 'glucose_fasting');
+    assert.equal(resolveBiomarkerLabel('FBS')?.biomarkerType, 'glucose_fasting');
+  });
+});
+
+describe('extractAnalytes from findings', () => {
+  it('reads nested keys with their parent and canonical units', () => {
+    const matches = extractAnalytes(
+      { cholesterol: { total: 212, hdl: 48, ldl: '3.6 mmol/L (high)' }, hba1c: { value: 5.8, unit: '%' } },
+      null,
+      'BLOOD_TEST'
+    );
+    const ldl = matches.find((match) => match.type === 'cholesterol_ldl')!;
+    assert.equal(valueOf(matches, 'cholesterol_total'), 212);
+    assert.equal(valueOf(matches, 'cholesterol_hdl'), 48);
+    assert.deepEqual([ldl.value, ldl.unit, ldl.loinc, ldl.source], [3.6, 'mmol/L', '13457-7', 'FINDINGS']);
+    assert.equal(valueOf(matches, 'hba1c'), 5.8);
+  });
+
+  it('reads arrays of named rows', () => {
+    const matches = extractAnalytes(
+      { results: [{ name: 'Serum Potassium', value: 4.1, unit: 'mmol/L' }, { test: 'ALT (SGPT)', value: '32 U/L' }] },
+      null,
+      'BLOOD_TEST'
+    );
+    assert.equal(valueOf(matches, 'potassium'), 4.1);
+    assert.equal(valueOf(matches, 'alt'), 32);
+  });
+
+  it('skips reference limits and ratios', () => {
+    const matches = extractAnalytes(
+      { ldl: { value: 142, unit: 'mg/dL', high: 100 }, referenceRange: { hdl: 40 }, cholesterolRatio: 4.2 },
+      null,
+      'BLOOD_TEST'
+    );
+    assert.equal(valueOf(matches, 'cholesterol_ldl'), 142);
+    assert.equal(valueOf(matches, 'cholesterol_hdl'), undefined);
+    assert.equal(valueOf(matches, 'cholesterol_total'), undefined);
+  });
+
+  it('splits a blood pressure reading', () => {
+    const matches = extractAnalytes({ vitals: { bloodPressure: '142/91 mmHg' } }, null, 'BLOOD_TEST');
+    assert.equal(valueOf(matches, 'bp_systolic'), 142);
+    assert.equal(valueOf(matches, 'bp_diastolic'), 91);
+  });
+
+  it('lowers the confidence for an assumed or unexpected unit', () => {
+    const [given] = extractAnalytes({ creatinine: '1.1 mg/dL' }, null, 'BLOOD_TEST');
+    const [assumed] = extractAnalytes({ creatinine: 1.1 }, null, 'BLOOD_TEST');
+    const [unexpected] = extractAnalytes({ creatinine: '1.1 mmHg' }, null, 'BLOOD_TEST');
+    assert.ok(given.confidence > assumed.confidence);
+    assert.ok(assumed.confidence > unexpected.confidence);
+  });
+
+  it('only looks for the panels of the report type', () => {
+    const matches = extractAnalytes({ heartRate: 64, intervals: { QTc: 412 }, cholesterol: 190 }, null, 'ECG');
+    assert.deepEqual(matches.map((match) => match.type).sort(), ['heart_rate', 'qtc_interval']);
+  });
+});
+
+describe('extractAnalytes from report text', () => {
+  it('fills analytes the findings did not contain', () => {
+    const matches = extractAnalytes({ ldl: 130 }, 'LDL 150 mg/dL\nHDL Cholesterol 52 mg/dL', 'BLOOD_TEST');
+    const hdl = matches.find((match) => match.type === 'cholesterol_hdl')!;
+    assert.equal(valueOf(matches, 'cholesterol_ldl'), 130);
+    assert.equal(hdl.value, 52);
+    assert.equal(hdl.source, 'REPORT_TEXT');
+  });
+
+  it('does not read HbA1c as hemoglobin', () => {
+    const matches = extractAnalytes(null, 'Hemoglobin A1c 5.8 %', 'BLOOD_TEST');
+    assert.equal(valueOf(matches, 'hba1c'), 5.8);
+    assert.equal(valueOf(matches, 'hemoglobin'), undefined);
+  });
+
+  it('skips targets and reference values and reads the result after them', () => {
+    const matches = extractAnalytes(null, 'LDL goal < 100 mg/dL. LDL 132 mg/dL', 'BLOOD_TEST');
+    assert.equal(valueOf(matches, 'cholesterol_ldl'), 132);
+  });
+
+  it('skips censored values', () => {
+    const matches = extractAnalytes(null, 'eGFR >90 mL/min/1.73m2', 'BLOOD_TEST');
+    assert.equal(valueOf(matches, 'egfr'), undefined);
+  });
+
+  it('skips a blood pressure target', () => {
+    const matches = extractAnalytes(null, 'Blood pressure target < 130/80. Blood pressure 142/91 mmHg', 'BLOOD_TEST');
+    assert.equal(valueOf(matches, 'bp_systolic'), 142);
+    assert.equal(valueOf(matches, 'bp_diastolic'), 91);
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Atrial Fibrillation Score Tests
+ * ECG detection and the published CHA2DS2-VASc and HAS-BLED item weights
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  AtrialFibrillationInputs,
+  calculateCHA2DS2VASc,
+  calculateHASBLED,
+  hasAtrialFibrillationFinding,
+  parsePatientConditions,
+  PatientConditions,
+} from '../src/lib/atrialFibrillation';
+
+// Every condition answered "no" unless overridden, so scores are complete
+const NONE: PatientConditions = {
+  heartFailure: false, hypertension: false, diabetes: false, strokeOrTIA: false, vascularDisease: false,
+  bleedingHistory: false, liverDisease: false, dialysisOrKidneyTransplant: false, labileINR: false,
+  antiplateletOrNSAID: false, alcoholExcess: false,
+};
+
+function inputs(overrides: Partial<AtrialFibrillationInputs> & { age?: number; conditions?: PatientConditions } = {}): AtrialFibrillationInputs {
+  const { age = 55, conditions = {}, ...rest } = overrides;
+  return {
+    factors: { age, biologicalSex: 'MALE', smokingStatus: 'NEVER', diabetesStatus: false, systolicBP: 130 },
+    sources: {},
+    conditions: { ...NONE, ...conditions },
+    biologicalSex: 'MALE',
+    history: '',
+    labs: {},
+    ecgReportId: null,
+    ...rest,
+  };
+}
+
+const itemsPresent = (result: ReturnType<typeof calculateHASBLED>) =>
+  (result.factors.items as Array<{ key: string; present: boolean | null }>).filter((item) => item.present).map((item) => item.key);
+
+describe('hasAtrialFibrillationFinding', () => {
+  it('finds atrial fibrillation or flutter in the rhythm or abnormalities', () => {
+    assert.ok(hasAtrialFibrillationFinding({ rhythm: 'Atrial fibrillation with rapid ventricular response' }));
+    assert.ok(hasAtrialFibrillationFinding(JSON.stringify({ rhythm: 'Irregular', abnormalities: ['AFib'] })));
+    assert.ok(hasAtrialFibrillationFinding({ rhythm: 'Sinus', abnormalities: [{ finding: 'Atrial flutter 2:1' }] }));
+  });
+
+  it('ignores negated mentions and unreadable findings', () => {
+    assert.ok(!hasAtrialFibrillationFinding({ rhythm: 'Normal sinus rhythm, no atrial fibrillation' }));
+    assert.ok(!hasAtrialFibrillationFinding({ rhythm: 'Sinus rhythm', abnormalities: ['Negative for atrial flutter'] }));
+    assert.ok(!hasAtrialFibrillationFinding('not json'));
+  });
+});
+
+describe('parsePatientConditions', () => {
+  it('keeps known conditions answered yes or no', () => {
+    assert.deepEqual(parsePatientConditions({ diabetes: true, hypertension: 'yes', unknown: true, heartFailure: false }), {
+      diabetes: true,
+      heartFailure: false,
+    });
+  });
+});
+
+describe('calculateCHA2DS2VASc', () => {
+  it('scores 0 for a man under 65 without risk factors', () => {
+    const result = calculateCHA2DS2VASc(inputs());
+    assert.equal(result.score, 0);
+    assert.equal(result.riskCategory, 'LOW');
+    assert.equal(result.factors.annualStrokeRate, 0);
+  });
+
+  it('weights age 75+ and stroke at 2 points (Lip et al., Chest 2010)', () => {
+    const result = calculateCHA2DS2VASc(inputs({
+      age: 78,
+      biologicalSex: 'FEMALE',
+      conditions: { hypertension: true, diabetes: true, strokeOrTIA: true },
+    }));
+    // A2 + H + D + S2 + Sc = 2 + 1 + 1 + 2 + 1
+    assert.equal(result.score, 7);
+    assert.equal(result.factors.annualStrokeRate, 9.6);
+    assert.equal(result.riskCategory, 'VERY_HIGH');
+  });
+
+  it('counts all items up to the maximum of 9', () => {
+    const result = calculateCHA2DS2VASc(inputs({
+      age: 80,
+      biologicalSex: 'FEMALE',
+      conditions: { heartFailure: true, hypertension: true, diabetes: true, strokeOrTIA: true, vascularDisease: true },
+    }));
+    assert.equal(result.score, 9);
+    assert.equal(result.factors.annualStrokeRate, 15.2);
+  });
+
+  it('treats female sex as a risk modifier only', () => {
+    const woman = calculateCHA2DS2VASc(inputs({ biologicalSex: 'FEMALE' }));
+    assert.equal(woman.score, 1);
+    assert.equal(woman.riskCategory, 'LOW');
+
+    const womanWithHypertension = calculateCHA2DS2VASc(inputs({ biologicalSex: 'FEMALE', conditions: { hypertension: true } }));
+    assert.equal(womanWithHypertension.riskCategory, 'MODERATE');
+  });
+
+  it('reads diabetes from HbA1c and hypertension from treatment when not answered', () => {
+    const result = calculateCHA2DS2VASc(inputs({
+      conditions: { diabetes: undefined, hypertension: undefined },
+      factors: { age: 60, biologicalSex: 'MALE', smokingStatus: 'NEVER', diabetesStatus: false, hba1c: 6.8, hypertensionTreated: true },
+    }));
+    assert.equal(result.score, 2);
+    const diabetes = (result.factors.items as any[]).find((item) => item.key === 'D');
+    assert.equal(diabetes.source, 'HbA1c 6.8%');
+  });
+
+  it('reports unknown items as missing instead of absent', () => {
+    const result = calculateCHA2DS2VASc(inputs({ conditions: { heartFailure: undefined, strokeOrTIA: undefined }, biologicalSex: null }));
+    assert.equal(result.score, 0);
+    assert.equal(result.factors.maxScore, 4);
+    assert.equal(result.factors.missing.length, 3);
+    assert.match(result.interpretation, /at least 0 \(up to 4/);
+  });
+
+  it('reads conditions from the medical history but not their negation', () => {
+    const result = calculateCHA2DS2VASc(inputs({
+      conditions: { heartFailure: undefined, vascularDisease: undefined },
+      history: 'Congestive heart failure since 2019. No history of heart attack.',
+    }));
+    assert.equal(result.score, 1);
+    assert.deepEqual(result.factors.missing, ['Vascular disease (heart attack, peripheral artery disease, aortic plaque)']);
+  });
+});
+
+describe('calculateHASBLED', () => {
+  it('scores 0 without risk factors', () => {
+    const result = calculateHASBLED(inputs());
+    assert.equal(result.score, 0);
+    assert.equal(result.riskCategory, 'LOW');
+  });
+
+  it('gives one point per item (Pisters et al., Chest 2010)', () => {
+    const result = calculateHASBLED(inputs({
+      age: 70,
+      factors: { age: 70, biologicalSex: 'MALE', smokingStatus: 'NEVER', diabetesStatus: false, systolicBP: 165 },
+      conditions: { strokeOrTIA: true, antiplateletOrNSAID: true, alcoholExcess: true },
+    }));
+    assert.deepEqual(itemsPresent(result), ['H', 'S', 'E', 'D-drugs', 'D-alcohol']);
+    assert.equal(result.score, 5);
+    assert.equal(result.riskCategory, 'VERY_HIGH');
+  });
+
+  it('counts systolic pressure above 160 only, and age over 65 only', () => {
+    const result = calculateHASBLED(inputs({
+      age: 65,
+      factors: { age: 65, biologicalSex: 'MALE', smokingStatus: 'NEVER', diabetesStatus: false, systolicBP: 160 },
+    }));
+    assert.equal(result.score, 0);
+  });
+
+  it('reads kidney and liver function from labs', () => {
+    const recordedDate = new Date('2025-01-15');
+    const result = calculateHASBLED(inputs({
+      labs: {
+        creatinine: { value: 2.4, referenceHigh: 1.35, recordedDate },
+        bilirubin_total: { value: 2.6, referenceHigh: 1.2, recordedDate },
+        alt: { value: 180, referenceHigh: 55, recordedDate },
+      },
+    }));
+    assert.deepEqual(itemsPresent(result), ['A-renal', 'A-liver']);
+    assert.equal(result.riskCategory, 'MODERATE');
+  });
+
+  it('does not count liver function when only one of the tests is raised', () => {
+    const recordedDate = new Date('2025-01-15');
+    const result = calculateHASBLED(inputs({
+      labs: {
+        bilirubin_total: { value: 3, referenceHigh: 1.2, recordedDate },
+        ast: { value: 60, referenceHigh: 48, recordedDate },
+      },
+    }));
+    assert.equal(result.score, 0);
+  });
+});
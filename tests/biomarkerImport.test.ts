@@ -0,0 +1,107 @@
+/**
+ * Biomarker Import Tests
+ * Column mapping suggestions and the parsing of date and value cells
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  countImportValues,
+  parseImportDate,
+  parseImportValue,
+  resolveBiomarkerLabel,
+  suggestImportMapping,
+  validateImportMapping,
+} from '../src/lib/biomarkerImport';
+
+const utc = (date: string) => new Date(`${date}T00:00:00Z`);
+
+describe('parseImportDate', () => {
+  it('reads report date formats and ignores a time after the date', () => {
+    assert.deepEqual(parseImportDate('2024-03-04'), utc('2024-03-04'));
+    assert.deepEqual(parseImportDate('2024-03-04T08:15:00'), utc('2024-03-04'));
+    assert.deepEqual(parseImportDate(' 03/04/2024 08:15 '), utc('2024-03-04'));
+    assert.deepEqual(parseImportDate('20.10.2025'), utc('2025-10-20'));
+  });
+
+  it('reads slash dates day first when asked', () => {
+    assert.deepEqual(parseImportDate('03/04/2024', true), utc('2024-04-03'));
+    assert.deepEqual(parseImportDate('25-12-2023', true), utc('2023-12-25'));
+  });
+
+  it('reads Excel serial day numbers', () => {
+    assert.deepEqual(parseImportDate('45292'), utc('2024-01-01'));
+    assert.deepEqual(parseImportDate('45292.75'), utc('2024-01-01'));
+  });
+
+  it('returns null for text that is not a date', () => {
+    assert.equal(parseImportDate(''), null);
+    assert.equal(parseImportDate('last Tuesday'), null);
+    assert.equal(parseImportDate('2024-02-30'), null);
+  });
+});
+
+describe('parseImportValue', () => {
+  it('reads plain numbers, thousands separators and a decimal comma', () => {
+    assert.deepEqual(parseImportValue('132'), { value: 132 });
+    assert.deepEqual(parseImportValue(' 5.2 '), { value: 5.2 });
+    assert.deepEqual(parseImportValue('5,2'), { value: 5.2 });
+    assert.deepEqual(parseImportValue('-0,45'), { value: -0.45 });
+    assert.deepEqual(parseImportValue('1,250'), { value: 1250 });
+    assert.deepEqual(parseImportValue('250 000'), { value: 250000 });
+  });
+
+  it('rejects qualified values and text', () => {
+    assert.deepEqual(parseImportValue('<0.5'), {
+      error: '"<0.5" is a value below or above the measurable range and can\'t be tracked',
+    });
+    assert.ok('error' in parseImportValue('≥ 90'));
+    assert.deepEqual(parseImportValue('positive'), { error: '"positive" is not a number' });
+    assert.deepEqual(parseImportValue(''), { error: '"" is not a number' });
+  });
+});
+
+describe('suggestImportMapping', () => {
+  it('maps a wide file with units in the headers', () => {
+    assert.deepEqual(suggestImportMapping(['Collected', 'LDL (mmol/L)', 'HDL', 'Notes', 'Creatinine [µmol/L]']), {
+      layout: 'WIDE',
+      dateColumn: 'Collected',
+      columns: [
+        { column: 'LDL (mmol/L)', biomarkerType: 'cholesterol_ldl', unit: 'mmol/L' },
+        { column: 'HDL', biomarkerType: 'cholesterol_hdl', unit: 'mg/dL' },
+        { column: 'Creatinine [µmol/L]', biomarkerType: 'creatinine', unit: 'µmol/L' },
+      ],
+    });
+  });
+
+  it('maps a long file with test name, value and unit columns', () => {
+    assert.deepEqual(suggestImportMapping(['Date', 'Test name', 'Result', 'Units']), {
+      layout: 'LONG',
+      dateColumn: 'Date',
+      nameColumn: 'Test name',
+      valueColumn: 'Result',
+      unitColumn: 'Units',
+    });
+  });
+
+  it('uses the first column as the date when no header names one', () => {
+    const mapping = suggestImportMapping(['When', 'Triglycerides']);
+    assert.equal(mapping.dateColumn, 'When');
+    assert.deepEqual(mapping.columns, [{ column: 'Triglycerides', biomarkerType: 'triglycerides', unit: 'mg/dL' }]);
+  });
+
+  it('ignores a unit the biomarker does not use', () => {
+    assert.deepEqual(resolveBiomarkerLabel('LDL (mg/L)'), { biomarkerType: 'cholesterol_ldl', unit: null });
+  });
+
+  it('produces mappings that validate against the headers', () => {
+    const headers = ['Date', 'LDL (mmol/L)', 'HbA1c (%)'];
+    const mapping = suggestImportMapping(headers);
+    assert.equal(validateImportMapping(mapping, headers), null);
+    assert.equal(validateImportMapping(mapping, ['Date']), 'Columns not found in the file: LDL (mmol/L), HbA1c (%)');
+    assert.equal(
+      countImportValues({ headers, rows: [['2024-01-01', '3.4', ''], ['2024-02-01', '3.1', '6.1']] }, mapping),
+      3
+    );
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Biomarker Validation Tests
+ * Physiological limits, delta checks and quarantine of derived values
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  checkBiomarkerValue,
+  checkDerivedBiomarker,
+  getDerivedBiomarkerTypes,
+  PLAUSIBILITY_RULES,
+} from '../src/lib/biomarkerValidation';
+import { DERIVED_BIOMARKERS } from '../src/lib/derivedBiomarkers';
+import { getCanonicalUnit } from '../src/lib/unitConversion';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE = new Date('2024-06-01T00:00:00Z');
+const daysBefore = (days: number) => new Date(DATE.getTime() - days * DAY_MS);
+
+describe('checkBiomarkerValue', () => {
+  it('accepts values within the physiological limits', () => {
+    assert.deepEqual(checkBiomarkerValue('potassium', 4.2, 'mmol/L', DATE), { status: 'ACCEPTED', reason: null });
+  });
+
+  it('quarantines values outside the limits, at the limits inclusive', () => {
+    const check = checkBiomarkerValue('potassium', 45, 'mmol/L', DATE);
+    assert.equal(check.status, 'QUARANTINED');
+    assert.equal(check.reason, 'Potassium of 45 mmol/L is outside the physiologically possible range (1.5–10 mmol/L)');
+
+    assert.equal(checkBiomarkerValue('potassium', 10, 'mmol/L', DATE).status, 'ACCEPTED');
+    assert.equal(checkBiomarkerValue('potassium', 1.4, 'mmol/L', DATE).status, 'QUARANTINED');
+    assert.equal(checkBiomarkerValue('potassium', NaN, 'mmol/L', DATE).status, 'QUARANTINED');
+  });
+
+  it('quarantines a change beyond both delta limits within the window', () => {
+    const check = checkBiomarkerValue('creatinine', 2.5, 'mg/dL', DATE, { value: 1.0, unit: 'mg/dL', recordedDate: daysBefore(3) });
+    assert.equal(check.status, 'QUARANTINED');
+    assert.match(check.reason!, /^Creatinine rose from 1 to 2\.5 mg\/dL \(\+150%\) 3 day\(s\) after the previous result/);
+  });
+
+  it('describes same-day falls', () => {
+    const check = checkBiomarkerValue('hemoglobin', 9, 'g/dL', DATE, { value: 14, unit: 'g/dL', recordedDate: DATE });
+    assert.match(check.reason!, /^Hemoglobin fell from 14 to 9 g\/dL \(-36%\) on the same day as the previous result/);
+  });
+
+  it('accepts the same change outside the delta window', () => {
+    const previous = { value: 1.0, unit: 'mg/dL', recordedDate: daysBefore(8) };
+    assert.equal(checkBiomarkerValue('creatinine', 2.5, 'mg/dL', DATE, previous).status, 'ACCEPTED');
+  });
+
+  it('requires both the absolute and the percentage change', () => {
+    // Creatinine: 1 mg/dL and 50%. +1.2 is 24% of 5; +0.6 is 60% of 1.
+    assert.equal(
+      checkBiomarkerValue('creatinine', 6.2, 'mg/dL', DATE, { value: 5, unit: 'mg/dL', recordedDate: daysBefore(1) }).status,
+      'ACCEPTED'
+    );
+    assert.equal(
+      checkBiomarkerValue('creatinine', 1.6, 'mg/dL', DATE, { value: 1, unit: 'mg/dL', recordedDate: daysBefore(1) }).status,
+      'ACCEPTED'
+    );
+  });
+
+  it('skips the delta check for analytes without a delta rule', () => {
+    const previous = { value: 80, unit: 'mg/dL', recordedDate: DATE };
+    assert.equal(checkBiomarkerValue('glucose_random', 400, 'mg/dL', DATE, previous).status, 'ACCEPTED');
+  });
+
+  it('skips the delta check when the previous result is in another unit', () => {
+    const previous = { value: 88, unit: 'µmol/L', recordedDate: daysBefore(1) };
+    assert.equal(checkBiomarkerValue('creatinine', 2.5, 'mg/dL', DATE, previous).status, 'ACCEPTED');
+  });
+
+  it('accepts values in a non-canonical unit', () => {
+    assert.equal(checkBiomarkerValue('creatinine', 88, 'µmol/L', DATE).status, 'ACCEPTED');
+  });
+
+  it('accepts analytes without a rule', () => {
+    assert.equal(PLAUSIBILITY_RULES.bmi, undefined);
+    assert.equal(checkBiomarkerValue('bmi', 999, getCanonicalUnit('bmi')!, DATE).status, 'ACCEPTED');
+    assert.equal(checkBiomarkerValue('lipoprotein_a', 99999, 'mg/dL', DATE).status, 'ACCEPTED');
+  });
+});
+
+describe('PLAUSIBILITY_RULES', () => {
+  it('has sensible limits and delta rules', () => {
+    for (const [type, rule] of Object.entries(PLAUSIBILITY_RULES)) {
+      assert.ok(getCanonicalUnit(type), `${type} has no canonical unit`);
+      assert.ok(rule.min < rule.max, `${type} limits are reversed`);
+      if (rule.delta) {
+        assert.ok(rule.delta.absolute > 0 && rule.delta.percent > 0 && rule.delta.windowDays > 0, `${type} delta rule`);
+      }
+    }
+  });
+});
+
+describe('derived biomarkers', () => {
+  it('quarantines a derived value with any quarantined input', () => {
+    assert.deepEqual(checkDerivedBiomarker('egfr', []), { status: 'ACCEPTED', reason: null });
+    assert.deepEqual(checkDerivedBiomarker('tg_hdl_ratio', ['potassium']), { status: 'ACCEPTED', reason: null });
+
+    const check = checkDerivedBiomarker('tg_hdl_ratio', ['triglycerides', 'cholesterol_hdl']);
+    assert.equal(check.status, 'QUARANTINED');
+    assert.equal(check.reason, 'Tg hdl ratio was calculated from triglycerides, cholesterol hdl awaiting confirmation');
+  });
+
+  it('lists the values calculated from a biomarker', () => {
+    assert.deepEqual(getDerivedBiomarkerTypes('creatinine'), ['egfr']);
+    assert.deepEqual(getDerivedBiomarkerTypes('potassium'), []);
+    for (const definition of DERIVED_BIOMARKERS) {
+      for (const input of definition.inputs) {
+        assert.ok(getDerivedBiomarkerTypes(input).includes(definition.type));
+      }
+    }
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Collection Date Tests
+ * Report date formats, label preference and which source wins after an analysis
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectCollectionDate, isPlausibleCollectionDate, parseReportDate, resolveCollectionDate } from '../src/lib/collectionDate';
+
+const day = (date: Date | null | undefined) => date?.toISOString().slice(0, 10) ?? null;
+
+describe('parseReportDate', () => {
+  it('reads the formats printed on reports', () => {
+    assert.equal(day(parseReportDate('2025-10-20')), '2025-10-20');
+    assert.equal(day(parseReportDate('10/20/2025')), '2025-10-20');
+    assert.equal(day(parseReportDate('20.10.2025')), '2025-10-20');
+    assert.equal(day(parseReportDate('20 Oct 2025')), '2025-10-20');
+    assert.equal(day(parseReportDate('October 20, 2025')), '2025-10-20');
+    assert.equal(day(parseReportDate('Sept. 3, 2025')), '2025-09-03');
+  });
+
+  it('reads slash dates month first unless the first part cannot be a month', () => {
+    assert.equal(day(parseReportDate('03/04/2025')), '2025-03-04');
+    assert.equal(day(parseReportDate('13/04/2025')), '2025-04-13');
+  });
+
+  it('expands two-digit years', () => {
+    assert.equal(day(parseReportDate('03/04/25')), '2025-03-04');
+    assert.equal(day(parseReportDate('03/04/98')), '1998-03-04');
+  });
+
+  it('rejects dates that do not exist', () => {
+    assert.equal(parseReportDate('31.02.2025'), null);
+    assert.equal(parseReportDate('2025-13-01'), null);
+    assert.equal(parseReportDate('Smarch 3, 2025'), null);
+  });
+});
+
+describe('isPlausibleCollectionDate', () => {
+  const now = new Date('2025-06-01T12:00:00Z');
+
+  it('allows past dates and one day of time zone slack', () => {
+    assert.ok(isPlausibleCollectionDate(new Date('2025-06-02T00:00:00Z'), now));
+    assert.ok(!isPlausibleCollectionDate(new Date('2025-06-03T00:00:00Z'), now));
+    assert.ok(!isPlausibleCollectionDate(new Date('1899-12-31T00:00:00Z'), now));
+  });
+});
+
+describe('detectCollectionDate', () => {
+  it('prefers a collection date over a report date printed first', () => {
+    const detected = detectCollectionDate('Reported: 2025-03-12\nSpecimen collected: 03/10/2025 08:15');
+    assert.equal(day(detected?.date), '2025-03-10');
+    assert.equal(detected?.kind, 'COLLECTION');
+    assert.equal(detected?.label, 'Specimen collected: 03/10/2025');
+  });
+
+  it('falls back to a report or exam date', () => {
+    const detected = detectCollectionDate('Date of exam: 12 Feb 2025');
+    assert.equal(day(detected?.date), '2025-02-12');
+    assert.equal(detected?.kind, 'REPORT');
+  });
+
+  it('ignores unlabelled and future dates', () => {
+    assert.equal(detectCollectionDate('Patient DOB 1970-01-01, printed 2025-01-01'), null);
+    assert.equal(detectCollectionDate('Collected: 2999-01-01'), null);
+  });
+});
+
+describe('resolveCollectionDate', () => {
+  const reportText = 'Collection date: 2025-03-10';
+  const analysisDate = new Date('2025-03-09T00:00:00Z');
+
+  it('never replaces a date the patient confirmed', () => {
+    const current = { collectedAt: new Date('2025-03-01T00:00:00Z'), collectionDateSource: 'PATIENT' };
+    assert.deepEqual(resolveCollectionDate(current, reportText, analysisDate), current);
+  });
+
+  it('prefers the labelled report text over the date the model read', () => {
+    const resolved = resolveCollectionDate({ collectedAt: null, collectionDateSource: null }, reportText, analysisDate);
+    assert.equal(day(resolved.collectedAt), '2025-03-10');
+    assert.equal(resolved.collectionDateSource, 'REPORT_TEXT');
+  });
+
+  it('uses the model date when the text has none, and keeps the current date otherwise', () => {
+    const current = { collectedAt: new Date('2025-03-01T00:00:00Z'), collectionDateSource: 'REPORT_TEXT' };
+    assert.deepEqual(resolveCollectionDate(current, 'No dates here', analysisDate), {
+      collectedAt: analysisDate,
+      collectionDateSource: 'ANALYSIS',
+    });
+    assert.deepEqual(resolveCollectionDate(current, 'No dates here', null), current);
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Derived Biomarker Tests
+ * Martin/Hopkins and Friedewald LDL against their published definitions and the values added to a draw
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  CALCULATED_SOURCE,
+  calculateFriedewaldLDL,
+  calculateMartinHopkinsLDL,
+  withDerivedBiomarkers,
+} from '../src/lib/derivedBiomarkers';
+
+const close = (actual: number | null, expected: number, tolerance = 0.01) =>
+  assert.ok(actual !== null && Math.abs(actual - expected) <= tolerance, `expected ${expected} ± ${tolerance}, got ${actual}`);
+
+const LIPID_PANEL_MMOL = [
+  { type: 'cholesterol_total', value: 5.2, unit: 'mmol/L' },
+  { type: 'cholesterol_hdl', value: 1.3, unit: 'mmol/L' },
+  { type: 'triglycerides', value: 1.7, unit: 'mmol/L' },
+];
+
+const PATIENT = { age: 60, biologicalSex: 'MALE' as const, height: 180 };
+
+describe('calculateMartinHopkinsLDL', () => {
+  // Factors from Martin et al. (JAMA 2013;310:2061-2068), Table: triglyceride row × non-HDL column
+  it('uses the published factor for triglycerides 147-154 and non-HDL 130-159 (5.7)', () => {
+    close(calculateMartinHopkinsLDL(200, 50, 150), 150 - 150 / 5.7);
+  });
+
+  it('uses the published factor for triglycerides 7-49 and non-HDL below 100 (3.5)', () => {
+    close(calculateMartinHopkinsLDL(130, 50, 40), 80 - 40 / 3.5);
+  });
+
+  it('uses the published factor for triglycerides 293-399 and non-HDL of 220 or more (5.9)', () => {
+    close(calculateMartinHopkinsLDL(270, 40, 350), 230 - 350 / 5.9);
+  });
+
+  it('moves to the next row at the row boundary', () => {
+    close(calculateMartinHopkinsLDL(130, 50, 49), 80 - 49 / 3.5);
+    close(calculateMartinHopkinsLDL(130, 50, 50), 80 - 50 / 4.0);
+  });
+
+  it('moves to the next column at the column boundary', () => {
+    close(calculateMartinHopkinsLDL(149, 50, 150), 99 - 150 / 6.5);
+    close(calculateMartinHopkinsLDL(150, 50, 150), 100 - 150 / 6.0);
+  });
+
+  it('is not defined at triglycerides of 400 mg/dL or more', () => {
+    assert.equal(calculateMartinHopkinsLDL(250, 40, 400), null);
+    assert.equal(calculateMartinHopkinsLDL(250, 40, 0), null);
+  });
+
+  it('returns null rather than a negative LDL', () => {
+    assert.equal(calculateMartinHopkinsLDL(60, 55, 300), null);
+  });
+});
+
+describe('calculateFriedewaldLDL', () => {
+  // Friedewald et al. (Clin Chem 1972;18:499-502): LDL = total − HDL − triglycerides/5, all in mg/dL
+  it('subtracts HDL and a fifth of triglycerides from total cholesterol', () => {
+    close(calculateFriedewaldLDL(200, 50, 150), 120);
+    close(calculateFriedewaldLDL(270, 40, 350), 160);
+  });
+
+  it('underestimates LDL against Martin/Hopkins when triglycerides are high and LDL is low', () => {
+    assert.ok(calculateFriedewaldLDL(150, 40, 300)! < calculateMartinHopkinsLDL(150, 40, 300)!);
+  });
+
+  it('is not defined at triglycerides of 400 mg/dL or more', () => {
+    assert.equal(calculateFriedewaldLDL(250, 40, 400), null);
+    assert.equal(calculateFriedewaldLDL(60, 55, 300), null);
+  });
+});
+
+describe('withDerivedBiomarkers', () => {
+  it('calculates from inputs in canonical units', () => {
+    const draw = withDerivedBiomarkers(LIPID_PANEL_MMOL, PATIENT);
+    const calculated = draw.filter((biomarker) => biomarker.source === CALCULATED_SOURCE);
+    assert.deepEqual(
+      calculated.map(({ type, value, unit }) => ({ type, value, unit })),
+      [
+        { type: 'cholesterol_non_hdl', value: 151, unit: 'mg/dL' },
+        { type: 'cholesterol_ldl_martin', value: 124, unit: 'mg/dL' },
+        { type: 'cholesterol_ldl_friedewald', value: 121, unit: 'mg/dL' },
+        { type: 'tg_hdl_ratio', value: 2.99, unit: 'ratio' },
+      ]
+    );
+    assert.ok(calculated.every((biomarker) => biomarker.formula));
+  });
+
+  it('keeps the measured values as reported', () => {
+    const draw = withDerivedBiomarkers(LIPID_PANEL_MMOL, PATIENT);
+    assert.deepEqual(draw.slice(0, 3), LIPID_PANEL_MMOL);
+  });
+
+  it('never stores calculated LDL as measured LDL', () => {
+    const draw = withDerivedBiomarkers(LIPID_PANEL_MMOL, PATIENT);
+    assert.equal(draw.find((biomarker) => biomarker.type === 'cholesterol_ldl'), undefined);
+  });
+
+  it('keeps a lab-reported value unless the derivation replaces it', () => {
+    const draw = withDerivedBiomarkers(
+      [
+        ...LIPID_PANEL_MMOL,
+        { type: 'cholesterol_ldl', value: 3.3, unit: 'mmol/L' },
+        { type: 'creatinine', value: 1.1, unit: 'mg/dL' },
+        { type: 'egfr', value: 70, unit: 'mL/min/1.73m²' },
+      ],
+      PATIENT
+    );
+    assert.deepEqual(draw.filter((biomarker) => biomarker.type.startsWith('cholesterol_ldl')), [
+      { type: 'cholesterol_ldl', value: 3.3, unit: 'mmol/L' },
+    ]);
+
+    const egfr = draw.filter((biomarker) => biomarker.type === 'egfr');
+    assert.equal(egfr.length, 1);
+    assert.equal(egfr[0].source, CALCULATED_SOURCE);
+    assert.equal(egfr[0].value, 77);
+  });
+
+  it('needs the profile for eGFR and BMI', () => {
+    const draw = [
+      { type: 'creatinine', value: 1.1, unit: 'mg/dL' },
+      { type: 'weight', value: 80, unit: 'kg' },
+    ];
+    assert.deepEqual(withDerivedBiomarkers(draw, {}), draw);
+
+    const withProfile = withDerivedBiomarkers(draw, PATIENT);
+    assert.deepEqual(
+      withProfile.filter((biomarker) => biomarker.source === CALCULATED_SOURCE).map(({ type, value }) => ({ type, value })),
+      [
+        { type: 'egfr', value: 77 },
+        { type: 'bmi', value: 24.7 },
+      ]
+    );
+  });
+
+  it('recalculates rather than reusing earlier calculated values', () => {
+    const draw = withDerivedBiomarkers(
+      [
+        { type: 'bp_systolic', value: 130, unit: 'mmHg' },
+        { type: 'bp_diastolic', value: 85, unit: 'mmHg' },
+        { type: 'bp_mean_arterial', value: 150, unit: 'mmHg', source: CALCULATED_SOURCE },
+      ],
+      PATIENT
+    );
+    assert.deepEqual(draw.find((biomarker) => biomarker.type === 'bp_mean_arterial')?.value, 100);
+    assert.equal(draw.length, 3);
+  });
+
+  it('skips inputs in unknown units and incomplete input sets', () => {
+    const draw = [
+      { type: 'cholesterol_total', value: 200, unit: 'mg/dL' },
+      { type: 'cholesterol_hdl', value: 50, unit: 'parts' },
+      { type: 'triglycerides', value: 150, unit: 'mg/dL' },
+    ];
+    assert.deepEqual(withDerivedBiomarkers(draw, PATIENT), draw);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Goal Forecast Tests
+ * Projection of a goal's metric to its target date and the on-track classification
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { forecastGoal } from '../src/lib/goalForecast';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = new Date('2024-01-01T00:00:00Z');
+const day = (offset: number) => new Date(START.getTime() + offset * DAY_MS);
+
+// Values on the given day offsets from START
+const observations = (...points: Array<[number, number]>) => points.map(([offset, value]) => ({ date: day(offset), value }));
+
+const LDL_GOAL = {
+  targetMetric: 'cholesterol_ldl',
+  targetValue: 100,
+  targetDate: day(360),
+  currentValue: 160,
+  unit: 'mg/dL',
+};
+
+describe('forecastGoal', () => {
+  it('needs two measurements on different dates', () => {
+    for (const history of [[], observations([0, 160]), observations([0, 160], [0, 150])]) {
+      const forecast = forecastGoal(LDL_GOAL, history);
+      assert.equal(forecast.status, 'INSUFFICIENT_DATA');
+      assert.equal(forecast.projectedValue, null);
+      assert.deepEqual(forecast.projection, []);
+    }
+  });
+
+  it('projects a steady fall that reaches the target as on track', () => {
+    const forecast = forecastGoal(LDL_GOAL, observations([0, 160], [60, 150], [120, 140], [180, 130]));
+    assert.equal(forecast.status, 'ON_TRACK');
+    assert.equal(forecast.direction, 'DECREASE');
+    assert.equal(forecast.projectedValue, 100);
+    assert.equal(forecast.lower, 100);
+    assert.equal(forecast.upper, 100);
+    assert.equal(forecast.ratePerMonth, -5.073);
+    assert.equal(forecast.explanation, 'Expected to reach 100 mg/dL by the target date.');
+  });
+
+  it('projects from the latest observation to the target date', () => {
+    const forecast = forecastGoal(LDL_GOAL, observations([0, 160], [60, 150], [120, 140], [180, 130]));
+    assert.equal(forecast.projection.length, 7);
+    assert.deepEqual(forecast.projection[0].date, day(180));
+    assert.equal(forecast.projection[0].value, 130);
+    assert.deepEqual(forecast.projection[6].date, day(360));
+    assert.equal(forecast.projection[6].value, 100);
+  });
+
+  it('sorts observations by date', () => {
+    const forecast = forecastGoal(LDL_GOAL, observations([180, 130], [0, 160], [120, 140], [60, 150]));
+    assert.deepEqual(forecast.observations.map((observation) => observation.value), [160, 150, 140, 130]);
+    assert.equal(forecast.projectedValue, 100);
+  });
+
+  it('is on track when the latest result already meets the target', () => {
+    const forecast = forecastGoal(LDL_GOAL, observations([0, 110], [90, 95]));
+    assert.equal(forecast.status, 'ON_TRACK');
+    assert.equal(forecast.explanation, 'The latest result (95 mg/dL) already meets the target.');
+  });
+
+  it('is off track when the projection falls short', () => {
+    const forecast = forecastGoal(LDL_GOAL, observations([0, 160], [60, 158], [120, 157], [180, 155]));
+    assert.equal(forecast.status, 'OFF_TRACK');
+    assert.ok(forecast.lower! > 100);
+    assert.equal(
+      forecast.explanation,
+      'At the current rate (-0.8117 mg/dL per month) the value will be about 150.3 mg/dL on the target date, short of 100 mg/dL.'
+    );
+  });
+
+  it('is at risk when only part of the prediction band reaches the target', () => {
+    const forecast = forecastGoal(LDL_GOAL, observations([0, 160], [60, 135], [120, 150], [180, 120]));
+    assert.equal(forecast.status, 'AT_RISK');
+    assert.ok(forecast.projectedValue! <= 100 && forecast.upper! > 100);
+    assert.match(forecast.explanation, /but results vary enough that the target may be missed\.$/);
+  });
+
+  it('has no prediction band with only two measurements', () => {
+    const forecast = forecastGoal(LDL_GOAL, observations([0, 160], [180, 130]));
+    assert.equal(forecast.projectedValue, 100);
+    assert.equal(forecast.lower, null);
+    assert.equal(forecast.upper, null);
+    assert.equal(forecast.status, 'ON_TRACK');
+    assert.ok(forecast.projection.every((point) => point.lower === null && point.upper === null));
+  });
+
+  it('forecasts goals that need the value to rise', () => {
+    const hdlGoal = { targetMetric: 'cholesterol_hdl', targetValue: 50, targetDate: day(360), currentValue: 38, unit: 'mg/dL' };
+    const rising = forecastGoal(hdlGoal, observations([0, 38], [90, 41], [180, 44]));
+    assert.equal(rising.direction, 'INCREASE');
+    assert.equal(rising.status, 'ON_TRACK');
+    assert.equal(rising.projectedValue, 50);
+
+    const falling = forecastGoal(hdlGoal, observations([0, 38], [90, 37], [180, 36]));
+    assert.equal(falling.status, 'OFF_TRACK');
+  });
+
+  it('projects no further than the latest observation once the target date has passed', () => {
+    const forecast = forecastGoal({ ...LDL_GOAL, targetDate: day(90) }, observations([0, 160], [60, 150], [120, 140], [180, 130]));
+    assert.ok(forecast.projection.every((point) => point.date.getTime() === day(180).getTime()));
+    assert.equal(forecast.projectedValue, 145);
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Goal Progress Tests
+ * Direction of a goal's metric and whether a value meets its target
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getGoalDirection, isGoalTargetMet } from '../src/lib/goalProgress';
+
+describe('getGoalDirection', () => {
+  it('moves from the starting value towards the target', () => {
+    assert.equal(getGoalDirection({ targetMetric: 'cholesterol_ldl', currentValue: 160, targetValue: 100 }), 'DECREASE');
+    assert.equal(getGoalDirection({ targetMetric: 'cholesterol_hdl', currentValue: 38, targetValue: 50 }), 'INCREASE');
+  });
+
+  it('follows the starting value even against the healthy direction', () => {
+    // Regaining weight after illness
+    assert.equal(getGoalDirection({ targetMetric: 'weight', currentValue: 52, targetValue: 58 }), 'INCREASE');
+  });
+
+  it("falls back to the analyte's healthy direction without a distinct starting value", () => {
+    assert.equal(getGoalDirection({ targetMetric: 'cholesterol_hdl', currentValue: null, targetValue: 50 }), 'INCREASE');
+    assert.equal(getGoalDirection({ targetMetric: 'egfr', currentValue: 60, targetValue: 60 }), 'INCREASE');
+    assert.equal(getGoalDirection({ targetMetric: 'hba1c', currentValue: null, targetValue: 6.5 }), 'DECREASE');
+  });
+
+  it('treats metrics outside the catalog as lower is better', () => {
+    assert.equal(getGoalDirection({ targetMetric: 'steps_per_day', currentValue: null, targetValue: 8000 }), 'DECREASE');
+  });
+});
+
+describe('isGoalTargetMet', () => {
+  const ldlGoal = { targetMetric: 'cholesterol_ldl', currentValue: 160, targetValue: 100 };
+  const hdlGoal = { targetMetric: 'cholesterol_hdl', currentValue: 38, targetValue: 50 };
+
+  it('meets a lowering goal at or below the target', () => {
+    assert.equal(isGoalTargetMet(ldlGoal, 99), true);
+    assert.equal(isGoalTargetMet(ldlGoal, 100), true);
+    assert.equal(isGoalTargetMet(ldlGoal, 101), false);
+  });
+
+  it('meets a raising goal at or above the target', () => {
+    assert.equal(isGoalTargetMet(hdlGoal, 51), true);
+    assert.equal(isGoalTargetMet(hdlGoal, 50), true);
+    assert.equal(isGoalTargetMet(hdlGoal, 49), false);
+  });
+});
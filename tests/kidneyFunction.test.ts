@@ -0,0 +1,98 @@
+/**
+ * Kidney Function Tests
+ * CKD-EPI 2021 eGFR against values from the published equation and KDIGO staging
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  calculateEGFR,
+  calculateKidneyRisk,
+  getAlbuminuriaCategory,
+  getGFRCategory,
+  getStageProgressionAlert,
+} from '../src/lib/kidneyFunction';
+
+describe('calculateEGFR (CKD-EPI 2021)', () => {
+  // Rounded as the NKF eGFR calculator reports them
+  const cases: Array<[creatinine: number, age: number, sex: string, egfr: number]> = [
+    [0.7, 50, 'FEMALE', 105],
+    [1.0, 50, 'FEMALE', 69],
+    [1.4, 75, 'FEMALE', 39],
+    [0.5, 30, 'FEMALE', 129],
+    [1.0, 60, 'MALE', 86],
+    [0.8, 40, 'MALE', 115],
+    [2.5, 70, 'MALE', 27],
+  ];
+
+  for (const [creatinine, age, sex, egfr] of cases) {
+    it(`${age}-year-old ${sex.toLowerCase()}, creatinine ${creatinine} mg/dL -> ${egfr}`, () => {
+      assert.equal(Math.round(calculateEGFR(creatinine, age, sex)!), egfr);
+    });
+  }
+
+  it('accepts the sex in any case', () => {
+    assert.equal(calculateEGFR(1.0, 60, 'male'), calculateEGFR(1.0, 60, 'MALE'));
+  });
+
+  it('returns null for children, an unknown sex or a non-positive creatinine', () => {
+    assert.equal(calculateEGFR(0.6, 17, 'FEMALE'), null);
+    assert.equal(calculateEGFR(1.0, 50, 'OTHER'), null);
+    assert.equal(calculateEGFR(0, 50, 'MALE'), null);
+  });
+});
+
+describe('KDIGO categories', () => {
+  it('puts the category boundaries in the better category', () => {
+    assert.equal(getGFRCategory(90), 'G1');
+    assert.equal(getGFRCategory(89.9), 'G2');
+    assert.equal(getGFRCategory(60), 'G2');
+    assert.equal(getGFRCategory(59.9), 'G3a');
+    assert.equal(getGFRCategory(45), 'G3a');
+    assert.equal(getGFRCategory(30), 'G3b');
+    assert.equal(getGFRCategory(15), 'G4');
+    assert.equal(getGFRCategory(14.9), 'G5');
+    assert.equal(getAlbuminuriaCategory(29), 'A1');
+    assert.equal(getAlbuminuriaCategory(30), 'A2');
+    assert.equal(getAlbuminuriaCategory(300), 'A3');
+  });
+});
+
+describe('calculateKidneyRisk', () => {
+  it('uses the KDIGO heat map', () => {
+    assert.equal(calculateKidneyRisk(75, 10).riskCategory, 'LOW');
+    assert.equal(calculateKidneyRisk(75, 50).riskCategory, 'MODERATE');
+    assert.equal(calculateKidneyRisk(50, 10).riskCategory, 'MODERATE');
+    assert.equal(calculateKidneyRisk(50, 45).riskCategory, 'HIGH');
+    assert.equal(calculateKidneyRisk(35, 45).riskCategory, 'VERY_HIGH');
+    assert.equal(calculateKidneyRisk(12).riskCategory, 'VERY_HIGH');
+  });
+
+  it('does not call G1/G2 with normal albumin CKD', () => {
+    const result = calculateKidneyRisk(95, 10);
+    assert.equal(result.factors.stage, 'G1A1');
+    assert.equal(result.validityPeriod, 365);
+    assert.match(result.interpretation, /no sign of chronic kidney disease/);
+  });
+
+  it('stages on eGFR alone when there is no UACR and asks for one', () => {
+    const result = calculateKidneyRisk(52.4);
+    assert.equal(result.factors.stage, 'G3a');
+    assert.equal(result.factors.albuminuriaCategory, null);
+    assert.equal(result.validityPeriod, 90);
+    assert.ok(result.recommendations.some((recommendation) => recommendation.includes('albumin/creatinine ratio')));
+  });
+});
+
+describe('getStageProgressionAlert', () => {
+  it('alerts only when the category gets worse', () => {
+    assert.equal(
+      getStageProgressionAlert('egfr', 55, 64),
+      'Kidney function progressed from stage G2 to G3a (eGFR 64 → 55)'
+    );
+    assert.equal(getStageProgressionAlert('egfr', 64, 55), null);
+    assert.equal(getStageProgressionAlert('egfr', 61, 70), null);
+    assert.match(getStageProgressionAlert('uacr', 320, 120) ?? '', /from A2 to A3/);
+    assert.equal(getStageProgressionAlert('creatinine', 2, 1), null);
+  });
+});
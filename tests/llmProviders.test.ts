@@ -0,0 +1,59 @@
+/**
+ * LLM Provider Tests
+ * Provider selection and the request timeout that keeps a hung provider from
+ * holding an analysis job's lock
+ */
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { createOllamaProvider, getProviderNameForReportType } from '../src/lib/llmProviders';
+
+describe('getProviderNameForReportType', () => {
+  after(() => {
+    delete process.env.LLM_PROVIDER;
+    delete process.env.LLM_PROVIDER_ECG;
+  });
+
+  it('prefers the per-report-type provider over the global one', () => {
+    process.env.LLM_PROVIDER = 'Anthropic';
+    process.env.LLM_PROVIDER_ECG = 'fixture';
+    assert.equal(getProviderNameForReportType('ECG'), 'fixture');
+    assert.equal(getProviderNameForReportType('XRAY'), 'anthropic');
+  });
+
+  it('rejects unknown providers', () => {
+    process.env.LLM_PROVIDER = 'gemini';
+    assert.throws(() => getProviderNameForReportType('XRAY'), /Unknown LLM provider "gemini"/);
+  });
+});
+
+describe('request timeout', () => {
+  let server: Server;
+
+  before(async () => {
+    // Accepts requests and never answers
+    server = createServer(() => {});
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    process.env.OLLAMA_API_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/chat`;
+    process.env.LLM_REQUEST_TIMEOUT_MS = '200';
+  });
+
+  after(() => {
+    delete process.env.OLLAMA_API_URL;
+    delete process.env.LLM_REQUEST_TIMEOUT_MS;
+    server.closeAllConnections();
+    server.close();
+  });
+
+  it('gives up on a provider that does not answer', async () => {
+    const provider = createOllamaProvider();
+    const started = Date.now();
+    await assert.rejects(
+      provider.complete({ reportType: 'ECG', systemPrompt: 'Analyze', messages: [{ role: 'user', text: 'ECG' }] }),
+      /LLM request timed out/
+    );
+    assert.ok(Date.now() - started < 5000);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Metabolic Syndrome Tests
+ * Harmonized IDF/AHA/NHLBI 2009 criteria, population waist cutoffs and missing criteria
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculateMetabolicSyndrome, getWaistCutoff } from '../src/lib/metabolicSyndrome';
+import { RiskFactors } from '../src/lib/riskAssessment';
+
+const base: RiskFactors = {
+  age: 52, biologicalSex: 'MALE', smokingStatus: 'NEVER', diabetesStatus: false,
+  waistCircumference: 90, triglycerides: 120, hdlCholesterol: 50, systolicBP: 120, diastolicBP: 78, fastingGlucose: 92,
+};
+
+const criteriaMet = (factors: RiskFactors) =>
+  (calculateMetabolicSyndrome(factors)!.factors.criteria as Array<{ criterion: string; met: boolean | null }>)
+    .filter((criterion) => criterion.met)
+    .map((criterion) => criterion.criterion);
+
+describe('getWaistCutoff', () => {
+  it('uses the population cutoff and assumes Europid when none is recorded', () => {
+    assert.deepEqual(getWaistCutoff('MALE', 'SOUTH_ASIAN'), { cutoff: 90, ethnicity: 'SOUTH_ASIAN', assumed: false });
+    assert.deepEqual(getWaistCutoff('MALE'), { cutoff: 94, ethnicity: 'EUROPID', assumed: true });
+    assert.equal(getWaistCutoff('FEMALE', 'JAPANESE').cutoff, 80);
+  });
+});
+
+describe('calculateMetabolicSyndrome', () => {
+  it('meets no criteria with healthy values', () => {
+    const result = calculateMetabolicSyndrome(base)!;
+    assert.equal(result.factors.hasMetabolicSyndrome, false);
+    assert.equal(result.riskCategory, 'LOW');
+  });
+
+  it('meets the criteria at the cutoffs themselves', () => {
+    assert.deepEqual(
+      criteriaMet({ ...base, waistCircumference: 94, triglycerides: 150, systolicBP: 130, fastingGlucose: 100 }),
+      ['WAIST', 'TRIGLYCERIDES', 'BLOOD_PRESSURE', 'FASTING_GLUCOSE']
+    );
+    assert.deepEqual(criteriaMet({ ...base, hdlCholesterol: 40, diastolicBP: 85 }), ['BLOOD_PRESSURE']);
+  });
+
+  it('uses the sex-specific HDL cutoff', () => {
+    assert.deepEqual(criteriaMet({ ...base, biologicalSex: 'FEMALE', waistCircumference: 70, hdlCholesterol: 45 }), ['HDL']);
+  });
+
+  it('applies the South Asian waist cutoff', () => {
+    assert.deepEqual(criteriaMet({ ...base, ethnicity: 'SOUTH_ASIAN' }), ['WAIST']);
+  });
+
+  it('diagnoses with three criteria', () => {
+    const result = calculateMetabolicSyndrome({ ...base, waistCircumference: 102, triglycerides: 180, hdlCholesterol: 38 })!;
+    assert.equal(result.factors.hasMetabolicSyndrome, true);
+    assert.equal(result.score, 3);
+    assert.equal(result.riskCategory, 'HIGH');
+    assert.equal(result.validityPeriod, 180);
+  });
+
+  it('counts treatment and known diabetes as met', () => {
+    const result = calculateMetabolicSyndrome({
+      ...base, systolicBP: undefined, diastolicBP: undefined, fastingGlucose: undefined,
+      hypertensionTreated: true, diabetesStatus: true, triglycerides: 200,
+    })!;
+    assert.equal(result.factors.hasMetabolicSyndrome, true);
+  });
+
+  it('leaves the diagnosis open while missing criteria could decide it', () => {
+    const result = calculateMetabolicSyndrome({
+      ...base, waistCircumference: 100, triglycerides: 160, hdlCholesterol: undefined, fastingGlucose: undefined,
+    })!;
+    assert.equal(result.factors.hasMetabolicSyndrome, null);
+    assert.equal(result.factors.criteriaMeasured, 3);
+    assert.match(result.interpretation, /must be measured to rule metabolic syndrome in or out/);
+  });
+
+  it('rules it out when the missing criteria cannot reach three', () => {
+    const result = calculateMetabolicSyndrome({ ...base, hdlCholesterol: undefined, fastingGlucose: undefined })!;
+    assert.equal(result.factors.hasMetabolicSyndrome, false);
+  });
+
+  it('needs three measurable criteria', () => {
+    assert.equal(
+      calculateMetabolicSyndrome({ ...base, waistCircumference: undefined, triglycerides: undefined, hdlCholesterol: undefined }),
+      null
+    );
+  });
+
+  it('dates a criterion with its most recent input', () => {
+    const result = calculateMetabolicSyndrome(base, {
+      systolicBP: { source: 'BIOMARKER', recordedDate: new Date('2025-01-10'), reportId: 'a' },
+      diastolicBP: { source: 'BIOMARKER', recordedDate: new Date('2025-02-10'), reportId: 'b' },
+    })!;
+    const bp = (result.factors.criteria as any[]).find((criterion) => criterion.criterion === 'BLOOD_PRESSURE');
+    assert.equal(bp.reportId, 'b');
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Reference Range Tests
+ * Catalog coverage and sex/age specific range selection
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ANALYTE_DICTIONARY } from '../src/lib/analyteDictionary';
+import { DERIVED_BIOMARKERS } from '../src/lib/derivedBiomarkers';
+import {
+  flagValue,
+  formatReferenceRange,
+  getBiomarkerRangeFields,
+  getMeaningfulChange,
+  REFERENCE_RANGES,
+  resolveReferenceRange,
+} from '../src/lib/referenceRanges';
+import { getCanonicalUnit } from '../src/lib/unitConversion';
+
+describe('reference range catalog', () => {
+  const types = [
+    ...ANALYTE_DICTIONARY.map((definition) => definition.type),
+    ...DERIVED_BIOMARKERS.map((derived) => derived.type),
+  ];
+
+  for (const type of Array.from(new Set(types))) {
+    it(`has a range for ${type} in its canonical unit`, () => {
+      const reference = REFERENCE_RANGES[type];
+      assert.ok(reference, `${type} has no catalog entry`);
+      assert.equal(reference.unit, getCanonicalUnit(type));
+      assert.ok(resolveReferenceRange(type, { age: 45, biologicalSex: 'MALE' }));
+      assert.ok(resolveReferenceRange(type, { age: 45, biologicalSex: 'FEMALE' }));
+    });
+  }
+});
+
+describe('resolveReferenceRange', () => {
+  it('picks the sex-specific range', () => {
+    assert.equal(resolveReferenceRange('alt', { biologicalSex: 'FEMALE' })?.high, 45);
+    assert.equal(resolveReferenceRange('alt', { biologicalSex: 'male' })?.high, 55);
+    assert.equal(resolveReferenceRange('alt', {})?.high, 55);
+  });
+
+  it('picks the age-specific range only when the age is known', () => {
+    assert.equal(resolveReferenceRange('alkaline_phosphatase', { age: 14, biologicalSex: 'MALE' })?.high, 500);
+    assert.equal(resolveReferenceRange('alkaline_phosphatase', { age: 40, biologicalSex: 'MALE' })?.high, 129);
+    assert.equal(resolveReferenceRange('tsh', { age: 75 })?.high, 6);
+    assert.equal(resolveReferenceRange('tsh', {})?.high, 4);
+  });
+
+  it('returns null for analytes outside the catalog', () => {
+    assert.equal(resolveReferenceRange('weight'), null);
+  });
+});
+
+describe('getBiomarkerRangeFields', () => {
+  it('flags values against the range', () => {
+    assert.equal(getBiomarkerRangeFields('ferritin', 8, 'ng/mL', { biologicalSex: 'FEMALE' }).flag, 'L');
+    assert.equal(getBiomarkerRangeFields('platelets', 40, '10^3/µL').flag, 'LL');
+    assert.equal(getBiomarkerRangeFields('tsh', 5, 'mIU/L', { age: 40 }).flag, 'H');
+    assert.equal(getBiomarkerRangeFields('vitamin_d', 42, 'ng/mL').flag, null);
+  });
+
+  it('leaves values in another unit unflagged', () => {
+    const fields = getBiomarkerRangeFields('vitamin_d', 20, 'nmol/L');
+    assert.equal(fields.flag, null);
+    assert.equal(fields.referenceLow, null);
+  });
+});
+
+describe('flagValue', () => {
+  const range = { low: 3.5, high: 5.1, criticalLow: 2.8, criticalHigh: 6.2 };
+
+  it('flags critical values before plain high and low ones', () => {
+    assert.equal(flagValue(2.5, range), 'LL');
+    assert.equal(flagValue(3, range), 'L');
+    assert.equal(flagValue(5.5, range), 'H');
+    assert.equal(flagValue(6.5, range), 'HH');
+  });
+
+  it('treats the limits themselves as within range', () => {
+    assert.equal(flagValue(3.5, range), null);
+    assert.equal(flagValue(5.1, range), null);
+  });
+
+  it('skips limits the range does not have', () => {
+    assert.equal(flagValue(400, { low: 40, high: null, criticalLow: null, criticalHigh: null }), null);
+  });
+});
+
+describe('formatReferenceRange', () => {
+  it('formats closed and one-sided ranges', () => {
+    assert.equal(formatReferenceRange(70, 99, 'mg/dL'), '70–99 mg/dL');
+    assert.equal(formatReferenceRange(null, 200, 'mg/dL'), '≤ 200 mg/dL');
+    assert.equal(formatReferenceRange(40, null, 'mg/dL'), '≥ 40 mg/dL');
+    assert.equal(formatReferenceRange(null, null, 'mg/dL'), null);
+  });
+});
+
+describe('getMeaningfulChange', () => {
+  it('uses the catalog value, or 10% of the value outside the catalog', () => {
+    assert.equal(getMeaningfulChange('cholesterol_ldl', 130), 15);
+    assert.equal(getMeaningfulChange('weight', 80), 8);
+  });
+});
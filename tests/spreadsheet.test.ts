@@ -0,0 +1,137 @@
+/**
+ * Spreadsheet Parsing Tests
+ * CSV quoting and delimiters, and the first worksheet of XLSX workbooks built in memory
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import AdmZip from 'adm-zip';
+import { MAX_XLSX_ENTRY_SIZE, parseCSV, parseSpreadsheet, parseXLSX } from '../src/lib/spreadsheet';
+
+const WORKBOOK = `<?xml version="1.0" encoding="UTF-8"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+  <sheets><sheet name="Results" sheetId="1" r:id="rId7"/><sheet name="Notes" sheetId="2" r:id="rId8"/></sheets>
+</workbook>`;
+
+const RELATIONSHIPS = `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId8" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+  <Relationship Target="worksheets/sheet2.xml" Id="rId7" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet"/>
+</Relationships>`;
+
+const SHARED_STRINGS = `<?xml version="1.0" encoding="UTF-8"?>
+<sst xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+  <si><t>Date</t></si>
+  <si><t>LDL (mg/dL)</t></si>
+  <si><r><t>HDL </t></r><r><rPr><b/></rPr><t>&amp; notes</t></r></si>
+</sst>`;
+
+// The first sheet in workbook order is sheet2.xml; sheet1.xml holds notes
+const RESULTS_SHEET = `<?xml version="1.0" encoding="UTF-8"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>
+  <row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="s"><v>2</v></c><c r="D1" t="inlineStr"><is><t>Fasting</t></is></c></row>
+  <row r="2"><c r="A2" s="1"><v>45292</v></c><c r="B2"><v>132.5</v></c><c r="C2"><v>48</v></c><c r="D2" t="b"><v>1</v></c></row>
+  <row r="3"/>
+  <row r="4"><c r="A4" t="inlineStr"><is><t>2024-02-01</t></is></c><c r="C4"><v>51</v></c></row>
+</sheetData></worksheet>`;
+
+const NOTES_SHEET = `<?xml version="1.0" encoding="UTF-8"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>
+  <row r="1"><c r="A1" t="inlineStr"><is><t>Notes</t></is></c></row>
+</sheetData></worksheet>`;
+
+function workbook(entries: Record<string, string>): Buffer {
+  const zip = new AdmZip();
+  for (const [path, content] of Object.entries(entries)) zip.addFile(path, Buffer.from(content, 'utf8'));
+  return zip.toBuffer();
+}
+
+// Claim a larger uncompressed size in the central directory, as a zip bomb would, without building one
+function withDeclaredSize(buffer: Buffer, size: number): Buffer {
+  const patched = Buffer.from(buffer);
+  for (let offset = patched.indexOf('PK\x01\x02', 0, 'latin1'); offset !== -1; offset = patched.indexOf('PK\x01\x02', offset + 4, 'latin1')) {
+    patched.writeUInt32LE(size, offset + 24);
+  }
+  return patched;
+}
+
+describe('parseCSV', () => {
+  it('reads a header row and string cells', () => {
+    assert.deepEqual(parseCSV('Date,LDL,HDL\n2024-01-01,132,48\n2024-02-01,120,50\n'), {
+      headers: ['Date', 'LDL', 'HDL'],
+      rows: [
+        ['2024-01-01', '132', '48'],
+        ['2024-02-01', '120', '50'],
+      ],
+    });
+  });
+
+  it('takes the delimiter from the header line', () => {
+    assert.deepEqual(parseCSV('Date;LDL\r\n01.02.2024;3,4\r\n').rows, [['01.02.2024', '3,4']]);
+    assert.deepEqual(parseCSV('Date\tLDL\n2024-01-01\t132').rows, [['2024-01-01', '132']]);
+  });
+
+  it('handles quoted cells with delimiters, escaped quotes and line breaks', () => {
+    const data = parseCSV('Test,Value,Comment\n"Cholesterol, total",200,"said ""fasting""\nconfirmed"\n');
+    assert.deepEqual(data.rows, [['Cholesterol, total', '200', 'said "fasting"\nconfirmed']]);
+  });
+
+  it('strips a byte order mark, trims cells and skips blank lines', () => {
+    const data = parseCSV('\uFEFF Date , LDL \n\n2024-01-01 , 132 \n,\n');
+    assert.deepEqual(data, { headers: ['Date', 'LDL'], rows: [['2024-01-01', '132']] });
+  });
+
+  it('pads short rows and drops cells beyond the headers', () => {
+    assert.deepEqual(parseCSV('Date,LDL,HDL\n2024-01-01\n2024-02-01,120,50,extra').rows, [
+      ['2024-01-01', '', ''],
+      ['2024-02-01', '120', '50'],
+    ]);
+  });
+
+  it('returns no headers for an empty file', () => {
+    assert.deepEqual(parseCSV(''), { headers: [], rows: [] });
+  });
+});
+
+describe('parseXLSX', () => {
+  const buffer = workbook({
+    'xl/workbook.xml': WORKBOOK,
+    'xl/_rels/workbook.xml.rels': RELATIONSHIPS,
+    'xl/sharedStrings.xml': SHARED_STRINGS,
+    'xl/worksheets/sheet1.xml': NOTES_SHEET,
+    'xl/worksheets/sheet2.xml': RESULTS_SHEET,
+  });
+
+  it('reads the first worksheet in workbook order', () => {
+    assert.deepEqual(parseXLSX(buffer).headers, ['Date', 'LDL (mg/dL)', 'HDL & notes', 'Fasting']);
+  });
+
+  it('reads shared, inline and boolean cells and numbers as written', () => {
+    assert.deepEqual(parseXLSX(buffer).rows, [
+      ['45292', '132.5', '48', 'TRUE'],
+      ['2024-02-01', '', '51', ''],
+    ]);
+  });
+
+  it('falls back to sheet1.xml without workbook relationships', () => {
+    const data = parseXLSX(workbook({ 'xl/worksheets/sheet1.xml': NOTES_SHEET }));
+    assert.deepEqual(data, { headers: ['Notes'], rows: [] });
+  });
+
+  it('rejects a workbook without a worksheet', () => {
+    assert.throws(() => parseXLSX(workbook({ 'xl/workbook.xml': WORKBOOK })), /The workbook has no worksheet/);
+  });
+
+  it('rejects a part that inflates beyond the size limit before unzipping it', () => {
+    const oversized = withDeclaredSize(workbook({ 'xl/worksheets/sheet1.xml': NOTES_SHEET }), MAX_XLSX_ENTRY_SIZE + 1);
+    assert.throws(() => parseXLSX(oversized), /The workbook is too large to import \(xl\/worksheets\/sheet1\.xml exceeds 50MB/);
+  });
+});
+
+describe('parseSpreadsheet', () => {
+  it('chooses the parser by file extension', () => {
+    assert.deepEqual(parseSpreadsheet(Buffer.from('Date,LDL\n2024-01-01,132'), 'Results.CSV').headers, ['Date', 'LDL']);
+    assert.deepEqual(parseSpreadsheet(workbook({ 'xl/worksheets/sheet1.xml': NOTES_SHEET }), 'results.xlsx').headers, ['Notes']);
+    assert.throws(() => parseSpreadsheet(Buffer.from(''), 'results.pdf'), /Unsupported file type/);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Trend Analysis Tests
+ * Date-aware least-squares fit and the significance rule of biomarker trends
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculateTrendRegression, fitLinearTrend, tCritical95 } from '../src/lib/trendAnalysis';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = new Date('2024-01-01T00:00:00Z');
+
+// Values on the given day offsets from START, oldest first
+function series(...points: Array<[number, number]>): Array<{ date: Date; value: number }> {
+  return points.map(([day, value]) => ({ date: new Date(START.getTime() + day * DAY_MS), value }));
+}
+
+const close = (actual: number, expected: number, tolerance = 1e-9) =>
+  assert.ok(Math.abs(actual - expected) <= tolerance, `expected ${expected} ± ${tolerance}, got ${actual}`);
+
+describe('fitLinearTrend', () => {
+  it('recovers the slope and intercept of exactly linear data on uneven dates', () => {
+    const fit = fitLinearTrend(series([0, 200], [30, 197], [120, 188], [365, 163.5]));
+    assert.ok(fit);
+    close(fit.slopePerDay, -0.1);
+    close(fit.intercept, 200);
+    close(fit.residualStandardError!, 0);
+    assert.equal(fit.n, 4);
+    assert.equal(fit.spanDays, 365);
+    assert.deepEqual(fit.start, START);
+  });
+
+  it('weights measurements by their dates rather than their order', () => {
+    // Evenly spaced indices would give a slope of 10 per step; the dates say 1 per day
+    const fit = fitLinearTrend(series([0, 100], [10, 110], [40, 140]));
+    close(fit!.slopePerDay, 1);
+  });
+
+  it('has no residual error with only two points', () => {
+    const fit = fitLinearTrend(series([0, 5.4], [90, 6.3]));
+    assert.ok(fit);
+    close(fit.slopePerDay, 0.01);
+    assert.equal(fit.residualStandardError, null);
+  });
+
+  it('computes the residual standard error of scattered data', () => {
+    // Residuals about the line y = 1 + x are +1, -2, +1 around a mean of zero
+    const fit = fitLinearTrend(series([0, 2], [1, 0], [2, 4]));
+    close(fit!.slopePerDay, 1);
+    close(fit!.intercept, 1);
+    close(fit!.residualStandardError!, Math.sqrt(6));
+  });
+
+  it('returns null with fewer than two points or a single date', () => {
+    assert.equal(fitLinearTrend([]), null);
+    assert.equal(fitLinearTrend(series([0, 100])), null);
+    assert.equal(fitLinearTrend(series([5, 100], [5, 120], [5, 110])), null);
+  });
+});
+
+describe('tCritical95', () => {
+  it('uses the exact table for small degrees of freedom', () => {
+    assert.equal(tCritical95(1), 12.706);
+    assert.equal(tCritical95(2), 4.303);
+    assert.equal(tCritical95(10), 2.228);
+  });
+
+  it('approximates larger degrees of freedom within 0.01', () => {
+    close(tCritical95(20), 2.086, 0.01);
+    close(tCritical95(30), 2.042, 0.01);
+    close(tCritical95(120), 1.980, 0.01);
+  });
+});
+
+describe('calculateTrendRegression', () => {
+  it('reports a steady fall as significant with a confidence interval below zero', () => {
+    const regression = calculateTrendRegression(series([0, 160], [91, 151], [182, 139], [273, 131], [365, 120]), 10);
+    assert.ok(regression);
+    assert.ok(regression.significant);
+    assert.ok(regression.confidenceInterval![1] < 0);
+    assert.ok(regression.ratePerYear < -35 && regression.ratePerYear > -45);
+    close(regression.ratePerMonth, regression.ratePerYear / 12);
+    close(regression.fittedChange, (regression.ratePerYear / 365.25) * 365);
+    assert.equal(regression.spanDays, 365);
+    assert.equal(regression.meaningfulChange, 10);
+  });
+
+  it('treats a consistent change smaller than the meaningful change as stable', () => {
+    const regression = calculateTrendRegression(series([0, 100], [100, 101], [200, 102], [300, 103]), 10);
+    assert.ok(regression!.confidenceInterval![0] > 0);
+    assert.equal(regression!.significant, false);
+  });
+
+  it('treats noisy data whose confidence interval spans zero as stable', () => {
+    const regression = calculateTrendRegression(series([0, 100], [30, 140], [60, 95], [90, 150]), 10);
+    assert.ok(Math.abs(regression!.fittedChange) >= 10);
+    assert.ok(regression!.confidenceInterval![0] < 0 && regression!.confidenceInterval![1] > 0);
+    assert.equal(regression!.significant, false);
+  });
+
+  it('judges two measurements on the meaningful change alone', () => {
+    const rising = calculateTrendRegression(series([0, 5.6], [180, 6.1]), 0.3);
+    assert.equal(rising!.confidenceInterval, null);
+    assert.equal(rising!.significant, true);
+
+    const small = calculateTrendRegression(series([0, 5.6], [180, 5.8]), 0.3);
+    assert.equal(small!.significant, false);
+  });
+
+  it('returns null when all measurements share one date', () => {
+    assert.equal(calculateTrendRegression(series([0, 100], [0, 130]), 10), null);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Unit Conversion Tests
+ * Canonical units on ingest, display units and risk calculator inputs
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  convertFromCanonical,
+  convertToCanonical,
+  convertTrendRowForDisplay,
+  normalizeBiomarkerValue,
+  normalizeRiskFactorInputs,
+  normalizeUnitString,
+  toDisplayUnit,
+  UNIT_REGISTRY,
+} from '../src/lib/unitConversion';
+import { REFERENCE_RANGES } from '../src/lib/referenceRanges';
+
+describe('normalizeUnitString', () => {
+  it('maps lab spellings to the registry spelling', () => {
+    assert.equal(normalizeUnitString(' MG/DL '), 'mg/dL');
+    assert.equal(normalizeUnitString('μmol/L'), 'µmol/L'); // Greek mu
+    assert.equal(normalizeUnitString('umol/l'), 'µmol/L');
+    assert.equal(normalizeUnitString('K/uL'), '10^3/µL');
+    assert.equal(normalizeUnitString('mL/min/1.73 m2'), 'mL/min/1.73m²');
+  });
+
+  it('returns unknown units trimmed', () => {
+    assert.equal(normalizeUnitString(' furlongs '), 'furlongs');
+  });
+});
+
+describe('convertToCanonical', () => {
+  it('converts with the analyte-specific factor', () => {
+    assert.equal(convertToCanonical('cholesterol_total', 5.2, 'mmol/L'), 201.1);
+    assert.equal(convertToCanonical('triglycerides', 1.7, 'mmol/L'), 150.6);
+    assert.equal(convertToCanonical('glucose_fasting', 5.5, 'mmol/L'), 99.1);
+    assert.equal(convertToCanonical('creatinine', 88.42, 'umol/L'), 1);
+    assert.equal(convertToCanonical('weight', 154.3, 'lbs'), 69.99);
+  });
+
+  it('applies the IFCC to NGSP offset for HbA1c', () => {
+    assert.equal(convertToCanonical('hba1c', 48, 'mmol/mol'), 6.54);
+  });
+
+  it('leaves canonical values untouched', () => {
+    assert.equal(convertToCanonical('cholesterol_ldl', 129.456, 'mg/dL'), 129.456);
+  });
+
+  it('returns null for unknown units and analytes', () => {
+    assert.equal(convertToCanonical('cholesterol_ldl', 3, 'g/L'), null);
+    assert.equal(convertToCanonical('lipoprotein_a', 30, 'mg/dL'), null);
+  });
+
+  it('round-trips through every unit at display precision', () => {
+    for (const [analyte, { units }] of Object.entries(UNIT_REGISTRY)) {
+      for (const unit of units) {
+        const canonical = convertToCanonical(analyte, 10, unit.unit)!;
+        assert.equal(convertFromCanonical(analyte, canonical, unit.unit), 10, `${analyte} in ${unit.unit}`);
+      }
+    }
+  });
+
+  it('uses the reference-range catalog unit as the canonical unit', () => {
+    for (const [analyte, { canonicalUnit, units }] of Object.entries(UNIT_REGISTRY)) {
+      assert.equal(units[0].unit, canonicalUnit, analyte);
+      if (REFERENCE_RANGES[analyte]) assert.equal(REFERENCE_RANGES[analyte].unit, canonicalUnit, analyte);
+    }
+  });
+});
+
+describe('normalizeBiomarkerValue', () => {
+  it('keeps the reported value next to the canonical one', () => {
+    assert.deepEqual(normalizeBiomarkerValue('cholesterol_hdl', 1.2, 'mmol/l'), {
+      value: 46.4,
+      unit: 'mg/dL',
+      originalValue: 1.2,
+      originalUnit: 'mmol/L',
+      converted: true,
+    });
+  });
+
+  it('stores unknown units as reported', () => {
+    const normalized = normalizeBiomarkerValue('cholesterol_hdl', 0.46, 'g/L');
+    assert.equal(normalized.value, 0.46);
+    assert.equal(normalized.unit, 'g/L');
+    assert.equal(normalized.converted, false);
+  });
+});
+
+describe('toDisplayUnit', () => {
+  it('uses the preferred unit when there is one', () => {
+    assert.deepEqual(toDisplayUnit('glucose_fasting', 99, 'mg/dL', { glucose_fasting: 'mmol/L' }), { value: 5.5, unit: 'mmol/L' });
+    assert.deepEqual(toDisplayUnit('glucose_fasting', 99, 'mg/dL', null), { value: 99, unit: 'mg/dL' });
+  });
+
+  it('falls back to the stored unit for a preference it cannot convert to', () => {
+    assert.deepEqual(toDisplayUnit('glucose_fasting', 99, 'mg/dL', { glucose_fasting: 'g/L' }), { value: 99, unit: 'mg/dL' });
+  });
+});
+
+describe('convertTrendRowForDisplay', () => {
+  it('converts the value and its limits together', () => {
+    const row = { biomarkerType: 'creatinine', value: 1.1, unit: 'mg/dL', referenceLow: 0.74, referenceHigh: 1.35, criticalLow: null, criticalHigh: 4 };
+    assert.deepEqual(convertTrendRowForDisplay(row, { creatinine: 'µmol/L' }), {
+      ...row,
+      value: 97,
+      unit: 'µmol/L',
+      referenceLow: 65,
+      referenceHigh: 119,
+      criticalHigh: 354,
+    });
+  });
+});
+
+describe('normalizeRiskFactorInputs', () => {
+  it('converts { value, unit } inputs and keeps plain numbers', () => {
+    const normalized = normalizeRiskFactorInputs({
+      age: 55,
+      totalCholesterol: { value: 5.2, unit: 'mmol/L' },
+      hdlCholesterol: 50,
+      hba1c: { value: 48, unit: 'mmol/mol' },
+    });
+    assert.deepEqual(normalized, { age: 55, totalCholesterol: 201.1, hdlCholesterol: 50, hba1c: 6.54 });
+  });
+
+  it('rejects a unit the analyte cannot be given in', () => {
+    assert.throws(
+      () => normalizeRiskFactorInputs({ systolicBP: { value: 120, unit: 'mg/dL' } }),
+      /Unsupported unit "mg\/dL" for systolicBP/
+    );
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Wearable Import Tests
+ * Reads the sample Apple Health export in tests/fixtures as a plain export.xml
+ * and as the export.zip the Health app produces
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import path from 'path';
+import AdmZip from 'adm-zip';
+import { readWearableExport, WearableData } from '../src/lib/wearableImport';
+
+const EXPORT_XML = readFileSync(path.join(__dirname, 'fixtures', 'apple-health-export.xml'));
+
+function exportZip(): Buffer {
+  const zip = new AdmZip();
+  zip.addFile('apple_health_export/export.xml', EXPORT_XML);
+  return zip.toBuffer();
+}
+
+const valueOn = (data: WearableData, biomarkerType: string, day: string) =>
+  data.aggregates.find((aggregate) => aggregate.biomarkerType === biomarkerType && aggregate.day === day);
+
+for (const [name, read] of [
+  ['export.xml', () => readWearableExport(EXPORT_XML, 'export.xml')],
+  ['export.zip', () => readWearableExport(exportZip(), 'export.zip')],
+] as const) {
+  describe(`Apple Health ${name}`, () => {
+    it('keeps morning readings with the numeric preprandial meal time as fasting glucose', async () => {
+      const data = await read();
+      assert.equal(data.source, 'APPLE_HEALTH');
+      assert.equal(valueOn(data, 'glucose_fasting', '2024-03-01')?.value, 96);
+      assert.equal(valueOn(data, 'glucose_fasting', '2024-03-02')?.value, 97); // 5.4 mmol/L
+    });
+
+    it('skips glucose readings after a meal, later in the day or without a meal time', async () => {
+      const data = await read();
+      assert.equal(valueOn(data, 'glucose_fasting', '2024-03-03'), undefined);
+      assert.equal(valueOn(data, 'glucose_fasting', '2024-03-04'), undefined);
+      assert.equal(data.skippedCount, 3);
+    });
+
+    it('counts blood pressure correlations once and averages the day', async () => {
+      const data = await read();
+      const systolic = valueOn(data, 'bp_systolic', '2024-03-01');
+      assert.equal(systolic?.value, 128);
+      assert.equal(systolic?.sampleCount, 2);
+      assert.equal(valueOn(data, 'bp_diastolic', '2024-03-01')?.value, 82);
+    });
+
+    it('prefers resting heart rate over the daily median', async () => {
+      const data = await read();
+      assert.equal(valueOn(data, 'heart_rate', '2024-03-01')?.value, 80);
+      assert.equal(valueOn(data, 'heart_rate', '2024-03-02')?.value, 58);
+      assert.equal(valueOn(data, 'heart_rate', '2024-03-02')?.label, 'Resting heart rate');
+    });
+  });
+}